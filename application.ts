@@ -56,6 +56,42 @@ export interface IEventLoader<Ei extends EventShape> {
   ) => Promise<readonly Ei[]>;
 }
 
+/**
+ * Options for {@link IEventSubscriber.subscribe}.
+ *
+ * @property after - Event id to resume after; events appended after it are delivered first (default: only events appended after subscribing)
+ * @property signal - Ends the subscription when aborted
+ */
+export interface SubscribeOptions {
+  readonly after?: string;
+  readonly signal?: AbortSignal;
+}
+
+/**
+ * Push-based feed of newly appended events, filtered by query tuples.
+ *
+ * @remarks
+ * Lets process managers and projections run as separate consumers of the event
+ * store instead of being invoked inline with command handling. Events are
+ * delivered in store order with their metadata.
+ *
+ * @typeParam Ei - Input event type to subscribe to
+ * @typeParam EM - Event metadata type
+ */
+export interface IEventSubscriber<Ei extends EventShape, EM> {
+  /**
+   * Subscribes to events matching the given query tuples.
+   *
+   * @param queryTuples - Array of query tuples specifying which events to deliver
+   * @param options - Resume position and abort signal
+   * @returns An async iterable of events, ending when the signal is aborted
+   */
+  readonly subscribe: (
+    queryTuples: QueryTuple<Ei>[],
+    options?: SubscribeOptions,
+  ) => AsyncIterable<Ei & EM>;
+}
+
 /**
  * Repository interface for event-sourced command processing.
  *
@@ -118,7 +154,6 @@ export interface IEventRepository<
  * @typeParam CM - Command metadata type (e.g., correlation ID, user context)
  * @typeParam SM - State metadata type (e.g., version, timestamp)
  */
-// TODO: add demo usage
 export interface IStateRepository<
   C extends CommandShape,
   S,
@@ -151,6 +186,69 @@ export interface IStateRepository<
   ) => Promise<S & SM>;
 }
 
+/**
+ * Middleware around a handler invocation.
+ *
+ * @remarks
+ * Receives the handler's input and `next`, the rest of the pipeline. It can inspect
+ * or replace the input before calling `next`, inspect or replace the output after,
+ * or short-circuit by not calling `next` at all (e.g. rejecting an unauthorized
+ * command). Logging, authorization, validation, metrics, tracing and timeouts are
+ * written once and passed to any handler as its trailing constructor argument;
+ * the first middleware is the outermost.
+ *
+ * Command handlers pass the commands with their metadata as an array — one
+ * element for `handle`, all commands for `handleBatch` — so batches go through
+ * the same checks. Middleware may replace the commands of `handle`, but must pass
+ * on exactly one; `handle` rejects with a `RangeError` otherwise.
+ *
+ * @example
+ * ```ts
+ * const logging: Middleware<readonly (OrderCommand & CommandMetadata)[], unknown> =
+ *   async (commands, next) => {
+ *     console.log("handling", commands.map((c) => c.kind));
+ *     const result = await next(commands);
+ *     console.log("handled", result);
+ *     return result;
+ *   };
+ * ```
+ *
+ * @typeParam I - Handler input (commands, event or query tuples, with metadata)
+ * @typeParam O - Handler output (events or state, with metadata)
+ */
+export type Middleware<I, O> = (
+  input: I,
+  next: (input: I) => Promise<O>,
+) => Promise<O>;
+
+/**
+ * Composes middleware around a handler; synchronous throws become rejections.
+ */
+function pipeline<I, O>(
+  middleware: readonly Middleware<I, O>[],
+  handler: (input: I) => Promise<O>,
+): (input: I) => Promise<O> {
+  return middleware.reduceRight<(input: I) => Promise<O>>(
+    (next, current) => (input) =>
+      new Promise<O>((resolve) => resolve(current(input, next))),
+    handler,
+  );
+}
+
+/**
+ * Returns the command `handle` passed through its middleware.
+ *
+ * @throws RangeError if the middleware passed on another number of commands
+ */
+function singleCommand<C>(commands: readonly C[]): C {
+  if (commands.length !== 1) {
+    throw new RangeError(
+      `handle expects one command from its middleware, got ${commands.length}`,
+    );
+  }
+  return commands[0];
+}
+
 /**
  * Command handler for event-sourced aggregates.
  *
@@ -181,10 +279,36 @@ export class EventSourcedCommandHandler<
   CM extends CommandMetadata,
   EM extends EventMetadata,
 > {
+  private readonly execute: (
+    commands: readonly (C & CM)[],
+  ) => Promise<readonly (Eo & EM)[]>;
+  private readonly executeBatch: (
+    commands: readonly (C & CM)[],
+  ) => Promise<readonly (Eo & EM)[]>;
+
+  /**
+   * @param decider - The decider computing new events
+   * @param eventRepository - The repository loading and persisting events
+   * @param middleware - Middleware around every `handle` and `handleBatch` (see `Middleware`). Default: none
+   */
   constructor(
     private readonly decider: IEventComputation<C, Ei, Eo>,
     private readonly eventRepository: IEventRepository<C, Ei, Eo, CM, EM>,
-  ) {}
+    middleware: readonly Middleware<
+      readonly (C & CM)[],
+      readonly (Eo & EM)[]
+    >[] = [],
+  ) {
+    this.execute = pipeline(
+      middleware,
+      (commands) =>
+        this.eventRepository.execute(singleCommand(commands), this.decider),
+    );
+    this.executeBatch = pipeline(
+      middleware,
+      (commands) => this.eventRepository.executeBatch(commands, this.decider),
+    );
+  }
 
   /**
    * Handles a command by executing it through the event repository.
@@ -193,7 +317,7 @@ export class EventSourcedCommandHandler<
    * @returns A promise resolving to the newly produced events with their metadata
    */
   handle(command: C & CM): Promise<readonly (Eo & EM)[]> {
-    return this.eventRepository.execute(command, this.decider);
+    return this.execute([command]);
   }
 
   /**
@@ -203,7 +327,7 @@ export class EventSourcedCommandHandler<
    * @returns A promise resolving to all produced events with their metadata, preserving production order
    */
   handleBatch(commands: readonly (C & CM)[]): Promise<readonly (Eo & EM)[]> {
-    return this.eventRepository.executeBatch(commands, this.decider);
+    return this.executeBatch(commands);
   }
 }
 
@@ -229,17 +353,37 @@ export class EventSourcedCommandHandler<
  * @typeParam CM - Command metadata type
  * @typeParam SM - State metadata type
  */
-// TODO: add demo usage
 export class StateStoredCommandHandler<
   C extends CommandShape,
   S,
   CM extends CommandMetadata,
   SM,
 > {
+  private readonly execute: (commands: readonly (C & CM)[]) => Promise<S & SM>;
+  private readonly executeBatch: (
+    commands: readonly (C & CM)[],
+  ) => Promise<S & SM>;
+
+  /**
+   * @param decider - The decider computing the new state
+   * @param stateRepository - The repository loading and persisting state
+   * @param middleware - Middleware around every `handle` and `handleBatch` (see `Middleware`). Default: none
+   */
   constructor(
     private readonly decider: IStateComputation<C, S>,
     private readonly stateRepository: IStateRepository<C, S, CM, SM>,
-  ) {}
+    middleware: readonly Middleware<readonly (C & CM)[], S & SM>[] = [],
+  ) {
+    this.execute = pipeline(
+      middleware,
+      (commands) =>
+        this.stateRepository.execute(singleCommand(commands), this.decider),
+    );
+    this.executeBatch = pipeline(
+      middleware,
+      (commands) => this.stateRepository.executeBatch(commands, this.decider),
+    );
+  }
 
   /**
    * Handles a command by executing it through the state repository.
@@ -248,7 +392,7 @@ export class StateStoredCommandHandler<
    * @returns A promise resolving to the new state with its metadata
    */
   handle(command: C & CM): Promise<S & SM> {
-    return this.stateRepository.execute(command, this.decider);
+    return this.execute([command]);
   }
 
   /**
@@ -258,7 +402,119 @@ export class StateStoredCommandHandler<
    * @returns A promise resolving to the final state with its metadata
    */
   handleBatch(commands: readonly (C & CM)[]): Promise<S & SM> {
-    return this.stateRepository.executeBatch(commands, this.decider);
+    return this.executeBatch(commands);
+  }
+}
+
+/**
+ * A command handler as seen by the `CommandBus`.
+ *
+ * @remarks
+ * Both `EventSourcedCommandHandler` and `StateStoredCommandHandler` conform to it.
+ *
+ * @typeParam C - Command type accepted by the handler
+ * @typeParam CM - Command metadata type
+ * @typeParam R - Result type (new events or new state, with metadata)
+ */
+export interface ICommandHandler<C extends CommandShape, CM, R> {
+  readonly handle: (command: C & CM) => Promise<R>;
+}
+
+/**
+ * Handlers of a `CommandBus`, one per command kind.
+ *
+ * @remarks
+ * The mapped type makes registration exhaustive: every kind of `C` needs a handler
+ * accepting that kind's command, and unknown kinds are rejected by the compiler.
+ * One handler may be registered under each of the kinds it accepts.
+ *
+ * @typeParam C - Command type (union) routed by the bus
+ * @typeParam CM - Command metadata type
+ */
+export type CommandHandlers<C extends CommandShape, CM> = {
+  readonly [K in C["kind"]]: ICommandHandler<
+    Extract<C, { readonly kind: K }>,
+    CM,
+    unknown
+  >;
+};
+
+/**
+ * Result of dispatching a command of kind `K` to the handlers `H`.
+ */
+export type CommandResult<H, K extends keyof H> = H[K] extends
+  ICommandHandler<never, never, infer R> ? R : never;
+
+/**
+ * Error thrown when a dispatched command's kind has no registered handler.
+ *
+ * Registration is checked at compile time, so this indicates a command built
+ * outside the type system (e.g. parsed from a request body).
+ */
+export class UnknownCommandError extends Error {
+  constructor(public readonly commandKind: string) {
+    super(`No handler registered for command "${commandKind}"`);
+    this.name = "UnknownCommandError";
+  }
+}
+
+/**
+ * Routes commands to their handlers by `kind`.
+ *
+ * @remarks
+ * A single entry point for the command side: with sliced handlers (one decider and
+ * repository per use case), the bus picks the handler of each command instead of
+ * the application, and — unlike a decider combined via `combineViaTuples` — only
+ * that handler's decider runs. Event-sourced and state-stored handlers can be mixed.
+ *
+ * Declare the handlers with `satisfies CommandHandlers<C, CM>` and pass their type
+ * as `H`, so that each dispatch is typed with the result of its kind's handler.
+ *
+ * @example
+ * ```ts
+ * const handlers = {
+ *   CreateRestaurantCommand: restaurantHandler,
+ *   ChangeRestaurantMenuCommand: restaurantHandler,
+ *   PlaceOrderCommand: restaurantHandler,
+ *   CreateOrderCommand: orderHandler,
+ *   MarkOrderAsPreparedCommand: orderHandler,
+ * } satisfies CommandHandlers<Command, CommandMetadata>;
+ *
+ * const bus = new CommandBus<Command, CommandMetadata, typeof handlers>(handlers);
+ * const events = await bus.dispatch(markOrderAsPreparedCommand);
+ * ```
+ *
+ * @typeParam C - Command type (union) routed by the bus
+ * @typeParam CM - Command metadata type
+ * @typeParam H - Handlers type, for typed results (default: results are `unknown`)
+ */
+export class CommandBus<
+  C extends CommandShape,
+  CM extends CommandMetadata,
+  H extends CommandHandlers<C, CM> = CommandHandlers<C, CM>,
+> {
+  constructor(private readonly handlers: H) {}
+
+  /**
+   * Dispatches a command to the handler registered for its kind.
+   *
+   * @param command - The command with metadata to dispatch
+   * @returns A promise resolving to the handler's result
+   * @throws UnknownCommandError if no handler is registered for the command's kind
+   */
+  dispatch<K extends C["kind"]>(
+    command: Extract<C, { readonly kind: K }> & CM,
+  ): Promise<CommandResult<H, K>> {
+    if (!Object.hasOwn(this.handlers, command.kind)) {
+      return Promise.reject(new UnknownCommandError(command.kind));
+    }
+    const handler = this
+      .handlers[command.kind as K] as unknown as ICommandHandler<
+        Extract<C, { readonly kind: K }>,
+        CM,
+        CommandResult<H, K>
+      >;
+    return handler.handle(command);
   }
 }
 
@@ -280,7 +536,6 @@ export class StateStoredCommandHandler<
  * @typeParam EM - Event metadata type (e.g., timestamp, position, causation ID)
  * @typeParam SM - State metadata type (e.g., version, last updated timestamp)
  */
-// TODO: add demo usage
 export interface IViewStateRepository<E extends EventShape, S, EM, SM> {
   /**
    * Executes event projection by loading state, evolving it via the view, and persisting it.
@@ -318,10 +573,23 @@ export interface IViewStateRepository<E extends EventShape, S, EM, SM> {
  * @typeParam SM - State metadata type
  */
 export class EventHandler<E extends EventShape, S, EM, SM> {
+  private readonly execute: (event: E & EM) => Promise<S & SM>;
+
+  /**
+   * @param view - The projection evolving the view state
+   * @param viewStateRepository - The repository loading and persisting the view state
+   * @param middleware - Middleware around every `handle` (see `Middleware`). Default: none
+   */
   constructor(
     private readonly view: IProjection<S, E>,
     private readonly viewStateRepository: IViewStateRepository<E, S, EM, SM>,
-  ) {}
+    middleware: readonly Middleware<E & EM, S & SM>[] = [],
+  ) {
+    this.execute = pipeline(
+      middleware,
+      (event) => this.viewStateRepository.execute(event, this.view),
+    );
+  }
 
   /**
    * Handles an event by executing it through the view state repository.
@@ -330,7 +598,7 @@ export class EventHandler<E extends EventShape, S, EM, SM> {
    * @returns A promise resolving to the updated state with its metadata
    */
   handle(event: E & EM): Promise<S & SM> {
-    return this.viewStateRepository.execute(event, this.view);
+    return this.execute(event);
   }
 }
 
@@ -354,10 +622,29 @@ export class EventHandler<E extends EventShape, S, EM, SM> {
  * @typeParam S - State type representing the projected result
  */
 export class EventSourcedQueryHandler<E extends EventShape, S> {
+  private readonly execute: (queryTuples: QueryTuple<E>[]) => Promise<S>;
+
+  /**
+   * @param view - The projection folding the loaded events
+   * @param eventLoader - The loader of events by query tuples
+   * @param middleware - Middleware around every `handle` (see `Middleware`). Default: none
+   */
   constructor(
     private readonly view: IProjection<S, E>,
     private readonly eventLoader: IEventLoader<E>,
-  ) {}
+    middleware: readonly Middleware<QueryTuple<E>[], S>[] = [],
+  ) {
+    this.execute = pipeline(
+      middleware,
+      (queryTuples) =>
+        this.eventLoader.load(queryTuples).then((events) =>
+          events.reduce(
+            (state, event) => this.view.evolve(state, event),
+            this.view.initialState,
+          )
+        ),
+    );
+  }
 
   /**
    * Handles a query by loading events and folding them through the view projection.
@@ -366,11 +653,6 @@ export class EventSourcedQueryHandler<E extends EventShape, S> {
    * @returns A promise resolving to the projected state
    */
   handle(queryTuples: QueryTuple<E>[]): Promise<S> {
-    return this.eventLoader.load(queryTuples).then((events) =>
-      events.reduce(
-        (state, event) => this.view.evolve(state, event),
-        this.view.initialState,
-      )
-    );
+    return this.execute(queryTuples);
   }
 }
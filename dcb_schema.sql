@@ -33,6 +33,7 @@ CREATE TABLE IF NOT EXISTS dcb.events (
     data            bytea,
     tags            text[]       NOT NULL,
     idempotency_key text         NOT NULL,
+    metadata        jsonb,
     created_at      timestamptz  NOT NULL DEFAULT now()
 );
 
@@ -48,6 +49,80 @@ CREATE TABLE IF NOT EXISTS dcb.event_tags (
     PRIMARY KEY (tag, main_id)
 );
 
+-- State-stored aggregates: one row per aggregate id, versioned for compare-and-set
+CREATE TABLE IF NOT EXISTS dcb.states (
+    id              text        PRIMARY KEY,
+    data            bytea,
+    version         bigint      NOT NULL,
+    idempotency_key text        NOT NULL,
+    updated_at      timestamptz NOT NULL DEFAULT now()
+);
+
+-- Idempotency keys of state-stored commands, with the state each key produced
+CREATE TABLE IF NOT EXISTS dcb.state_idempotency_keys (
+    idempotency_key text        PRIMARY KEY,
+    state_id        text        NOT NULL,
+    command_kind    text        NOT NULL,
+    data            bytea,
+    version         bigint      NOT NULL,
+    created_at      timestamptz NOT NULL DEFAULT now()
+);
+
+-- Materialized views: one row per view id with the last applied event id
+CREATE TABLE IF NOT EXISTS dcb.view_states (
+    id              text        PRIMARY KEY,
+    data            bytea,
+    last_event_id   text        NOT NULL,
+    version         bigint      NOT NULL,
+    updated_at      timestamptz NOT NULL DEFAULT now()
+);
+
+-- Catch-up projections: last processed dcb.events.id per projection name
+CREATE TABLE IF NOT EXISTS dcb.checkpoints (
+    name            text        PRIMARY KEY,
+    position        bigint      NOT NULL,
+    updated_at      timestamptz NOT NULL DEFAULT now()
+);
+
+-- Process deadlines: scheduled deadlines of process instances, removed once delivered
+CREATE TABLE IF NOT EXISTS dcb.process_deadlines (
+    process_name    text        NOT NULL,
+    process_id      text        NOT NULL,
+    name            text        NOT NULL,
+    due_at          bigint      NOT NULL,
+    created_at      timestamptz NOT NULL DEFAULT now(),
+    PRIMARY KEY (process_name, process_id, name, due_at)
+);
+
+-- Transactional outbox: appended events awaiting publication, removed once acknowledged.
+-- Filled by unconditional_append when the dcb.outbox setting is 'on'.
+CREATE TABLE IF NOT EXISTS dcb.outbox (
+    event_id        bigint      PRIMARY KEY REFERENCES dcb.events(id),
+    attempts        integer     NOT NULL DEFAULT 0,
+    last_error      text,
+    dead_lettered   boolean     NOT NULL DEFAULT false,
+    created_at      timestamptz NOT NULL DEFAULT now()
+);
+
+-- Snapshots: state folded from the events of a set of query tuples, up to position.
+-- key is the SHA-256 of the query tuples; name separates deciders and state versions.
+CREATE TABLE IF NOT EXISTS dcb.snapshots (
+    name            text        NOT NULL,
+    key             text        NOT NULL,
+    state           bytea       NOT NULL,
+    position        bigint      NOT NULL,
+    updated_at      timestamptz NOT NULL DEFAULT now(),
+    PRIMARY KEY (name, key)
+);
+
+-- Encryption keys: one AES-256 key per subject, for field-level encryption of events.
+-- Deleting a subject's row makes its encrypted event fields unreadable (crypto-shredding).
+CREATE TABLE IF NOT EXISTS dcb.encryption_keys (
+    subject_id      text        PRIMARY KEY,
+    key             bytea       NOT NULL,
+    created_at      timestamptz NOT NULL DEFAULT now()
+);
+
 -- ------------------------------------------------------------
 -- 4. Indexes
 -- ------------------------------------------------------------
@@ -56,7 +131,7 @@ CREATE TABLE IF NOT EXISTS dcb.event_tags (
 CREATE UNIQUE INDEX IF NOT EXISTS events_id_cover_type_idx
     ON dcb.events (id) INCLUDE (type);
 
--- Composite index: type-filtered range scans (select_events_by_type, poll_partition)
+-- Composite index: type-filtered range scans (select_events_by_type)
 CREATE INDEX IF NOT EXISTS events_type_id_idx
     ON dcb.events (type, id);
 
@@ -64,6 +139,14 @@ CREATE INDEX IF NOT EXISTS events_type_id_idx
 CREATE INDEX IF NOT EXISTS idx_events_idempotency_key
     ON dcb.events (idempotency_key);
 
+-- Due-at index for polling process deadlines
+CREATE INDEX IF NOT EXISTS process_deadlines_due_at_idx
+    ON dcb.process_deadlines (due_at);
+
+-- Partial index for draining the outbox in append order
+CREATE INDEX IF NOT EXISTS outbox_pending_idx
+    ON dcb.outbox (event_id) WHERE NOT dead_lettered;
+
 -- Note: event_tags PK on (tag, main_id) replaces the old separate index.
 
 -- ------------------------------------------------------------
@@ -211,23 +294,47 @@ AS $$
      ORDER BY id ASC;
 $$;
 
+-- 5.5 Select events of the global log after a position (catch-up projections)
+CREATE OR REPLACE FUNCTION dcb.select_events_after(
+    after_id    bigint DEFAULT 0,
+    limit_count bigint DEFAULT 9223372036854775807
+)
+RETURNS SETOF dcb.events
+LANGUAGE sql
+STABLE
+PARALLEL SAFE
+AS $$
+    SELECT *
+      FROM dcb.events
+     WHERE id > COALESCE(after_id, 0)
+     ORDER BY id ASC
+     LIMIT COALESCE(limit_count, 9223372036854775807);
+$$;
+
 -- ------------------------------------------------------------
 -- 6. Append functions
 -- ------------------------------------------------------------
 
+-- metadata holds the command's correlation id, causation id and headers (NULL when
+-- it has none) and is stored on every appended event.
 CREATE OR REPLACE FUNCTION dcb.unconditional_append(
     new_events      dcb.dcb_event_tt[],
     idempotency_key TEXT,
-    command_kind    TEXT
+    command_kind    TEXT,
+    metadata        jsonb DEFAULT NULL
 )
 RETURNS bigint
 LANGUAGE plpgsql
 AS $$
 DECLARE
-    max_id       bigint;
-    event_record dcb.dcb_event_tt;
-    inserted_id  bigint;
-    tag_item     text;
+    max_id         bigint;
+    event_record   dcb.dcb_event_tt;
+    inserted_id    bigint;
+    tag_item       text;
+    appended_types text[] := '{}';
+    appended_tags  text[] := '{}';
+    payload        text;
+    with_outbox    boolean := COALESCE(current_setting('dcb.outbox', true), '') = 'on';
 BEGIN
     -- Insert into idempotency_keys table (PK rejects duplicates)
     INSERT INTO dcb.idempotency_keys (idempotency_key, command_kind)
@@ -237,11 +344,18 @@ BEGIN
 
     FOREACH event_record IN ARRAY new_events
     LOOP
-        INSERT INTO dcb.events (type, data, tags, idempotency_key)
-        VALUES (event_record.type, event_record.data, event_record.tags, unconditional_append.idempotency_key)
+        INSERT INTO dcb.events (type, data, tags, idempotency_key, metadata)
+        VALUES (event_record.type, event_record.data, event_record.tags, unconditional_append.idempotency_key, unconditional_append.metadata)
         RETURNING id INTO inserted_id;
 
+        -- Record the event for publication in the same transaction
+        IF with_outbox THEN
+            INSERT INTO dcb.outbox (event_id) VALUES (inserted_id);
+        END IF;
+
         max_id := GREATEST(max_id, inserted_id);
+        appended_types := array_append(appended_types, event_record.type);
+        appended_tags := appended_tags || event_record.tags;
 
         FOREACH tag_item IN ARRAY event_record.tags
         LOOP
@@ -250,6 +364,18 @@ BEGIN
         END LOOP;
     END LOOP;
 
+    -- Notify subscribers (delivered on commit). NOTIFY payloads are limited to
+    -- 8000 bytes: fall back to max_id only, which subscribers treat as "may match".
+    payload := json_build_object(
+        'max_id', max_id,
+        'types', (SELECT array_agg(DISTINCT t) FROM unnest(appended_types) AS t),
+        'tags', (SELECT array_agg(DISTINCT t) FROM unnest(appended_tags) AS t)
+    )::text;
+    IF octet_length(payload) > 7999 THEN
+        payload := json_build_object('max_id', max_id)::text;
+    END IF;
+    PERFORM pg_notify('dcb_events', payload);
+
     RETURN max_id;
 END;
 $$;
@@ -259,7 +385,8 @@ CREATE OR REPLACE FUNCTION dcb.conditional_append(
     after_id        bigint,
     new_events      dcb.dcb_event_tt[],
     idempotency_key TEXT,
-    command_kind    TEXT
+    command_kind    TEXT,
+    metadata        jsonb DEFAULT NULL
 )
 RETURNS bigint
 LANGUAGE plpgsql
@@ -311,7 +438,100 @@ BEGIN
       INTO conflict_exists;
 
     IF NOT conflict_exists THEN
-        RETURN dcb.unconditional_append(new_events, conditional_append.idempotency_key, conditional_append.command_kind);
+        RETURN dcb.unconditional_append(new_events, conditional_append.idempotency_key, conditional_append.command_kind, conditional_append.metadata);
+    END IF;
+
+    RETURN NULL;
+END;
+$$;
+
+-- Conditional append with per-key advisory locks instead of the table-level
+-- EXCLUSIVE lock. Locks hashtextextended(type || chr(31) || tag) for every tag of
+-- every query item and every new event, in key order to avoid deadlocks. Two
+-- writers block each other only when one could append an event matching the
+-- other's query, so unrelated boundaries append concurrently.
+--
+-- Each query item must carry exactly one type, and after_ids holds one position
+-- per query item: the id of the last event matching that item (0 when none).
+-- Events matching one item share its locks, so they commit in id order, which
+-- keeps a per-item position safe even though ids no longer become visible
+-- globally in order (do not mix with conditional_append on the same store).
+CREATE OR REPLACE FUNCTION dcb.conditional_append_advisory(
+    query_items     dcb.dcb_query_item_tt[],
+    after_ids       bigint[],
+    new_events      dcb.dcb_event_tt[],
+    idempotency_key TEXT,
+    command_kind    TEXT,
+    metadata        jsonb DEFAULT NULL
+)
+RETURNS bigint
+LANGUAGE plpgsql
+AS $$
+DECLARE
+    conflict_exists boolean;
+    lock_key        bigint;
+BEGIN
+    IF COALESCE(array_length(query_items, 1), 0) <> COALESCE(array_length(after_ids, 1), 0) THEN
+        RAISE EXCEPTION 'conditional_append_advisory: expected one after_id per query item';
+    END IF;
+    IF EXISTS (SELECT 1 FROM unnest(query_items) qi WHERE array_length(qi.types, 1) IS DISTINCT FROM 1) THEN
+        RAISE EXCEPTION 'conditional_append_advisory: each query item must have exactly one type';
+    END IF;
+
+    SET LOCAL lock_timeout = '5s';
+
+    FOR lock_key IN
+        SELECT hashtextextended(qi.types[1] || chr(31) || tag, 0)
+          FROM unnest(query_items) qi, unnest(qi.tags) AS tag
+        UNION
+        SELECT hashtextextended(ev.type || chr(31) || tag, 0)
+          FROM unnest(new_events) ev, unnest(ev.tags) AS tag
+        ORDER BY 1
+    LOOP
+        PERFORM pg_advisory_xact_lock(lock_key);
+    END LOOP;
+
+    -- A new statement takes a new snapshot: appends that held our locks are visible
+    WITH query_items_cte AS (
+        SELECT x.types, x.tags, COALESCE(x.after_id, 0) AS after_id, x.ordinality
+          FROM unnest(query_items, after_ids) WITH ORDINALITY AS x(types, tags, after_id, ordinality)
+    ),
+    initial_matches AS (
+        SELECT t.main_id,
+               qi.ordinality,
+               t.tag,
+               qi.tags  AS required_tags,
+               qi.types AS allowed_types
+          FROM query_items_cte qi
+          JOIN dcb.event_tags t ON t.tag = ANY(qi.tags)
+         WHERE t.main_id > qi.after_id
+    ),
+    matched_groups AS (
+        SELECT main_id,
+               ordinality,
+               COUNT(DISTINCT tag)            AS matched_tag_count,
+               array_length(required_tags, 1) AS required_tag_count,
+               allowed_types
+          FROM initial_matches
+         GROUP BY main_id, ordinality, required_tag_count, allowed_types
+    ),
+    qualified_ids AS (
+        SELECT main_id, allowed_types
+          FROM matched_groups
+         WHERE matched_tag_count = required_tag_count
+    ),
+    conflicts AS (
+        SELECT e.id
+          FROM dcb.events e
+          JOIN qualified_ids q ON q.main_id = e.id
+         WHERE e.type = ANY(q.allowed_types)
+         LIMIT 1
+    )
+    SELECT EXISTS (SELECT 1 FROM conflicts)
+      INTO conflict_exists;
+
+    IF NOT conflict_exists THEN
+        RETURN dcb.unconditional_append(new_events, conditional_append_advisory.idempotency_key, conditional_append_advisory.command_kind, conditional_append_advisory.metadata);
     END IF;
 
     RETURN NULL;
@@ -319,9 +539,94 @@ END;
 $$;
 
 -- ------------------------------------------------------------
--- 7. Access control
+-- 7. State-stored functions
+-- ------------------------------------------------------------
+
+-- Compare-and-set write of an aggregate state.
+-- expected_version = 0 means "no row yet" (insert); otherwise the row is updated
+-- only if its version still matches. Returns the stored row, or NULL on conflict.
+-- A duplicate idempotency key raises unique_violation and rolls the write back.
+CREATE OR REPLACE FUNCTION dcb.conditional_save_state(
+    state_id         text,
+    expected_version bigint,
+    new_data         bytea,
+    idempotency_key  TEXT,
+    command_kind     TEXT
+)
+RETURNS dcb.states
+LANGUAGE plpgsql
+AS $$
+DECLARE
+    saved dcb.states;
+BEGIN
+    IF expected_version = 0 THEN
+        INSERT INTO dcb.states (id, data, version, idempotency_key)
+        VALUES (conditional_save_state.state_id, new_data, 1, conditional_save_state.idempotency_key)
+        ON CONFLICT (id) DO NOTHING
+        RETURNING * INTO saved;
+    ELSE
+        UPDATE dcb.states
+           SET data            = new_data,
+               version         = version + 1,
+               idempotency_key = conditional_save_state.idempotency_key,
+               updated_at      = now()
+         WHERE id = conditional_save_state.state_id
+           AND version = expected_version
+        RETURNING * INTO saved;
+    END IF;
+
+    IF saved.id IS NULL THEN
+        RETURN NULL;
+    END IF;
+
+    -- Insert into state_idempotency_keys table (PK rejects duplicates)
+    INSERT INTO dcb.state_idempotency_keys (idempotency_key, state_id, command_kind, data, version)
+    VALUES (conditional_save_state.idempotency_key, saved.id, conditional_save_state.command_kind, saved.data, saved.version);
+
+    RETURN saved;
+END;
+$$;
+
+-- Compare-and-set write of a materialized view state.
+-- Same versioning rules as conditional_save_state. Returns the stored row, or NULL on conflict.
+CREATE OR REPLACE FUNCTION dcb.conditional_save_view_state(
+    view_id          text,
+    expected_version bigint,
+    new_data         bytea,
+    last_event_id    text
+)
+RETURNS dcb.view_states
+LANGUAGE plpgsql
+AS $$
+DECLARE
+    saved dcb.view_states;
+BEGIN
+    IF expected_version = 0 THEN
+        INSERT INTO dcb.view_states (id, data, last_event_id, version)
+        VALUES (conditional_save_view_state.view_id, new_data, conditional_save_view_state.last_event_id, 1)
+        ON CONFLICT (id) DO NOTHING
+        RETURNING * INTO saved;
+    ELSE
+        UPDATE dcb.view_states
+           SET data          = new_data,
+               last_event_id = conditional_save_view_state.last_event_id,
+               version       = version + 1,
+               updated_at    = now()
+         WHERE id = conditional_save_view_state.view_id
+           AND version = expected_version
+        RETURNING * INTO saved;
+    END IF;
+
+    -- All-NULL row when nothing was saved (version conflict)
+    RETURN saved;
+END;
+$$;
+
+-- ------------------------------------------------------------
+-- 8. Access control
 -- ------------------------------------------------------------
 
--- unconditional_append is an internal helper called only by conditional_append.
--- Revoke public access so external callers cannot bypass the EXCLUSIVE lock.
-REVOKE ALL ON FUNCTION dcb.unconditional_append(dcb.dcb_event_tt[], TEXT, TEXT) FROM PUBLIC;
+-- unconditional_append is an internal helper called only by conditional_append
+-- and conditional_append_advisory. Revoke public access so external callers
+-- cannot bypass their locks.
+REVOKE ALL ON FUNCTION dcb.unconditional_append(dcb.dcb_event_tt[], TEXT, TEXT, jsonb) FROM PUBLIC;
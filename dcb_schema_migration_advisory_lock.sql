@@ -0,0 +1,107 @@
+-- ============================================================
+-- Migration: Add Advisory-Lock Append Path to DCB Schema
+-- ============================================================
+-- This migration is for existing databases that already have the dcb schema.
+-- It adds conditional_append_advisory, used by PostgresEventRepository with
+-- appendLocking = "advisory" to lock per (type, tag) instead of the whole table.
+-- ============================================================
+
+BEGIN;
+
+-- ------------------------------------------------------------
+-- Step 1: Create dcb.conditional_append_advisory
+-- ------------------------------------------------------------
+
+-- Conditional append with per-key advisory locks instead of the table-level
+-- EXCLUSIVE lock. Locks hashtextextended(type || chr(31) || tag) for every tag of
+-- every query item and every new event, in key order to avoid deadlocks. Two
+-- writers block each other only when one could append an event matching the
+-- other's query, so unrelated boundaries append concurrently.
+--
+-- Each query item must carry exactly one type, and after_ids holds one position
+-- per query item: the id of the last event matching that item (0 when none).
+-- Events matching one item share its locks, so they commit in id order, which
+-- keeps a per-item position safe even though ids no longer become visible
+-- globally in order (do not mix with conditional_append on the same store).
+CREATE OR REPLACE FUNCTION dcb.conditional_append_advisory(
+    query_items     dcb.dcb_query_item_tt[],
+    after_ids       bigint[],
+    new_events      dcb.dcb_event_tt[],
+    idempotency_key TEXT,
+    command_kind    TEXT
+)
+RETURNS bigint
+LANGUAGE plpgsql
+AS $$
+DECLARE
+    conflict_exists boolean;
+    lock_key        bigint;
+BEGIN
+    IF COALESCE(array_length(query_items, 1), 0) <> COALESCE(array_length(after_ids, 1), 0) THEN
+        RAISE EXCEPTION 'conditional_append_advisory: expected one after_id per query item';
+    END IF;
+    IF EXISTS (SELECT 1 FROM unnest(query_items) qi WHERE array_length(qi.types, 1) IS DISTINCT FROM 1) THEN
+        RAISE EXCEPTION 'conditional_append_advisory: each query item must have exactly one type';
+    END IF;
+
+    SET LOCAL lock_timeout = '5s';
+
+    FOR lock_key IN
+        SELECT hashtextextended(qi.types[1] || chr(31) || tag, 0)
+          FROM unnest(query_items) qi, unnest(qi.tags) AS tag
+        UNION
+        SELECT hashtextextended(ev.type || chr(31) || tag, 0)
+          FROM unnest(new_events) ev, unnest(ev.tags) AS tag
+        ORDER BY 1
+    LOOP
+        PERFORM pg_advisory_xact_lock(lock_key);
+    END LOOP;
+
+    -- A new statement takes a new snapshot: appends that held our locks are visible
+    WITH query_items_cte AS (
+        SELECT x.types, x.tags, COALESCE(x.after_id, 0) AS after_id, x.ordinality
+          FROM unnest(query_items, after_ids) WITH ORDINALITY AS x(types, tags, after_id, ordinality)
+    ),
+    initial_matches AS (
+        SELECT t.main_id,
+               qi.ordinality,
+               t.tag,
+               qi.tags  AS required_tags,
+               qi.types AS allowed_types
+          FROM query_items_cte qi
+          JOIN dcb.event_tags t ON t.tag = ANY(qi.tags)
+         WHERE t.main_id > qi.after_id
+    ),
+    matched_groups AS (
+        SELECT main_id,
+               ordinality,
+               COUNT(DISTINCT tag)            AS matched_tag_count,
+               array_length(required_tags, 1) AS required_tag_count,
+               allowed_types
+          FROM initial_matches
+         GROUP BY main_id, ordinality, required_tag_count, allowed_types
+    ),
+    qualified_ids AS (
+        SELECT main_id, allowed_types
+          FROM matched_groups
+         WHERE matched_tag_count = required_tag_count
+    ),
+    conflicts AS (
+        SELECT e.id
+          FROM dcb.events e
+          JOIN qualified_ids q ON q.main_id = e.id
+         WHERE e.type = ANY(q.allowed_types)
+         LIMIT 1
+    )
+    SELECT EXISTS (SELECT 1 FROM conflicts)
+      INTO conflict_exists;
+
+    IF NOT conflict_exists THEN
+        RETURN dcb.unconditional_append(new_events, conditional_append_advisory.idempotency_key, conditional_append_advisory.command_kind);
+    END IF;
+
+    RETURN NULL;
+END;
+$$;
+
+COMMIT;
@@ -0,0 +1,30 @@
+-- ============================================================
+-- Migration: Add Process Deadline Support to DCB Schema
+-- ============================================================
+-- This migration is for existing databases that already have the dcb schema.
+-- It adds the deadline table used by PostgresDeadlineScheduler.
+-- ============================================================
+
+BEGIN;
+
+-- ------------------------------------------------------------
+-- Step 1: Create dcb.process_deadlines table
+-- ------------------------------------------------------------
+
+CREATE TABLE IF NOT EXISTS dcb.process_deadlines (
+    process_name    text        NOT NULL,
+    process_id      text        NOT NULL,
+    name            text        NOT NULL,
+    due_at          bigint      NOT NULL,
+    created_at      timestamptz NOT NULL DEFAULT now(),
+    PRIMARY KEY (process_name, process_id, name, due_at)
+);
+
+-- ------------------------------------------------------------
+-- Step 2: Create due-at index
+-- ------------------------------------------------------------
+
+CREATE INDEX IF NOT EXISTS process_deadlines_due_at_idx
+    ON dcb.process_deadlines (due_at);
+
+COMMIT;
@@ -0,0 +1,22 @@
+-- ============================================================
+-- Migration: Add Encryption Key Support to DCB Schema
+-- ============================================================
+-- This migration is for existing databases that already have the dcb schema.
+-- It adds the per-subject key table used by PostgresKeyStore, which lets
+-- FieldEncryption store personal event fields encrypted and forget them by
+-- deleting the subject's key.
+-- ============================================================
+
+BEGIN;
+
+-- ------------------------------------------------------------
+-- Step 1: Create dcb.encryption_keys table
+-- ------------------------------------------------------------
+
+CREATE TABLE IF NOT EXISTS dcb.encryption_keys (
+    subject_id      text        PRIMARY KEY,
+    key             bytea       NOT NULL,
+    created_at      timestamptz NOT NULL DEFAULT now()
+);
+
+COMMIT;
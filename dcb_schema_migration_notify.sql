@@ -0,0 +1,71 @@
+-- ============================================================
+-- Migration: Add LISTEN/NOTIFY Support to DCB Schema
+-- ============================================================
+-- This migration is for existing databases that already have the dcb schema.
+-- It makes unconditional_append notify the 'dcb_events' channel with the new
+-- max id and the appended types and tags, used by PostgresEventSubscriber.
+-- ============================================================
+
+BEGIN;
+
+-- ------------------------------------------------------------
+-- Step 1: Replace unconditional_append (privileges are preserved)
+-- ------------------------------------------------------------
+
+CREATE OR REPLACE FUNCTION dcb.unconditional_append(
+    new_events      dcb.dcb_event_tt[],
+    idempotency_key TEXT,
+    command_kind    TEXT
+)
+RETURNS bigint
+LANGUAGE plpgsql
+AS $$
+DECLARE
+    max_id         bigint;
+    event_record   dcb.dcb_event_tt;
+    inserted_id    bigint;
+    tag_item       text;
+    appended_types text[] := '{}';
+    appended_tags  text[] := '{}';
+    payload        text;
+BEGIN
+    -- Insert into idempotency_keys table (PK rejects duplicates)
+    INSERT INTO dcb.idempotency_keys (idempotency_key, command_kind)
+    VALUES (unconditional_append.idempotency_key, unconditional_append.command_kind);
+
+    max_id := 0;
+
+    FOREACH event_record IN ARRAY new_events
+    LOOP
+        INSERT INTO dcb.events (type, data, tags, idempotency_key)
+        VALUES (event_record.type, event_record.data, event_record.tags, unconditional_append.idempotency_key)
+        RETURNING id INTO inserted_id;
+
+        max_id := GREATEST(max_id, inserted_id);
+        appended_types := array_append(appended_types, event_record.type);
+        appended_tags := appended_tags || event_record.tags;
+
+        FOREACH tag_item IN ARRAY event_record.tags
+        LOOP
+            INSERT INTO dcb.event_tags (tag, main_id)
+            VALUES (tag_item, inserted_id);
+        END LOOP;
+    END LOOP;
+
+    -- Notify subscribers (delivered on commit). NOTIFY payloads are limited to
+    -- 8000 bytes: fall back to max_id only, which subscribers treat as "may match".
+    payload := json_build_object(
+        'max_id', max_id,
+        'types', (SELECT array_agg(DISTINCT t) FROM unnest(appended_types) AS t),
+        'tags', (SELECT array_agg(DISTINCT t) FROM unnest(appended_tags) AS t)
+    )::text;
+    IF octet_length(payload) > 7999 THEN
+        payload := json_build_object('max_id', max_id)::text;
+    END IF;
+    PERFORM pg_notify('dcb_events', payload);
+
+    RETURN max_id;
+END;
+$$;
+
+COMMIT;
@@ -0,0 +1,40 @@
+-- ============================================================
+-- Migration: Add Catch-Up Projection Support to DCB Schema
+-- ============================================================
+-- This migration is for existing databases that already have the dcb schema.
+-- It adds the checkpoint table and global log reader used by ProjectionRunner.
+-- ============================================================
+
+BEGIN;
+
+-- ------------------------------------------------------------
+-- Step 1: Create dcb.checkpoints table
+-- ------------------------------------------------------------
+
+CREATE TABLE IF NOT EXISTS dcb.checkpoints (
+    name            text        PRIMARY KEY,
+    position        bigint      NOT NULL,
+    updated_at      timestamptz NOT NULL DEFAULT now()
+);
+
+-- ------------------------------------------------------------
+-- Step 2: Create select_events_after
+-- ------------------------------------------------------------
+
+CREATE OR REPLACE FUNCTION dcb.select_events_after(
+    after_id    bigint DEFAULT 0,
+    limit_count bigint DEFAULT 9223372036854775807
+)
+RETURNS SETOF dcb.events
+LANGUAGE sql
+STABLE
+PARALLEL SAFE
+AS $$
+    SELECT *
+      FROM dcb.events
+     WHERE id > COALESCE(after_id, 0)
+     ORDER BY id ASC
+     LIMIT COALESCE(limit_count, 9223372036854775807);
+$$;
+
+COMMIT;
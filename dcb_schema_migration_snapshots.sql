@@ -0,0 +1,25 @@
+-- ============================================================
+-- Migration: Add Snapshot Support to DCB Schema
+-- ============================================================
+-- This migration is for existing databases that already have the dcb schema.
+-- It adds the snapshot table used by PostgresSnapshotStore, which lets
+-- PostgresEventRepository in full-replay mode load a stored state plus only
+-- the events appended after it.
+-- ============================================================
+
+BEGIN;
+
+-- ------------------------------------------------------------
+-- Step 1: Create dcb.snapshots table
+-- ------------------------------------------------------------
+
+CREATE TABLE IF NOT EXISTS dcb.snapshots (
+    name            text        NOT NULL,
+    key             text        NOT NULL,
+    state           bytea       NOT NULL,
+    position        bigint      NOT NULL,
+    updated_at      timestamptz NOT NULL DEFAULT now(),
+    PRIMARY KEY (name, key)
+);
+
+COMMIT;
@@ -0,0 +1,80 @@
+-- ============================================================
+-- Migration: Add State-Stored Aggregate Support to DCB Schema
+-- ============================================================
+-- This migration is for existing databases that already have the dcb schema.
+-- It adds the versioned state table used by PostgresStateRepository.
+-- ============================================================
+
+BEGIN;
+
+-- ------------------------------------------------------------
+-- Step 1: Create dcb.states table
+-- ------------------------------------------------------------
+
+CREATE TABLE IF NOT EXISTS dcb.states (
+    id              text        PRIMARY KEY,
+    data            bytea,
+    version         bigint      NOT NULL,
+    idempotency_key text        NOT NULL,
+    updated_at      timestamptz NOT NULL DEFAULT now()
+);
+
+-- ------------------------------------------------------------
+-- Step 2: Create dcb.state_idempotency_keys table
+-- ------------------------------------------------------------
+
+CREATE TABLE IF NOT EXISTS dcb.state_idempotency_keys (
+    idempotency_key text        PRIMARY KEY,
+    state_id        text        NOT NULL,
+    command_kind    text        NOT NULL,
+    data            bytea,
+    version         bigint      NOT NULL,
+    created_at      timestamptz NOT NULL DEFAULT now()
+);
+
+-- ------------------------------------------------------------
+-- Step 3: Create conditional_save_state
+-- ------------------------------------------------------------
+
+CREATE OR REPLACE FUNCTION dcb.conditional_save_state(
+    state_id         text,
+    expected_version bigint,
+    new_data         bytea,
+    idempotency_key  TEXT,
+    command_kind     TEXT
+)
+RETURNS dcb.states
+LANGUAGE plpgsql
+AS $$
+DECLARE
+    saved dcb.states;
+BEGIN
+    IF expected_version = 0 THEN
+        INSERT INTO dcb.states (id, data, version, idempotency_key)
+        VALUES (conditional_save_state.state_id, new_data, 1, conditional_save_state.idempotency_key)
+        ON CONFLICT (id) DO NOTHING
+        RETURNING * INTO saved;
+    ELSE
+        UPDATE dcb.states
+           SET data            = new_data,
+               version         = version + 1,
+               idempotency_key = conditional_save_state.idempotency_key,
+               updated_at      = now()
+         WHERE id = conditional_save_state.state_id
+           AND version = expected_version
+        RETURNING * INTO saved;
+    END IF;
+
+    IF saved.id IS NULL THEN
+        RETURN NULL;
+    END IF;
+
+    -- Insert into state_idempotency_keys table (PK rejects duplicates)
+    INSERT INTO dcb.state_idempotency_keys (idempotency_key, state_id, command_kind, data, version)
+    VALUES (conditional_save_state.idempotency_key, saved.id, conditional_save_state.command_kind, saved.data, saved.version);
+
+    RETURN saved;
+END;
+$$;
+
+COMMIT;
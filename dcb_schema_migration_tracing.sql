@@ -0,0 +1,269 @@
+-- ============================================================
+-- Migration: Add Tracing Metadata to DCB Schema
+-- ============================================================
+-- This migration is for existing databases that already have the dcb schema.
+-- It adds the nullable dcb.events.metadata column, holding the correlation id,
+-- causation id and headers of the command that produced each event, and a
+-- trailing metadata argument to the append functions.
+-- ============================================================
+
+BEGIN;
+
+-- ------------------------------------------------------------
+-- Step 1: Add metadata column to dcb.events
+-- ------------------------------------------------------------
+
+ALTER TABLE dcb.events ADD COLUMN IF NOT EXISTS metadata jsonb;
+
+-- ------------------------------------------------------------
+-- Step 2: Drop the append functions without metadata
+-- ------------------------------------------------------------
+
+-- CREATE OR REPLACE cannot add an argument: the old signatures would remain as
+-- overloads, making calls without metadata ambiguous.
+DROP FUNCTION IF EXISTS dcb.conditional_append(dcb.dcb_query_item_tt[], bigint, dcb.dcb_event_tt[], text, text);
+DROP FUNCTION IF EXISTS dcb.conditional_append_advisory(dcb.dcb_query_item_tt[], bigint[], dcb.dcb_event_tt[], text, text);
+DROP FUNCTION IF EXISTS dcb.unconditional_append(dcb.dcb_event_tt[], text, text);
+
+-- ------------------------------------------------------------
+-- Step 3: Recreate dcb.unconditional_append with metadata
+-- ------------------------------------------------------------
+
+-- metadata holds the command's correlation id, causation id and headers (NULL when
+-- it has none) and is stored on every appended event.
+CREATE OR REPLACE FUNCTION dcb.unconditional_append(
+    new_events      dcb.dcb_event_tt[],
+    idempotency_key TEXT,
+    command_kind    TEXT,
+    metadata        jsonb DEFAULT NULL
+)
+RETURNS bigint
+LANGUAGE plpgsql
+AS $$
+DECLARE
+    max_id         bigint;
+    event_record   dcb.dcb_event_tt;
+    inserted_id    bigint;
+    tag_item       text;
+    appended_types text[] := '{}';
+    appended_tags  text[] := '{}';
+    payload        text;
+    with_outbox    boolean := COALESCE(current_setting('dcb.outbox', true), '') = 'on';
+BEGIN
+    -- Insert into idempotency_keys table (PK rejects duplicates)
+    INSERT INTO dcb.idempotency_keys (idempotency_key, command_kind)
+    VALUES (unconditional_append.idempotency_key, unconditional_append.command_kind);
+
+    max_id := 0;
+
+    FOREACH event_record IN ARRAY new_events
+    LOOP
+        INSERT INTO dcb.events (type, data, tags, idempotency_key, metadata)
+        VALUES (event_record.type, event_record.data, event_record.tags, unconditional_append.idempotency_key, unconditional_append.metadata)
+        RETURNING id INTO inserted_id;
+
+        -- Record the event for publication in the same transaction
+        IF with_outbox THEN
+            INSERT INTO dcb.outbox (event_id) VALUES (inserted_id);
+        END IF;
+
+        max_id := GREATEST(max_id, inserted_id);
+        appended_types := array_append(appended_types, event_record.type);
+        appended_tags := appended_tags || event_record.tags;
+
+        FOREACH tag_item IN ARRAY event_record.tags
+        LOOP
+            INSERT INTO dcb.event_tags (tag, main_id)
+            VALUES (tag_item, inserted_id);
+        END LOOP;
+    END LOOP;
+
+    -- Notify subscribers (delivered on commit). NOTIFY payloads are limited to
+    -- 8000 bytes: fall back to max_id only, which subscribers treat as "may match".
+    payload := json_build_object(
+        'max_id', max_id,
+        'types', (SELECT array_agg(DISTINCT t) FROM unnest(appended_types) AS t),
+        'tags', (SELECT array_agg(DISTINCT t) FROM unnest(appended_tags) AS t)
+    )::text;
+    IF octet_length(payload) > 7999 THEN
+        payload := json_build_object('max_id', max_id)::text;
+    END IF;
+    PERFORM pg_notify('dcb_events', payload);
+
+    RETURN max_id;
+END;
+$$;
+
+-- ------------------------------------------------------------
+-- Step 4: Recreate dcb.conditional_append with metadata
+-- ------------------------------------------------------------
+
+CREATE OR REPLACE FUNCTION dcb.conditional_append(
+    query_items     dcb.dcb_query_item_tt[],
+    after_id        bigint,
+    new_events      dcb.dcb_event_tt[],
+    idempotency_key TEXT,
+    command_kind    TEXT,
+    metadata        jsonb DEFAULT NULL
+)
+RETURNS bigint
+LANGUAGE plpgsql
+AS $$
+DECLARE
+    conflict_exists boolean;
+BEGIN
+    SET LOCAL lock_timeout = '5s';
+    LOCK TABLE dcb.events IN EXCLUSIVE MODE;
+
+    WITH query_items_cte AS (
+        SELECT * FROM unnest(query_items) WITH ORDINALITY
+    ),
+    initial_matches AS (
+        SELECT t.main_id,
+               qi.ordinality,
+               t.tag,
+               qi.tags  AS required_tags,
+               qi.types AS allowed_types
+          FROM query_items_cte qi
+          JOIN dcb.event_tags t ON t.tag = ANY(qi.tags)
+         WHERE t.main_id > COALESCE(after_id, 0)
+    ),
+    matched_groups AS (
+        SELECT main_id,
+               ordinality,
+               COUNT(DISTINCT tag)            AS matched_tag_count,
+               array_length(required_tags, 1) AS required_tag_count,
+               allowed_types
+          FROM initial_matches
+         GROUP BY main_id, ordinality, required_tag_count, allowed_types
+    ),
+    qualified_ids AS (
+        SELECT main_id, allowed_types
+          FROM matched_groups
+         WHERE matched_tag_count = required_tag_count
+    ),
+    conflicts AS (
+        SELECT e.id
+          FROM dcb.events e
+          JOIN qualified_ids q ON q.main_id = e.id
+         WHERE e.id > COALESCE(after_id, 0)
+           AND (array_length(q.allowed_types, 1) IS NULL
+                OR array_length(q.allowed_types, 1) = 0
+                OR e.type = ANY(q.allowed_types))
+         LIMIT 1
+    )
+    SELECT EXISTS (SELECT 1 FROM conflicts)
+      INTO conflict_exists;
+
+    IF NOT conflict_exists THEN
+        RETURN dcb.unconditional_append(new_events, conditional_append.idempotency_key, conditional_append.command_kind, conditional_append.metadata);
+    END IF;
+
+    RETURN NULL;
+END;
+$$;
+
+-- ------------------------------------------------------------
+-- Step 5: Recreate dcb.conditional_append_advisory with metadata
+-- ------------------------------------------------------------
+
+-- Conditional append with per-key advisory locks instead of the table-level
+-- EXCLUSIVE lock. Locks hashtextextended(type || chr(31) || tag) for every tag of
+-- every query item and every new event, in key order to avoid deadlocks. Two
+-- writers block each other only when one could append an event matching the
+-- other's query, so unrelated boundaries append concurrently.
+--
+-- Each query item must carry exactly one type, and after_ids holds one position
+-- per query item: the id of the last event matching that item (0 when none).
+-- Events matching one item share its locks, so they commit in id order, which
+-- keeps a per-item position safe even though ids no longer become visible
+-- globally in order (do not mix with conditional_append on the same store).
+CREATE OR REPLACE FUNCTION dcb.conditional_append_advisory(
+    query_items     dcb.dcb_query_item_tt[],
+    after_ids       bigint[],
+    new_events      dcb.dcb_event_tt[],
+    idempotency_key TEXT,
+    command_kind    TEXT,
+    metadata        jsonb DEFAULT NULL
+)
+RETURNS bigint
+LANGUAGE plpgsql
+AS $$
+DECLARE
+    conflict_exists boolean;
+    lock_key        bigint;
+BEGIN
+    IF COALESCE(array_length(query_items, 1), 0) <> COALESCE(array_length(after_ids, 1), 0) THEN
+        RAISE EXCEPTION 'conditional_append_advisory: expected one after_id per query item';
+    END IF;
+    IF EXISTS (SELECT 1 FROM unnest(query_items) qi WHERE array_length(qi.types, 1) IS DISTINCT FROM 1) THEN
+        RAISE EXCEPTION 'conditional_append_advisory: each query item must have exactly one type';
+    END IF;
+
+    SET LOCAL lock_timeout = '5s';
+
+    FOR lock_key IN
+        SELECT hashtextextended(qi.types[1] || chr(31) || tag, 0)
+          FROM unnest(query_items) qi, unnest(qi.tags) AS tag
+        UNION
+        SELECT hashtextextended(ev.type || chr(31) || tag, 0)
+          FROM unnest(new_events) ev, unnest(ev.tags) AS tag
+        ORDER BY 1
+    LOOP
+        PERFORM pg_advisory_xact_lock(lock_key);
+    END LOOP;
+
+    -- A new statement takes a new snapshot: appends that held our locks are visible
+    WITH query_items_cte AS (
+        SELECT x.types, x.tags, COALESCE(x.after_id, 0) AS after_id, x.ordinality
+          FROM unnest(query_items, after_ids) WITH ORDINALITY AS x(types, tags, after_id, ordinality)
+    ),
+    initial_matches AS (
+        SELECT t.main_id,
+               qi.ordinality,
+               t.tag,
+               qi.tags  AS required_tags,
+               qi.types AS allowed_types
+          FROM query_items_cte qi
+          JOIN dcb.event_tags t ON t.tag = ANY(qi.tags)
+         WHERE t.main_id > qi.after_id
+    ),
+    matched_groups AS (
+        SELECT main_id,
+               ordinality,
+               COUNT(DISTINCT tag)            AS matched_tag_count,
+               array_length(required_tags, 1) AS required_tag_count,
+               allowed_types
+          FROM initial_matches
+         GROUP BY main_id, ordinality, required_tag_count, allowed_types
+    ),
+    qualified_ids AS (
+        SELECT main_id, allowed_types
+          FROM matched_groups
+         WHERE matched_tag_count = required_tag_count
+    ),
+    conflicts AS (
+        SELECT e.id
+          FROM dcb.events e
+          JOIN qualified_ids q ON q.main_id = e.id
+         WHERE e.type = ANY(q.allowed_types)
+         LIMIT 1
+    )
+    SELECT EXISTS (SELECT 1 FROM conflicts)
+      INTO conflict_exists;
+
+    IF NOT conflict_exists THEN
+        RETURN dcb.unconditional_append(new_events, conditional_append_advisory.idempotency_key, conditional_append_advisory.command_kind, conditional_append_advisory.metadata);
+    END IF;
+
+    RETURN NULL;
+END;
+$$;
+
+-- ------------------------------------------------------------
+-- Step 6: Revoke public access to dcb.unconditional_append
+-- ------------------------------------------------------------
+
+REVOKE ALL ON FUNCTION dcb.unconditional_append(dcb.dcb_event_tt[], TEXT, TEXT, jsonb) FROM PUBLIC;
+
+COMMIT;
@@ -0,0 +1,59 @@
+-- ============================================================
+-- Migration: Add Materialized View Support to DCB Schema
+-- ============================================================
+-- This migration is for existing databases that already have the dcb schema.
+-- It adds the view state table used by PostgresViewStateRepository.
+-- ============================================================
+
+BEGIN;
+
+-- ------------------------------------------------------------
+-- Step 1: Create dcb.view_states table
+-- ------------------------------------------------------------
+
+CREATE TABLE IF NOT EXISTS dcb.view_states (
+    id              text        PRIMARY KEY,
+    data            bytea,
+    last_event_id   text        NOT NULL,
+    version         bigint      NOT NULL,
+    updated_at      timestamptz NOT NULL DEFAULT now()
+);
+
+-- ------------------------------------------------------------
+-- Step 2: Create conditional_save_view_state
+-- ------------------------------------------------------------
+
+CREATE OR REPLACE FUNCTION dcb.conditional_save_view_state(
+    view_id          text,
+    expected_version bigint,
+    new_data         bytea,
+    last_event_id    text
+)
+RETURNS dcb.view_states
+LANGUAGE plpgsql
+AS $$
+DECLARE
+    saved dcb.view_states;
+BEGIN
+    IF expected_version = 0 THEN
+        INSERT INTO dcb.view_states (id, data, last_event_id, version)
+        VALUES (conditional_save_view_state.view_id, new_data, conditional_save_view_state.last_event_id, 1)
+        ON CONFLICT (id) DO NOTHING
+        RETURNING * INTO saved;
+    ELSE
+        UPDATE dcb.view_states
+           SET data          = new_data,
+               last_event_id = conditional_save_view_state.last_event_id,
+               version       = version + 1,
+               updated_at    = now()
+         WHERE id = conditional_save_view_state.view_id
+           AND version = expected_version
+        RETURNING * INTO saved;
+    END IF;
+
+    -- All-NULL row when nothing was saved (version conflict)
+    RETURN saved;
+END;
+$$;
+
+COMMIT;
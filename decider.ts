@@ -80,6 +80,41 @@ export interface IEventComputation<C, Ei, Eo> {
   computeNewEvents(events: readonly Ei[], command: C): readonly Eo[];
 }
 
+/**
+ * Contract for event-sourced computation that can resume from a known state.
+ *
+ * @remarks
+ * Exposes the parts `computeNewEvents` is made of, so that a repository can fold only
+ * the events appended after a stored snapshot into the snapshot's state instead of
+ * replaying the complete event history:
+ *
+ * `computeNewEvents(events, command)` = `decide(command, events.reduce(evolve, initialState))`
+ *
+ * `IDcbDecider` (and so `DcbDecider` and `AggregateDecider`) satisfies this contract.
+ *
+ * @typeParam C - Command type representing the intent to be processed
+ * @typeParam S - State type derived from the events
+ * @typeParam Ei - Input event type consumed to derive state
+ * @typeParam Eo - Output event type produced as the result of the command
+ *
+ * @author Fraktalio
+ */
+export interface IStatefulEventComputation<C, S, Ei, Eo>
+  extends IEventComputation<C, Ei, Eo> {
+  /**
+   * Computes output events from a command and current state.
+   */
+  readonly decide: (command: C, state: S) => readonly Eo[];
+  /**
+   * Evolves the state by a single input event.
+   */
+  readonly evolve: (state: S, event: Ei) => S;
+  /**
+   * The state before any event was applied.
+   */
+  readonly initialState: S;
+}
+
 /**
  * Contract for state-stored computation pattern.
  *
@@ -136,7 +171,7 @@ export interface IDcbDecider<C, S, Ei, Eo>
   extends
     IDecider<C, S, S, Ei, Eo>,
     IProjection<S, Ei>,
-    IEventComputation<C, Ei, Eo> {}
+    IStatefulEventComputation<C, S, Ei, Eo> {}
 
 /**
  * The most refined form in the progressive type system, constraining both state and event types to be identical.
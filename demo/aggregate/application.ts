@@ -11,7 +11,7 @@ import { orderDecider } from "./orderDecider.ts";
 import { restaurantView } from "./restaurantView.ts";
 import { orderView } from "./orderView.ts";
 import { restaurantOrderWorkflow } from "./restaurantOrderWorkflow.ts";
-import type { OrderTaskName } from "./restaurantOrderWorkflow.ts";
+import type { OrderTaskName, OrderTasks } from "./restaurantOrderWorkflow.ts";
 import type {
   Command,
   Event,
@@ -22,7 +22,11 @@ import type {
 } from "./api.ts";
 import type { IAggregateDecider } from "../../decider.ts";
 import type { IProjection } from "../../view.ts";
-import type { IAggregateWorkflowProcess } from "../../process_workflow.ts";
+import type {
+  IAggregateWorkflowProcess,
+  TaskPayloads,
+  UntypedTaskPayloads,
+} from "../../process_workflow.ts";
 
 // Re-export types
 export type { Order, OrderView, Restaurant, RestaurantView } from "./api.ts";
@@ -91,6 +95,7 @@ export const all_domain_views = restaurantView
  * @typeParam E - Event type
  * @typeParam VS - View state type
  * @typeParam TaskName - Task name type for workflow state tracking
+ * @typeParam Tasks - Payload types per task name of the workflow
  *
  * @param command - The command to handle
  * @param currentEvents - Async function that fetches the event history for the command
@@ -126,13 +131,14 @@ export const handleCommandGeneric = async <
   E,
   VS,
   TaskName extends string = string,
+  Tasks extends TaskPayloads<TaskName> = UntypedTaskPayloads<TaskName>,
 >(
   command: C,
   currentEvents: (cmd: C) => Promise<readonly E[]>,
   currentViewState: (evt: E) => Promise<VS>,
   decider: IAggregateDecider<C, S, E>,
   view: IProjection<VS, E>,
-  workflow: IAggregateWorkflowProcess<E, C, TaskName>,
+  workflow: IAggregateWorkflowProcess<E, C, TaskName, Tasks>,
 ) => {
   const events = await currentEvents(command);
   const allEvents = [...decider.computeNewEvents(events, command)];
@@ -212,7 +218,8 @@ export const handleCommand = (
     readonly [Restaurant | null, Order | null],
     Event,
     readonly [RestaurantView | null, OrderView | null],
-    OrderTaskName
+    OrderTaskName,
+    OrderTasks
   >(
     command,
     currentEvents,
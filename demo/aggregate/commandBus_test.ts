@@ -0,0 +1,194 @@
+/**
+ * Tests for the CommandBus routing restaurant and order commands.
+ *
+ * Tests verify:
+ * - Commands are routed by kind to state-stored and event-sourced handlers
+ * - Only the handler registered for the command's kind runs
+ * - Domain errors propagate from the routed handler
+ * - Commands of unregistered kinds are rejected with UnknownCommandError
+ * - Registration is exhaustive at compile time
+ */
+
+import { assertEquals, assertRejects } from "@std/assert";
+import {
+  CommandBus,
+  type CommandHandlers,
+  EventSourcedCommandHandler,
+  StateStoredCommandHandler,
+  UnknownCommandError,
+} from "../../application.ts";
+import type { EventMetadata } from "../../denoKvEventRepository.ts";
+import type { CommandMetadata, StateMetadata } from "../../infrastructure.ts";
+import { orderDecider } from "./orderDecider.ts";
+import { orderRepository } from "./orderRepository.ts";
+import { restaurantDecider } from "./restaurantDecider.ts";
+import { restaurantStateRepository } from "./restaurantStateRepository.ts";
+import {
+  type Command,
+  type CreateOrderCommand,
+  type CreateRestaurantCommand,
+  type MarkOrderAsPreparedCommand,
+  menuItemId,
+  type OrderCommand,
+  type OrderEvent,
+  orderId,
+  OrderNotFoundError,
+  type Restaurant,
+  type RestaurantCommand,
+  restaurantId,
+  restaurantMenuId,
+} from "./api.ts";
+
+const commandBus = (kv: Deno.Kv) => {
+  const restaurantHandler = new StateStoredCommandHandler<
+    RestaurantCommand,
+    Restaurant | null,
+    CommandMetadata,
+    StateMetadata
+  >(restaurantDecider, restaurantStateRepository(kv));
+  const orderHandler = new EventSourcedCommandHandler<
+    OrderCommand,
+    OrderEvent,
+    OrderEvent,
+    CommandMetadata,
+    EventMetadata
+  >(orderDecider, orderRepository(kv));
+
+  const handlers = {
+    CreateRestaurantCommand: restaurantHandler,
+    ChangeRestaurantMenuCommand: restaurantHandler,
+    PlaceOrderCommand: restaurantHandler,
+    CreateOrderCommand: orderHandler,
+    MarkOrderAsPreparedCommand: orderHandler,
+  } satisfies CommandHandlers<Command, CommandMetadata>;
+
+  return new CommandBus<Command, CommandMetadata, typeof handlers>(handlers);
+};
+
+const createRestaurantCommand: CreateRestaurantCommand & CommandMetadata = {
+  decider: "Restaurant",
+  kind: "CreateRestaurantCommand",
+  restaurantId: restaurantId("r1"),
+  name: "Bistro",
+  menu: {
+    menuId: restaurantMenuId("m1"),
+    cuisine: "ITALIAN",
+    menuItems: [
+      { menuItemId: menuItemId("item1"), name: "Pizza", price: "12.99" },
+    ],
+  },
+  idempotencyKey: "test-bus-create-restaurant",
+};
+
+const createOrderCommand: CreateOrderCommand & CommandMetadata = {
+  decider: "Order",
+  kind: "CreateOrderCommand",
+  orderId: orderId("o1"),
+  restaurantId: restaurantId("r1"),
+  menuItems: [
+    { menuItemId: menuItemId("item1"), name: "Pizza", price: "12.99" },
+  ],
+  idempotencyKey: "test-bus-create-order",
+};
+
+const markPreparedCommand = (
+  id: string,
+): MarkOrderAsPreparedCommand & CommandMetadata => ({
+  decider: "Order",
+  kind: "MarkOrderAsPreparedCommand",
+  orderId: orderId(id),
+  idempotencyKey: "test-bus-mark-prepared-" + id,
+});
+
+Deno.test("CommandBus - routes commands to state-stored and event-sourced handlers", async () => {
+  const kv = await Deno.openKv(":memory:");
+  try {
+    const bus = commandBus(kv);
+
+    const restaurant = await bus.dispatch(createRestaurantCommand);
+    assertEquals(restaurant.name, "Bistro");
+    assertEquals(restaurant.idempotencyKey, "test-bus-create-restaurant");
+
+    const [created] = await bus.dispatch(createOrderCommand);
+    assertEquals(created.kind, "OrderCreatedEvent");
+
+    const [prepared] = await bus.dispatch(markPreparedCommand("o1"));
+    assertEquals(prepared.kind, "OrderPreparedEvent");
+    assertEquals(prepared.idempotencyKey, "test-bus-mark-prepared-o1");
+  } finally {
+    kv.close();
+  }
+});
+
+Deno.test("CommandBus - runs only the handler of the command's kind", async () => {
+  const handled: string[] = [];
+  const handler = (name: string) => ({
+    handle: (command: Command & CommandMetadata) => {
+      handled.push(`${name}:${command.kind}`);
+      return Promise.resolve(name);
+    },
+  });
+  const bus = new CommandBus<Command, CommandMetadata>({
+    CreateRestaurantCommand: handler("restaurant"),
+    ChangeRestaurantMenuCommand: handler("restaurant"),
+    PlaceOrderCommand: handler("restaurant"),
+    CreateOrderCommand: handler("order"),
+    MarkOrderAsPreparedCommand: handler("order"),
+  });
+
+  assertEquals(await bus.dispatch(createOrderCommand), "order");
+  assertEquals(handled, ["order:CreateOrderCommand"]);
+});
+
+Deno.test("CommandBus - propagates domain errors", async () => {
+  const kv = await Deno.openKv(":memory:");
+  try {
+    await assertRejects(
+      () => commandBus(kv).dispatch(markPreparedCommand("missing")),
+      OrderNotFoundError,
+    );
+  } finally {
+    kv.close();
+  }
+});
+
+Deno.test("CommandBus - rejects commands of unregistered kinds", async () => {
+  const kv = await Deno.openKv(":memory:");
+  try {
+    const command = {
+      kind: "CancelOrderCommand",
+      idempotencyKey: "test-bus-cancel",
+    } as unknown as Command & CommandMetadata;
+
+    await assertRejects(
+      () => commandBus(kv).dispatch(command),
+      UnknownCommandError,
+      "CancelOrderCommand",
+    );
+  } finally {
+    kv.close();
+  }
+});
+
+Deno.test("CommandBus - registration is exhaustive", () => {
+  const handler = { handle: () => Promise.resolve() };
+
+  // @ts-expect-error MarkOrderAsPreparedCommand has no handler
+  new CommandBus<Command, CommandMetadata>({
+    CreateRestaurantCommand: handler,
+    ChangeRestaurantMenuCommand: handler,
+    PlaceOrderCommand: handler,
+    CreateOrderCommand: handler,
+  });
+
+  new CommandBus<OrderCommand, CommandMetadata>({
+    // @ts-expect-error a restaurant handler does not accept order commands
+    CreateOrderCommand: new StateStoredCommandHandler<
+      RestaurantCommand,
+      Restaurant | null,
+      CommandMetadata,
+      StateMetadata
+    >(restaurantDecider, restaurantStateRepository({} as Deno.Kv)),
+    MarkOrderAsPreparedCommand: handler,
+  });
+});
@@ -0,0 +1,34 @@
+/**
+ * State-stored repository for Order aggregate.
+ *
+ * Handles order commands by persisting the current `Order` state
+ * to Deno KV storage with optimistic locking.
+ */
+
+import { DenoKvStateRepository } from "../../denoKvStateRepository.ts";
+import type { Order, OrderCommand } from "./api.ts";
+
+/**
+ * Creates a state-stored repository for Order aggregate.
+ *
+ * **State Id:**
+ * State is stored per order under `"orderId:" + cmd.orderId`.
+ *
+ * @param kv - Deno KV instance for storage
+ * @returns Repository instance for handling OrderCommand
+ *
+ * @example
+ * ```typescript
+ * const kv = await Deno.openKv();
+ * const repository = orderStateRepository(kv);
+ * const order = await repository.execute(command, orderDecider);
+ * ```
+ */
+export const orderStateRepository = (
+  kv: Deno.Kv,
+): DenoKvStateRepository<OrderCommand, Order | null> =>
+  new DenoKvStateRepository<OrderCommand, Order | null>(
+    kv,
+    (cmd) => "orderId:" + cmd.orderId,
+    null,
+  );
@@ -0,0 +1,121 @@
+/**
+ * Integration tests for OrderStateRepository.
+ *
+ * Tests verify:
+ * - State persistence to Deno KV (state-stored mode)
+ * - State transitions across commands
+ * - Domain error propagation
+ */
+
+import { assertEquals, assertRejects } from "@std/assert";
+import { StateStoredCommandHandler } from "../../application.ts";
+import { orderStateRepository } from "./orderStateRepository.ts";
+import { orderDecider } from "./orderDecider.ts";
+import {
+  type CreateOrderCommand,
+  type MarkOrderAsPreparedCommand,
+  menuItemId,
+  type Order,
+  OrderAlreadyExistsError,
+  type OrderCommand,
+  orderId,
+  OrderNotFoundError,
+  restaurantId,
+} from "./api.ts";
+import type { CommandMetadata, StateMetadata } from "../../infrastructure.ts";
+
+/**
+ * State-stored handler with explicit metadata types, so that results are typed
+ * as `Order & StateMetadata`.
+ */
+const newHandler = (kv: Deno.Kv) =>
+  new StateStoredCommandHandler<
+    OrderCommand,
+    Order | null,
+    CommandMetadata,
+    StateMetadata
+  >(orderDecider, orderStateRepository(kv));
+
+const createCommand: CreateOrderCommand & CommandMetadata = {
+  decider: "Order",
+  kind: "CreateOrderCommand",
+  orderId: orderId("o1"),
+  restaurantId: restaurantId("r1"),
+  menuItems: [
+    { menuItemId: menuItemId("item1"), name: "Pizza", price: "12.99" },
+  ],
+  idempotencyKey: "create-o1",
+};
+
+const markPreparedCommand: MarkOrderAsPreparedCommand & CommandMetadata = {
+  decider: "Order",
+  kind: "MarkOrderAsPreparedCommand",
+  orderId: orderId("o1"),
+  idempotencyKey: "prepare-o1",
+};
+
+Deno.test("OrderStateRepository - successful order creation (happy path)", async () => {
+  const kv = await Deno.openKv(":memory:");
+
+  try {
+    const handler = newHandler(kv);
+
+    const state = await handler.handle(createCommand);
+
+    assertEquals(state.orderId, orderId("o1"));
+    assertEquals(state.restaurantId, restaurantId("r1"));
+    assertEquals(state.menuItems.length, 1);
+    assertEquals(state.status, "CREATED");
+    assertEquals(state.idempotencyKey, "create-o1");
+  } finally {
+    await kv.close();
+  }
+});
+
+Deno.test("OrderStateRepository - mark order as prepared", async () => {
+  const kv = await Deno.openKv(":memory:");
+
+  try {
+    const handler = newHandler(kv);
+
+    await handler.handle(createCommand);
+    const state = await handler.handle(markPreparedCommand);
+
+    assertEquals(state.orderId, orderId("o1"));
+    assertEquals(state.status, "PREPARED");
+  } finally {
+    await kv.close();
+  }
+});
+
+Deno.test("OrderStateRepository - duplicate order rejection (domain error)", async () => {
+  const kv = await Deno.openKv(":memory:");
+
+  try {
+    const handler = newHandler(kv);
+
+    await handler.handle(createCommand);
+
+    await assertRejects(
+      () => handler.handle({ ...createCommand, idempotencyKey: "create-o1-2" }),
+      OrderAlreadyExistsError,
+    );
+  } finally {
+    await kv.close();
+  }
+});
+
+Deno.test("OrderStateRepository - mark non-existent order as prepared", async () => {
+  const kv = await Deno.openKv(":memory:");
+
+  try {
+    const handler = newHandler(kv);
+
+    await assertRejects(
+      () => handler.handle(markPreparedCommand),
+      OrderNotFoundError,
+    );
+  } finally {
+    await kv.close();
+  }
+});
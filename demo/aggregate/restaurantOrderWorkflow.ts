@@ -1,18 +1,44 @@
-import { AggregateWorkflowProcess } from "../../process_workflow.ts";
 import {
-  type Command,
-  type Event,
-  type MenuItem,
-  type OrderId,
-  orderId,
-  type RestaurantId,
-  restaurantId,
-} from "./api.ts";
+  AggregateWorkflowProcess,
+  type TaskDeadlineElapsed,
+  TaskDeadlineWorkflow,
+} from "../../process_workflow.ts";
+import type { Command, Event, MenuItem, OrderId, RestaurantId } from "./api.ts";
+
+/**
+ * Tasks of the restaurant order workflow with their start and result payloads
+ */
+export type OrderTasks = {
+  readonly createOrder: {
+    readonly start: {
+      readonly orderId: OrderId;
+      readonly restaurantId: RestaurantId;
+      readonly menuItems: MenuItem[];
+    };
+    readonly result: {
+      readonly orderId: OrderId;
+    };
+  };
+};
 
 /**
  * Task names for the restaurant order workflow
  */
-export type OrderTaskName = "createOrder";
+export type OrderTaskName = keyof OrderTasks;
+
+/**
+ * Time allowed for the order to be created after it was placed (5 minutes)
+ */
+export const CREATE_ORDER_TIMEOUT_MS = 5 * 60 * 1000;
+
+/**
+ * Escalation of an order that was not created before its deadline
+ */
+export type EscalateOrderTimeout = {
+  readonly kind: "EscalateOrderTimeout";
+  readonly orderId: OrderId;
+  readonly restaurantId: RestaurantId;
+};
 
 /**
  * Restaurant - Order workflow
@@ -20,18 +46,20 @@ export type OrderTaskName = "createOrder";
  * @remarks
  * This workflow demonstrates the standard pattern for event-driven workflows:
  * - react() issues commands immediately when events make them ready
- * - pending() returns placeholder actions for recovery/polling scenarios
+ * - pending() rebuilds the actions of started tasks for recovery (see ProcessRunner.recover)
  * - Task state tracks progress: missing (☐), "started" (☑️), "finished" (✅)
  *
  * The workflow reacts to RestaurantOrderPlacedEvent and orchestrates order creation
- * by issuing CreateOrderCommand to the Order decider.
+ * by issuing CreateOrderCommand to the Order decider. The createOrder task is started
+ * with a deadline of {@link CREATE_ORDER_TIMEOUT_MS}.
  */
 export const restaurantOrderWorkflow: AggregateWorkflowProcess<
   Event,
   Command,
-  OrderTaskName
-> = new AggregateWorkflowProcess<Event, Command, OrderTaskName>(
-  // decide: Event + WorkflowState<OrderTaskName> → WorkflowEvent<OrderTaskName>[]
+  OrderTaskName,
+  OrderTasks
+> = new AggregateWorkflowProcess<Event, Command, OrderTaskName, OrderTasks>(
+  // decide: Event + WorkflowState<OrderTaskName, OrderTasks> → WorkflowEvent<OrderTaskName, OrderTasks>[]
   (event, workflowState) => {
     switch (event.kind) {
       case "RestaurantCreatedEvent":
@@ -46,6 +74,7 @@ export const restaurantOrderWorkflow: AggregateWorkflowProcess<
               type: "TaskStarted",
               taskName: "createOrder",
               timestamp: Date.now(),
+              deadline: Date.now() + CREATE_ORDER_TIMEOUT_MS,
               metadata: {
                 orderId: event.orderId,
                 restaurantId: event.restaurantId,
@@ -62,6 +91,7 @@ export const restaurantOrderWorkflow: AggregateWorkflowProcess<
             {
               type: "TaskCompleted",
               taskName: "createOrder",
+              result: { orderId: event.orderId },
               timestamp: Date.now(),
               metadata: {
                 orderId: event.orderId,
@@ -80,7 +110,7 @@ export const restaurantOrderWorkflow: AggregateWorkflowProcess<
       }
     }
   },
-  // react: (WorkflowState<OrderTaskName>, WorkflowEvent<OrderTaskName>) → Command[] (subset of pending)
+  // react: (WorkflowState<OrderTaskName, OrderTasks>, WorkflowEvent<OrderTaskName, OrderTasks>) → Command[] (subset of pending)
   (_workflowState, workflowEvent) => {
     // Only return actions that this specific event makes ready
     switch (workflowEvent.type) {
@@ -89,12 +119,9 @@ export const restaurantOrderWorkflow: AggregateWorkflowProcess<
         switch (workflowEvent.taskName) {
           case "createOrder":
             if (workflowEvent.metadata) {
-              // Extract order data from event metadata
-              const orderId = workflowEvent.metadata.orderId as OrderId;
-              const restaurantId = workflowEvent.metadata
-                .restaurantId as RestaurantId;
-              const menuItems =
-                (workflowEvent.metadata.menuItems as MenuItem[]) || [];
+              // Order data is typed by the createOrder start payload
+              const { orderId, restaurantId, menuItems } =
+                workflowEvent.metadata;
 
               return [
                 {
@@ -114,7 +141,12 @@ export const restaurantOrderWorkflow: AggregateWorkflowProcess<
           }
         }
       case "TaskCompleted":
+      case "TaskFailed":
+      case "TaskCompensated":
+      case "TaskTimedOut":
         // No additional actions needed when task completes
+        // (this workflow neither retries nor compensates; timeouts are
+        // escalated by restaurantOrderDeadlineWorkflow)
         return [];
       default: {
         // Exhaustive check: ensures all WorkflowEvent types are handled
@@ -123,16 +155,13 @@ export const restaurantOrderWorkflow: AggregateWorkflowProcess<
       }
     }
   },
-  // pending: WorkflowState<OrderTaskName> → Command[] (complete ToDo list)
+  // pending: WorkflowState<OrderTaskName, OrderTasks> → Command[] (complete ToDo list)
   (workflowState) => {
     const actions: Command[] = [];
 
     // Exhaustive iteration over all possible task names
-    // For started tasks, return placeholder actions
-    // In a real implementation, you would either:
-    // 1. Store order details in event metadata and replay events to reconstruct
-    // 2. Use react() exclusively for event-driven command issuance
-    // 3. Use a separate persistence mechanism to track pending commands
+    // For started tasks, rebuild the action from the TaskStarted metadata recorded in state
+    // (no action when the state carries no metadata to rebuild it from)
 
     // Check each task in the state
     for (const taskName in workflowState.tasks) {
@@ -142,16 +171,18 @@ export const restaurantOrderWorkflow: AggregateWorkflowProcess<
       if (taskStatus === "started") {
         // Exhaustive switch on task name to determine which action to add
         switch (typedTaskName) {
-          case "createOrder":
-            // Placeholder action for recovery/polling scenarios
+          case "createOrder": {
+            const metadata = workflowState.taskMetadata?.createOrder;
+            if (metadata === undefined) break;
             actions.push({
               decider: "Order",
               kind: "CreateOrderCommand",
-              orderId: orderId("pending-order"),
-              restaurantId: restaurantId("pending-restaurant"),
-              menuItems: [],
+              orderId: metadata.orderId,
+              restaurantId: metadata.restaurantId,
+              menuItems: metadata.menuItems,
             });
             break;
+          }
           default: {
             // Exhaustive check: ensures all OrderTaskName types are handled
             const _exhaustiveCheck: never = typedTaskName;
@@ -164,3 +195,50 @@ export const restaurantOrderWorkflow: AggregateWorkflowProcess<
     return actions;
   },
 );
+
+/**
+ * Times out createOrder tasks whose deadline passed and escalates them
+ * (no escalation when the task started without metadata).
+ */
+export const restaurantOrderDeadlineWorkflow: TaskDeadlineWorkflow<
+  EscalateOrderTimeout,
+  OrderTaskName,
+  OrderTasks
+> = new TaskDeadlineWorkflow<EscalateOrderTimeout, OrderTaskName, OrderTasks>(
+  (taskName, workflowState) => {
+    switch (taskName) {
+      case "createOrder": {
+        const metadata = workflowState.taskMetadata?.createOrder;
+        if (metadata === undefined) return [];
+        return [
+          {
+            kind: "EscalateOrderTimeout",
+            orderId: metadata.orderId,
+            restaurantId: metadata.restaurantId,
+          },
+        ];
+      }
+      default: {
+        // Exhaustive check: ensures all OrderTaskName types are handled
+        const _exhaustiveCheck: never = taskName;
+        return [];
+      }
+    }
+  },
+);
+
+/**
+ * Restaurant - Order workflow with deadlines
+ *
+ * @remarks
+ * Combines {@link restaurantOrderWorkflow} with {@link restaurantOrderDeadlineWorkflow}:
+ * if the OrderCreatedEvent does not arrive before the deadline, the createOrder task
+ * times out and pending() reports an EscalateOrderTimeout action instead of
+ * waiting forever.
+ */
+export const restaurantOrderWorkflowWithDeadlines: AggregateWorkflowProcess<
+  Event | TaskDeadlineElapsed<OrderTaskName>,
+  Command | EscalateOrderTimeout,
+  OrderTaskName,
+  OrderTasks
+> = restaurantOrderWorkflow.combine(restaurantOrderDeadlineWorkflow);
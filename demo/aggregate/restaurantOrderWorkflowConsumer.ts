@@ -0,0 +1,102 @@
+/**
+ * Restaurant order workflow driven by live event subscriptions.
+ *
+ * Runs `restaurantOrderWorkflow` as a separate consumer of the Deno KV event store:
+ * appended `RestaurantOrderPlacedEvent`s are pushed by `DenoKvEventSubscriber`,
+ * and the resulting `CreateOrderCommand`s are handled by the order repository.
+ */
+
+import type { SubscribeOptions } from "../../application.ts";
+import { EventSourcedCommandHandler } from "../../application.ts";
+import { DenoKvEventSubscriber } from "../../denoKvEventRepository.ts";
+import type { EventMetadata } from "../../infrastructure.ts";
+import type { WorkflowState } from "../../process_workflow.ts";
+import {
+  type OrderTaskName,
+  type OrderTasks,
+  restaurantOrderWorkflow,
+} from "./restaurantOrderWorkflow.ts";
+import { orderDecider } from "./orderDecider.ts";
+import { orderRepository } from "./orderRepository.ts";
+import type {
+  Event,
+  OrderEvent,
+  OrderId,
+  RestaurantId,
+  RestaurantOrderPlacedEvent,
+} from "./api.ts";
+
+/**
+ * Subscribes to orders placed at the given restaurants and creates the orders
+ * via the workflow.
+ *
+ * Workflow state is kept per order. Commands are submitted with a deterministic
+ * idempotency key (`"createOrder:" + orderId`), so re-delivered events do not
+ * create duplicate orders. Their correlation id is that of the placed order (its
+ * event id when it has none), and its event id is their causation id, as the
+ * workflow events are not stored.
+ *
+ * @param kv - Deno KV instance for storage
+ * @param restaurantIds - Restaurants whose placed orders are consumed
+ * @param options - Resume position and abort signal
+ * @returns Async iterable of order events produced by the workflow's commands
+ *
+ * @example
+ * ```typescript
+ * const controller = new AbortController();
+ * for await (const event of restaurantOrderWorkflowConsumer(kv, [restaurantId("r1")], { signal: controller.signal })) {
+ *   console.log(event.kind); // "OrderCreatedEvent"
+ * }
+ * ```
+ */
+export async function* restaurantOrderWorkflowConsumer(
+  kv: Deno.Kv,
+  restaurantIds: RestaurantId[],
+  options: SubscribeOptions = {},
+): AsyncGenerator<OrderEvent & EventMetadata> {
+  const subscriber = new DenoKvEventSubscriber<RestaurantOrderPlacedEvent>(kv);
+  const orderHandler = new EventSourcedCommandHandler(
+    orderDecider,
+    orderRepository(kv),
+  );
+  const workflowStates = new Map<
+    OrderId,
+    WorkflowState<OrderTaskName, OrderTasks>
+  >();
+
+  const process = (orderId: OrderId, event: Event) => {
+    let state = workflowStates.get(orderId) ??
+      restaurantOrderWorkflow.initialState;
+    const commands = [];
+    for (const workflowEvent of restaurantOrderWorkflow.decide(event, state)) {
+      state = restaurantOrderWorkflow.evolve(state, workflowEvent);
+      commands.push(...restaurantOrderWorkflow.react(state, workflowEvent));
+    }
+    workflowStates.set(orderId, state);
+    return commands;
+  };
+
+  for await (
+    const placed of subscriber.subscribe(
+      restaurantIds.map((
+        id,
+      ) => ["restaurantId:" + id, "RestaurantOrderPlacedEvent"]),
+      options,
+    )
+  ) {
+    for (const command of process(placed.orderId, placed)) {
+      if (command.decider !== "Order") continue;
+      const events = await orderHandler.handle({
+        ...command,
+        idempotencyKey: "createOrder:" + placed.orderId,
+        correlationId: placed.correlationId ?? placed.eventId,
+        causationId: placed.eventId,
+      });
+      for (const event of events) {
+        // Feed produced events back so the workflow completes its task
+        process(placed.orderId, event);
+        yield event;
+      }
+    }
+  }
+}
@@ -0,0 +1,121 @@
+/**
+ * Integration tests for the subscription-driven restaurant order workflow.
+ *
+ * Tests verify:
+ * - Placing an order through the restaurant repository drives the workflow,
+ *   which creates the order through the order repository
+ * - Orders placed at restaurants that are not subscribed are ignored
+ */
+
+import { assertEquals } from "@std/assert";
+import { EventSourcedCommandHandler } from "../../application.ts";
+import { DenoKvEventLoader } from "../../denoKvEventRepository.ts";
+import { restaurantRepository } from "./restaurantRepository.ts";
+import { restaurantDecider } from "./restaurantDecider.ts";
+import { restaurantOrderWorkflowConsumer } from "./restaurantOrderWorkflowConsumer.ts";
+import {
+  type MenuItem,
+  menuItemId,
+  type OrderEvent,
+  orderId,
+  restaurantId,
+  restaurantMenuId,
+} from "./api.ts";
+
+const testMenuItems: MenuItem[] = [
+  { menuItemId: menuItemId("item1"), name: "Pizza", price: "12.99" },
+];
+
+/** Helper to create restaurant `id` and place order `oid` there */
+async function placeOrder(kv: Deno.Kv, id: string, oid: string) {
+  const handler = new EventSourcedCommandHandler(
+    restaurantDecider,
+    restaurantRepository(kv),
+  );
+  await handler.handle({
+    decider: "Restaurant",
+    kind: "CreateRestaurantCommand",
+    restaurantId: restaurantId(id),
+    name: "Bistro",
+    menu: {
+      menuId: restaurantMenuId("m1"),
+      cuisine: "ITALIAN",
+      menuItems: testMenuItems,
+    },
+    idempotencyKey: "create-" + id,
+  });
+  await handler.handle({
+    decider: "Restaurant",
+    kind: "PlaceOrderCommand",
+    restaurantId: restaurantId(id),
+    orderId: orderId(oid),
+    menuItems: testMenuItems,
+    idempotencyKey: "place-" + oid,
+  });
+}
+
+Deno.test("RestaurantOrderWorkflowConsumer - placed order creates the order", async () => {
+  const kv = await Deno.openKv(":memory:");
+  const controller = new AbortController();
+
+  try {
+    const consumer = restaurantOrderWorkflowConsumer(
+      kv,
+      [restaurantId("r1"), restaurantId("r2")],
+      { signal: controller.signal },
+    );
+    // Start consuming and let the watch observe the current pointers
+    const first = consumer.next();
+    await new Promise((resolve) => setTimeout(resolve, 10));
+
+    await placeOrder(kv, "r1", "o1");
+
+    const { value: event } = await first;
+    assertEquals(event?.kind, "OrderCreatedEvent");
+    assertEquals(event?.orderId, orderId("o1"));
+    assertEquals(event?.restaurantId, restaurantId("r1"));
+
+    const stored = await new DenoKvEventLoader<OrderEvent>(kv).load([
+      ["orderId:o1", "OrderCreatedEvent"],
+    ]);
+    assertEquals(stored.length, 1);
+
+    controller.abort();
+    assertEquals((await consumer.next()).done, true);
+  } finally {
+    controller.abort();
+    await kv.close();
+  }
+});
+
+Deno.test("RestaurantOrderWorkflowConsumer - ignores restaurants that are not subscribed", async () => {
+  const kv = await Deno.openKv(":memory:");
+  const controller = new AbortController();
+
+  try {
+    const consumer = restaurantOrderWorkflowConsumer(
+      kv,
+      [restaurantId("r1")],
+      { signal: controller.signal },
+    );
+    const first = consumer.next();
+    await new Promise((resolve) => setTimeout(resolve, 10));
+
+    await placeOrder(kv, "r2", "o2");
+    await placeOrder(kv, "r1", "o1");
+
+    const { value: event } = await first;
+    assertEquals(event?.orderId, orderId("o1"));
+
+    const other = await new DenoKvEventLoader<OrderEvent>(kv).load([
+      ["orderId:o2", "OrderCreatedEvent"],
+    ]);
+    assertEquals(other.length, 0);
+
+    controller.abort();
+    await consumer.next();
+  } finally {
+    controller.abort();
+    await kv.close();
+  }
+});
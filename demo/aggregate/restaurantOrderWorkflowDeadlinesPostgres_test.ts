@@ -0,0 +1,64 @@
+/**
+ * Postgres integration tests for the process deadline scheduler.
+ *
+ * Deadlines of the restaurant order workflow are stored in
+ * `dcb.process_deadlines` and delivered by polling for due rows.
+ *
+ * Requires Docker daemon for testcontainers.
+ */
+
+import { assertEquals } from "@std/assert";
+import { PostgresDeadlineScheduler } from "../../postgresProcessStore.ts";
+import type { ProcessDeadline } from "../../processRunner.ts";
+import {
+  createPostgresClient,
+  startPostgresContainer,
+} from "../dcb/testcontainers.ts";
+
+const { container, connectionString } = await startPostgresContainer();
+const client = await createPostgresClient(connectionString);
+
+const deadline = (processId: string, dueAt: number): ProcessDeadline => ({
+  processName: "restaurantOrderWorkflow",
+  processId,
+  name: "createOrder",
+  dueAt,
+});
+
+Deno.test({
+  name:
+    "Postgres: PostgresDeadlineScheduler - returns passed deadlines oldest first until removed",
+  sanitizeResources: false,
+  sanitizeOps: false,
+  fn: async () => {
+    const scheduler = new PostgresDeadlineScheduler(client);
+    await scheduler.schedule(deadline("orderId:o-pg-2", 2000));
+    await scheduler.schedule(deadline("orderId:o-pg-1", 1000));
+    await scheduler.schedule(deadline("orderId:o-pg-3", 9000));
+    // Scheduling the same deadline again is a no-op
+    await scheduler.schedule(deadline("orderId:o-pg-1", 1000));
+
+    assertEquals(await scheduler.due(5000), [
+      deadline("orderId:o-pg-1", 1000),
+      deadline("orderId:o-pg-2", 2000),
+    ]);
+
+    await scheduler.remove(deadline("orderId:o-pg-1", 1000));
+    assertEquals(await scheduler.due(5000), [
+      deadline("orderId:o-pg-2", 2000),
+    ]);
+    assertEquals(await scheduler.due(10000, 1), [
+      deadline("orderId:o-pg-2", 2000),
+    ]);
+  },
+});
+
+Deno.test({
+  name: "Postgres: cleanup",
+  sanitizeResources: false,
+  sanitizeOps: false,
+  fn: async () => {
+    await client.end();
+    await container.stop();
+  },
+});
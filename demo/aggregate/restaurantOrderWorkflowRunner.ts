@@ -0,0 +1,113 @@
+/**
+ * Restaurant order workflow as a production process.
+ *
+ * Runs `restaurantOrderWorkflowWithDeadlines` with `ProcessRunner`: workflow
+ * events are persisted in the Deno KV event store, `CreateOrderCommand`s are
+ * executed by the order command handler, and the resulting order events complete
+ * the workflow's tasks. Orders carry the correlation id of the placed order and
+ * the id of the `TaskStarted` event that issued them as causation id, also when
+ * `recover` re-issues them. With a deadline scheduler, a createOrder task that
+ * does not complete in time times out and is escalated.
+ */
+
+import { EventSourcedCommandHandler } from "../../application.ts";
+import { DenoKvEventRepository } from "../../denoKvEventRepository.ts";
+import type { CommandMetadata } from "../../infrastructure.ts";
+import {
+  type IDeadlineScheduler,
+  type ProcessCommand,
+  type ProcessEvent,
+  processQueryTuples,
+  ProcessRunner,
+  workflowDeadlines,
+} from "../../processRunner.ts";
+import type {
+  TaskDeadlineElapsed,
+  WorkflowEvent,
+  WorkflowState,
+} from "../../process_workflow.ts";
+import {
+  type EscalateOrderTimeout,
+  type OrderTaskName,
+  type OrderTasks,
+  restaurantOrderWorkflowWithDeadlines,
+} from "./restaurantOrderWorkflow.ts";
+import { orderDecider } from "./orderDecider.ts";
+import { orderRepository } from "./orderRepository.ts";
+import type { Command, Event } from "./api.ts";
+
+/**
+ * Creates the `"restaurantOrderWorkflow"` process runner.
+ *
+ * One process instance runs per order (`"orderId:" + orderId`). Workflow events
+ * are loaded with full replay, so the task state is rebuilt from the whole
+ * instance stream.
+ *
+ * @param kv - Deno KV instance for storage
+ * @param scheduler - Optional scheduler for the createOrder task deadline (e.g. `DenoKvDeadlineScheduler`)
+ * @param escalate - Handles a timed-out createOrder task, idempotently on the metadata's idempotency key, as recovery re-issues it (default: no-op)
+ * @returns Process runner for the restaurant order workflow
+ *
+ * @example
+ * ```typescript
+ * const scheduler = new DenoKvDeadlineScheduler(kv);
+ * const runner = restaurantOrderWorkflowRunner(kv, scheduler, notifyOps);
+ * scheduler.listen((deadline) => runner.handleDeadline(deadline));
+ * await runner.recover();
+ * await runner.run(
+ *   new DenoKvEventSubscriber<RestaurantOrderPlacedEvent>(kv).subscribe(
+ *     [["restaurantId:r1", "RestaurantOrderPlacedEvent"]],
+ *     { signal },
+ *   ),
+ * );
+ * ```
+ */
+export const restaurantOrderWorkflowRunner = (
+  kv: Deno.Kv,
+  scheduler?: IDeadlineScheduler,
+  escalate: (
+    action: EscalateOrderTimeout,
+    metadata: CommandMetadata,
+  ) => Promise<void> = () => Promise.resolve(),
+): ProcessRunner<
+  Event | TaskDeadlineElapsed<OrderTaskName>,
+  WorkflowState<OrderTaskName, OrderTasks>,
+  WorkflowEvent<OrderTaskName, OrderTasks>,
+  Command | EscalateOrderTimeout
+> => {
+  const orderHandler = new EventSourcedCommandHandler(
+    orderDecider,
+    orderRepository(kv),
+  );
+  return new ProcessRunner<
+    Event | TaskDeadlineElapsed<OrderTaskName>,
+    WorkflowState<OrderTaskName, OrderTasks>,
+    WorkflowEvent<OrderTaskName, OrderTasks>,
+    Command | EscalateOrderTimeout
+  >(
+    "restaurantOrderWorkflow",
+    restaurantOrderWorkflowWithDeadlines,
+    new DenoKvEventRepository<
+      ProcessCommand<Event | TaskDeadlineElapsed<OrderTaskName>>,
+      ProcessEvent<WorkflowEvent<OrderTaskName, OrderTasks>>,
+      ProcessEvent<WorkflowEvent<OrderTaskName, OrderTasks>>
+    >(kv, processQueryTuples, 10, 5, false),
+    (event) =>
+      event.kind === "TaskDeadlineElapsed"
+        ? event.processId
+        : "orderId" in event
+        ? "orderId:" + event.orderId
+        : "restaurantId:" + event.restaurantId,
+    {
+      CreateOrderCommand: (command, metadata) =>
+        orderHandler.handle({ ...command, ...metadata }),
+      EscalateOrderTimeout: async (action, metadata) => {
+        await escalate(action, metadata);
+        return [];
+      },
+    },
+    scheduler
+      ? workflowDeadlines<OrderTaskName, OrderTasks>(scheduler)
+      : undefined,
+  );
+};
@@ -0,0 +1,504 @@
+/**
+ * Integration tests for the restaurant order workflow process runner.
+ *
+ * Tests verify:
+ * - A placed order drives the workflow, which creates the order and completes its task
+ * - The created order inherits the correlation id and is caused by the task start
+ * - Re-delivered events do not create duplicate orders
+ * - Recovery re-issues the actions of tasks interrupted by a crash, with their tracing metadata
+ * - Recovery after a crash behind a successful executor does not create the order twice
+ * - A createOrder task that misses its deadline times out and is escalated once
+ */
+
+import { assertEquals, assertRejects } from "@std/assert";
+import { EventSourcedCommandHandler } from "../../application.ts";
+import {
+  DenoKvEventLoader,
+  DenoKvEventRepository,
+} from "../../denoKvEventRepository.ts";
+import { DenoKvDeadlineScheduler } from "../../denoKvProcessStore.ts";
+import { DenoKvEventStreamReader } from "../../denoKvProjectionStore.ts";
+import type { TraceMetadata } from "../../infrastructure.ts";
+import {
+  type IDeadlineScheduler,
+  type ProcessCommand,
+  type ProcessDeadline,
+  type ProcessEvent,
+  processQueryTuples,
+  ProcessRunner,
+  workflowDeadlines,
+} from "../../processRunner.ts";
+import type {
+  TaskDeadlineElapsed,
+  WorkflowEvent,
+  WorkflowState,
+} from "../../process_workflow.ts";
+import { orderDecider } from "./orderDecider.ts";
+import { orderRepository } from "./orderRepository.ts";
+import { restaurantRepository } from "./restaurantRepository.ts";
+import { restaurantDecider } from "./restaurantDecider.ts";
+import {
+  type EscalateOrderTimeout,
+  type OrderTaskName,
+  type OrderTasks,
+  restaurantOrderWorkflow,
+  restaurantOrderWorkflowWithDeadlines,
+} from "./restaurantOrderWorkflow.ts";
+import { restaurantOrderWorkflowRunner } from "./restaurantOrderWorkflowRunner.ts";
+import {
+  type Command,
+  type Event,
+  type MenuItem,
+  menuItemId,
+  type OrderCreatedEvent,
+  orderId,
+  restaurantId,
+  restaurantMenuId,
+} from "./api.ts";
+
+const testMenuItems: MenuItem[] = [
+  { menuItemId: menuItemId("item1"), name: "Pizza", price: "12.99" },
+];
+
+/** Helper to create restaurant `id` and place order `oid` there */
+async function placeOrder(
+  kv: Deno.Kv,
+  id: string,
+  oid: string,
+  trace: TraceMetadata = {},
+) {
+  const handler = new EventSourcedCommandHandler(
+    restaurantDecider,
+    restaurantRepository(kv),
+  );
+  await handler.handle({
+    decider: "Restaurant",
+    kind: "CreateRestaurantCommand",
+    restaurantId: restaurantId(id),
+    name: "Bistro",
+    menu: {
+      menuId: restaurantMenuId("m1"),
+      cuisine: "ITALIAN",
+      menuItems: testMenuItems,
+    },
+    idempotencyKey: "create-" + id,
+  });
+  return handler.handle({
+    decider: "Restaurant",
+    kind: "PlaceOrderCommand",
+    restaurantId: restaurantId(id),
+    orderId: orderId(oid),
+    menuItems: testMenuItems,
+    idempotencyKey: "place-" + oid,
+    ...trace,
+  });
+}
+
+/** Loads the stored workflow events of order `oid` */
+async function workflowEvents(kv: Deno.Kv, oid: string) {
+  const events = await new DenoKvEventLoader<
+    ProcessEvent<WorkflowEvent<OrderTaskName, OrderTasks>>
+  >(kv, false).load([
+    [
+      "processName:restaurantOrderWorkflow",
+      "processId:orderId:" + oid,
+      "ProcessEvent",
+    ],
+  ]);
+  return events.map((e) => e.event.type);
+}
+
+Deno.test("RestaurantOrderWorkflowRunner - placed order creates the order and completes the task", async () => {
+  const kv = await Deno.openKv(":memory:");
+  try {
+    const placed = await placeOrder(kv, "r1", "o1");
+
+    const handled = await restaurantOrderWorkflowRunner(kv).run(placed);
+    assertEquals(handled, 1);
+
+    const orders = await new DenoKvEventLoader<OrderCreatedEvent>(kv).load([
+      ["orderId:o1", "OrderCreatedEvent"],
+    ]);
+    assertEquals(orders.length, 1);
+    assertEquals(orders[0].restaurantId, restaurantId("r1"));
+    assertEquals(await workflowEvents(kv, "o1"), [
+      "TaskStarted",
+      "TaskCompleted",
+    ]);
+  } finally {
+    await kv.close();
+  }
+});
+
+Deno.test("RestaurantOrderWorkflowRunner - created order inherits the correlation id and is caused by the task start", async () => {
+  const kv = await Deno.openKv(":memory:");
+  try {
+    const [placed] = await placeOrder(kv, "r1", "o1", {
+      correlationId: "checkout-1",
+      headers: { tenant: "t1" },
+    });
+
+    await restaurantOrderWorkflowRunner(kv).run([placed]);
+
+    const events = await new DenoKvEventStreamReader<
+      | OrderCreatedEvent
+      | ProcessEvent<WorkflowEvent<OrderTaskName, OrderTasks>>
+    >(kv).read(null, 100);
+    const started = events.find((e) =>
+      e.kind === "ProcessEvent" && e.event.type === "TaskStarted"
+    )!;
+    const created = events.find((e) => e.kind === "OrderCreatedEvent")!;
+    assertEquals(started.correlationId, "checkout-1");
+    assertEquals(started.causationId, placed.eventId);
+    assertEquals(created.correlationId, "checkout-1");
+    assertEquals(created.causationId, started.eventId);
+    assertEquals(created.headers, { tenant: "t1" });
+  } finally {
+    await kv.close();
+  }
+});
+
+Deno.test("RestaurantOrderWorkflowRunner - re-delivered events do not create duplicate orders", async () => {
+  const kv = await Deno.openKv(":memory:");
+  try {
+    const placed = await placeOrder(kv, "r1", "o1");
+    const runner = restaurantOrderWorkflowRunner(kv);
+
+    await runner.run(placed);
+    await runner.run(placed);
+
+    const orders = await new DenoKvEventLoader<OrderCreatedEvent>(kv, false)
+      .load([
+        ["orderId:o1", "OrderCreatedEvent"],
+      ]);
+    assertEquals(orders.length, 1);
+    assertEquals(await workflowEvents(kv, "o1"), [
+      "TaskStarted",
+      "TaskCompleted",
+    ]);
+  } finally {
+    await kv.close();
+  }
+});
+
+Deno.test("RestaurantOrderWorkflowRunner - recover re-issues actions interrupted by a crash", async () => {
+  const kv = await Deno.openKv(":memory:");
+  try {
+    const placed = await placeOrder(kv, "r1", "o1", {
+      correlationId: "checkout-1",
+      headers: { tenant: "t1" },
+    });
+
+    // Same process, but the order service is down
+    const crashing = new ProcessRunner<
+      Event,
+      WorkflowState<OrderTaskName, OrderTasks>,
+      WorkflowEvent<OrderTaskName, OrderTasks>,
+      Command
+    >(
+      "restaurantOrderWorkflow",
+      restaurantOrderWorkflow,
+      new DenoKvEventRepository<
+        ProcessCommand<Event>,
+        ProcessEvent<WorkflowEvent<OrderTaskName, OrderTasks>>,
+        ProcessEvent<WorkflowEvent<OrderTaskName, OrderTasks>>
+      >(kv, processQueryTuples, 10, 5, false),
+      (event) => "orderId" in event ? "orderId:" + event.orderId : "",
+      {
+        CreateOrderCommand: () =>
+          Promise.reject(new Error("order service unavailable")),
+      },
+    );
+    await assertRejects(
+      () => crashing.run(placed),
+      Error,
+      "order service unavailable",
+    );
+    assertEquals(await workflowEvents(kv, "o1"), ["TaskStarted"]);
+
+    const recovered = await restaurantOrderWorkflowRunner(kv).recover();
+    assertEquals(recovered, 1);
+
+    const orders = await new DenoKvEventLoader<OrderCreatedEvent>(kv).load([
+      ["orderId:o1", "OrderCreatedEvent"],
+    ]);
+    assertEquals(orders.length, 1);
+    assertEquals(orders[0].menuItems, testMenuItems);
+    assertEquals(await workflowEvents(kv, "o1"), [
+      "TaskStarted",
+      "TaskCompleted",
+    ]);
+
+    // The re-issued order and its outcome keep the tracing metadata
+    const events = await new DenoKvEventStreamReader<
+      | OrderCreatedEvent
+      | ProcessEvent<WorkflowEvent<OrderTaskName, OrderTasks>>
+    >(kv).read(null, 100);
+    const processEvent = (type: string) =>
+      events.find((e) => e.kind === "ProcessEvent" && e.event.type === type)!;
+    const created = events.find((e) => e.kind === "OrderCreatedEvent")!;
+    assertEquals(created.correlationId, "checkout-1");
+    assertEquals(created.causationId, processEvent("TaskStarted").eventId);
+    assertEquals(created.headers, { tenant: "t1" });
+    assertEquals(processEvent("TaskCompleted").correlationId, "checkout-1");
+    assertEquals(
+      processEvent("TaskCompleted").causationId,
+      processEvent("TaskStarted").eventId,
+    );
+
+    // Nothing left to recover
+    assertEquals(await restaurantOrderWorkflowRunner(kv).recover(), 0);
+  } finally {
+    await kv.close();
+  }
+});
+
+Deno.test("RestaurantOrderWorkflowRunner - recover after an executed action reuses its idempotency key", async () => {
+  const kv = await Deno.openKv(":memory:");
+  try {
+    const placed = await placeOrder(kv, "r1", "o1");
+
+    // The order is created, but the runner crashes before feeding the outcome back
+    const orderHandler = new EventSourcedCommandHandler(
+      orderDecider,
+      orderRepository(kv),
+    );
+    const crashing = new ProcessRunner<
+      Event,
+      WorkflowState<OrderTaskName, OrderTasks>,
+      WorkflowEvent<OrderTaskName, OrderTasks>,
+      Command
+    >(
+      "restaurantOrderWorkflow",
+      restaurantOrderWorkflow,
+      new DenoKvEventRepository<
+        ProcessCommand<Event>,
+        ProcessEvent<WorkflowEvent<OrderTaskName, OrderTasks>>,
+        ProcessEvent<WorkflowEvent<OrderTaskName, OrderTasks>>
+      >(kv, processQueryTuples, 10, 5, false),
+      (event) => "orderId" in event ? "orderId:" + event.orderId : "",
+      {
+        CreateOrderCommand: async (command, metadata) => {
+          await orderHandler.handle({ ...command, ...metadata });
+          throw new Error("runner crashed");
+        },
+      },
+    );
+    await assertRejects(() => crashing.run(placed), Error, "runner crashed");
+
+    assertEquals(await restaurantOrderWorkflowRunner(kv).recover(), 1);
+
+    const orders = await new DenoKvEventLoader<OrderCreatedEvent>(kv, false)
+      .load([["orderId:o1", "OrderCreatedEvent"]]);
+    assertEquals(orders.length, 1);
+    assertEquals(await workflowEvents(kv, "o1"), [
+      "TaskStarted",
+      "TaskCompleted",
+    ]);
+  } finally {
+    await kv.close();
+  }
+});
+
+Deno.test("RestaurantOrderWorkflowRunner - actions without an executor are rejected", async () => {
+  const kv = await Deno.openKv(":memory:");
+  try {
+    const placed = await placeOrder(kv, "r1", "o1");
+    const runner = new ProcessRunner<
+      Event,
+      WorkflowState<OrderTaskName, OrderTasks>,
+      WorkflowEvent<OrderTaskName, OrderTasks>,
+      Command
+    >(
+      "restaurantOrderWorkflow",
+      restaurantOrderWorkflow,
+      new DenoKvEventRepository<
+        ProcessCommand<Event>,
+        ProcessEvent<WorkflowEvent<OrderTaskName, OrderTasks>>,
+        ProcessEvent<WorkflowEvent<OrderTaskName, OrderTasks>>
+      >(kv, processQueryTuples, 10, 5, false),
+      (event) => "orderId" in event ? "orderId:" + event.orderId : "",
+      {},
+    );
+
+    await assertRejects(
+      () => runner.run(placed),
+      Error,
+      'no executor registered for action "CreateOrderCommand"',
+    );
+  } finally {
+    await kv.close();
+  }
+});
+
+/** Scheduler recording the scheduled deadlines */
+function recordingScheduler(): IDeadlineScheduler & {
+  scheduled: ProcessDeadline[];
+} {
+  const scheduled: ProcessDeadline[] = [];
+  return {
+    scheduled,
+    schedule: (deadline) => {
+      scheduled.push(deadline);
+      return Promise.resolve();
+    },
+  };
+}
+
+/** Runner whose order service is down, so the createOrder task never completes */
+function unavailableOrderServiceRunner(
+  kv: Deno.Kv,
+  scheduler: IDeadlineScheduler,
+) {
+  return new ProcessRunner<
+    Event | TaskDeadlineElapsed<OrderTaskName>,
+    WorkflowState<OrderTaskName, OrderTasks>,
+    WorkflowEvent<OrderTaskName, OrderTasks>,
+    Command | EscalateOrderTimeout
+  >(
+    "restaurantOrderWorkflow",
+    restaurantOrderWorkflowWithDeadlines,
+    new DenoKvEventRepository<
+      ProcessCommand<Event | TaskDeadlineElapsed<OrderTaskName>>,
+      ProcessEvent<WorkflowEvent<OrderTaskName, OrderTasks>>,
+      ProcessEvent<WorkflowEvent<OrderTaskName, OrderTasks>>
+    >(kv, processQueryTuples, 10, 5, false),
+    (event) => "orderId" in event ? "orderId:" + event.orderId : "",
+    {
+      CreateOrderCommand: () =>
+        Promise.reject(new Error("order service unavailable")),
+    },
+    workflowDeadlines<OrderTaskName, OrderTasks>(scheduler),
+  );
+}
+
+Deno.test("RestaurantOrderWorkflowRunner - missed deadline times out the task and escalates once", async () => {
+  const kv = await Deno.openKv(":memory:");
+  try {
+    const placed = await placeOrder(kv, "r1", "o1");
+    const scheduler = recordingScheduler();
+
+    await assertRejects(
+      () => unavailableOrderServiceRunner(kv, scheduler).run(placed),
+      Error,
+      "order service unavailable",
+    );
+    // Deadline is scheduled before the action is dispatched
+    assertEquals(scheduler.scheduled.length, 1);
+    const [deadline] = scheduler.scheduled;
+    assertEquals(deadline.processName, "restaurantOrderWorkflow");
+    assertEquals(deadline.processId, "orderId:o1");
+    assertEquals(deadline.name, "createOrder");
+
+    const escalations: EscalateOrderTimeout[] = [];
+    const escalationKeys: string[] = [];
+    const runner = restaurantOrderWorkflowRunner(
+      kv,
+      scheduler,
+      (action, metadata) => {
+        escalations.push(action);
+        escalationKeys.push(metadata.idempotencyKey);
+        return Promise.resolve();
+      },
+    );
+    const events = await runner.handleDeadline(deadline);
+    assertEquals(events.map((e) => e.event.type), ["TaskTimedOut"]);
+
+    // Re-delivered deadline circuit-breaks on its idempotency key
+    await runner.handleDeadline(deadline);
+    assertEquals(escalations, [{
+      kind: "EscalateOrderTimeout",
+      orderId: orderId("o1"),
+      restaurantId: restaurantId("r1"),
+    }]);
+    assertEquals(await workflowEvents(kv, "o1"), [
+      "TaskStarted",
+      "TaskTimedOut",
+    ]);
+    // Recovery re-issues the escalation under its original idempotency key
+    assertEquals(await runner.recover(), 1);
+    assertEquals(escalations.length, 2);
+    assertEquals(escalationKeys[1], escalationKeys[0]);
+    // Deadlines of other processes are ignored
+    assertEquals(
+      await runner.handleDeadline({ ...deadline, processName: "other" }),
+      [],
+    );
+  } finally {
+    await kv.close();
+  }
+});
+
+Deno.test("RestaurantOrderWorkflowRunner - deadline of a completed task is ignored", async () => {
+  const kv = await Deno.openKv(":memory:");
+  try {
+    const placed = await placeOrder(kv, "r1", "o1");
+    const scheduler = recordingScheduler();
+    const escalations: EscalateOrderTimeout[] = [];
+    const runner = restaurantOrderWorkflowRunner(kv, scheduler, (action) => {
+      escalations.push(action);
+      return Promise.resolve();
+    });
+
+    await runner.run(placed);
+    assertEquals(scheduler.scheduled.length, 1);
+    assertEquals(await runner.handleDeadline(scheduler.scheduled[0]), []);
+
+    assertEquals(escalations, []);
+    assertEquals(await workflowEvents(kv, "o1"), [
+      "TaskStarted",
+      "TaskCompleted",
+    ]);
+  } finally {
+    await kv.close();
+  }
+});
+
+Deno.test("RestaurantOrderWorkflowRunner - recover schedules deadlines of interrupted tasks", async () => {
+  const kv = await Deno.openKv(":memory:");
+  try {
+    const placed = await placeOrder(kv, "r1", "o1");
+    await assertRejects(
+      () => unavailableOrderServiceRunner(kv, recordingScheduler()).run(placed),
+      Error,
+      "order service unavailable",
+    );
+
+    const scheduler = recordingScheduler();
+    await assertRejects(
+      () => unavailableOrderServiceRunner(kv, scheduler).recover(),
+      Error,
+      "order service unavailable",
+    );
+    assertEquals(scheduler.scheduled.map((d) => d.name), ["createOrder"]);
+  } finally {
+    await kv.close();
+  }
+});
+
+Deno.test("DenoKvDeadlineScheduler - delivers passed deadlines through the KV queue", async () => {
+  const kv = await Deno.openKv(":memory:");
+  try {
+    const scheduler = new DenoKvDeadlineScheduler(kv);
+    const deadline: ProcessDeadline = {
+      processName: "restaurantOrderWorkflow",
+      processId: "orderId:o1",
+      name: "createOrder",
+      dueAt: Date.now(),
+    };
+    const delivered = Promise.withResolvers<ProcessDeadline>();
+    const listening = scheduler.listen((d) => {
+      delivered.resolve(d);
+      return Promise.resolve();
+    });
+
+    await scheduler.schedule(deadline);
+    assertEquals(await delivered.promise, deadline);
+
+    kv.close();
+    await listening;
+  } catch (error) {
+    kv.close();
+    throw error;
+  }
+});
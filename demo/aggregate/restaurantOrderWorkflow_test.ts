@@ -1,5 +1,9 @@
 import { assertEquals } from "@std/assert";
-import { restaurantOrderWorkflow } from "./restaurantOrderWorkflow.ts";
+import {
+  CREATE_ORDER_TIMEOUT_MS,
+  restaurantOrderWorkflow,
+  restaurantOrderWorkflowWithDeadlines,
+} from "./restaurantOrderWorkflow.ts";
 import { type MenuItem, menuItemId, orderId, restaurantId } from "./api.ts";
 
 const testMenuItems: MenuItem[] = [
@@ -111,13 +115,28 @@ Deno.test("Restaurant Order Workflow - Pending Actions", () => {
     tasks: { createOrder: "started" as const },
   };
 
-  const pendingActions = restaurantOrderWorkflow.pending(stateWithStartedTask);
+  const stateWithTaskMetadata = {
+    ...stateWithStartedTask,
+    taskMetadata: {
+      createOrder: {
+        orderId: orderId("order-1"),
+        restaurantId: restaurantId("restaurant-1"),
+        menuItems: testMenuItems,
+      },
+    },
+  };
+
+  const pendingActions = restaurantOrderWorkflow.pending(stateWithTaskMetadata);
 
   assertEquals(pendingActions.length, 1);
   assertEquals(pendingActions[0].kind, "CreateOrderCommand");
   if (pendingActions[0].kind === "CreateOrderCommand") {
-    assertEquals(pendingActions[0].orderId, "pending-order");
+    assertEquals(pendingActions[0].orderId, "order-1");
+    assertEquals(pendingActions[0].menuItems, testMenuItems);
   }
+
+  // Without the start metadata, no action is invented
+  assertEquals(restaurantOrderWorkflow.pending(stateWithStartedTask), []);
 });
 
 Deno.test("Restaurant Order Workflow - No Pending Actions for Empty State", () => {
@@ -126,3 +145,112 @@ Deno.test("Restaurant Order Workflow - No Pending Actions for Empty State", () =
 
   assertEquals(pendingActions.length, 0);
 });
+
+Deno.test("Restaurant Order Workflow - Task Started with Deadline", () => {
+  const before = Date.now();
+  const workflowEvents = restaurantOrderWorkflow.decide({
+    decider: "Restaurant" as const,
+    kind: "RestaurantOrderPlacedEvent" as const,
+    restaurantId: restaurantId("restaurant-1"),
+    orderId: orderId("order-1"),
+    menuItems: testMenuItems,
+    final: false,
+    tagFields: ["restaurantId"] as const,
+  }, { tasks: {} });
+
+  assertEquals(workflowEvents[0].type, "TaskStarted");
+  const state = restaurantOrderWorkflow.evolve(
+    { tasks: {} },
+    workflowEvents[0],
+  );
+  const deadline = restaurantOrderWorkflow.getTaskDeadline(
+    state,
+    "createOrder",
+  );
+  assertEquals(
+    deadline !== undefined && deadline >= before + CREATE_ORDER_TIMEOUT_MS,
+    true,
+  );
+  assertEquals(
+    restaurantOrderWorkflow.isTaskOverdue(state, "createOrder", before),
+    false,
+  );
+  assertEquals(
+    restaurantOrderWorkflow.isTaskOverdue(state, "createOrder", deadline),
+    true,
+  );
+});
+
+Deno.test("Restaurant Order Workflow - Elapsed Deadline Times Out and Escalates", () => {
+  const started = restaurantOrderWorkflowWithDeadlines.createTaskStarted(
+    "createOrder",
+    {
+      orderId: orderId("order-1"),
+      restaurantId: restaurantId("restaurant-1"),
+      menuItems: testMenuItems,
+    },
+    1000,
+  );
+  const state = restaurantOrderWorkflowWithDeadlines.evolve(
+    { tasks: {} },
+    started,
+  );
+
+  const workflowEvents = restaurantOrderWorkflowWithDeadlines.decide({
+    kind: "TaskDeadlineElapsed",
+    processId: "orderId:order-1",
+    taskName: "createOrder",
+    deadline: 1000,
+  }, state);
+
+  assertEquals(workflowEvents.length, 1);
+  assertEquals(workflowEvents[0].type, "TaskTimedOut");
+  const timedOut = restaurantOrderWorkflowWithDeadlines.evolve(
+    state,
+    workflowEvents[0],
+  );
+  assertEquals(
+    restaurantOrderWorkflowWithDeadlines.isTaskTimedOut(
+      timedOut,
+      "createOrder",
+    ),
+    true,
+  );
+  const escalation = {
+    kind: "EscalateOrderTimeout" as const,
+    orderId: orderId("order-1"),
+    restaurantId: restaurantId("restaurant-1"),
+  };
+  assertEquals(
+    restaurantOrderWorkflowWithDeadlines.react(timedOut, workflowEvents[0]),
+    [escalation],
+  );
+  assertEquals(restaurantOrderWorkflowWithDeadlines.pending(timedOut), [
+    escalation,
+  ]);
+});
+
+Deno.test("Restaurant Order Workflow - Stale or Completed Deadlines Are Ignored", () => {
+  const workflow = restaurantOrderWorkflowWithDeadlines;
+  const state = workflow.evolve(
+    { tasks: {} },
+    workflow.createTaskStarted("createOrder", undefined, 2000),
+  );
+  const elapsed = (deadline: number) => ({
+    kind: "TaskDeadlineElapsed" as const,
+    processId: "orderId:order-1",
+    taskName: "createOrder" as const,
+    deadline,
+  });
+
+  // Deadline of an earlier start of the task
+  assertEquals(workflow.decide(elapsed(1000), state), []);
+
+  // Task completed before the deadline passed
+  const completed = workflow.evolve(
+    state,
+    workflow.createTaskCompleted("createOrder"),
+  );
+  assertEquals(workflow.decide(elapsed(2000), completed), []);
+  assertEquals(workflow.isTaskOverdue(completed, "createOrder", 3000), false);
+});
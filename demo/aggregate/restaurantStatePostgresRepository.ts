@@ -0,0 +1,28 @@
+/**
+ * Postgres state-stored repository for Restaurant aggregate.
+ *
+ * Handles restaurant commands by persisting the current `Restaurant` state
+ * to the `dcb.states` table via `dcb.conditional_save_state` with optimistic locking.
+ */
+
+import type { SqlClient } from "../../postgresEventRepository.ts";
+import { PostgresStateRepository } from "../../postgresStateRepository.ts";
+import type { Restaurant, RestaurantCommand } from "./api.ts";
+
+/**
+ * Creates a Postgres-backed state-stored repository for Restaurant aggregate.
+ *
+ * **State Id:**
+ * State is stored per restaurant under `"restaurantId:" + cmd.restaurantId`.
+ *
+ * @param client - PostgreSQL client instance
+ * @returns Repository instance for handling RestaurantCommand
+ */
+export const restaurantStatePostgresRepository = (
+  client: SqlClient,
+): PostgresStateRepository<RestaurantCommand, Restaurant | null> =>
+  new PostgresStateRepository<RestaurantCommand, Restaurant | null>(
+    client,
+    (cmd) => "restaurantId:" + cmd.restaurantId,
+    null,
+  );
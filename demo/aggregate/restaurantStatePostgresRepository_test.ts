@@ -0,0 +1,197 @@
+/**
+ * Postgres integration tests for RestaurantStateRepository.
+ *
+ * Mirrors the behavior tests from restaurantStateRepository_test.ts
+ * but targets the PostgreSQL backend via restaurantStatePostgresRepository.
+ *
+ * Tests verify:
+ * - State persistence to PostgreSQL via dcb.conditional_save_state
+ * - Version increments on every successful save
+ * - Domain error propagation
+ * - Idempotency circuit-break and command kind mismatch detection
+ * - Concurrent modification detection with automatic retry
+ *
+ * Requires Docker daemon for testcontainers.
+ */
+
+import { assertEquals, assertRejects } from "@std/assert";
+import { StateStoredCommandHandler } from "../../application.ts";
+import { restaurantStatePostgresRepository } from "./restaurantStatePostgresRepository.ts";
+import { restaurantDecider } from "./restaurantDecider.ts";
+import {
+  type ChangeRestaurantMenuCommand,
+  type CreateRestaurantCommand,
+  menuItemId,
+  type Restaurant,
+  type RestaurantCommand,
+  restaurantId,
+  restaurantMenuId,
+  RestaurantNotFoundError,
+} from "./api.ts";
+import {
+  type CommandMetadata,
+  IdempotencyKeyMismatchError,
+  type StateMetadata,
+} from "../../infrastructure.ts";
+import {
+  createPostgresClient,
+  startPostgresContainer,
+} from "../dcb/testcontainers.ts";
+
+const { container, connectionString } = await startPostgresContainer();
+const client = await createPostgresClient(connectionString);
+
+const newHandler = () =>
+  new StateStoredCommandHandler<
+    RestaurantCommand,
+    Restaurant | null,
+    CommandMetadata,
+    StateMetadata
+  >(restaurantDecider, restaurantStatePostgresRepository(client));
+
+const createCommand = (
+  id: string,
+  idempotencyKey: string,
+): CreateRestaurantCommand & CommandMetadata => ({
+  decider: "Restaurant",
+  kind: "CreateRestaurantCommand",
+  restaurantId: restaurantId(id),
+  name: "Bistro",
+  menu: {
+    menuId: restaurantMenuId("m1"),
+    cuisine: "ITALIAN",
+    menuItems: [
+      { menuItemId: menuItemId("item1"), name: "Pizza", price: "12.99" },
+    ],
+  },
+  idempotencyKey,
+});
+
+const changeMenuCommand = (
+  id: string,
+  idempotencyKey: string,
+): ChangeRestaurantMenuCommand & CommandMetadata => ({
+  decider: "Restaurant",
+  kind: "ChangeRestaurantMenuCommand",
+  restaurantId: restaurantId(id),
+  menu: {
+    menuId: restaurantMenuId("m2"),
+    cuisine: "FRENCH",
+    menuItems: [
+      { menuItemId: menuItemId("item3"), name: "Croissant", price: "5.99" },
+    ],
+  },
+  idempotencyKey,
+});
+
+Deno.test({
+  name:
+    "Postgres: RestaurantStateRepository - creation and menu change increment the version",
+  sanitizeResources: false,
+  sanitizeOps: false,
+  fn: async () => {
+    const handler = newHandler();
+
+    const created = await handler.handle(
+      createCommand("r-pg-state-1", "pg-state-create-1"),
+    );
+    assertEquals(created.name, "Bistro");
+    assertEquals(created.versionstamp, "1");
+    assertEquals(created.idempotencyKey, "pg-state-create-1");
+
+    const changed = await handler.handle(
+      changeMenuCommand("r-pg-state-1", "pg-state-change-1"),
+    );
+    assertEquals(changed.menu.cuisine, "FRENCH");
+    assertEquals(changed.versionstamp, "2");
+
+    const result = await client.queryObject<{ version: bigint }>(
+      `SELECT version FROM dcb.states WHERE id = 'restaurantId:r-pg-state-1'`,
+    );
+    assertEquals(Number(result.rows[0].version), 2);
+  },
+});
+
+Deno.test({
+  name:
+    "Postgres: RestaurantStateRepository - menu change on non-existent restaurant (domain error)",
+  sanitizeResources: false,
+  sanitizeOps: false,
+  fn: async () => {
+    const handler = newHandler();
+
+    await assertRejects(
+      () =>
+        handler.handle(
+          changeMenuCommand("r-pg-state-missing", "pg-state-change-missing"),
+        ),
+      RestaurantNotFoundError,
+    );
+
+    const result = await client.queryObject(
+      `SELECT id FROM dcb.states WHERE id = 'restaurantId:r-pg-state-missing'`,
+    );
+    assertEquals(result.rows.length, 0);
+  },
+});
+
+Deno.test({
+  name:
+    "Postgres: RestaurantStateRepository - idempotency circuit-break returns the original state",
+  sanitizeResources: false,
+  sanitizeOps: false,
+  fn: async () => {
+    const handler = newHandler();
+
+    const first = await handler.handle(
+      createCommand("r-pg-state-2", "pg-state-create-2"),
+    );
+    await handler.handle(
+      changeMenuCommand("r-pg-state-2", "pg-state-change-2"),
+    );
+    const replay = await handler.handle(
+      createCommand("r-pg-state-2", "pg-state-create-2"),
+    );
+
+    assertEquals(replay.menu.cuisine, "ITALIAN");
+    assertEquals(replay.versionstamp, first.versionstamp);
+
+    await assertRejects(
+      () =>
+        handler.handle(
+          changeMenuCommand("r-pg-state-2", "pg-state-create-2"),
+        ),
+      IdempotencyKeyMismatchError,
+    );
+  },
+});
+
+Deno.test({
+  name:
+    "Postgres: RestaurantStateRepository - concurrent menu changes retry on version conflict",
+  sanitizeResources: false,
+  sanitizeOps: false,
+  fn: async () => {
+    const handler = newHandler();
+
+    await handler.handle(createCommand("r-pg-state-3", "pg-state-create-3"));
+
+    const results = await Promise.all([
+      handler.handle(changeMenuCommand("r-pg-state-3", "pg-state-change-3a")),
+      handler.handle(changeMenuCommand("r-pg-state-3", "pg-state-change-3b")),
+    ]);
+
+    const versions = results.map((r) => r.versionstamp).sort();
+    assertEquals(versions, ["2", "3"]);
+  },
+});
+
+Deno.test({
+  name: "Postgres: cleanup",
+  sanitizeResources: false,
+  sanitizeOps: false,
+  fn: async () => {
+    await client.end();
+    await container.stop();
+  },
+});
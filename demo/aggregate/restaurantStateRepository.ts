@@ -0,0 +1,34 @@
+/**
+ * State-stored repository for Restaurant aggregate.
+ *
+ * Handles restaurant commands by persisting the current `Restaurant` state
+ * to Deno KV storage with optimistic locking.
+ */
+
+import { DenoKvStateRepository } from "../../denoKvStateRepository.ts";
+import type { Restaurant, RestaurantCommand } from "./api.ts";
+
+/**
+ * Creates a state-stored repository for Restaurant aggregate.
+ *
+ * **State Id:**
+ * State is stored per restaurant under `"restaurantId:" + cmd.restaurantId`.
+ *
+ * @param kv - Deno KV instance for storage
+ * @returns Repository instance for handling RestaurantCommand
+ *
+ * @example
+ * ```typescript
+ * const kv = await Deno.openKv();
+ * const repository = restaurantStateRepository(kv);
+ * const restaurant = await repository.execute(command, restaurantDecider);
+ * ```
+ */
+export const restaurantStateRepository = (
+  kv: Deno.Kv,
+): DenoKvStateRepository<RestaurantCommand, Restaurant | null> =>
+  new DenoKvStateRepository<RestaurantCommand, Restaurant | null>(
+    kv,
+    (cmd) => "restaurantId:" + cmd.restaurantId,
+    null,
+  );
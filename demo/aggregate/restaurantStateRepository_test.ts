@@ -0,0 +1,305 @@
+/**
+ * Integration tests for RestaurantStateRepository.
+ *
+ * Tests verify:
+ * - State persistence to Deno KV (state-stored mode)
+ * - Domain error propagation
+ * - Idempotency circuit-break and command kind mismatch detection
+ * - Concurrent modification detection with automatic retry
+ * - Batch execution applying commands sequentially to one state
+ * - Middleware around single and batch execution
+ */
+
+import { assertEquals, assertRejects } from "@std/assert";
+import { StateStoredCommandHandler } from "../../application.ts";
+import { restaurantStateRepository } from "./restaurantStateRepository.ts";
+import { restaurantDecider } from "./restaurantDecider.ts";
+import {
+  type ChangeRestaurantMenuCommand,
+  type CreateRestaurantCommand,
+  menuItemId,
+  type Restaurant,
+  RestaurantAlreadyExistsError,
+  type RestaurantCommand,
+  restaurantId,
+  restaurantMenuId,
+  RestaurantNotFoundError,
+} from "./api.ts";
+import {
+  type CommandMetadata,
+  IdempotencyKeyMismatchError,
+  type StateMetadata,
+} from "../../infrastructure.ts";
+
+/**
+ * State-stored handler with explicit metadata types, so that results are typed
+ * as `Restaurant & StateMetadata`.
+ */
+const newHandler = (kv: Deno.Kv) =>
+  new StateStoredCommandHandler<
+    RestaurantCommand,
+    Restaurant | null,
+    CommandMetadata,
+    StateMetadata
+  >(restaurantDecider, restaurantStateRepository(kv));
+
+const createCommand = (
+  id: string,
+  idempotencyKey: string,
+): CreateRestaurantCommand & CommandMetadata => ({
+  decider: "Restaurant",
+  kind: "CreateRestaurantCommand",
+  restaurantId: restaurantId(id),
+  name: "Bistro",
+  menu: {
+    menuId: restaurantMenuId("m1"),
+    cuisine: "ITALIAN",
+    menuItems: [
+      { menuItemId: menuItemId("item1"), name: "Pizza", price: "12.99" },
+    ],
+  },
+  idempotencyKey,
+});
+
+const changeMenuCommand = (
+  id: string,
+  idempotencyKey: string,
+): ChangeRestaurantMenuCommand & CommandMetadata => ({
+  decider: "Restaurant",
+  kind: "ChangeRestaurantMenuCommand",
+  restaurantId: restaurantId(id),
+  menu: {
+    menuId: restaurantMenuId("m2"),
+    cuisine: "FRENCH",
+    menuItems: [
+      { menuItemId: menuItemId("item3"), name: "Croissant", price: "5.99" },
+    ],
+  },
+  idempotencyKey,
+});
+
+Deno.test("RestaurantStateRepository - successful restaurant creation (happy path)", async () => {
+  const kv = await Deno.openKv(":memory:");
+
+  try {
+    const handler = newHandler(kv);
+
+    const state = await handler.handle(createCommand("r1", "create-r1"));
+
+    assertEquals(state.restaurantId, restaurantId("r1"));
+    assertEquals(state.name, "Bistro");
+    assertEquals(state.menu.menuId, restaurantMenuId("m1"));
+    assertEquals(state.idempotencyKey, "create-r1");
+    assertEquals(typeof state.timestamp, "number");
+    assertEquals(typeof state.versionstamp, "string");
+
+    // Verify state persisted without metadata
+    const stored = await kv.get<Restaurant>(["state", "restaurantId:r1"]);
+    assertEquals(stored.value, {
+      restaurantId: restaurantId("r1"),
+      name: "Bistro",
+      menu: createCommand("r1", "create-r1").menu,
+    });
+    assertEquals(stored.versionstamp, state.versionstamp);
+  } finally {
+    await kv.close();
+  }
+});
+
+Deno.test("RestaurantStateRepository - menu change on existing restaurant", async () => {
+  const kv = await Deno.openKv(":memory:");
+
+  try {
+    const handler = newHandler(kv);
+
+    await handler.handle(createCommand("r1", "create-r1"));
+    const state = await handler.handle(changeMenuCommand("r1", "change-r1"));
+
+    assertEquals(state.restaurantId, restaurantId("r1"));
+    assertEquals(state.name, "Bistro");
+    assertEquals(state.menu.menuId, restaurantMenuId("m2"));
+    assertEquals(state.menu.cuisine, "FRENCH");
+  } finally {
+    await kv.close();
+  }
+});
+
+Deno.test("RestaurantStateRepository - menu change on non-existent restaurant (domain error)", async () => {
+  const kv = await Deno.openKv(":memory:");
+
+  try {
+    const handler = newHandler(kv);
+
+    await assertRejects(
+      () => handler.handle(changeMenuCommand("r1", "change-r1")),
+      RestaurantNotFoundError,
+    );
+
+    // Verify nothing was persisted
+    const stored = await kv.get(["state", "restaurantId:r1"]);
+    assertEquals(stored.versionstamp, null);
+  } finally {
+    await kv.close();
+  }
+});
+
+Deno.test("RestaurantStateRepository - idempotency circuit-break returns same state on duplicate key", async () => {
+  const kv = await Deno.openKv(":memory:");
+
+  try {
+    const handler = newHandler(kv);
+
+    const command = createCommand("r1", "create-r1");
+    const first = await handler.handle(command);
+
+    // Second execution with the same key must not re-run the decider
+    // (which would throw RestaurantAlreadyExistsError)
+    const second = await handler.handle(command);
+
+    assertEquals(second, first);
+  } finally {
+    await kv.close();
+  }
+});
+
+Deno.test("RestaurantStateRepository - circuit-break returns original state after later changes", async () => {
+  const kv = await Deno.openKv(":memory:");
+
+  try {
+    const handler = newHandler(kv);
+
+    const command = createCommand("r1", "create-r1");
+    const first = await handler.handle(command);
+    await handler.handle(changeMenuCommand("r1", "change-r1"));
+
+    const replay = await handler.handle(command);
+    assertEquals(replay.menu.menuId, restaurantMenuId("m1"));
+    assertEquals(replay.versionstamp, first.versionstamp);
+  } finally {
+    await kv.close();
+  }
+});
+
+Deno.test("RestaurantStateRepository - different command reusing same idempotencyKey throws IdempotencyKeyMismatchError", async () => {
+  const kv = await Deno.openKv(":memory:");
+
+  try {
+    const handler = newHandler(kv);
+
+    await handler.handle(createCommand("r1", "shared-key"));
+
+    await assertRejects(
+      () => handler.handle(changeMenuCommand("r1", "shared-key")),
+      IdempotencyKeyMismatchError,
+    );
+  } finally {
+    await kv.close();
+  }
+});
+
+Deno.test("RestaurantStateRepository - concurrent creation retries and surfaces domain error", async () => {
+  const kv = await Deno.openKv(":memory:");
+
+  try {
+    const handler = newHandler(kv);
+
+    // Both commands load an empty state; only one commit can win the versionstamp check.
+    // The loser retries, sees the stored restaurant and fails with a domain error.
+    const results = await Promise.allSettled([
+      handler.handle(createCommand("r1", "create-r1-a")),
+      handler.handle(createCommand("r1", "create-r1-b")),
+    ]);
+
+    const fulfilled = results.filter((r) => r.status === "fulfilled");
+    const rejected = results.filter((r) => r.status === "rejected");
+    assertEquals(fulfilled.length, 1);
+    assertEquals(rejected.length, 1);
+    assertEquals(
+      (rejected[0] as PromiseRejectedResult).reason instanceof
+        RestaurantAlreadyExistsError,
+      true,
+    );
+  } finally {
+    await kv.close();
+  }
+});
+
+Deno.test("RestaurantStateRepository - executeBatch: create + change menu in one atomic write", async () => {
+  const kv = await Deno.openKv(":memory:");
+
+  try {
+    const handler = newHandler(kv);
+
+    const state = await handler.handleBatch([
+      createCommand("r1", "batch-r1"),
+      changeMenuCommand("r1", "batch-r1"),
+    ]);
+
+    assertEquals(state.name, "Bistro");
+    assertEquals(state.menu.menuId, restaurantMenuId("m2"));
+    assertEquals(state.idempotencyKey, "batch-r1");
+
+    const stored = await kv.get<Restaurant>(["state", "restaurantId:r1"]);
+    assertEquals(stored.value?.menu.menuId, restaurantMenuId("m2"));
+  } finally {
+    await kv.close();
+  }
+});
+
+Deno.test("RestaurantStateRepository - executeBatch: domain error mid-batch prevents persistence", async () => {
+  const kv = await Deno.openKv(":memory:");
+
+  try {
+    const handler = newHandler(kv);
+
+    await assertRejects(
+      () =>
+        handler.handleBatch([
+          createCommand("r1", "batch-r1"),
+          createCommand("r1", "batch-r1"),
+        ]),
+      RestaurantAlreadyExistsError,
+    );
+
+    const stored = await kv.get(["state", "restaurantId:r1"]);
+    assertEquals(stored.versionstamp, null);
+  } finally {
+    await kv.close();
+  }
+});
+
+Deno.test("RestaurantStateRepository - middleware sees commands and the new state", async () => {
+  const kv = await Deno.openKv(":memory:");
+
+  try {
+    const log: string[] = [];
+    const handler = new StateStoredCommandHandler<
+      RestaurantCommand,
+      Restaurant | null,
+      CommandMetadata,
+      StateMetadata
+    >(restaurantDecider, restaurantStateRepository(kv), [
+      async (commands, next) => {
+        log.push(commands.map((c) => c.kind).join(","));
+        const state = await next(commands);
+        log.push(state.menu.cuisine);
+        return state;
+      },
+    ]);
+
+    await handler.handle(createCommand("r1", "create-r1"));
+    await handler.handleBatch([
+      changeMenuCommand("r1", "change-r1"),
+      changeMenuCommand("r1", "change-r1-again"),
+    ]);
+
+    assertEquals(log, [
+      "CreateRestaurantCommand",
+      "ITALIAN",
+      "ChangeRestaurantMenuCommand,ChangeRestaurantMenuCommand",
+      "FRENCH",
+    ]);
+  } finally {
+    await kv.close();
+  }
+});
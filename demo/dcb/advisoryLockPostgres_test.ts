@@ -0,0 +1,121 @@
+/**
+ * Postgres tests for the advisory-lock append path of PostgresEventRepository.
+ *
+ * Tests verify:
+ * - An append does not wait for locks held on an unrelated restaurant
+ * - An append waits for locks held on its own restaurant (and times out)
+ *
+ * Requires Docker daemon for testcontainers.
+ */
+
+import { assertEquals, assertRejects } from "@std/assert";
+import { RepositoryError } from "../../infrastructure.ts";
+import type { CommandMetadata } from "../../infrastructure.ts";
+import { PostgresEventRepository } from "../../postgresEventRepository.ts";
+import { createRestaurantDecider } from "./createRestaurantDecider.ts";
+import {
+  type CreateRestaurantCommand,
+  menuItemId,
+  type RestaurantCreatedEvent,
+  restaurantId,
+  restaurantMenuId,
+} from "./api.ts";
+import {
+  createPostgresClient,
+  startPostgresContainer,
+} from "./testcontainers.ts";
+
+const { container, connectionString } = await startPostgresContainer();
+const client = await createPostgresClient(connectionString);
+const other = await createPostgresClient(connectionString);
+
+const repository = new PostgresEventRepository<
+  CreateRestaurantCommand,
+  RestaurantCreatedEvent,
+  RestaurantCreatedEvent
+>(
+  client,
+  (cmd) => [["restaurantId:" + cmd.restaurantId, "RestaurantCreatedEvent"]],
+  10,
+  true,
+  undefined,
+  undefined,
+  { appendLocking: "advisory" },
+);
+
+const createCommand = (
+  id: string,
+): CreateRestaurantCommand & CommandMetadata => ({
+  kind: "CreateRestaurantCommand",
+  restaurantId: restaurantId(id),
+  name: "Bistro",
+  menu: {
+    menuId: restaurantMenuId("m1"),
+    cuisine: "ITALIAN",
+    menuItems: [
+      { menuItemId: menuItemId("item1"), name: "Pizza", price: "12.99" },
+    ],
+  },
+  idempotencyKey: `create-${id}`,
+});
+
+/** Holds the advisory lock `conditional_append_advisory` takes for a restaurant. */
+const lockRestaurant = async (id: string) => {
+  await other.queryObject("BEGIN");
+  await other.queryObject(
+    `SELECT pg_advisory_xact_lock(hashtextextended('RestaurantCreatedEvent' || chr(31) || 'restaurantId:${id}', 0))`,
+  );
+};
+
+Deno.test({
+  name: "Postgres: Advisory locking - unrelated restaurant is not blocked",
+  sanitizeResources: false,
+  sanitizeOps: false,
+  fn: async () => {
+    await lockRestaurant("r1");
+    try {
+      const events = await repository.execute(
+        createCommand("r2"),
+        createRestaurantDecider,
+      );
+      assertEquals(events.length, 1);
+    } finally {
+      await other.queryObject("ROLLBACK");
+    }
+  },
+});
+
+Deno.test({
+  name: "Postgres: Advisory locking - same restaurant waits for the lock",
+  sanitizeResources: false,
+  sanitizeOps: false,
+  fn: async () => {
+    await lockRestaurant("r3");
+    try {
+      // lock_timeout in conditional_append_advisory is 5s
+      await assertRejects(
+        () => repository.execute(createCommand("r3"), createRestaurantDecider),
+        RepositoryError,
+      );
+    } finally {
+      await other.queryObject("ROLLBACK");
+    }
+
+    const events = await repository.execute(
+      createCommand("r3"),
+      createRestaurantDecider,
+    );
+    assertEquals(events.length, 1);
+  },
+});
+
+Deno.test({
+  name: "Postgres: cleanup",
+  sanitizeResources: false,
+  sanitizeOps: false,
+  fn: async () => {
+    await client.end();
+    await other.end();
+    await container.stop();
+  },
+});
@@ -51,6 +51,9 @@
  * - Combined: Simpler application code, acceptable for small domains
  * - Sliced: Better performance, clearer boundaries, better for larger domains
  *
+ * With the sliced approach, a `CommandBus` (see `application.ts`) gives the
+ * application a single entry point that routes each command to its slice.
+ *
  * This file exists for educational purposes to demonstrate both approaches.
  */
 
@@ -0,0 +1,355 @@
+/**
+ * Postgres tests for field-level encryption (crypto-shredding).
+ *
+ * Tests verify:
+ * - Personal fields are stored encrypted and tag fields as hashes in `dcb.events`
+ * - Repositories, loaders and idempotency circuit-break return decrypted events
+ * - Forgetting a subject leaves its events in the stream without the encrypted fields
+ * - Events are decrypted before the upcasting deserializer upcasts them
+ * - The outbox and the projection reader decrypt before upcasting
+ * - Snapshots, which would keep decrypted state, are rejected
+ * - `PostgresKeyStore` creates one key per subject
+ *
+ * Requires Docker daemon for testcontainers.
+ */
+
+import { assertEquals, assertRejects, assertThrows } from "@std/assert";
+import type { IEventComputation } from "../../decider.ts";
+import { FieldEncryption } from "../../encryption.ts";
+import type {
+  CommandMetadata,
+  TypeSafeEventShape,
+} from "../../infrastructure.ts";
+import {
+  PostgresEventLoader,
+  PostgresEventRepository,
+  upcastingDeserializer,
+} from "../../postgresEventRepository.ts";
+import { PostgresKeyStore } from "../../postgresKeyStore.ts";
+import { PostgresOutboxStore } from "../../postgresOutboxStore.ts";
+import { PostgresEventStreamReader } from "../../postgresProjectionStore.ts";
+import { PostgresSnapshotStore } from "../../postgresSnapshotStore.ts";
+import { UpcasterRegistry } from "../../upcasting.ts";
+import {
+  createPostgresClient,
+  startPostgresContainer,
+} from "./testcontainers.ts";
+
+const { container, connectionString } = await startPostgresContainer();
+const client = await createPostgresClient(connectionString);
+
+type RegisterCustomerCommand = {
+  readonly kind: "RegisterCustomerCommand";
+  readonly customerId: string;
+  readonly name: string;
+  readonly email: string;
+};
+
+/** `name` is null once the customer is forgotten */
+type CustomerRegisteredEvent = TypeSafeEventShape<
+  {
+    readonly kind: "CustomerRegisteredEvent";
+    readonly customerId: string;
+    readonly name: string | null;
+    readonly email: string;
+  },
+  ["customerId", "email"]
+>;
+
+const encryption = new FieldEncryption(
+  new PostgresKeyStore(client),
+  {
+    CustomerRegisteredEvent: {
+      subjectField: "customerId",
+      fields: ["name", "email"],
+    },
+  },
+  new TextEncoder().encode("test-tag-secret"),
+);
+
+/** Registers a customer unless the email is taken */
+const registerCustomer: IEventComputation<
+  RegisterCustomerCommand,
+  CustomerRegisteredEvent,
+  CustomerRegisteredEvent
+> = {
+  computeNewEvents: (events, command) => {
+    if (events.length > 0) throw new Error("Email already registered");
+    return [{
+      kind: "CustomerRegisteredEvent",
+      customerId: command.customerId,
+      name: command.name,
+      email: command.email,
+      tagFields: ["customerId", "email"],
+    }];
+  },
+};
+
+/** Customers by email, queried through the hashed email tag */
+const emailTuple = (email: string): [string, "CustomerRegisteredEvent"] => [
+  "email:" + encryption.hashTag(email),
+  "CustomerRegisteredEvent",
+];
+
+const repository = new PostgresEventRepository<
+  RegisterCustomerCommand,
+  CustomerRegisteredEvent,
+  CustomerRegisteredEvent
+>(
+  client,
+  (cmd) => [emailTuple(cmd.email)],
+  10,
+  true,
+  undefined,
+  undefined,
+  { encryption },
+);
+
+const register = (
+  customerId: string,
+  email: string,
+): RegisterCustomerCommand & CommandMetadata => ({
+  kind: "RegisterCustomerCommand",
+  customerId,
+  name: "Customer " + customerId,
+  email,
+  idempotencyKey: "test-pg-encryption-register-" + customerId,
+});
+
+Deno.test({
+  name:
+    "Postgres: Encryption - events are stored encrypted and loaded decrypted",
+  sanitizeResources: false,
+  sanitizeOps: false,
+  fn: async () => {
+    const [registered] = await repository.execute(
+      register("c1", "ada@example.com"),
+      registerCustomer,
+    );
+    assertEquals(registered.email, "ada@example.com");
+
+    const result = await client.queryObject<
+      { data: Uint8Array; tags: string[] }
+    >(
+      `SELECT data, tags FROM dcb.events WHERE id = ${registered.eventId}`,
+    );
+    const stored = JSON.parse(new TextDecoder().decode(result.rows[0].data));
+    assertEquals(stored.name, null);
+    assertEquals(stored.email, encryption.hashTag("ada@example.com"));
+    assertEquals(
+      result.rows[0].tags.includes("email:ada@example.com"),
+      false,
+    );
+
+    // Queryable by hashed tag: the same email cannot register twice
+    await assertRejects(
+      () =>
+        repository.execute(
+          register("c2", "ada@example.com"),
+          registerCustomer,
+        ),
+      Error,
+      "Email already registered",
+    );
+
+    const [loaded] = await new PostgresEventLoader<CustomerRegisteredEvent>(
+      client,
+      undefined,
+      true,
+      encryption,
+    ).load([["customerId:c1", "CustomerRegisteredEvent"]]);
+    assertEquals(loaded.name, "Customer c1");
+    assertEquals(loaded.email, "ada@example.com");
+
+    const [existing] = await repository.execute(
+      register("c1", "ada@example.com"),
+      registerCustomer,
+    );
+    assertEquals(existing.eventId, registered.eventId);
+    assertEquals(existing.name, "Customer c1");
+  },
+});
+
+Deno.test({
+  name:
+    "Postgres: Encryption - forgetting a subject keeps its events unreadable",
+  sanitizeResources: false,
+  sanitizeOps: false,
+  fn: async () => {
+    await repository.execute(
+      register("c3", "bob@example.com"),
+      registerCustomer,
+    );
+
+    await encryption.forget("c1");
+
+    const [forgotten, kept] = await repository.load([
+      emailTuple("ada@example.com"),
+      emailTuple("bob@example.com"),
+    ]);
+    assertEquals(forgotten, {
+      kind: "CustomerRegisteredEvent",
+      customerId: "c1",
+      name: null,
+      email: encryption.hashTag("ada@example.com"),
+      tagFields: ["customerId", "email"],
+    });
+    assertEquals(kept.email, "bob@example.com");
+  },
+});
+
+Deno.test({
+  name: "Postgres: Encryption - events are decrypted before they are upcast",
+  sanitizeResources: false,
+  sanitizeOps: false,
+  fn: async () => {
+    const [registered] = await repository.execute(
+      register("c4", "cy@example.com"),
+      registerCustomer,
+    );
+
+    // Version 2 renames `name` to `fullName`
+    type CustomerRegisteredEventV2 =
+      & Omit<CustomerRegisteredEvent, "name">
+      & { readonly fullName: string | null };
+    const deserializer = upcastingDeserializer<CustomerRegisteredEventV2>(
+      new UpcasterRegistry().register(
+        "CustomerRegisteredEvent",
+        1,
+        ({ name, ...event }) => ({ ...event, fullName: name }),
+      ),
+    );
+
+    const [loaded] = await new PostgresEventLoader<CustomerRegisteredEventV2>(
+      client,
+      deserializer,
+      true,
+      encryption,
+    ).load([["customerId:c4", "CustomerRegisteredEvent"]]);
+    assertEquals(loaded, {
+      kind: "CustomerRegisteredEvent",
+      customerId: "c4",
+      fullName: "Customer c4",
+      email: "cy@example.com",
+      tagFields: ["customerId", "email"],
+    });
+
+    const [existing] = await new PostgresEventRepository<
+      RegisterCustomerCommand,
+      CustomerRegisteredEventV2,
+      CustomerRegisteredEventV2
+    >(
+      client,
+      () => [],
+      10,
+      true,
+      undefined,
+      deserializer,
+      { encryption },
+    ).execute(register("c4", "cy@example.com"), {
+      computeNewEvents: () => [],
+    });
+    assertEquals(existing.eventId, registered.eventId);
+    assertEquals(existing.fullName, "Customer c4");
+    assertEquals("name" in existing, false);
+  },
+});
+
+Deno.test({
+  name:
+    "Postgres: Encryption - outbox and projection reader decrypt before upcasting",
+  sanitizeResources: false,
+  sanitizeOps: false,
+  fn: async () => {
+    await client.queryObject(`SET dcb.outbox = 'on'`);
+    const [registered] = await repository.execute(
+      register("c5", "dee@example.com"),
+      registerCustomer,
+    );
+    await client.queryObject(`SET dcb.outbox = 'off'`);
+
+    // Version 2 renames `name` to `fullName`
+    type CustomerRegisteredEventV2 =
+      & Omit<CustomerRegisteredEvent, "name">
+      & { readonly fullName: string | null };
+    const deserializer = upcastingDeserializer<CustomerRegisteredEventV2>(
+      new UpcasterRegistry().register(
+        "CustomerRegisteredEvent",
+        1,
+        ({ name, ...event }) => ({ ...event, fullName: name }),
+      ),
+    );
+
+    const [entry] = await new PostgresOutboxStore<CustomerRegisteredEventV2>(
+      client,
+      deserializer,
+      encryption,
+    ).pending(10);
+    assertEquals(entry.event.eventId, registered.eventId);
+    assertEquals(entry.event.fullName, "Customer c5");
+    assertEquals(entry.event.email, "dee@example.com");
+
+    const events = await new PostgresEventStreamReader<
+      CustomerRegisteredEventV2
+    >(client, deserializer, encryption).read(null, 100);
+    const read = events.find((event) => event.eventId === registered.eventId)!;
+    assertEquals(read.fullName, "Customer c5");
+    assertEquals("encrypted" in read, false);
+  },
+});
+
+Deno.test({
+  name: "Postgres: Encryption - rejected with snapshots",
+  sanitizeResources: false,
+  sanitizeOps: false,
+  fn: () => {
+    assertThrows(
+      () =>
+        new PostgresEventRepository(
+          client,
+          () => [],
+          10,
+          false,
+          undefined,
+          undefined,
+          {
+            snapshots: {
+              name: "v1",
+              store: new PostgresSnapshotStore(client),
+              frequency: 1,
+            },
+            encryption,
+          },
+        ),
+      RangeError,
+    );
+  },
+});
+
+Deno.test({
+  name: "Postgres: KeyStore - creates one key per subject",
+  sanitizeResources: false,
+  sanitizeOps: false,
+  fn: async () => {
+    const keys = new PostgresKeyStore(client);
+    assertEquals(await keys.getKey("k1"), null);
+
+    const first = await keys.getOrCreateKey("k1");
+    assertEquals(first.length, 32);
+    assertEquals(await keys.getOrCreateKey("k1"), first);
+    assertEquals(await keys.getKey("k1"), first);
+
+    await keys.deleteKey("k1");
+    assertEquals(await keys.getKey("k1"), null);
+  },
+});
+
+Deno.test({
+  name: "Postgres: cleanup",
+  sanitizeResources: false,
+  sanitizeOps: false,
+  fn: async () => {
+    await client.end();
+    await container.stop();
+  },
+});
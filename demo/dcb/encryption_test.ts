@@ -0,0 +1,406 @@
+/**
+ * Tests for field-level encryption (crypto-shredding) over Deno KV.
+ *
+ * Tests verify:
+ * - Personal fields are stored encrypted and tag fields as hashes
+ * - Repositories, loaders and idempotency circuit-break return decrypted events
+ * - Events stay queryable by hashed tag
+ * - Forgetting a subject leaves its events in the stream without the encrypted fields
+ * - Events are decrypted before they are upcast
+ * - Subscriber, projection reader and outbox store decrypt before upcasting
+ * - Snapshots, which would keep decrypted state, are rejected
+ * - `DenoKvKeyStore` creates one key per subject
+ */
+
+import { assert, assertEquals, assertRejects, assertThrows } from "@std/assert";
+import type { IEventComputation } from "../../decider.ts";
+import {
+  DenoKvEventLoader,
+  DenoKvEventRepository,
+  DenoKvEventSubscriber,
+} from "../../denoKvEventRepository.ts";
+import { DenoKvKeyStore } from "../../denoKvKeyStore.ts";
+import { DenoKvOutboxStore } from "../../denoKvOutboxStore.ts";
+import { DenoKvEventStreamReader } from "../../denoKvProjectionStore.ts";
+import { DenoKvSnapshotStore } from "../../denoKvSnapshotStore.ts";
+import { FieldEncryption } from "../../encryption.ts";
+import type {
+  CommandMetadata,
+  TypeSafeEventShape,
+} from "../../infrastructure.ts";
+import { UpcasterRegistry } from "../../upcasting.ts";
+
+type RegisterCustomerCommand = {
+  readonly kind: "RegisterCustomerCommand";
+  readonly customerId: string;
+  readonly name: string;
+  readonly email: string;
+};
+
+/** `name` is null once the customer is forgotten */
+type CustomerRegisteredEvent = TypeSafeEventShape<
+  {
+    readonly kind: "CustomerRegisteredEvent";
+    readonly customerId: string;
+    readonly name: string | null;
+    readonly email: string;
+  },
+  ["customerId", "email"]
+>;
+
+const tagSecret = new TextEncoder().encode("test-tag-secret");
+
+const fieldEncryption = (kv: Deno.Kv) =>
+  new FieldEncryption(
+    new DenoKvKeyStore(kv),
+    {
+      CustomerRegisteredEvent: {
+        subjectField: "customerId",
+        fields: ["name", "email"],
+      },
+    },
+    tagSecret,
+  );
+
+/** Registers a customer unless the email is taken */
+const registerCustomer: IEventComputation<
+  RegisterCustomerCommand,
+  CustomerRegisteredEvent,
+  CustomerRegisteredEvent
+> = {
+  computeNewEvents: (events, command) => {
+    if (events.length > 0) throw new Error("Email already registered");
+    return [{
+      kind: "CustomerRegisteredEvent",
+      customerId: command.customerId,
+      name: command.name,
+      email: command.email,
+      tagFields: ["customerId", "email"],
+    }];
+  },
+};
+
+/** Customers by email, queried through the hashed email tag */
+const emailTuple = (
+  encryption: FieldEncryption,
+  email: string,
+): [string, "CustomerRegisteredEvent"] => [
+  "email:" + encryption.hashTag(email),
+  "CustomerRegisteredEvent",
+];
+
+const customerRepository = (kv: Deno.Kv, encryption: FieldEncryption) =>
+  new DenoKvEventRepository<
+    RegisterCustomerCommand,
+    CustomerRegisteredEvent,
+    CustomerRegisteredEvent
+  >(
+    kv,
+    (cmd) => [emailTuple(encryption, cmd.email)],
+    10,
+    5,
+    true,
+    { encryption },
+  );
+
+const register = (
+  customerId: string,
+  email: string,
+): RegisterCustomerCommand & CommandMetadata => ({
+  kind: "RegisterCustomerCommand",
+  customerId,
+  name: "Customer " + customerId,
+  email,
+  idempotencyKey: "test-encryption-register-" + customerId,
+});
+
+Deno.test("FieldEncryption - encrypts policy fields and hashes tag fields", async () => {
+  const kv = await Deno.openKv(":memory:");
+  try {
+    const encryption = fieldEncryption(kv);
+    const event: CustomerRegisteredEvent = {
+      kind: "CustomerRegisteredEvent",
+      customerId: "c1",
+      name: "Ada",
+      email: "ada@example.com",
+      tagFields: ["customerId", "email"],
+    };
+    const other = { kind: "OtherEvent", name: "kept" };
+
+    const [stored] = await encryption.encryptAll([event]);
+    assertEquals(await encryption.encryptAll([other]), [other]);
+    assertEquals(stored.customerId, "c1");
+    assertEquals(stored.name, null);
+    assertEquals(stored.email, encryption.hashTag("ada@example.com"));
+    assert(!JSON.stringify(stored).includes("ada@example.com"));
+
+    assertEquals(await encryption.decryptAll([stored]), [event]);
+    await assertRejects(
+      () => encryption.encryptAll([{ ...event, customerId: "" }]),
+      Error,
+      "subject id",
+    );
+  } finally {
+    kv.close();
+  }
+});
+
+Deno.test("Encryption - events are stored encrypted and loaded decrypted", async () => {
+  const kv = await Deno.openKv(":memory:");
+  try {
+    const encryption = fieldEncryption(kv);
+    const repository = customerRepository(kv, encryption);
+
+    const [registered] = await repository.execute(
+      register("c1", "ada@example.com"),
+      registerCustomer,
+    );
+    assertEquals(registered.email, "ada@example.com");
+
+    const stored = await kv.get<Record<string, unknown>>([
+      "events",
+      registered.eventId,
+    ]);
+    assertEquals(stored.value?.name, null);
+    assertEquals(stored.value?.email, encryption.hashTag("ada@example.com"));
+
+    // Queryable by hashed tag: the same email cannot register twice
+    await assertRejects(
+      () =>
+        repository.execute(
+          register("c2", "ada@example.com"),
+          registerCustomer,
+        ),
+      Error,
+      "Email already registered",
+    );
+
+    const [loaded] = await new DenoKvEventLoader<CustomerRegisteredEvent>(
+      kv,
+      true,
+      undefined,
+      encryption,
+    ).load([["customerId:c1", "CustomerRegisteredEvent"]]);
+    assertEquals(loaded.name, "Customer c1");
+    assertEquals(loaded.email, "ada@example.com");
+
+    const [existing] = await repository.execute(
+      register("c1", "ada@example.com"),
+      registerCustomer,
+    );
+    assertEquals(existing.eventId, registered.eventId);
+    assertEquals(existing.name, "Customer c1");
+  } finally {
+    kv.close();
+  }
+});
+
+Deno.test("Encryption - forgetting a subject keeps its events unreadable", async () => {
+  const kv = await Deno.openKv(":memory:");
+  try {
+    const encryption = fieldEncryption(kv);
+    const repository = customerRepository(kv, encryption);
+    await repository.execute(
+      register("c1", "ada@example.com"),
+      registerCustomer,
+    );
+    await repository.execute(
+      register("c2", "bob@example.com"),
+      registerCustomer,
+    );
+
+    await encryption.forget("c1");
+
+    const [forgotten, kept] = await repository.load([
+      emailTuple(encryption, "ada@example.com"),
+      emailTuple(encryption, "bob@example.com"),
+    ]);
+    assertEquals(forgotten, {
+      kind: "CustomerRegisteredEvent",
+      customerId: "c1",
+      name: null,
+      email: encryption.hashTag("ada@example.com"),
+      tagFields: ["customerId", "email"],
+    });
+    assertEquals(kept.email, "bob@example.com");
+
+    // The hashed tag still guards the email
+    await assertRejects(
+      () =>
+        repository.execute(
+          register("c3", "ada@example.com"),
+          registerCustomer,
+        ),
+      Error,
+      "Email already registered",
+    );
+  } finally {
+    kv.close();
+  }
+});
+
+Deno.test("Encryption - events are decrypted before they are upcast", async () => {
+  const kv = await Deno.openKv(":memory:");
+  try {
+    const encryption = fieldEncryption(kv);
+    const [registered] = await customerRepository(kv, encryption).execute(
+      register("c1", "ada@example.com"),
+      registerCustomer,
+    );
+
+    // Version 2 renames `name` to `fullName`
+    type CustomerRegisteredEventV2 =
+      & Omit<CustomerRegisteredEvent, "name">
+      & { readonly fullName: string | null };
+    const upcasters = new UpcasterRegistry().register(
+      "CustomerRegisteredEvent",
+      1,
+      ({ name, ...event }) => ({ ...event, fullName: name }),
+    );
+
+    const [loaded] = await new DenoKvEventLoader<CustomerRegisteredEventV2>(
+      kv,
+      true,
+      upcasters,
+      encryption,
+    ).load([["customerId:c1", "CustomerRegisteredEvent"]]);
+    assertEquals(loaded, {
+      kind: "CustomerRegisteredEvent",
+      customerId: "c1",
+      fullName: "Customer c1",
+      email: "ada@example.com",
+      tagFields: ["customerId", "email"],
+    });
+
+    const [existing] = await new DenoKvEventRepository<
+      RegisterCustomerCommand,
+      CustomerRegisteredEventV2,
+      CustomerRegisteredEventV2
+    >(
+      kv,
+      () => [],
+      10,
+      5,
+      true,
+      { upcasters, encryption },
+    ).execute(register("c1", "ada@example.com"), {
+      computeNewEvents: () => [],
+    });
+    assertEquals(existing.eventId, registered.eventId);
+    assertEquals(existing.fullName, "Customer c1");
+    assertEquals("name" in existing, false);
+  } finally {
+    kv.close();
+  }
+});
+
+Deno.test("Encryption - subscriber, projection reader and outbox store decrypt before upcasting", async () => {
+  const kv = await Deno.openKv(":memory:");
+  const controller = new AbortController();
+  try {
+    const encryption = fieldEncryption(kv);
+    // Version 2 renames `name` to `fullName`
+    type CustomerRegisteredEventV2 =
+      & Omit<CustomerRegisteredEvent, "name">
+      & { readonly fullName: string | null };
+    const upcasters = new UpcasterRegistry().register(
+      "CustomerRegisteredEvent",
+      1,
+      ({ name, ...event }) => ({ ...event, fullName: name }),
+    );
+    const subscription = new DenoKvEventSubscriber<CustomerRegisteredEventV2>(
+      kv,
+      upcasters,
+      encryption,
+    ).subscribe([["customerId:c1", "CustomerRegisteredEvent"]], {
+      after: "",
+      signal: controller.signal,
+    });
+    const delivered = subscription.next();
+
+    await new DenoKvEventRepository<
+      RegisterCustomerCommand,
+      CustomerRegisteredEvent,
+      CustomerRegisteredEvent
+    >(
+      kv,
+      (cmd) => [emailTuple(encryption, cmd.email)],
+      10,
+      5,
+      true,
+      { outbox: true, encryption },
+    ).execute(register("c1", "ada@example.com"), registerCustomer);
+
+    const { value: subscribed } = await delivered;
+    assertEquals(subscribed?.fullName, "Customer c1");
+    assertEquals(subscribed?.email, "ada@example.com");
+    assertEquals("encrypted" in subscribed!, false);
+
+    const [read] = await new DenoKvEventStreamReader<CustomerRegisteredEventV2>(
+      kv,
+      upcasters,
+      encryption,
+    ).read(null, 10);
+    assertEquals(read.fullName, "Customer c1");
+    assertEquals(read.email, "ada@example.com");
+
+    const [pending] = await new DenoKvOutboxStore<CustomerRegisteredEventV2>(
+      kv,
+      upcasters,
+      encryption,
+    ).pending(10);
+    assertEquals(pending.event.fullName, "Customer c1");
+    assertEquals(pending.event.email, "ada@example.com");
+  } finally {
+    controller.abort();
+    kv.close();
+  }
+});
+
+Deno.test("Encryption - rejected with snapshots", async () => {
+  const kv = await Deno.openKv(":memory:");
+  try {
+    assertThrows(
+      () =>
+        new DenoKvEventRepository(
+          kv,
+          () => [],
+          10,
+          5,
+          false,
+          {
+            snapshots: {
+              name: "v1",
+              store: new DenoKvSnapshotStore(kv),
+              frequency: 1,
+            },
+            encryption: fieldEncryption(kv),
+          },
+        ),
+      RangeError,
+    );
+  } finally {
+    kv.close();
+  }
+});
+
+Deno.test("DenoKvKeyStore - creates one key per subject", async () => {
+  const kv = await Deno.openKv(":memory:");
+  try {
+    const keys = new DenoKvKeyStore(kv);
+    assertEquals(await keys.getKey("c1"), null);
+
+    const [first, second] = await Promise.all([
+      keys.getOrCreateKey("c1"),
+      keys.getOrCreateKey("c1"),
+    ]);
+    assertEquals(first.length, 32);
+    assertEquals(second, first);
+    assertEquals(await keys.getKey("c1"), first);
+
+    await keys.deleteKey("c1");
+    assertEquals(await keys.getKey("c1"), null);
+  } finally {
+    kv.close();
+  }
+});
@@ -0,0 +1,97 @@
+/**
+ * Postgres conformance tests for PostgresEventRepository.
+ *
+ * Runs the shared `IEventRepository` conformance suite against the PostgreSQL
+ * backend, in both idempotent and full-replay mode, with a parameterized
+ * client that sends values as bound parameters, and with advisory append locking.
+ *
+ * Requires Docker daemon for testcontainers.
+ */
+
+import { assert, assertEquals } from "@std/assert";
+import { runEventRepositoryConformance } from "../../event_repository_conformance.ts";
+import {
+  PostgresEventRepository,
+  type SqlClient,
+} from "../../postgresEventRepository.ts";
+import {
+  createPostgresClient,
+  startPostgresContainer,
+} from "./testcontainers.ts";
+
+const { container, connectionString } = await startPostgresContainer();
+const client = await createPostgresClient(connectionString);
+
+Deno.test({
+  name: "Postgres: Conformance - PostgresEventRepository (idempotent mode)",
+  sanitizeResources: false,
+  sanitizeOps: false,
+  fn: async () => {
+    await runEventRepositoryConformance(
+      (getQueryTuples) => new PostgresEventRepository(client, getQueryTuples),
+      { assert, assertEquals },
+    );
+  },
+});
+
+Deno.test({
+  name: "Postgres: Conformance - PostgresEventRepository (full-replay mode)",
+  sanitizeResources: false,
+  sanitizeOps: false,
+  fn: async () => {
+    await runEventRepositoryConformance(
+      (getQueryTuples) =>
+        new PostgresEventRepository(client, getQueryTuples, 10, false),
+      { assert, assertEquals },
+    );
+  },
+});
+
+Deno.test({
+  name:
+    "Postgres: Conformance - PostgresEventRepository (parameterized client)",
+  sanitizeResources: false,
+  sanitizeOps: false,
+  fn: async () => {
+    const parameterizedClient: SqlClient = {
+      queryObject: (sql, params) => client.queryObject(sql, params),
+      parameterized: true,
+    };
+    await runEventRepositoryConformance(
+      (getQueryTuples) =>
+        new PostgresEventRepository(parameterizedClient, getQueryTuples),
+      { assert, assertEquals },
+    );
+  },
+});
+
+Deno.test({
+  name: "Postgres: Conformance - PostgresEventRepository (advisory locking)",
+  sanitizeResources: false,
+  sanitizeOps: false,
+  fn: async () => {
+    await runEventRepositoryConformance(
+      (getQueryTuples) =>
+        new PostgresEventRepository(
+          client,
+          getQueryTuples,
+          10,
+          true,
+          undefined,
+          undefined,
+          { appendLocking: "advisory" },
+        ),
+      { assert, assertEquals },
+    );
+  },
+});
+
+Deno.test({
+  name: "Postgres: cleanup",
+  sanitizeResources: false,
+  sanitizeOps: false,
+  fn: async () => {
+    await client.end();
+    await container.stop();
+  },
+});
@@ -0,0 +1,155 @@
+/**
+ * Postgres integration tests for PostgresEventSubscriber.
+ *
+ * Mirrors eventSubscriber_test.ts but targets the PostgreSQL backend. Events are
+ * appended through the real repositories and loaded from `dcb.events`; the
+ * `dcb_events` notifications are delivered through an in-test `SqlListener`
+ * with the same payload shape `dcb.unconditional_append` emits.
+ *
+ * Requires Docker daemon for testcontainers.
+ */
+
+import { assertEquals } from "@std/assert";
+import { EventSourcedCommandHandler } from "../../application.ts";
+import type { EventMetadata } from "../../infrastructure.ts";
+import {
+  PostgresEventSubscriber,
+  type SqlListener,
+} from "../../postgresEventRepository.ts";
+import { createRestaurantPostgresRepository } from "./createRestaurantPostgresRepository.ts";
+import { createRestaurantDecider } from "./createRestaurantDecider.ts";
+import type { RestaurantEvent } from "./restaurantView.ts";
+import {
+  menuItemId,
+  restaurantId,
+  type RestaurantMenu,
+  restaurantMenuId,
+} from "./api.ts";
+import {
+  createPostgresClient,
+  startPostgresContainer,
+} from "./testcontainers.ts";
+
+const { container, connectionString } = await startPostgresContainer();
+const client = await createPostgresClient(connectionString);
+
+const testMenu: RestaurantMenu = {
+  menuId: restaurantMenuId("m1"),
+  cuisine: "ITALIAN",
+  menuItems: [
+    { menuItemId: menuItemId("item1"), name: "Pizza", price: "12.99" },
+  ],
+};
+
+/** In-test listener: `notify` delivers a payload to the subscribed callback */
+function manualListener() {
+  let callback: ((payload: string) => void) | null = null;
+  const listener: SqlListener = {
+    listen: (_channel, onPayload) => {
+      callback = onPayload;
+      return Promise.resolve(() => {
+        callback = null;
+        return Promise.resolve();
+      });
+    },
+  };
+  return { listener, notify: (payload: string) => callback?.(payload) };
+}
+
+/** Helper to create a restaurant and notify like `dcb.unconditional_append` */
+async function createRestaurant(id: string, notify: (p: string) => void) {
+  const [event] = await new EventSourcedCommandHandler(
+    createRestaurantDecider,
+    createRestaurantPostgresRepository(client),
+  ).handle({
+    kind: "CreateRestaurantCommand",
+    restaurantId: restaurantId(id),
+    name: "Bistro",
+    menu: testMenu,
+    idempotencyKey: "test-pg-subscriber-create-" + id,
+  });
+  notify(JSON.stringify({
+    max_id: Number(event.eventId),
+    types: ["RestaurantCreatedEvent"],
+    tags: ["restaurantId:" + id],
+  }));
+  return event;
+}
+
+Deno.test({
+  name:
+    "Postgres: PostgresEventSubscriber - delivers matching events after notifications",
+  sanitizeResources: false,
+  sanitizeOps: false,
+  fn: async () => {
+    const { listener, notify } = manualListener();
+    const controller = new AbortController();
+    const received: (RestaurantEvent & EventMetadata)[] = [];
+
+    const consumer = (async () => {
+      for await (
+        const event of new PostgresEventSubscriber<RestaurantEvent>(
+          client,
+          listener,
+        ).subscribe([
+          ["restaurantId:r-pg-sub-1", "RestaurantCreatedEvent"],
+          ["restaurantId:r-pg-sub-2", "RestaurantCreatedEvent"],
+        ], { signal: controller.signal })
+      ) {
+        received.push(event);
+        if (received.length === 2) controller.abort();
+      }
+    })();
+    // Let the subscriber read its starting position
+    await new Promise((resolve) => setTimeout(resolve, 50));
+
+    await createRestaurant("r-pg-sub-other", notify);
+    const first = await createRestaurant("r-pg-sub-1", notify);
+    const second = await createRestaurant("r-pg-sub-2", notify);
+    await consumer;
+
+    assertEquals(received.map((e) => e.eventId), [
+      first.eventId,
+      second.eventId,
+    ]);
+    assertEquals(received[1].restaurantId, restaurantId("r-pg-sub-2"));
+  },
+});
+
+Deno.test({
+  name: "Postgres: PostgresEventSubscriber - resumes after a known event id",
+  sanitizeResources: false,
+  sanitizeOps: false,
+  fn: async () => {
+    const { listener, notify } = manualListener();
+    const first = await createRestaurant("r-pg-sub-3", notify);
+    const second = await createRestaurant("r-pg-sub-4", notify);
+
+    const controller = new AbortController();
+    const received: string[] = [];
+    for await (
+      const event of new PostgresEventSubscriber<RestaurantEvent>(
+        client,
+        listener,
+      ).subscribe([
+        ["restaurantId:r-pg-sub-3", "RestaurantCreatedEvent"],
+        ["restaurantId:r-pg-sub-4", "RestaurantCreatedEvent"],
+      ], { after: first.eventId, signal: controller.signal })
+    ) {
+      received.push(event.eventId);
+      controller.abort();
+    }
+
+    assertEquals(received, [second.eventId]);
+  },
+});
+
+Deno.test({
+  name: "Postgres: cleanup",
+  sanitizeResources: false,
+  sanitizeOps: false,
+  fn: async () => {
+    await client.end();
+    await container.stop();
+  },
+});
@@ -0,0 +1,211 @@
+/**
+ * Integration tests for DenoKvEventSubscriber.
+ *
+ * Tests verify:
+ * - Only events appended after subscribing and matching the query tuples are delivered
+ * - Events from several query tuples are delivered in append order
+ * - `after` resumes from a known event id
+ * - Events carrying more tags than the query tuple are delivered once, in order
+ * - Invalid query tuples are rejected
+ */
+
+import { assertEquals, assertRejects } from "@std/assert";
+import type { EventShape, QueryTuple } from "../../application.ts";
+import { EventSourcedCommandHandler } from "../../application.ts";
+import {
+  DenoKvEventRepository,
+  DenoKvEventSubscriber,
+} from "../../denoKvEventRepository.ts";
+import type { EventMetadata } from "../../infrastructure.ts";
+import { createRestaurantRepository } from "./createRestaurantRepository.ts";
+import { changeRestaurantMenuRepository } from "./changeRestaurantMenuRepository.ts";
+import { createRestaurantDecider } from "./createRestaurantDecider.ts";
+import { changeRestaurantManuDecider } from "./changeRestaurantMenuDecider.ts";
+import type { RestaurantEvent } from "./restaurantView.ts";
+import {
+  menuItemId,
+  orderId,
+  type PlaceOrderCommand,
+  restaurantId,
+  type RestaurantMenu,
+  restaurantMenuId,
+  type RestaurantOrderPlacedEvent,
+} from "./api.ts";
+
+const testMenu: RestaurantMenu = {
+  menuId: restaurantMenuId("m1"),
+  cuisine: "ITALIAN",
+  menuItems: [
+    { menuItemId: menuItemId("item1"), name: "Pizza", price: "12.99" },
+  ],
+};
+
+/** Helper to create a restaurant, returning the persisted event */
+async function createRestaurant(kv: Deno.Kv, id: string) {
+  const [event] = await new EventSourcedCommandHandler(
+    createRestaurantDecider,
+    createRestaurantRepository(kv),
+  ).handle({
+    kind: "CreateRestaurantCommand",
+    restaurantId: restaurantId(id),
+    name: "Bistro " + id,
+    menu: testMenu,
+    idempotencyKey: "test-subscriber-create-" + id,
+  });
+  return event;
+}
+
+/** Helper to change a restaurant's menu */
+async function changeMenu(kv: Deno.Kv, id: string) {
+  await new EventSourcedCommandHandler(
+    changeRestaurantManuDecider,
+    changeRestaurantMenuRepository(kv),
+  ).handle({
+    kind: "ChangeRestaurantMenuCommand",
+    restaurantId: restaurantId(id),
+    menu: { ...testMenu, menuId: restaurantMenuId("m2") },
+    idempotencyKey: "test-subscriber-change-" + id,
+  });
+}
+
+/** Helper collecting `count` events from a subscription, then aborting it */
+async function take<E extends EventShape>(
+  iterable: AsyncIterable<E & EventMetadata>,
+  count: number,
+  controller: AbortController,
+) {
+  const events: (E & EventMetadata)[] = [];
+  for await (const event of iterable) {
+    events.push(event);
+    if (events.length === count) controller.abort();
+  }
+  return events;
+}
+
+Deno.test("DenoKvEventSubscriber - delivers matching events appended after subscribing", async () => {
+  const kv = await Deno.openKv(":memory:");
+  const controller = new AbortController();
+
+  try {
+    await createRestaurant(kv, "r1");
+
+    const tuples: QueryTuple<RestaurantEvent>[] = [
+      ["restaurantId:r1", "RestaurantMenuChangedEvent"],
+      ["restaurantId:r2", "RestaurantCreatedEvent"],
+    ];
+    const received = take(
+      new DenoKvEventSubscriber<RestaurantEvent>(kv).subscribe(tuples, {
+        signal: controller.signal,
+      }),
+      2,
+      controller,
+    );
+    // Let the watch observe the current pointers before appending
+    await new Promise((resolve) => setTimeout(resolve, 10));
+
+    await createRestaurant(kv, "r3"); // not subscribed
+    await changeMenu(kv, "r1");
+    await createRestaurant(kv, "r2");
+
+    const events = await received;
+    assertEquals(events.map((e) => [e.kind, e.restaurantId]), [
+      ["RestaurantMenuChangedEvent", restaurantId("r1")],
+      ["RestaurantCreatedEvent", restaurantId("r2")],
+    ]);
+    assertEquals(events[0].eventId < events[1].eventId, true);
+  } finally {
+    controller.abort();
+    await kv.close();
+  }
+});
+
+Deno.test("DenoKvEventSubscriber - resumes after a known event id", async () => {
+  const kv = await Deno.openKv(":memory:");
+  const controller = new AbortController();
+
+  try {
+    const first = await createRestaurant(kv, "r1");
+    await changeMenu(kv, "r1");
+
+    const events = await take(
+      new DenoKvEventSubscriber<RestaurantEvent>(kv).subscribe([
+        ["restaurantId:r1", "RestaurantCreatedEvent"],
+        ["restaurantId:r1", "RestaurantMenuChangedEvent"],
+      ], { after: first.eventId, signal: controller.signal }),
+      1,
+      controller,
+    );
+
+    assertEquals(events.length, 1);
+    assertEquals(events[0].kind, "RestaurantMenuChangedEvent");
+  } finally {
+    controller.abort();
+    await kv.close();
+  }
+});
+
+Deno.test("DenoKvEventSubscriber - delivers events with more tags than the query tuple once", async () => {
+  const kv = await Deno.openKv(":memory:");
+  const controller = new AbortController();
+
+  try {
+    // Tags are indexed in sorted order: entries of orderId + restaurantId share
+    // the prefix of the subscribed orderId tag
+    const received = take(
+      new DenoKvEventSubscriber<RestaurantOrderPlacedEvent>(kv).subscribe([
+        ["orderId:o1", "RestaurantOrderPlacedEvent"],
+      ], { after: "", signal: controller.signal }),
+      4,
+      controller,
+    );
+
+    const repository = new DenoKvEventRepository<
+      PlaceOrderCommand,
+      RestaurantOrderPlacedEvent,
+      RestaurantOrderPlacedEvent
+    >(kv, () => []);
+    const placed: string[] = [];
+    for (const id of ["r1", "r2", "r3", "r4"]) {
+      const [event] = await repository.execute({
+        kind: "PlaceOrderCommand",
+        restaurantId: restaurantId(id),
+        orderId: orderId("o1"),
+        menuItems: testMenu.menuItems,
+        idempotencyKey: "test-subscriber-place-" + id,
+      }, {
+        computeNewEvents: (_events, command) => [{
+          kind: "RestaurantOrderPlacedEvent",
+          restaurantId: command.restaurantId,
+          orderId: command.orderId,
+          menuItems: command.menuItems,
+          final: false,
+          tagFields: ["restaurantId", "orderId"],
+        }],
+      });
+      placed.push(event.eventId);
+      await new Promise((resolve) => setTimeout(resolve, 5));
+    }
+
+    const events = await received;
+    assertEquals(events.map((e) => e.eventId), placed);
+  } finally {
+    controller.abort();
+    await kv.close();
+  }
+});
+
+Deno.test("DenoKvEventSubscriber - rejects query tuples without tags", async () => {
+  const kv = await Deno.openKv(":memory:");
+
+  try {
+    const subscription = new DenoKvEventSubscriber<RestaurantEvent>(kv)
+      .subscribe([["RestaurantCreatedEvent"]]);
+
+    await assertRejects(
+      () => subscription[Symbol.asyncIterator]().next(),
+      RangeError,
+    );
+  } finally {
+    await kv.close();
+  }
+});
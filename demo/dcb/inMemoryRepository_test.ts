@@ -0,0 +1,272 @@
+/**
+ * Tests for InMemoryEventRepository and InMemoryEventLoader.
+ *
+ * Tests verify:
+ * - Command execution against the in-memory event log (no KV, no database)
+ * - Optimistic locking exhaustion reporting the conflicting query tuples
+ * - Batch execution in a single commit
+ * - Idempotent (latest per tuple) vs full-replay loading
+ * - Tag field limit enforcement
+ *
+ * Idempotency, domain error propagation, concurrent conflicting appends and
+ * failing batches are covered by the repository conformance suite
+ * (`event_repository_conformance_test.ts`).
+ */
+
+import { assertEquals, assertInstanceOf, assertRejects } from "@std/assert";
+import { EventSourcedCommandHandler } from "../../application.ts";
+import type { QueryTuple } from "../../application.ts";
+import {
+  InMemoryEventLoader,
+  InMemoryEventRepository,
+  InMemoryEventStore,
+} from "../../inMemoryEventRepository.ts";
+import { TagFieldConfigurationError } from "../../denoKvEventRepository.ts";
+import {
+  type CommandMetadata,
+  OptimisticLockingError,
+  RepositoryError,
+} from "../../infrastructure.ts";
+import { createRestaurantDecider } from "./createRestaurantDecider.ts";
+import { changeRestaurantManuDecider } from "./changeRestaurantMenuDecider.ts";
+import { placeOrderDecider } from "./placeOrderDecider.ts";
+import { all_domain_decider } from "./all_decider.ts";
+import {
+  type ChangeRestaurantMenuCommand,
+  type Command,
+  type CreateRestaurantCommand,
+  type Event,
+  menuItemId,
+  orderId,
+  type PlaceOrderCommand,
+  type RestaurantCreatedEvent,
+  restaurantId,
+  type RestaurantMenuChangedEvent,
+  restaurantMenuId,
+  type RestaurantOrderPlacedEvent,
+} from "./api.ts";
+
+const createRestaurantRepository = (store: InMemoryEventStore) =>
+  new InMemoryEventRepository<
+    CreateRestaurantCommand,
+    RestaurantCreatedEvent,
+    RestaurantCreatedEvent
+  >(
+    store,
+    (cmd) => [["restaurantId:" + cmd.restaurantId, "RestaurantCreatedEvent"]],
+  );
+
+const changeRestaurantMenuRepository = (store: InMemoryEventStore) =>
+  new InMemoryEventRepository<
+    ChangeRestaurantMenuCommand,
+    RestaurantCreatedEvent | RestaurantMenuChangedEvent,
+    RestaurantMenuChangedEvent
+  >(
+    store,
+    (cmd) => [
+      ["restaurantId:" + cmd.restaurantId, "RestaurantCreatedEvent"],
+      ["restaurantId:" + cmd.restaurantId, "RestaurantMenuChangedEvent"],
+    ],
+  );
+
+const placeOrderRepository = (store: InMemoryEventStore, maxRetries = 10) =>
+  new InMemoryEventRepository<
+    PlaceOrderCommand,
+    | RestaurantCreatedEvent
+    | RestaurantMenuChangedEvent
+    | RestaurantOrderPlacedEvent,
+    RestaurantOrderPlacedEvent
+  >(
+    store,
+    (cmd) => [
+      ["restaurantId:" + cmd.restaurantId, "RestaurantCreatedEvent"],
+      ["restaurantId:" + cmd.restaurantId, "RestaurantMenuChangedEvent"],
+      ["orderId:" + cmd.orderId, "RestaurantOrderPlacedEvent"],
+    ],
+    maxRetries,
+  );
+
+const allDeciderQueryTuples = (cmd: Command): QueryTuple<Event>[] => {
+  switch (cmd.kind) {
+    case "CreateRestaurantCommand":
+    case "ChangeRestaurantMenuCommand":
+      return [["restaurantId:" + cmd.restaurantId, "RestaurantCreatedEvent"]];
+    case "PlaceOrderCommand":
+      return [
+        ["restaurantId:" + cmd.restaurantId, "RestaurantCreatedEvent"],
+        ["restaurantId:" + cmd.restaurantId, "RestaurantMenuChangedEvent"],
+        ["orderId:" + cmd.orderId, "RestaurantOrderPlacedEvent"],
+      ];
+    case "MarkOrderAsPreparedCommand":
+      return [
+        ["orderId:" + cmd.orderId, "RestaurantOrderPlacedEvent"],
+        ["orderId:" + cmd.orderId, "OrderPreparedEvent"],
+      ];
+  }
+};
+
+const createCommand = (
+  id: string,
+  idempotencyKey: string,
+): CreateRestaurantCommand & CommandMetadata => ({
+  kind: "CreateRestaurantCommand",
+  restaurantId: restaurantId(id),
+  name: "Bistro",
+  menu: {
+    menuId: restaurantMenuId("m1"),
+    cuisine: "ITALIAN",
+    menuItems: [
+      { menuItemId: menuItemId("item1"), name: "Pizza", price: "12.99" },
+      { menuItemId: menuItemId("item2"), name: "Pasta", price: "10.99" },
+    ],
+  },
+  idempotencyKey,
+});
+
+const placeCommand = (
+  restaurant: string,
+  order: string,
+  idempotencyKey: string,
+): PlaceOrderCommand & CommandMetadata => ({
+  kind: "PlaceOrderCommand",
+  restaurantId: restaurantId(restaurant),
+  orderId: orderId(order),
+  menuItems: [
+    { menuItemId: menuItemId("item1"), name: "Pizza", price: "12.99" },
+  ],
+  idempotencyKey,
+});
+
+Deno.test("InMemoryEventRepository - create restaurant and place order (happy path)", async () => {
+  const store = new InMemoryEventStore();
+  await new EventSourcedCommandHandler(
+    createRestaurantDecider,
+    createRestaurantRepository(store),
+  ).handle(createCommand("r1", "create-r1"));
+
+  const events = await new EventSourcedCommandHandler(
+    placeOrderDecider,
+    placeOrderRepository(store),
+  ).handle(placeCommand("r1", "o1", "place-o1"));
+
+  assertEquals(events.length, 1);
+  assertEquals(events[0].kind, "RestaurantOrderPlacedEvent");
+  assertEquals(events[0].orderId, orderId("o1"));
+  assertEquals(events[0].idempotencyKey, "place-o1");
+  assertEquals(typeof events[0].eventId, "string");
+  assertEquals(typeof events[0].versionstamp, "string");
+
+  assertEquals(store.events.length, 2);
+  assertEquals(store.events[1].tags, ["orderId:o1", "restaurantId:r1"]);
+});
+
+Deno.test("InMemoryEventRepository - max retries exceeded throws OptimisticLockingError", async () => {
+  const store = new InMemoryEventStore();
+  await createRestaurantRepository(store).execute(
+    createCommand("r1", "create-r1"),
+    createRestaurantDecider,
+  );
+  const repository = placeOrderRepository(store, 1);
+
+  const results = await Promise.allSettled([
+    repository.execute(placeCommand("r1", "o1", "place-a"), placeOrderDecider),
+    repository.execute(placeCommand("r1", "o1", "place-b"), placeOrderDecider),
+  ]);
+
+  assertEquals(results[0].status, "fulfilled");
+  const error = (results[1] as PromiseRejectedResult).reason;
+  assertInstanceOf(error, OptimisticLockingError);
+  assertEquals(error.queryTuples, [
+    ["restaurantId:r1", "RestaurantCreatedEvent"],
+    ["restaurantId:r1", "RestaurantMenuChangedEvent"],
+    ["orderId:o1", "RestaurantOrderPlacedEvent"],
+  ]);
+});
+
+Deno.test("InMemoryEventRepository - executeBatch: CreateRestaurant + PlaceOrder in one atomic batch", async () => {
+  const store = new InMemoryEventStore();
+  const repository = new InMemoryEventRepository<Command, Event, Event>(
+    store,
+    allDeciderQueryTuples,
+  );
+
+  const events = await repository.executeBatch([
+    createCommand("r1", "batch-1"),
+    placeCommand("r1", "o1", "batch-1"),
+  ], all_domain_decider);
+
+  assertEquals(events.map((e) => e.kind), [
+    "RestaurantCreatedEvent",
+    "RestaurantOrderPlacedEvent",
+  ]);
+  assertEquals(events[0].versionstamp, events[1].versionstamp);
+  assertEquals(store.commits, 1);
+});
+
+Deno.test("InMemoryEventLoader - idempotent mode loads the latest event per tuple, full mode replays all", async () => {
+  const store = new InMemoryEventStore();
+  await createRestaurantRepository(store).execute(
+    createCommand("r1", "create-r1"),
+    createRestaurantDecider,
+  );
+  const changeRepository = changeRestaurantMenuRepository(store);
+  for (const key of ["change-1", "change-2"]) {
+    await changeRepository.execute({
+      kind: "ChangeRestaurantMenuCommand",
+      restaurantId: restaurantId("r1"),
+      menu: {
+        menuId: restaurantMenuId(key),
+        cuisine: "ITALIAN",
+        menuItems: [],
+      },
+      idempotencyKey: key,
+    }, changeRestaurantManuDecider);
+  }
+
+  const tuples: QueryTuple<Event>[] = [
+    ["restaurantId:r1", "RestaurantCreatedEvent"],
+    ["restaurantId:r1", "RestaurantMenuChangedEvent"],
+  ];
+
+  const latest = await new InMemoryEventLoader<Event>(store).load(tuples);
+  assertEquals(latest.map((e) => e.kind), [
+    "RestaurantCreatedEvent",
+    "RestaurantMenuChangedEvent",
+  ]);
+  assertEquals(
+    (latest[1] as RestaurantMenuChangedEvent).menu.menuId,
+    restaurantMenuId("change-2"),
+  );
+
+  const all = await new InMemoryEventLoader<Event>(store, false).load(tuples);
+  assertEquals(all.map((e) => e.kind), [
+    "RestaurantCreatedEvent",
+    "RestaurantMenuChangedEvent",
+    "RestaurantMenuChangedEvent",
+  ]);
+});
+
+Deno.test("InMemoryEventRepository - too many tag fields throws RepositoryError", async () => {
+  const store = new InMemoryEventStore();
+  const repository = new InMemoryEventRepository<
+    CreateRestaurantCommand,
+    RestaurantCreatedEvent,
+    RestaurantCreatedEvent
+  >(
+    store,
+    (cmd) => [["restaurantId:" + cmd.restaurantId, "RestaurantCreatedEvent"]],
+    10,
+    0,
+  );
+
+  const error = await assertRejects(
+    () =>
+      repository.execute(
+        createCommand("r1", "create-r1"),
+        createRestaurantDecider,
+      ),
+    RepositoryError,
+  );
+  assertInstanceOf(error.cause, TagFieldConfigurationError);
+  assertEquals(store.events.length, 0);
+});
@@ -0,0 +1,177 @@
+/**
+ * Postgres tests for custom persisted metadata via `MetadataMapper`.
+ *
+ * Tests verify:
+ * - `metadataFields` stores the listed command fields in `dcb.events.metadata`
+ * - They are returned as `EM` on append, on circuit-break and in a caller's transaction
+ * - The outbox and the projection reader restore them through the mapper
+ *
+ * Requires Docker daemon for testcontainers.
+ */
+
+import { assertEquals } from "@std/assert";
+import {
+  type CommandMetadata,
+  type EventMetadata,
+  metadataFields,
+} from "../../infrastructure.ts";
+import { PostgresEventRepository } from "../../postgresEventRepository.ts";
+import { PostgresOutboxStore } from "../../postgresOutboxStore.ts";
+import { PostgresEventStreamReader } from "../../postgresProjectionStore.ts";
+import { createRestaurantDecider } from "./createRestaurantDecider.ts";
+import {
+  type CreateRestaurantCommand,
+  menuItemId,
+  type RestaurantCreatedEvent,
+  restaurantId,
+  restaurantMenuId,
+} from "./api.ts";
+import {
+  createPostgresClient,
+  startPostgresContainer,
+} from "./testcontainers.ts";
+
+const { container, connectionString } = await startPostgresContainer();
+const client = await createPostgresClient(connectionString);
+
+type AuditCommandMetadata = CommandMetadata & { readonly userId: string };
+type AuditEventMetadata = EventMetadata & { readonly userId: string };
+
+const repository = new PostgresEventRepository<
+  CreateRestaurantCommand,
+  RestaurantCreatedEvent,
+  RestaurantCreatedEvent,
+  AuditCommandMetadata,
+  AuditEventMetadata
+>(
+  client,
+  (cmd) => [["restaurantId:" + cmd.restaurantId, "RestaurantCreatedEvent"]],
+  10,
+  true,
+  undefined,
+  undefined,
+  { metadata: metadataFields("userId") },
+);
+
+const createCommand = (
+  id: string,
+): CreateRestaurantCommand & AuditCommandMetadata => ({
+  kind: "CreateRestaurantCommand",
+  restaurantId: restaurantId(id),
+  name: "Bistro " + id,
+  menu: {
+    menuId: restaurantMenuId("m1"),
+    cuisine: "ITALIAN",
+    menuItems: [
+      { menuItemId: menuItemId("item1"), name: "Pizza", price: "12.99" },
+    ],
+  },
+  idempotencyKey: "test-pg-metadata-create-" + id,
+  userId: "alice",
+});
+
+Deno.test({
+  name: "Postgres: MetadataMapper - command fields are stored and returned",
+  sanitizeResources: false,
+  sanitizeOps: false,
+  fn: async () => {
+    const command = { ...createCommand("r1"), correlationId: "checkout-1" };
+
+    const [created] = await repository.execute(
+      command,
+      createRestaurantDecider,
+    );
+    assertEquals(created.userId, "alice");
+    assertEquals(created.correlationId, "checkout-1");
+
+    const result = await client.queryObject<{ metadata: unknown }>(
+      `SELECT metadata FROM dcb.events WHERE id = ${created.eventId}`,
+    );
+    assertEquals(result.rows[0].metadata, {
+      correlationId: "checkout-1",
+      userId: "alice",
+    });
+
+    // Circuit-break restores the metadata from storage
+    const [existing] = await repository.execute(
+      command,
+      createRestaurantDecider,
+    );
+    assertEquals(existing.eventId, created.eventId);
+    assertEquals(existing.userId, "alice");
+  },
+});
+
+Deno.test({
+  name: "Postgres: MetadataMapper - inTransaction keeps the mapper",
+  sanitizeResources: false,
+  sanitizeOps: false,
+  fn: async () => {
+    await client.queryObject("BEGIN");
+    const [created] = await repository.inTransaction(client).execute(
+      createCommand("r2"),
+      createRestaurantDecider,
+    );
+    await client.queryObject("COMMIT");
+
+    assertEquals(created.userId, "alice");
+  },
+});
+
+Deno.test({
+  name:
+    "Postgres: MetadataMapper - outbox and projection reader restore the metadata",
+  sanitizeResources: false,
+  sanitizeOps: false,
+  fn: async () => {
+    const mapper = metadataFields<AuditCommandMetadata, AuditEventMetadata>(
+      "userId",
+    );
+    await client.queryObject(`SET dcb.outbox = 'on'`);
+    const [created] = await repository.execute(
+      createCommand("r3"),
+      createRestaurantDecider,
+    );
+    await client.queryObject(`SET dcb.outbox = 'off'`);
+
+    const [entry] = await new PostgresOutboxStore<RestaurantCreatedEvent>(
+      client,
+      undefined,
+      undefined,
+      mapper,
+    ).pending(10);
+    assertEquals(entry.event.eventId, created.eventId);
+    assertEquals(
+      (entry.event as typeof entry.event & AuditEventMetadata).userId,
+      "alice",
+    );
+
+    const events = await new PostgresEventStreamReader<RestaurantCreatedEvent>(
+      client,
+      undefined,
+      undefined,
+      mapper,
+    ).read(null, 10);
+    const read = events.find((event) => event.eventId === created.eventId)!;
+    assertEquals((read as typeof read & AuditEventMetadata).userId, "alice");
+
+    // The default mapper restores the tracing metadata only
+    const traced = await new PostgresEventStreamReader<RestaurantCreatedEvent>(
+      client,
+    ).read(null, 10);
+    assertEquals(
+      "userId" in traced.find((event) => event.eventId === created.eventId)!,
+      false,
+    );
+  },
+});
+
+Deno.test({
+  name: "Postgres: cleanup",
+  sanitizeResources: false,
+  sanitizeOps: false,
+  fn: async () => {
+    await client.end();
+    await container.stop();
+  },
+});
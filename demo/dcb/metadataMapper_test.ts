@@ -0,0 +1,261 @@
+/**
+ * Tests for custom persisted metadata via `MetadataMapper`.
+ *
+ * Tests verify:
+ * - `metadataFields` stores the listed command fields and returns them as `EM`
+ * - Idempotency circuit-break restores them from storage
+ * - Custom mappers can rename and transform stored metadata
+ * - The default mapper stores only the tracing metadata
+ * - Custom metadata types require a mapper
+ * - Readers restore the stored metadata through the mapper
+ * - Subscriber and outbox store restore it through a custom mapper
+ */
+
+import { assertEquals } from "@std/assert";
+import type { QueryTuple } from "../../application.ts";
+import {
+  DenoKvEventRepository,
+  DenoKvEventSubscriber,
+} from "../../denoKvEventRepository.ts";
+import { DenoKvOutboxStore } from "../../denoKvOutboxStore.ts";
+import { DenoKvEventStreamReader } from "../../denoKvProjectionStore.ts";
+import {
+  InMemoryEventRepository,
+  InMemoryEventStore,
+} from "../../inMemoryEventRepository.ts";
+import {
+  type CommandMetadata,
+  type EventMetadata,
+  metadataFields,
+  type MetadataMapper,
+} from "../../infrastructure.ts";
+import { createRestaurantDecider } from "./createRestaurantDecider.ts";
+import { createRestaurantRepository } from "./createRestaurantRepository.ts";
+import {
+  type CreateRestaurantCommand,
+  menuItemId,
+  type RestaurantCreatedEvent,
+  restaurantId,
+  restaurantMenuId,
+} from "./api.ts";
+
+type AuditCommandMetadata = CommandMetadata & {
+  readonly userId: string;
+  readonly tenantId?: string;
+};
+type AuditEventMetadata = EventMetadata & {
+  readonly userId: string;
+  readonly tenantId?: string;
+};
+
+const getQueryTuples = (
+  cmd: CreateRestaurantCommand,
+): QueryTuple<RestaurantCreatedEvent>[] => [
+  ["restaurantId:" + cmd.restaurantId, "RestaurantCreatedEvent"],
+];
+
+const createCommand = (id: string): CreateRestaurantCommand => ({
+  kind: "CreateRestaurantCommand",
+  restaurantId: restaurantId(id),
+  name: "Bistro " + id,
+  menu: {
+    menuId: restaurantMenuId("m1"),
+    cuisine: "ITALIAN",
+    menuItems: [
+      { menuItemId: menuItemId("item1"), name: "Pizza", price: "12.99" },
+    ],
+  },
+});
+
+Deno.test("MetadataMapper - metadataFields stores command fields and returns them on every path", async () => {
+  const kv = await Deno.openKv(":memory:");
+  try {
+    const repository = new DenoKvEventRepository<
+      CreateRestaurantCommand,
+      RestaurantCreatedEvent,
+      RestaurantCreatedEvent,
+      AuditCommandMetadata,
+      AuditEventMetadata
+    >(
+      kv,
+      getQueryTuples,
+      10,
+      5,
+      true,
+      { metadata: metadataFields("userId", "tenantId") },
+    );
+    const command = {
+      ...createCommand("r1"),
+      idempotencyKey: "test-metadata-create-r1",
+      userId: "alice",
+      correlationId: "checkout-1",
+    };
+
+    const [created] = await repository.execute(
+      command,
+      createRestaurantDecider,
+    );
+    assertEquals(created.userId, "alice");
+    assertEquals("tenantId" in created, false);
+    assertEquals(created.correlationId, "checkout-1");
+
+    // Circuit-break restores the metadata from storage
+    const [existing] = await repository.execute(
+      command,
+      createRestaurantDecider,
+    );
+    assertEquals(existing.eventId, created.eventId);
+    assertEquals(existing.userId, "alice");
+    assertEquals(existing.correlationId, "checkout-1");
+
+    // Readers restore the stored metadata through the mapper
+    const [read] = await new DenoKvEventStreamReader<RestaurantCreatedEvent>(
+      kv,
+      undefined,
+      undefined,
+      metadataFields<AuditCommandMetadata, AuditEventMetadata>("userId"),
+    ).read(null, 10);
+    assertEquals((read as typeof read & AuditEventMetadata).userId, "alice");
+    assertEquals(read.correlationId, "checkout-1");
+
+    // The default mapper restores the tracing metadata only
+    const [traced] = await new DenoKvEventStreamReader<RestaurantCreatedEvent>(
+      kv,
+    ).read(null, 10);
+    assertEquals("userId" in traced, false);
+    assertEquals(traced.correlationId, "checkout-1");
+  } finally {
+    kv.close();
+  }
+});
+
+const audit: MetadataMapper<AuditCommandMetadata, AuditEventMetadata> = {
+  toStored: ({ userId, tenantId }) => ({ issuedBy: `${tenantId}/${userId}` }),
+  fromStored: (metadata, stored) => {
+    const [tenantId, userId] = String(stored.issuedBy).split("/");
+    return { ...metadata, userId, tenantId };
+  },
+};
+
+Deno.test("MetadataMapper - custom mappers transform the stored metadata", async () => {
+  const store = new InMemoryEventStore();
+  const repository = new InMemoryEventRepository<
+    CreateRestaurantCommand,
+    RestaurantCreatedEvent,
+    RestaurantCreatedEvent,
+    AuditCommandMetadata,
+    AuditEventMetadata
+  >(store, getQueryTuples, 10, 5, true, { metadata: audit });
+  const command = {
+    ...createCommand("r1"),
+    idempotencyKey: "test-metadata-custom-r1",
+    userId: "alice",
+    tenantId: "acme",
+  };
+
+  const [created] = await repository.execute(command, createRestaurantDecider);
+  assertEquals(created.userId, "alice");
+  assertEquals(created.tenantId, "acme");
+  assertEquals(store.events[0].storedMetadata, { issuedBy: "acme/alice" });
+
+  const [existing] = await repository.execute(command, createRestaurantDecider);
+  assertEquals(existing.eventId, created.eventId);
+  assertEquals(existing.userId, "alice");
+});
+
+Deno.test("MetadataMapper - subscriber and outbox store restore the metadata through the mapper", async () => {
+  const kv = await Deno.openKv(":memory:");
+  const controller = new AbortController();
+  try {
+    const subscription = new DenoKvEventSubscriber<RestaurantCreatedEvent>(
+      kv,
+      undefined,
+      undefined,
+      audit,
+    ).subscribe([["restaurantId:r1", "RestaurantCreatedEvent"]], {
+      after: "",
+      signal: controller.signal,
+    });
+    const delivered = subscription.next();
+
+    await new DenoKvEventRepository<
+      CreateRestaurantCommand,
+      RestaurantCreatedEvent,
+      RestaurantCreatedEvent,
+      AuditCommandMetadata,
+      AuditEventMetadata
+    >(kv, getQueryTuples, 10, 5, true, { outbox: true, metadata: audit })
+      .execute({
+        ...createCommand("r1"),
+        idempotencyKey: "test-metadata-readers-r1",
+        userId: "alice",
+        tenantId: "acme",
+      }, createRestaurantDecider);
+
+    const { value } = await delivered;
+    const subscribed = value as RestaurantCreatedEvent & AuditEventMetadata;
+    assertEquals(subscribed.userId, "alice");
+    assertEquals(subscribed.tenantId, "acme");
+    assertEquals("issuedBy" in subscribed, false);
+
+    const [pending] = await new DenoKvOutboxStore<RestaurantCreatedEvent>(
+      kv,
+      undefined,
+      undefined,
+      audit,
+    ).pending(10);
+    assertEquals(
+      (pending.event as typeof pending.event & AuditEventMetadata).userId,
+      "alice",
+    );
+    assertEquals(pending.event.idempotencyKey, "test-metadata-readers-r1");
+    assertEquals("issuedBy" in pending.event, false);
+  } finally {
+    controller.abort();
+    kv.close();
+  }
+});
+
+Deno.test("MetadataMapper - the default mapper stores only the tracing metadata", async () => {
+  const kv = await Deno.openKv(":memory:");
+  try {
+    const [created] = await createRestaurantRepository(kv).execute(
+      {
+        ...createCommand("r1"),
+        idempotencyKey: "test-metadata-default-r1",
+        causationId: "cart-checked-out-1",
+        userId: "alice",
+      } as CreateRestaurantCommand & CommandMetadata,
+      createRestaurantDecider,
+    );
+    assertEquals(created.causationId, "cart-checked-out-1");
+    assertEquals("userId" in created, false);
+
+    const stored = await kv.get(["event_metadata", created.eventId]);
+    assertEquals(stored.value, { causationId: "cart-checked-out-1" });
+  } finally {
+    kv.close();
+  }
+});
+
+Deno.test("MetadataMapper - custom metadata types require a mapper", () => {
+  const store = new InMemoryEventStore();
+  // @ts-expect-error the default mapper cannot restore AuditEventMetadata
+  new InMemoryEventRepository<
+    CreateRestaurantCommand,
+    RestaurantCreatedEvent,
+    RestaurantCreatedEvent,
+    AuditCommandMetadata,
+    AuditEventMetadata
+  >(store, getQueryTuples);
+
+  new InMemoryEventRepository<
+    CreateRestaurantCommand,
+    RestaurantCreatedEvent,
+    RestaurantCreatedEvent,
+    AuditCommandMetadata,
+    AuditEventMetadata
+  >(store, getQueryTuples, 10, 5, true, {
+    metadata: metadataFields("userId", "tenantId"),
+  });
+});
@@ -0,0 +1,249 @@
+/**
+ * Tests for handler middleware.
+ *
+ * Tests verify:
+ * - Middleware sees the commands before execution and the events after, outermost first
+ * - Middleware can short-circuit (authorization) and replace the input (enrichment)
+ * - Batches pass all their commands through the same middleware
+ * - Synchronous middleware errors reject the handler's promise (timeout, validation)
+ * - `handle` rejects middleware passing on other than one command
+ * - EventHandler and EventSourcedQueryHandler run their middleware
+ */
+
+import { assertEquals, assertRejects } from "@std/assert";
+import {
+  EventHandler,
+  EventSourcedCommandHandler,
+  EventSourcedQueryHandler,
+  type Middleware,
+} from "../../application.ts";
+import { DenoKvEventLoader } from "../../denoKvEventRepository.ts";
+import type {
+  CommandMetadata,
+  EventMetadata,
+  ViewStateMetadata,
+} from "../../infrastructure.ts";
+import { createRestaurantDecider } from "./createRestaurantDecider.ts";
+import { createRestaurantRepository } from "./createRestaurantRepository.ts";
+import { type OrderView, orderView } from "./orderView.ts";
+import { orderViewStateRepository } from "./orderViewStateRepository.ts";
+import { type RestaurantEvent, restaurantView } from "./restaurantView.ts";
+import {
+  type CreateRestaurantCommand,
+  menuItemId,
+  orderId,
+  type OrderPreparedEvent,
+  type RestaurantCreatedEvent,
+  restaurantId,
+  restaurantMenuId,
+  type RestaurantOrderPlacedEvent,
+} from "./api.ts";
+
+type CommandMiddleware = Middleware<
+  readonly (CreateRestaurantCommand & CommandMetadata)[],
+  readonly (RestaurantCreatedEvent & EventMetadata)[]
+>;
+
+const createCommand = (
+  id: string,
+  name = "Bistro",
+): CreateRestaurantCommand & CommandMetadata => ({
+  kind: "CreateRestaurantCommand",
+  restaurantId: restaurantId(id),
+  name,
+  menu: {
+    menuId: restaurantMenuId("m1"),
+    cuisine: "ITALIAN",
+    menuItems: [
+      { menuItemId: menuItemId("item1"), name: "Pizza", price: "12.99" },
+    ],
+  },
+  idempotencyKey: "test-middleware-create-" + id,
+});
+
+const commandHandler = (kv: Deno.Kv, middleware: CommandMiddleware[]) =>
+  new EventSourcedCommandHandler(
+    createRestaurantDecider,
+    createRestaurantRepository(kv),
+    middleware,
+  );
+
+/** Logs the commands before and the events after execution */
+function logging(name: string, log: string[]): CommandMiddleware {
+  return async (commands, next) => {
+    log.push(`${name} > ${commands.map((c) => c.restaurantId).join(",")}`);
+    const events = await next(commands);
+    log.push(`${name} < ${events.map((e) => e.kind).join(",")}`);
+    return events;
+  };
+}
+
+Deno.test("Middleware - sees commands before and events after, outermost first", async () => {
+  const kv = await Deno.openKv(":memory:");
+  try {
+    const log: string[] = [];
+    await commandHandler(kv, [logging("outer", log), logging("inner", log)])
+      .handle(createCommand("r1"));
+
+    assertEquals(log, [
+      "outer > r1",
+      "inner > r1",
+      "inner < RestaurantCreatedEvent",
+      "outer < RestaurantCreatedEvent",
+    ]);
+  } finally {
+    kv.close();
+  }
+});
+
+Deno.test("Middleware - short-circuits and replaces the input", async () => {
+  const kv = await Deno.openKv(":memory:");
+  try {
+    const authorization: CommandMiddleware = (commands, next) =>
+      commands.some((c) => c.restaurantId === "forbidden")
+        ? Promise.reject(new Error("Unauthorized"))
+        : next(commands);
+    const trimNames: CommandMiddleware = (commands, next) =>
+      next(commands.map((c) => ({ ...c, name: c.name.trim() })));
+    const handler = commandHandler(kv, [authorization, trimNames]);
+
+    await assertRejects(
+      () => handler.handle(createCommand("forbidden")),
+      Error,
+      "Unauthorized",
+    );
+    const [created] = await handler.handle(createCommand("r1", "  Bistro "));
+    assertEquals(created.name, "Bistro");
+
+    // The rejected command never reached the repository
+    const events = await createRestaurantRepository(kv).load([
+      ["restaurantId:forbidden", "RestaurantCreatedEvent"],
+    ]);
+    assertEquals(events, []);
+  } finally {
+    kv.close();
+  }
+});
+
+Deno.test("Middleware - batches pass all commands through the middleware", async () => {
+  const kv = await Deno.openKv(":memory:");
+  try {
+    const log: string[] = [];
+    const events = await commandHandler(kv, [logging("log", log)])
+      .handleBatch([createCommand("r1"), createCommand("r2")]);
+
+    assertEquals(events.length, 2);
+    assertEquals(log, [
+      "log > r1,r2",
+      "log < RestaurantCreatedEvent,RestaurantCreatedEvent",
+    ]);
+  } finally {
+    kv.close();
+  }
+});
+
+Deno.test("Middleware - synchronous errors reject the handler's promise", async () => {
+  const kv = await Deno.openKv(":memory:");
+  try {
+    const validation: CommandMiddleware = (commands, next) => {
+      for (const command of commands) {
+        if (command.name === "") throw new TypeError("name is required");
+      }
+      return next(commands);
+    };
+    const timeout = (ms: number): CommandMiddleware => (commands, next) => {
+      let timer: ReturnType<typeof setTimeout> | undefined;
+      return Promise.race([
+        next(commands),
+        new Promise<never>((_, reject) => {
+          timer = setTimeout(() => reject(new Error("Timed out")), ms);
+        }),
+      ]).finally(() => clearTimeout(timer));
+    };
+    const handler = commandHandler(kv, [timeout(1000), validation]);
+
+    const rejected = handler.handle(createCommand("r1", ""));
+    await assertRejects(() => rejected, TypeError, "name is required");
+    const [created] = await handler.handle(createCommand("r1"));
+    assertEquals(created.restaurantId, restaurantId("r1"));
+  } finally {
+    kv.close();
+  }
+});
+
+Deno.test("Middleware - handle rejects other than one command from middleware", async () => {
+  const kv = await Deno.openKv(":memory:");
+  try {
+    const duplicate: CommandMiddleware = (commands, next) =>
+      next([...commands, ...commands]);
+    const drop: CommandMiddleware = (_, next) => next([]);
+
+    await assertRejects(
+      () => commandHandler(kv, [duplicate]).handle(createCommand("r1")),
+      RangeError,
+      "got 2",
+    );
+    await assertRejects(
+      () => commandHandler(kv, [drop]).handle(createCommand("r1")),
+      RangeError,
+      "got 0",
+    );
+
+    // Nothing reached the repository
+    const events = await createRestaurantRepository(kv).load([
+      ["restaurantId:r1", "RestaurantCreatedEvent"],
+    ]);
+    assertEquals(events, []);
+  } finally {
+    kv.close();
+  }
+});
+
+Deno.test("Middleware - wraps event and query handlers", async () => {
+  const kv = await Deno.openKv(":memory:");
+  try {
+    const [created] = await commandHandler(kv, []).handle(createCommand("r1"));
+
+    const queried: string[] = [];
+    const queryHandler = new EventSourcedQueryHandler(
+      restaurantView,
+      new DenoKvEventLoader<RestaurantEvent>(kv),
+      [(queryTuples, next) => {
+        queried.push(queryTuples.map((t) => t.join("/")).join(","));
+        return next(queryTuples);
+      }],
+    );
+    const view = await queryHandler.handle([
+      ["restaurantId:" + created.restaurantId, "RestaurantCreatedEvent"],
+    ]);
+    assertEquals(view?.name, "Bistro");
+    assertEquals(queried, ["restaurantId:r1/RestaurantCreatedEvent"]);
+
+    const projected: string[] = [];
+    const eventHandler = new EventHandler<
+      RestaurantOrderPlacedEvent | OrderPreparedEvent,
+      OrderView | null,
+      EventMetadata,
+      ViewStateMetadata
+    >(orderView, orderViewStateRepository(kv), [async (event, next) => {
+      const state = await next(event);
+      projected.push(`${event.kind} -> ${state.status}`);
+      return state;
+    }]);
+    await eventHandler.handle({
+      kind: "RestaurantOrderPlacedEvent",
+      restaurantId: restaurantId("r1"),
+      orderId: orderId("o1"),
+      menuItems: [],
+      final: false,
+      tagFields: ["restaurantId", "orderId"],
+      eventId: "01J0000000000000000000000A",
+      timestamp: 0,
+      versionstamp: "",
+      idempotencyKey: "test-middleware-place",
+    });
+    assertEquals(projected, ["RestaurantOrderPlacedEvent -> CREATED"]);
+  } finally {
+    kv.close();
+  }
+});
@@ -0,0 +1,50 @@
+/**
+ * Catch-up projection for the order view.
+ *
+ * Feeds the global Deno KV event log through the order view state repository,
+ * so that `orderView` is maintained incrementally instead of being
+ * recomputed from scratch on each query.
+ */
+
+import { EventHandler } from "../../application.ts";
+import {
+  DenoKvCheckpointStore,
+  DenoKvEventStreamReader,
+} from "../../denoKvProjectionStore.ts";
+import { ProjectionRunner } from "../../projectionRunner.ts";
+import type { EventMetadata, ViewStateMetadata } from "../../infrastructure.ts";
+import { type OrderView, orderView } from "./orderView.ts";
+import type { OrderPreparedEvent, RestaurantOrderPlacedEvent } from "./api.ts";
+import { orderViewStateRepository } from "./orderViewStateRepository.ts";
+
+/**
+ * Creates the `"orderView"` catch-up projection.
+ *
+ * Only `RestaurantOrderPlacedEvent` and `OrderPreparedEvent` are handled;
+ * other events in the log just advance the checkpoint.
+ *
+ * @param kv - Deno KV instance for storage
+ * @param batchSize - Number of events read per batch (default: 100)
+ * @returns Projection runner maintaining the order view state
+ */
+export const orderViewProjection = (
+  kv: Deno.Kv,
+  batchSize?: number,
+): ProjectionRunner<RestaurantOrderPlacedEvent | OrderPreparedEvent> =>
+  new ProjectionRunner<RestaurantOrderPlacedEvent | OrderPreparedEvent>(
+    "orderView",
+    new DenoKvEventStreamReader<
+      RestaurantOrderPlacedEvent | OrderPreparedEvent
+    >(kv),
+    new DenoKvCheckpointStore(kv),
+    new EventHandler<
+      RestaurantOrderPlacedEvent | OrderPreparedEvent,
+      OrderView | null,
+      EventMetadata,
+      ViewStateMetadata
+    >(orderView, orderViewStateRepository(kv)),
+    {
+      batchSize,
+      eventKinds: ["RestaurantOrderPlacedEvent", "OrderPreparedEvent"],
+    },
+  );
@@ -0,0 +1,34 @@
+/**
+ * Postgres materialized view repository for the order view.
+ *
+ * Stores the projected `OrderView` per order in `dcb.view_states`
+ * via `dcb.conditional_save_view_state` with optimistic locking.
+ */
+
+import type { SqlClient } from "../../postgresEventRepository.ts";
+import { PostgresViewStateRepository } from "../../postgresViewStateRepository.ts";
+import type { OrderView } from "./orderView.ts";
+import type { OrderPreparedEvent, RestaurantOrderPlacedEvent } from "./api.ts";
+
+/**
+ * Creates a Postgres-backed view state repository for the order view.
+ *
+ * **View Id:**
+ * State is stored per order under `"orderId:" + event.orderId`.
+ *
+ * @param client - PostgreSQL client instance
+ * @returns View state repository for projecting order events
+ */
+export const orderViewStatePostgresRepository = (
+  client: SqlClient,
+): PostgresViewStateRepository<
+  RestaurantOrderPlacedEvent | OrderPreparedEvent,
+  OrderView | null
+> =>
+  new PostgresViewStateRepository<
+    RestaurantOrderPlacedEvent | OrderPreparedEvent,
+    OrderView | null
+  >(
+    client,
+    (event) => "orderId:" + event.orderId,
+  );
@@ -0,0 +1,33 @@
+/**
+ * Materialized view repository for the order view.
+ *
+ * Stores the projected `OrderView` per order in Deno KV, so that
+ * queries are served from the stored state instead of replaying events.
+ */
+
+import { DenoKvViewStateRepository } from "../../denoKvViewStateRepository.ts";
+import type { OrderView } from "./orderView.ts";
+import type { OrderPreparedEvent, RestaurantOrderPlacedEvent } from "./api.ts";
+
+/**
+ * Creates a Deno KV-backed view state repository for the order view.
+ *
+ * **View Id:**
+ * State is stored per order under `"orderId:" + event.orderId`.
+ *
+ * @param kv - Deno KV instance for storage
+ * @returns View state repository for projecting order events
+ */
+export const orderViewStateRepository = (
+  kv: Deno.Kv,
+): DenoKvViewStateRepository<
+  RestaurantOrderPlacedEvent | OrderPreparedEvent,
+  OrderView | null
+> =>
+  new DenoKvViewStateRepository<
+    RestaurantOrderPlacedEvent | OrderPreparedEvent,
+    OrderView | null
+  >(
+    kv,
+    (event) => "orderId:" + event.orderId,
+  );
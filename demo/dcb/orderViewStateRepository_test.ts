@@ -0,0 +1,94 @@
+/**
+ * Integration tests for the order materialized view repository.
+ *
+ * Tests verify that EventHandler correctly materializes order state
+ * into Deno KV as order events are delivered.
+ */
+
+import { assertEquals } from "@std/assert";
+import { EventHandler, EventSourcedCommandHandler } from "../../application.ts";
+import { createRestaurantRepository } from "./createRestaurantRepository.ts";
+import { placeOrderRepository } from "./placeOrderRepository.ts";
+import { markOrderAsPreparedRepository } from "./markOrderAsPreparedRepository.ts";
+import { createRestaurantDecider } from "./createRestaurantDecider.ts";
+import { placeOrderDecider } from "./placeOrderDecider.ts";
+import { markOrderAsPreparedDecider } from "./markOrderAsPreparedDecider.ts";
+import { orderViewStateRepository } from "./orderViewStateRepository.ts";
+import { type OrderView, orderView } from "./orderView.ts";
+import {
+  type MenuItem,
+  menuItemId,
+  orderId,
+  type OrderPreparedEvent,
+  restaurantId,
+  restaurantMenuId,
+  type RestaurantOrderPlacedEvent,
+} from "./api.ts";
+import type { EventMetadata, ViewStateMetadata } from "../../infrastructure.ts";
+
+const testMenuItems: MenuItem[] = [
+  { menuItemId: menuItemId("item1"), name: "Pizza", price: "12.99" },
+];
+
+Deno.test("OrderViewStateRepository - materialize order state from placed and prepared events", async () => {
+  const kv = await Deno.openKv(":memory:");
+
+  try {
+    await new EventSourcedCommandHandler(
+      createRestaurantDecider,
+      createRestaurantRepository(kv),
+    ).handle({
+      kind: "CreateRestaurantCommand",
+      restaurantId: restaurantId("r1"),
+      name: "Italian Bistro",
+      menu: {
+        menuId: restaurantMenuId("m1"),
+        cuisine: "ITALIAN",
+        menuItems: testMenuItems,
+      },
+      idempotencyKey: "test-order-view-state-create",
+    });
+
+    const [placed] = await new EventSourcedCommandHandler(
+      placeOrderDecider,
+      placeOrderRepository(kv),
+    ).handle({
+      kind: "PlaceOrderCommand",
+      restaurantId: restaurantId("r1"),
+      orderId: orderId("o1"),
+      menuItems: testMenuItems,
+      idempotencyKey: "test-order-view-state-place",
+    });
+
+    const [prepared] = await new EventSourcedCommandHandler(
+      markOrderAsPreparedDecider,
+      markOrderAsPreparedRepository(kv),
+    ).handle({
+      kind: "MarkOrderAsPreparedCommand",
+      orderId: orderId("o1"),
+      idempotencyKey: "test-order-view-state-prepare",
+    });
+
+    const repository = orderViewStateRepository(kv);
+    const eventHandler = new EventHandler<
+      RestaurantOrderPlacedEvent | OrderPreparedEvent,
+      OrderView | null,
+      EventMetadata,
+      ViewStateMetadata
+    >(orderView, repository);
+
+    const created = await eventHandler.handle(placed);
+    assertEquals(created.status, "CREATED");
+
+    await eventHandler.handle(prepared);
+
+    const loaded = await repository.load("orderId:o1");
+    assertEquals(loaded?.orderId, orderId("o1"));
+    assertEquals(loaded?.restaurantId, restaurantId("r1"));
+    assertEquals(loaded?.menuItems, testMenuItems);
+    assertEquals(loaded?.status, "PREPARED");
+    assertEquals(loaded?.lastEventId, prepared.eventId);
+  } finally {
+    await kv.close();
+  }
+});
@@ -0,0 +1,146 @@
+/**
+ * Postgres tests for the transactional outbox.
+ *
+ * Tests verify:
+ * - `dcb.unconditional_append` records appended events when `dcb.outbox` is on
+ * - Appends on a connection without the setting record nothing
+ * - The relay publishes in append order, acknowledges, and dead-letters failures
+ *
+ * Requires Docker daemon for testcontainers.
+ */
+
+import { assertEquals } from "@std/assert";
+import type { CommandMetadata, EventMetadata } from "../../infrastructure.ts";
+import { type IEventPublisher, OutboxRelay } from "../../outbox.ts";
+import { PostgresOutboxStore } from "../../postgresOutboxStore.ts";
+import { createRestaurantDecider } from "./createRestaurantDecider.ts";
+import { createRestaurantPostgresRepository } from "./createRestaurantPostgresRepository.ts";
+import {
+  type CreateRestaurantCommand,
+  menuItemId,
+  type RestaurantCreatedEvent,
+  restaurantId,
+  restaurantMenuId,
+} from "./api.ts";
+import {
+  createPostgresClient,
+  startPostgresContainer,
+} from "./testcontainers.ts";
+
+const { container, connectionString } = await startPostgresContainer();
+const client = await createPostgresClient(connectionString);
+const other = await createPostgresClient(connectionString);
+
+// Applications enable it for the whole database: ALTER DATABASE ... SET dcb.outbox = 'on'
+await client.queryObject(`SET dcb.outbox = 'on'`);
+
+const store = new PostgresOutboxStore<RestaurantCreatedEvent>(client);
+
+const createRestaurant = (
+  id: string,
+): Promise<readonly (RestaurantCreatedEvent & EventMetadata)[]> => {
+  const command: CreateRestaurantCommand & CommandMetadata = {
+    kind: "CreateRestaurantCommand",
+    restaurantId: restaurantId(id),
+    name: "Bistro " + id,
+    menu: {
+      menuId: restaurantMenuId("m1"),
+      cuisine: "ITALIAN",
+      menuItems: [
+        { menuItemId: menuItemId("item1"), name: "Pizza", price: "12.99" },
+      ],
+    },
+    idempotencyKey: "test-pg-outbox-create-" + id,
+  };
+  return createRestaurantPostgresRepository(client).execute(
+    command,
+    createRestaurantDecider,
+  );
+};
+
+Deno.test({
+  name: "Postgres: Outbox - appended events are recorded with their metadata",
+  sanitizeResources: false,
+  sanitizeOps: false,
+  fn: async () => {
+    const [appended] = await createRestaurant("r1");
+
+    const [entry] = await store.pending(10);
+    assertEquals(entry.event.eventId, appended.eventId);
+    assertEquals(entry.event.idempotencyKey, "test-pg-outbox-create-r1");
+    assertEquals(entry.event.restaurantId, restaurantId("r1"));
+    assertEquals(entry.attempts, 0);
+
+    await store.acknowledge(entry.event.eventId);
+    assertEquals(await store.pending(10), []);
+  },
+});
+
+Deno.test({
+  name: "Postgres: Outbox - appends without the setting are not recorded",
+  sanitizeResources: false,
+  sanitizeOps: false,
+  fn: async () => {
+    await createRestaurantPostgresRepository(other).execute({
+      kind: "CreateRestaurantCommand",
+      restaurantId: restaurantId("r-other"),
+      name: "Bistro",
+      menu: {
+        menuId: restaurantMenuId("m1"),
+        cuisine: "ITALIAN",
+        menuItems: [
+          { menuItemId: menuItemId("item1"), name: "Pizza", price: "12.99" },
+        ],
+      },
+      idempotencyKey: "test-pg-outbox-create-other",
+    }, createRestaurantDecider);
+
+    assertEquals(await store.pending(10), []);
+  },
+});
+
+Deno.test({
+  name: "Postgres: Outbox - relay publishes in order and dead-letters failures",
+  sanitizeResources: false,
+  sanitizeOps: false,
+  fn: async () => {
+    for (const id of ["r2", "r3", "r4"]) {
+      await createRestaurant(id);
+    }
+    const published: string[] = [];
+    const publisher: IEventPublisher<RestaurantCreatedEvent> = {
+      publish: (event) => {
+        if (event.restaurantId === "r3") {
+          return Promise.reject(new Error("broker unavailable"));
+        }
+        published.push(event.restaurantId);
+        return Promise.resolve();
+      },
+    };
+    const relay = new OutboxRelay(store, publisher, { maxAttempts: 2 });
+
+    assertEquals(await relay.drain(), 1);
+    assertEquals(await relay.drain(), 2);
+    assertEquals(published, ["r2", "r4"]);
+
+    const [deadLetter] = await store.deadLetters(10);
+    assertEquals(deadLetter.event.restaurantId, restaurantId("r3"));
+    assertEquals(deadLetter.attempts, 2);
+    assertEquals(deadLetter.lastError, "broker unavailable");
+    assertEquals(await store.pending(10), []);
+
+    await store.retryDeadLetter(deadLetter.event.eventId);
+    assertEquals((await store.pending(10)).map((e) => e.attempts), [0]);
+  },
+});
+
+Deno.test({
+  name: "Postgres: cleanup",
+  sanitizeResources: false,
+  sanitizeOps: false,
+  fn: async () => {
+    await client.end();
+    await other.end();
+    await container.stop();
+  },
+});
@@ -0,0 +1,193 @@
+/**
+ * Integration tests for the transactional outbox over Deno KV.
+ *
+ * Tests verify:
+ * - Appended events are recorded in the outbox in the same atomic commit
+ * - Repositories without `outbox` record nothing
+ * - The relay publishes in append order and acknowledges delivered entries
+ * - A failed delivery stops the batch and is retried on the next run
+ * - Entries that keep failing are dead-lettered and can be retried
+ */
+
+import { assertEquals } from "@std/assert";
+import { DenoKvEventRepository } from "../../denoKvEventRepository.ts";
+import { DenoKvOutboxStore } from "../../denoKvOutboxStore.ts";
+import type { CommandMetadata, EventMetadata } from "../../infrastructure.ts";
+import { type IEventPublisher, OutboxRelay } from "../../outbox.ts";
+import { createRestaurantDecider } from "./createRestaurantDecider.ts";
+import { createRestaurantRepository } from "./createRestaurantRepository.ts";
+import {
+  type CreateRestaurantCommand,
+  menuItemId,
+  type RestaurantCreatedEvent,
+  restaurantId,
+  restaurantMenuId,
+} from "./api.ts";
+
+const outboxRepository = (kv: Deno.Kv) =>
+  new DenoKvEventRepository<
+    CreateRestaurantCommand,
+    RestaurantCreatedEvent,
+    RestaurantCreatedEvent
+  >(
+    kv,
+    (cmd) => [["restaurantId:" + cmd.restaurantId, "RestaurantCreatedEvent"]],
+    10,
+    5,
+    true,
+    { outbox: true },
+  );
+
+const createCommand = (
+  id: string,
+): CreateRestaurantCommand & CommandMetadata => ({
+  kind: "CreateRestaurantCommand",
+  restaurantId: restaurantId(id),
+  name: "Bistro " + id,
+  menu: {
+    menuId: restaurantMenuId("m1"),
+    cuisine: "ITALIAN",
+    menuItems: [
+      { menuItemId: menuItemId("item1"), name: "Pizza", price: "12.99" },
+    ],
+  },
+  idempotencyKey: "test-outbox-create-" + id,
+});
+
+/** Publisher recording published restaurant ids, failing for ids in `failing` */
+const recordingPublisher = (failing: Set<string> = new Set()) => {
+  const published: string[] = [];
+  const publisher: IEventPublisher<RestaurantCreatedEvent> = {
+    publish: (event: RestaurantCreatedEvent & EventMetadata) => {
+      if (failing.has(event.restaurantId)) {
+        return Promise.reject(new Error("broker unavailable"));
+      }
+      published.push(event.restaurantId);
+      return Promise.resolve();
+    },
+  };
+  return { publisher, published };
+};
+
+Deno.test("Outbox - appended events are recorded with their metadata", async () => {
+  const kv = await Deno.openKv(":memory:");
+  try {
+    const [appended] = await outboxRepository(kv).execute(
+      createCommand("r1"),
+      createRestaurantDecider,
+    );
+
+    const pending = await new DenoKvOutboxStore<RestaurantCreatedEvent>(kv)
+      .pending(10);
+    assertEquals(pending.length, 1);
+    assertEquals(pending[0].attempts, 0);
+    assertEquals(pending[0].lastError, null);
+    assertEquals(pending[0].event.eventId, appended.eventId);
+    assertEquals(pending[0].event.versionstamp, appended.versionstamp);
+    assertEquals(pending[0].event.idempotencyKey, "test-outbox-create-r1");
+    assertEquals(pending[0].event.restaurantId, restaurantId("r1"));
+  } finally {
+    kv.close();
+  }
+});
+
+Deno.test("Outbox - repositories without outbox record nothing", async () => {
+  const kv = await Deno.openKv(":memory:");
+  try {
+    await createRestaurantRepository(kv).execute(
+      createCommand("r1"),
+      createRestaurantDecider,
+    );
+
+    assertEquals(
+      await new DenoKvOutboxStore<RestaurantCreatedEvent>(kv).pending(10),
+      [],
+    );
+  } finally {
+    kv.close();
+  }
+});
+
+Deno.test("Outbox - relay publishes in append order and acknowledges", async () => {
+  const kv = await Deno.openKv(":memory:");
+  try {
+    for (const id of ["r1", "r2", "r3"]) {
+      await outboxRepository(kv).execute(
+        createCommand(id),
+        createRestaurantDecider,
+      );
+    }
+    const store = new DenoKvOutboxStore<RestaurantCreatedEvent>(kv);
+    const { publisher, published } = recordingPublisher();
+
+    const settled = await new OutboxRelay(store, publisher, { batchSize: 2 })
+      .drain();
+
+    assertEquals(settled, 3);
+    assertEquals(published, ["r1", "r2", "r3"]);
+    assertEquals(await store.pending(10), []);
+  } finally {
+    kv.close();
+  }
+});
+
+Deno.test("Outbox - failed delivery stops the batch and is retried", async () => {
+  const kv = await Deno.openKv(":memory:");
+  try {
+    for (const id of ["r1", "r2"]) {
+      await outboxRepository(kv).execute(
+        createCommand(id),
+        createRestaurantDecider,
+      );
+    }
+    const store = new DenoKvOutboxStore<RestaurantCreatedEvent>(kv);
+    const failing = new Set<string>(["r1"]);
+    const { publisher, published } = recordingPublisher(failing);
+    const relay = new OutboxRelay(store, publisher);
+
+    assertEquals(await relay.runOnce(), 0);
+    assertEquals(published, []);
+    const [entry] = await store.pending(10);
+    assertEquals(entry.attempts, 1);
+    assertEquals(entry.lastError, "broker unavailable");
+
+    failing.clear();
+    assertEquals(await relay.drain(), 2);
+    assertEquals(published, ["r1", "r2"]);
+  } finally {
+    kv.close();
+  }
+});
+
+Deno.test("Outbox - entries are dead-lettered after maxAttempts and can be retried", async () => {
+  const kv = await Deno.openKv(":memory:");
+  try {
+    for (const id of ["r1", "r2"]) {
+      await outboxRepository(kv).execute(
+        createCommand(id),
+        createRestaurantDecider,
+      );
+    }
+    const store = new DenoKvOutboxStore<RestaurantCreatedEvent>(kv);
+    const failing = new Set<string>(["r1"]);
+    const { publisher, published } = recordingPublisher(failing);
+    const relay = new OutboxRelay(store, publisher, { maxAttempts: 2 });
+
+    assertEquals(await relay.runOnce(), 0);
+    assertEquals(await relay.runOnce(), 2);
+    assertEquals(published, ["r2"]);
+
+    const [deadLetter] = await store.deadLetters(10);
+    assertEquals(deadLetter.event.restaurantId, restaurantId("r1"));
+    assertEquals(deadLetter.attempts, 2);
+    assertEquals(await store.pending(10), []);
+
+    failing.clear();
+    await store.retryDeadLetter(deadLetter.event.eventId);
+    assertEquals(await store.deadLetters(10), []);
+    assertEquals(await relay.drain(), 1);
+    assertEquals(published, ["r2", "r1"]);
+  } finally {
+    kv.close();
+  }
+});
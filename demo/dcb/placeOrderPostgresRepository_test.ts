@@ -8,12 +8,16 @@
  * - Event persistence to PostgreSQL via dcb.conditional_append
  * - Domain error propagation (RestaurantNotFoundError, MenuItemsNotAvailableError, OrderAlreadyExistsError)
  * - Order placement after menu change
+ * - PostgresEventRepository passes the repository conformance suite, with both
+ *   append lockings (idempotency circuit-break and key mismatch detection included)
  *
  * Requires Docker daemon for testcontainers.
  */
 
-import { assertEquals, assertRejects } from "@std/assert";
+import { assert, assertEquals, assertRejects } from "@std/assert";
 import { EventSourcedCommandHandler } from "../../application.ts";
+import { runEventRepositoryConformance } from "../../event_repository_conformance.ts";
+import { PostgresEventRepository } from "../../postgresEventRepository.ts";
 import { placeOrderPostgresRepository } from "./placeOrderPostgresRepository.ts";
 import { createRestaurantPostgresRepository } from "./createRestaurantPostgresRepository.ts";
 import { changeRestaurantMenuPostgresRepository } from "./changeRestaurantMenuPostgresRepository.ts";
@@ -33,8 +37,7 @@ import {
   RestaurantNotFoundError,
   type RestaurantOrderPlacedEvent,
 } from "./api.ts";
-import type { CommandMetadata, EventMetadata } from "../../infrastructure.ts";
-import { IdempotencyKeyMismatchError } from "../../infrastructure.ts";
+import type { CommandMetadata } from "../../infrastructure.ts";
 import {
   createPostgresClient,
   startPostgresContainer,
@@ -400,94 +403,6 @@ Deno.test({
   },
 });
 
-Deno.test({
-  name:
-    "Postgres: PlaceOrderRepository - idempotency circuit-break returns same events on duplicate key",
-  sanitizeResources: false,
-  sanitizeOps: false,
-  fn: async () => {
-    // Create restaurant first
-    const createRepository = createRestaurantPostgresRepository(client);
-    const createHandler = new EventSourcedCommandHandler(
-      createRestaurantDecider,
-      createRepository,
-    );
-
-    const createCommand: CreateRestaurantCommand & CommandMetadata = {
-      kind: "CreateRestaurantCommand",
-      restaurantId: restaurantId("r-idempotent-1"),
-      name: "Bistro",
-      menu: {
-        menuId: restaurantMenuId("m1"),
-        cuisine: "ITALIAN",
-        menuItems: [
-          {
-            menuItemId: menuItemId("item1"),
-            name: "Pizza",
-            price: "12.99",
-          },
-        ],
-      },
-      idempotencyKey: "test-pg-place-order-idempotent-create",
-    };
-
-    await createHandler.handle(createCommand);
-
-    // Place order
-    const repository = placeOrderPostgresRepository(client);
-    const handler = new EventSourcedCommandHandler(
-      placeOrderDecider,
-      repository,
-    );
-
-    const command: PlaceOrderCommand & CommandMetadata = {
-      kind: "PlaceOrderCommand",
-      restaurantId: restaurantId("r-idempotent-1"),
-      orderId: orderId("o-idempotent-1"),
-      menuItems: [
-        {
-          menuItemId: menuItemId("item1"),
-          name: "Pizza",
-          price: "12.99",
-        },
-      ],
-      idempotencyKey: "test-pg-place-order-idempotent-key",
-    };
-
-    // First execution — should succeed and persist events
-    const firstResult = await handler.handle(command);
-    assertEquals(firstResult.length, 1);
-    const firstEvent = firstResult[0] as
-      & RestaurantOrderPlacedEvent
-      & EventMetadata;
-    assertEquals(firstEvent.kind, "RestaurantOrderPlacedEvent");
-    assertEquals(firstEvent.orderId, orderId("o-idempotent-1"));
-    assertEquals(
-      firstEvent.idempotencyKey,
-      "test-pg-place-order-idempotent-key",
-    );
-
-    // Second execution — same command, same idempotencyKey
-    // Should circuit-break and return the same events without invoking the decider
-    const secondResult = await handler.handle(command);
-    assertEquals(secondResult.length, 1);
-    const secondEvent = secondResult[0] as
-      & RestaurantOrderPlacedEvent
-      & EventMetadata;
-
-    // Same event data
-    assertEquals(secondEvent.kind, "RestaurantOrderPlacedEvent");
-    assertEquals(secondEvent.orderId, orderId("o-idempotent-1"));
-    assertEquals(
-      secondEvent.idempotencyKey,
-      "test-pg-place-order-idempotent-key",
-    );
-
-    // Same eventId — proves it's the same persisted event, not a new one
-    assertEquals(secondEvent.eventId, firstEvent.eventId);
-  },
-});
-
 Deno.test({
   name:
     "Postgres: PlaceOrderRepository - same command with different idempotencyKey throws OrderAlreadyExistsError",
@@ -562,66 +477,31 @@ Deno.test({
 });
 
 Deno.test({
-  name:
-    "Postgres: PlaceOrderRepository - different command reusing same idempotencyKey throws IdempotencyKeyMismatchError",
+  name: "Postgres: Conformance - PostgresEventRepository",
   sanitizeResources: false,
   sanitizeOps: false,
   fn: async () => {
-    // Create restaurant with a specific idempotency key
-    const createRepository = createRestaurantPostgresRepository(client);
-    const createHandler = new EventSourcedCommandHandler(
-      createRestaurantDecider,
-      createRepository,
+    await runEventRepositoryConformance(
+      (getQueryTuples) => new PostgresEventRepository(client, getQueryTuples),
+      { assert, assertEquals },
     );
-
-    const createCommand: CreateRestaurantCommand & CommandMetadata = {
-      kind: "CreateRestaurantCommand",
-      restaurantId: restaurantId("r-mismatch-1"),
-      name: "Bistro",
-      menu: {
-        menuId: restaurantMenuId("m1"),
-        cuisine: "ITALIAN",
-        menuItems: [
-          {
-            menuItemId: menuItemId("item1"),
-            name: "Pizza",
-            price: "12.99",
-          },
-        ],
-      },
-      idempotencyKey: "test-pg-shared-key-mismatch",
-    };
-
-    // First execution — CreateRestaurant succeeds under this key
-    await createHandler.handle(createCommand);
-
-    // Second execution — PlaceOrder with the SAME idempotencyKey (caller bug)
-    // The repository detects the command_kind mismatch and throws
-    const placeRepo = placeOrderPostgresRepository(client);
-    const placeHandler = new EventSourcedCommandHandler(
-      placeOrderDecider,
-      placeRepo,
+    await runEventRepositoryConformance(
+      (getQueryTuples) =>
+        new PostgresEventRepository(client, getQueryTuples, 10, false),
+      { assert, assertEquals },
     );
-
-    const placeCommand: PlaceOrderCommand & CommandMetadata = {
-      kind: "PlaceOrderCommand",
-      restaurantId: restaurantId("r-mismatch-1"),
-      orderId: orderId("o-mismatch-1"),
-      menuItems: [
-        {
-          menuItemId: menuItemId("item1"),
-          name: "Pizza",
-          price: "12.99",
-        },
-      ],
-      idempotencyKey: "test-pg-shared-key-mismatch", // same key — caller bug
-    };
-
-    await assertRejects(
-      async () => {
-        await placeHandler.handle(placeCommand);
-      },
-      IdempotencyKeyMismatchError,
+    await runEventRepositoryConformance(
+      (getQueryTuples) =>
+        new PostgresEventRepository(
+          client,
+          getQueryTuples,
+          10,
+          true,
+          undefined,
+          undefined,
+          { appendLocking: "advisory" },
+        ),
+      { assert, assertEquals },
     );
   },
 });
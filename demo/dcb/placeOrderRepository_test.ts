@@ -7,6 +7,9 @@
  * - Domain error propagation (non-existent restaurant, invalid menu items, duplicate order)
  * - Concurrent modification detection and retry
  * - Maximum retry limit enforcement
+ *
+ * Idempotency circuit-break and key mismatch detection are covered by the
+ * repository conformance suite (`event_repository_conformance_test.ts`).
  */
 
 import { assertEquals, assertRejects } from "@std/assert";
@@ -32,7 +35,6 @@ import {
   type RestaurantOrderPlacedEvent,
 } from "./api.ts";
 import type { CommandMetadata } from "../../infrastructure.ts";
-import { IdempotencyKeyMismatchError } from "../../infrastructure.ts";
 
 Deno.test("PlaceOrderRepository - successful order placement via handler.handle() (happy path)", async () => {
   const kv = await Deno.openKv(":memory:");
@@ -581,83 +583,6 @@ Deno.test("PlaceOrderRepository - verify events indexed by order ID correctly",
   }
 });
 
-Deno.test("PlaceOrderRepository - idempotency circuit-break returns same events on duplicate key", async () => {
-  const kv = await Deno.openKv(":memory:");
-
-  try {
-    // Create restaurant first
-    const createRepo = createRestaurantRepository(kv);
-    const createHandler = new EventSourcedCommandHandler(
-      createRestaurantDecider,
-      createRepo,
-    );
-
-    const createCommand: CreateRestaurantCommand & CommandMetadata = {
-      kind: "CreateRestaurantCommand",
-      restaurantId: restaurantId("r-idempotent-1"),
-      name: "Bistro",
-      menu: {
-        menuId: restaurantMenuId("m1"),
-        cuisine: "ITALIAN",
-        menuItems: [
-          { menuItemId: menuItemId("item1"), name: "Pizza", price: "12.99" },
-        ],
-      },
-      idempotencyKey: "test-place-order-idempotent-create",
-    };
-
-    await createHandler.handle(createCommand);
-
-    // Place order
-    const repository = placeOrderRepository(kv);
-    const handler = new EventSourcedCommandHandler(
-      placeOrderDecider,
-      repository,
-    );
-
-    const command: PlaceOrderCommand & CommandMetadata = {
-      kind: "PlaceOrderCommand",
-      restaurantId: restaurantId("r-idempotent-1"),
-      orderId: orderId("o-idempotent-1"),
-      menuItems: [
-        { menuItemId: menuItemId("item1"), name: "Pizza", price: "12.99" },
-      ],
-      idempotencyKey: "test-place-order-idempotent-key",
-    };
-
-    // First execution — should succeed and persist events
-    const firstResult = await handler.handle(command);
-    assertEquals(firstResult.length, 1);
-    const firstEvent = firstResult[0] as
-      & RestaurantOrderPlacedEvent
-      & EventMetadata;
-    assertEquals(firstEvent.kind, "RestaurantOrderPlacedEvent");
-    assertEquals(firstEvent.orderId, orderId("o-idempotent-1"));
-    assertEquals(firstEvent.idempotencyKey, "test-place-order-idempotent-key");
-
-    // Second execution — same command, same idempotencyKey
-    // Should circuit-break and return the same events without invoking the decider
-    const secondResult = await handler.handle(command);
-    assertEquals(secondResult.length, 1);
-    const secondEvent = secondResult[0] as
-      & RestaurantOrderPlacedEvent
-      & EventMetadata;
-
-    // Same event data
-    assertEquals(secondEvent.kind, "RestaurantOrderPlacedEvent");
-    assertEquals(secondEvent.orderId, orderId("o-idempotent-1"));
-    assertEquals(
-      secondEvent.idempotencyKey,
-      "test-place-order-idempotent-key",
-    );
-
-    // Same eventId — proves it's the same persisted event, not a new one
-    assertEquals(secondEvent.eventId, firstEvent.eventId);
-  } finally {
-    kv.close();
-  }
-});
-
 Deno.test("PlaceOrderRepository - same command with different idempotencyKey throws OrderAlreadyExistsError", async () => {
   const kv = await Deno.openKv(":memory:");
 
@@ -722,62 +647,3 @@ Deno.test("PlaceOrderRepository - same command with different idempotencyKey thr
     kv.close();
   }
 });
-
-Deno.test("PlaceOrderRepository - different command reusing same idempotencyKey throws IdempotencyKeyMismatchError", async () => {
-  const kv = await Deno.openKv(":memory:");
-
-  try {
-    // Create restaurant first
-    const createRepo = createRestaurantRepository(kv);
-    const createHandler = new EventSourcedCommandHandler(
-      createRestaurantDecider,
-      createRepo,
-    );
-
-    const createCommand: CreateRestaurantCommand & CommandMetadata = {
-      kind: "CreateRestaurantCommand",
-      restaurantId: restaurantId("r-reuse-key-1"),
-      name: "Bistro",
-      menu: {
-        menuId: restaurantMenuId("m1"),
-        cuisine: "ITALIAN",
-        menuItems: [
-          { menuItemId: menuItemId("item1"), name: "Pizza", price: "12.99" },
-        ],
-      },
-      idempotencyKey: "test-shared-key-across-repos",
-    };
-
-    // First execution — CreateRestaurant succeeds, persists RestaurantCreatedEvent under this key
-    const createResult = await createHandler.handle(createCommand);
-    assertEquals(createResult.length, 1);
-    assertEquals(createResult[0].kind, "RestaurantCreatedEvent");
-
-    // Second execution — PlaceOrder with the SAME idempotencyKey (caller bug)
-    // The repository detects the command_kind mismatch and throws
-    const placeRepo = placeOrderRepository(kv);
-    const placeHandler = new EventSourcedCommandHandler(
-      placeOrderDecider,
-      placeRepo,
-    );
-
-    const placeCommand: PlaceOrderCommand & CommandMetadata = {
-      kind: "PlaceOrderCommand",
-      restaurantId: restaurantId("r-reuse-key-1"),
-      orderId: orderId("o-reuse-key-1"),
-      menuItems: [
-        { menuItemId: menuItemId("item1"), name: "Pizza", price: "12.99" },
-      ],
-      idempotencyKey: "test-shared-key-across-repos", // same key — caller bug
-    };
-
-    await assertRejects(
-      async () => {
-        await placeHandler.handle(placeCommand);
-      },
-      IdempotencyKeyMismatchError,
-    );
-  } finally {
-    kv.close();
-  }
-});
@@ -0,0 +1,48 @@
+/**
+ * Postgres catch-up projection for the restaurant view.
+ *
+ * Feeds the global `dcb.events` log through the Postgres restaurant view state
+ * repository, storing its checkpoint in `dcb.checkpoints`.
+ */
+
+import { EventHandler } from "../../application.ts";
+import type { SqlClient } from "../../postgresEventRepository.ts";
+import {
+  PostgresCheckpointStore,
+  PostgresEventStreamReader,
+} from "../../postgresProjectionStore.ts";
+import { ProjectionRunner } from "../../projectionRunner.ts";
+import type { EventMetadata, ViewStateMetadata } from "../../infrastructure.ts";
+import {
+  type RestaurantEvent,
+  type RestaurantView,
+  restaurantView,
+} from "./restaurantView.ts";
+import { restaurantViewStatePostgresRepository } from "./restaurantViewStatePostgresRepository.ts";
+
+/**
+ * Creates the `"restaurantView"` catch-up projection over PostgreSQL.
+ *
+ * @param client - PostgreSQL client instance
+ * @param batchSize - Number of events read per batch (default: 100)
+ * @returns Projection runner maintaining the restaurant view state
+ */
+export const restaurantViewPostgresProjection = (
+  client: SqlClient,
+  batchSize?: number,
+): ProjectionRunner<RestaurantEvent> =>
+  new ProjectionRunner<RestaurantEvent>(
+    "restaurantView",
+    new PostgresEventStreamReader<RestaurantEvent>(client),
+    new PostgresCheckpointStore(client),
+    new EventHandler<
+      RestaurantEvent,
+      RestaurantView | null,
+      EventMetadata,
+      ViewStateMetadata
+    >(restaurantView, restaurantViewStatePostgresRepository(client)),
+    {
+      batchSize,
+      eventKinds: ["RestaurantCreatedEvent", "RestaurantMenuChangedEvent"],
+    },
+  );
@@ -0,0 +1,106 @@
+/**
+ * Postgres integration tests for the restaurant catch-up projection.
+ *
+ * Mirrors restaurantViewProjection_test.ts but reads the `dcb.events` log and
+ * stores the checkpoint in `dcb.checkpoints`.
+ *
+ * Requires Docker daemon for testcontainers.
+ */
+
+import { assertEquals } from "@std/assert";
+import { EventSourcedCommandHandler } from "../../application.ts";
+import { createRestaurantPostgresRepository } from "./createRestaurantPostgresRepository.ts";
+import { changeRestaurantMenuPostgresRepository } from "./changeRestaurantMenuPostgresRepository.ts";
+import { createRestaurantDecider } from "./createRestaurantDecider.ts";
+import { changeRestaurantManuDecider } from "./changeRestaurantMenuDecider.ts";
+import { restaurantViewPostgresProjection } from "./restaurantViewPostgresProjection.ts";
+import { restaurantViewStatePostgresRepository } from "./restaurantViewStatePostgresRepository.ts";
+import { PostgresCheckpointStore } from "../../postgresProjectionStore.ts";
+import {
+  menuItemId,
+  restaurantId,
+  type RestaurantMenu,
+  restaurantMenuId,
+} from "./api.ts";
+import {
+  createPostgresClient,
+  startPostgresContainer,
+} from "./testcontainers.ts";
+
+const { container, connectionString } = await startPostgresContainer();
+const client = await createPostgresClient(connectionString);
+
+const testMenu: RestaurantMenu = {
+  menuId: restaurantMenuId("m1"),
+  cuisine: "ITALIAN",
+  menuItems: [
+    { menuItemId: menuItemId("item1"), name: "Pizza", price: "12.99" },
+  ],
+};
+
+const newMenu: RestaurantMenu = {
+  menuId: restaurantMenuId("m2"),
+  cuisine: "FRENCH",
+  menuItems: [
+    { menuItemId: menuItemId("item1"), name: "Croissant", price: "5.99" },
+  ],
+};
+
+Deno.test({
+  name:
+    "Postgres: RestaurantViewProjection - catch up in batches and resume from checkpoint",
+  sanitizeResources: false,
+  sanitizeOps: false,
+  fn: async () => {
+    const createHandler = new EventSourcedCommandHandler(
+      createRestaurantDecider,
+      createRestaurantPostgresRepository(client),
+    );
+    for (const id of ["r-pg-proj-1", "r-pg-proj-2", "r-pg-proj-3"]) {
+      await createHandler.handle({
+        kind: "CreateRestaurantCommand",
+        restaurantId: restaurantId(id),
+        name: "Bistro",
+        menu: testMenu,
+        idempotencyKey: "test-pg-projection-create-" + id,
+      });
+    }
+
+    assertEquals(
+      await restaurantViewPostgresProjection(client, 2).catchUp(),
+      3,
+    );
+
+    const [changed] = await new EventSourcedCommandHandler(
+      changeRestaurantManuDecider,
+      changeRestaurantMenuPostgresRepository(client),
+    ).handle({
+      kind: "ChangeRestaurantMenuCommand",
+      restaurantId: restaurantId("r-pg-proj-2"),
+      menu: newMenu,
+      idempotencyKey: "test-pg-projection-change",
+    });
+
+    // A fresh runner resumes after the stored checkpoint
+    assertEquals(await restaurantViewPostgresProjection(client).catchUp(), 1);
+    assertEquals(
+      await new PostgresCheckpointStore(client).load("restaurantView"),
+      changed.eventId,
+    );
+
+    const state = await restaurantViewStatePostgresRepository(client).load(
+      "restaurantId:r-pg-proj-2",
+    );
+    assertEquals(state?.menu, newMenu);
+  },
+});
+
+Deno.test({
+  name: "Postgres: cleanup",
+  sanitizeResources: false,
+  sanitizeOps: false,
+  fn: async () => {
+    await client.end();
+    await container.stop();
+  },
+});
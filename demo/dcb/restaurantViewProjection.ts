@@ -0,0 +1,57 @@
+/**
+ * Catch-up projection for the restaurant view.
+ *
+ * Feeds the global Deno KV event log through the restaurant view state repository,
+ * so that `restaurantView` is maintained incrementally instead of being
+ * recomputed from scratch on each query.
+ */
+
+import { EventHandler } from "../../application.ts";
+import {
+  DenoKvCheckpointStore,
+  DenoKvEventStreamReader,
+} from "../../denoKvProjectionStore.ts";
+import { ProjectionRunner } from "../../projectionRunner.ts";
+import type { EventMetadata, ViewStateMetadata } from "../../infrastructure.ts";
+import {
+  type RestaurantEvent,
+  type RestaurantView,
+  restaurantView,
+} from "./restaurantView.ts";
+import { restaurantViewStateRepository } from "./restaurantViewStateRepository.ts";
+
+/**
+ * Creates the `"restaurantView"` catch-up projection.
+ *
+ * Only `RestaurantCreatedEvent` and `RestaurantMenuChangedEvent` are handled;
+ * other events in the log just advance the checkpoint.
+ *
+ * @param kv - Deno KV instance for storage
+ * @param batchSize - Number of events read per batch (default: 100)
+ * @returns Projection runner maintaining the restaurant view state
+ *
+ * @example
+ * ```typescript
+ * await restaurantViewProjection(kv).catchUp();
+ * const restaurant = await restaurantViewStateRepository(kv).load("restaurantId:r1");
+ * ```
+ */
+export const restaurantViewProjection = (
+  kv: Deno.Kv,
+  batchSize?: number,
+): ProjectionRunner<RestaurantEvent> =>
+  new ProjectionRunner<RestaurantEvent>(
+    "restaurantView",
+    new DenoKvEventStreamReader<RestaurantEvent>(kv),
+    new DenoKvCheckpointStore(kv),
+    new EventHandler<
+      RestaurantEvent,
+      RestaurantView | null,
+      EventMetadata,
+      ViewStateMetadata
+    >(restaurantView, restaurantViewStateRepository(kv)),
+    {
+      batchSize,
+      eventKinds: ["RestaurantCreatedEvent", "RestaurantMenuChangedEvent"],
+    },
+  );
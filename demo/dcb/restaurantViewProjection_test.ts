@@ -0,0 +1,174 @@
+/**
+ * Integration tests for catch-up projections over the Deno KV event log.
+ *
+ * Tests verify:
+ * - Catch-up materializes view state from the global log in batches
+ * - Checkpoints persist, so a new runner resumes where the previous one stopped
+ * - Named projections progress independently over the same log
+ * - Rebuild replays the log from the beginning
+ */
+
+import { assertEquals } from "@std/assert";
+import { EventSourcedCommandHandler } from "../../application.ts";
+import { createRestaurantRepository } from "./createRestaurantRepository.ts";
+import { changeRestaurantMenuRepository } from "./changeRestaurantMenuRepository.ts";
+import { placeOrderRepository } from "./placeOrderRepository.ts";
+import { createRestaurantDecider } from "./createRestaurantDecider.ts";
+import { changeRestaurantManuDecider } from "./changeRestaurantMenuDecider.ts";
+import { placeOrderDecider } from "./placeOrderDecider.ts";
+import { restaurantViewProjection } from "./restaurantViewProjection.ts";
+import { orderViewProjection } from "./orderViewProjection.ts";
+import { restaurantViewStateRepository } from "./restaurantViewStateRepository.ts";
+import { orderViewStateRepository } from "./orderViewStateRepository.ts";
+import { DenoKvCheckpointStore } from "../../denoKvProjectionStore.ts";
+import {
+  menuItemId,
+  orderId,
+  restaurantId,
+  type RestaurantMenu,
+  restaurantMenuId,
+} from "./api.ts";
+
+const testMenu: RestaurantMenu = {
+  menuId: restaurantMenuId("m1"),
+  cuisine: "ITALIAN",
+  menuItems: [
+    { menuItemId: menuItemId("item1"), name: "Pizza", price: "12.99" },
+  ],
+};
+
+const newMenu: RestaurantMenu = {
+  menuId: restaurantMenuId("m2"),
+  cuisine: "FRENCH",
+  menuItems: [
+    { menuItemId: menuItemId("item1"), name: "Croissant", price: "5.99" },
+  ],
+};
+
+/** Helper to create a restaurant */
+async function createRestaurant(kv: Deno.Kv, id: string) {
+  await new EventSourcedCommandHandler(
+    createRestaurantDecider,
+    createRestaurantRepository(kv),
+  ).handle({
+    kind: "CreateRestaurantCommand",
+    restaurantId: restaurantId(id),
+    name: "Bistro " + id,
+    menu: testMenu,
+    idempotencyKey: "test-projection-create-" + id,
+  });
+}
+
+/** Helper to change a restaurant's menu */
+async function changeMenu(kv: Deno.Kv, id: string) {
+  await new EventSourcedCommandHandler(
+    changeRestaurantManuDecider,
+    changeRestaurantMenuRepository(kv),
+  ).handle({
+    kind: "ChangeRestaurantMenuCommand",
+    restaurantId: restaurantId(id),
+    menu: newMenu,
+    idempotencyKey: "test-projection-change-" + id,
+  });
+}
+
+Deno.test("RestaurantViewProjection - catch up materializes views in batches", async () => {
+  const kv = await Deno.openKv(":memory:");
+
+  try {
+    await createRestaurant(kv, "r1");
+    await createRestaurant(kv, "r2");
+    await createRestaurant(kv, "r3");
+    await changeMenu(kv, "r2");
+
+    const processed = await restaurantViewProjection(kv, 2).catchUp();
+    assertEquals(processed, 4);
+
+    const repository = restaurantViewStateRepository(kv);
+    assertEquals((await repository.load("restaurantId:r1"))?.name, "Bistro r1");
+    assertEquals((await repository.load("restaurantId:r2"))?.menu, newMenu);
+    assertEquals((await repository.load("restaurantId:r3"))?.menu, testMenu);
+  } finally {
+    await kv.close();
+  }
+});
+
+Deno.test("RestaurantViewProjection - resumes from checkpoint after restart", async () => {
+  const kv = await Deno.openKv(":memory:");
+
+  try {
+    await createRestaurant(kv, "r1");
+    assertEquals(await restaurantViewProjection(kv).catchUp(), 1);
+
+    // A fresh runner (e.g. after a restart) only sees events after the checkpoint
+    await changeMenu(kv, "r1");
+    assertEquals(await restaurantViewProjection(kv).catchUp(), 1);
+    assertEquals(await restaurantViewProjection(kv).catchUp(), 0);
+
+    const state = await restaurantViewStateRepository(kv).load(
+      "restaurantId:r1",
+    );
+    assertEquals(state?.menu, newMenu);
+  } finally {
+    await kv.close();
+  }
+});
+
+Deno.test("RestaurantViewProjection - named projections progress independently", async () => {
+  const kv = await Deno.openKv(":memory:");
+
+  try {
+    await createRestaurant(kv, "r1");
+    await new EventSourcedCommandHandler(
+      placeOrderDecider,
+      placeOrderRepository(kv),
+    ).handle({
+      kind: "PlaceOrderCommand",
+      restaurantId: restaurantId("r1"),
+      orderId: orderId("o1"),
+      menuItems: testMenu.menuItems,
+      idempotencyKey: "test-projection-place-o1",
+    });
+
+    await restaurantViewProjection(kv).catchUp();
+
+    // Restaurant checkpoint is at the last event; order projection has not run yet
+    const checkpoints = new DenoKvCheckpointStore(kv);
+    assertEquals(await checkpoints.load("orderView"), null);
+    assertEquals(await orderViewStateRepository(kv).load("orderId:o1"), null);
+
+    assertEquals(await orderViewProjection(kv).catchUp(), 2);
+    assertEquals(
+      await checkpoints.load("orderView"),
+      await checkpoints.load("restaurantView"),
+    );
+
+    const order = await orderViewStateRepository(kv).load("orderId:o1");
+    assertEquals(order?.status, "CREATED");
+    assertEquals(order?.restaurantId, restaurantId("r1"));
+  } finally {
+    await kv.close();
+  }
+});
+
+Deno.test("RestaurantViewProjection - rebuild replays the log from the beginning", async () => {
+  const kv = await Deno.openKv(":memory:");
+
+  try {
+    await createRestaurant(kv, "r1");
+    await changeMenu(kv, "r1");
+    await restaurantViewProjection(kv).catchUp();
+
+    // Discard the stored view state, then rebuild
+    await kv.delete(["view_state", "restaurantId:r1"]);
+    assertEquals(await restaurantViewProjection(kv).rebuild(), 2);
+
+    const state = await restaurantViewStateRepository(kv).load(
+      "restaurantId:r1",
+    );
+    assertEquals(state?.name, "Bistro r1");
+    assertEquals(state?.menu, newMenu);
+  } finally {
+    await kv.close();
+  }
+});
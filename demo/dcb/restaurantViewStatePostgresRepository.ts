@@ -0,0 +1,27 @@
+/**
+ * Postgres materialized view repository for the restaurant view.
+ *
+ * Stores the projected `RestaurantView` per restaurant in `dcb.view_states`
+ * via `dcb.conditional_save_view_state` with optimistic locking.
+ */
+
+import type { SqlClient } from "../../postgresEventRepository.ts";
+import { PostgresViewStateRepository } from "../../postgresViewStateRepository.ts";
+import type { RestaurantEvent, RestaurantView } from "./restaurantView.ts";
+
+/**
+ * Creates a Postgres-backed view state repository for the restaurant view.
+ *
+ * **View Id:**
+ * State is stored per restaurant under `"restaurantId:" + event.restaurantId`.
+ *
+ * @param client - PostgreSQL client instance
+ * @returns View state repository for projecting RestaurantEvent
+ */
+export const restaurantViewStatePostgresRepository = (
+  client: SqlClient,
+): PostgresViewStateRepository<RestaurantEvent, RestaurantView | null> =>
+  new PostgresViewStateRepository<RestaurantEvent, RestaurantView | null>(
+    client,
+    (event) => "restaurantId:" + event.restaurantId,
+  );
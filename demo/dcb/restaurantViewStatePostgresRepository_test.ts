@@ -0,0 +1,116 @@
+/**
+ * Postgres integration tests for the restaurant materialized view repository.
+ *
+ * Mirrors restaurantViewStateRepository_test.ts but targets the PostgreSQL
+ * backend via restaurantViewStatePostgresRepository.
+ *
+ * Requires Docker daemon for testcontainers.
+ */
+
+import { assertEquals } from "@std/assert";
+import { EventHandler, EventSourcedCommandHandler } from "../../application.ts";
+import { createRestaurantPostgresRepository } from "./createRestaurantPostgresRepository.ts";
+import { changeRestaurantMenuPostgresRepository } from "./changeRestaurantMenuPostgresRepository.ts";
+import { createRestaurantDecider } from "./createRestaurantDecider.ts";
+import { changeRestaurantManuDecider } from "./changeRestaurantMenuDecider.ts";
+import { restaurantViewStatePostgresRepository } from "./restaurantViewStatePostgresRepository.ts";
+import {
+  type RestaurantEvent,
+  type RestaurantView,
+  restaurantView,
+} from "./restaurantView.ts";
+import {
+  menuItemId,
+  restaurantId,
+  type RestaurantMenu,
+  restaurantMenuId,
+} from "./api.ts";
+import type { EventMetadata, ViewStateMetadata } from "../../infrastructure.ts";
+import {
+  createPostgresClient,
+  startPostgresContainer,
+} from "./testcontainers.ts";
+
+const { container, connectionString } = await startPostgresContainer();
+const client = await createPostgresClient(connectionString);
+
+const testMenu: RestaurantMenu = {
+  menuId: restaurantMenuId("m1"),
+  cuisine: "ITALIAN",
+  menuItems: [
+    { menuItemId: menuItemId("item1"), name: "Pizza", price: "12.99" },
+  ],
+};
+
+const newMenu: RestaurantMenu = {
+  menuId: restaurantMenuId("m2"),
+  cuisine: "FRENCH",
+  menuItems: [
+    { menuItemId: menuItemId("item3"), name: "Croissant", price: "5.99" },
+  ],
+};
+
+Deno.test({
+  name:
+    "Postgres: RestaurantViewStateRepository - materialize state and skip re-delivered event",
+  sanitizeResources: false,
+  sanitizeOps: false,
+  fn: async () => {
+    const createHandler = new EventSourcedCommandHandler(
+      createRestaurantDecider,
+      createRestaurantPostgresRepository(client),
+    );
+    const changeHandler = new EventSourcedCommandHandler(
+      changeRestaurantManuDecider,
+      changeRestaurantMenuPostgresRepository(client),
+    );
+    const repository = restaurantViewStatePostgresRepository(client);
+    const eventHandler = new EventHandler<
+      RestaurantEvent,
+      RestaurantView | null,
+      EventMetadata,
+      ViewStateMetadata
+    >(restaurantView, repository);
+
+    const [created] = await createHandler.handle({
+      kind: "CreateRestaurantCommand",
+      restaurantId: restaurantId("r-pg-view-1"),
+      name: "Italian Bistro",
+      menu: testMenu,
+      idempotencyKey: "test-pg-restaurant-view-state-create",
+    });
+    const [changed] = await changeHandler.handle({
+      kind: "ChangeRestaurantMenuCommand",
+      restaurantId: restaurantId("r-pg-view-1"),
+      menu: newMenu,
+      idempotencyKey: "test-pg-restaurant-view-state-change",
+    });
+
+    await eventHandler.handle(created);
+    const state = await eventHandler.handle(changed);
+    assertEquals(state.menu, newMenu);
+    assertEquals(state.lastEventId, changed.eventId);
+    assertEquals(state.versionstamp, "2");
+
+    // Re-delivery does not bump the version
+    const redelivered = await eventHandler.handle(changed);
+    assertEquals(redelivered.versionstamp, "2");
+    const outOfOrder = await eventHandler.handle(created);
+    assertEquals(outOfOrder.versionstamp, "2");
+    assertEquals(outOfOrder.menu, newMenu);
+
+    const loaded = await repository.load("restaurantId:r-pg-view-1");
+    assertEquals(loaded?.name, "Italian Bistro");
+    assertEquals(loaded?.menu, newMenu);
+  },
+});
+
+Deno.test({
+  name: "Postgres: cleanup",
+  sanitizeResources: false,
+  sanitizeOps: false,
+  fn: async () => {
+    await client.end();
+    await container.stop();
+  },
+});
@@ -0,0 +1,34 @@
+/**
+ * Materialized view repository for the restaurant view.
+ *
+ * Stores the projected `RestaurantView` per restaurant in Deno KV, so that
+ * queries are served from the stored state instead of replaying events.
+ */
+
+import { DenoKvViewStateRepository } from "../../denoKvViewStateRepository.ts";
+import type { RestaurantEvent, RestaurantView } from "./restaurantView.ts";
+
+/**
+ * Creates a Deno KV-backed view state repository for the restaurant view.
+ *
+ * **View Id:**
+ * State is stored per restaurant under `"restaurantId:" + event.restaurantId`.
+ *
+ * @param kv - Deno KV instance for storage
+ * @returns View state repository for projecting RestaurantEvent
+ *
+ * @example
+ * ```typescript
+ * const repository = restaurantViewStateRepository(kv);
+ * const handler = new EventHandler(restaurantView, repository);
+ * await handler.handle(restaurantCreatedEvent);
+ * const restaurant = await repository.load("restaurantId:r1");
+ * ```
+ */
+export const restaurantViewStateRepository = (
+  kv: Deno.Kv,
+): DenoKvViewStateRepository<RestaurantEvent, RestaurantView | null> =>
+  new DenoKvViewStateRepository<RestaurantEvent, RestaurantView | null>(
+    kv,
+    (event) => "restaurantId:" + event.restaurantId,
+  );
@@ -0,0 +1,155 @@
+/**
+ * Integration tests for the restaurant materialized view repository.
+ *
+ * Tests verify that EventHandler correctly materializes restaurant state
+ * into Deno KV, event by event, and that:
+ * - Stored state can be loaded for queries without replaying events
+ * - Re-delivering the last applied event, or an earlier one, is a no-op
+ */
+
+import { assertEquals, assertNotEquals } from "@std/assert";
+import { EventHandler, EventSourcedCommandHandler } from "../../application.ts";
+import { createRestaurantRepository } from "./createRestaurantRepository.ts";
+import { changeRestaurantMenuRepository } from "./changeRestaurantMenuRepository.ts";
+import { createRestaurantDecider } from "./createRestaurantDecider.ts";
+import { changeRestaurantManuDecider } from "./changeRestaurantMenuDecider.ts";
+import { restaurantViewStateRepository } from "./restaurantViewStateRepository.ts";
+import {
+  type RestaurantEvent,
+  type RestaurantView,
+  restaurantView,
+} from "./restaurantView.ts";
+import {
+  menuItemId,
+  restaurantId,
+  type RestaurantMenu,
+  restaurantMenuId,
+} from "./api.ts";
+import type { EventMetadata, ViewStateMetadata } from "../../infrastructure.ts";
+
+const testMenu: RestaurantMenu = {
+  menuId: restaurantMenuId("m1"),
+  cuisine: "ITALIAN",
+  menuItems: [
+    { menuItemId: menuItemId("item1"), name: "Pizza", price: "12.99" },
+  ],
+};
+
+const newMenu: RestaurantMenu = {
+  menuId: restaurantMenuId("m2"),
+  cuisine: "FRENCH",
+  menuItems: [
+    { menuItemId: menuItemId("item3"), name: "Croissant", price: "5.99" },
+  ],
+};
+
+Deno.test("RestaurantViewStateRepository - materialize restaurant state from events", async () => {
+  const kv = await Deno.openKv(":memory:");
+
+  try {
+    const createHandler = new EventSourcedCommandHandler(
+      createRestaurantDecider,
+      createRestaurantRepository(kv),
+    );
+    const changeHandler = new EventSourcedCommandHandler(
+      changeRestaurantManuDecider,
+      changeRestaurantMenuRepository(kv),
+    );
+    const repository = restaurantViewStateRepository(kv);
+    const eventHandler = new EventHandler<
+      RestaurantEvent,
+      RestaurantView | null,
+      EventMetadata,
+      ViewStateMetadata
+    >(restaurantView, repository);
+
+    const [created] = await createHandler.handle({
+      kind: "CreateRestaurantCommand",
+      restaurantId: restaurantId("r1"),
+      name: "Italian Bistro",
+      menu: testMenu,
+      idempotencyKey: "test-restaurant-view-state-create",
+    });
+    const [changed] = await changeHandler.handle({
+      kind: "ChangeRestaurantMenuCommand",
+      restaurantId: restaurantId("r1"),
+      menu: newMenu,
+      idempotencyKey: "test-restaurant-view-state-change",
+    });
+
+    await eventHandler.handle(created);
+    const state = await eventHandler.handle(changed);
+
+    assertEquals(state.restaurantId, restaurantId("r1"));
+    assertEquals(state.name, "Italian Bistro");
+    assertEquals(state.menu, newMenu);
+    assertEquals(state.lastEventId, changed.eventId);
+
+    // Query served from the stored view state
+    const loaded = await repository.load("restaurantId:r1");
+    assertEquals(loaded, state);
+  } finally {
+    await kv.close();
+  }
+});
+
+Deno.test("RestaurantViewStateRepository - re-delivered event is a no-op", async () => {
+  const kv = await Deno.openKv(":memory:");
+
+  try {
+    const createHandler = new EventSourcedCommandHandler(
+      createRestaurantDecider,
+      createRestaurantRepository(kv),
+    );
+    const changeHandler = new EventSourcedCommandHandler(
+      changeRestaurantManuDecider,
+      changeRestaurantMenuRepository(kv),
+    );
+    const repository = restaurantViewStateRepository(kv);
+    const eventHandler = new EventHandler<
+      RestaurantEvent,
+      RestaurantView | null,
+      EventMetadata,
+      ViewStateMetadata
+    >(restaurantView, repository);
+
+    const [created] = await createHandler.handle({
+      kind: "CreateRestaurantCommand",
+      restaurantId: restaurantId("r1"),
+      name: "Italian Bistro",
+      menu: testMenu,
+      idempotencyKey: "test-restaurant-view-state-redeliver-create",
+    });
+    const [changed] = await changeHandler.handle({
+      kind: "ChangeRestaurantMenuCommand",
+      restaurantId: restaurantId("r1"),
+      menu: newMenu,
+      idempotencyKey: "test-restaurant-view-state-redeliver-change",
+    });
+
+    await eventHandler.handle(created);
+    const first = await eventHandler.handle(changed);
+    const redelivered = await eventHandler.handle(changed);
+
+    assertEquals(redelivered, first);
+    assertNotEquals(first.lastEventId, created.eventId);
+
+    // An earlier event delivered again is skipped as well
+    const outOfOrder = await eventHandler.handle(created);
+    assertEquals(outOfOrder, first);
+  } finally {
+    await kv.close();
+  }
+});
+
+Deno.test("RestaurantViewStateRepository - load returns null for unknown view id", async () => {
+  const kv = await Deno.openKv(":memory:");
+
+  try {
+    const repository = restaurantViewStateRepository(kv);
+
+    assertEquals(await repository.load("restaurantId:nonexistent"), null);
+  } finally {
+    await kv.close();
+  }
+});
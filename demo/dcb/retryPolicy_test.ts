@@ -0,0 +1,238 @@
+/**
+ * Tests for RetryPolicy.
+ *
+ * Tests verify:
+ * - Backoff grows exponentially up to `maxDelayMs`, and full jitter stays within it
+ * - Conflicts are retried until a result, or until `maxAttempts` with the `exhausted` error
+ * - `maxElapsedMs` gives up instead of backing off past the limit
+ * - Only errors matched by `retryOn` are retried; the last one is rethrown when exhausted
+ * - Invalid options are rejected
+ * - Repositories accept a policy in place of `maxRetries`
+ * - Repositories compute query tuples after the circuit-break, and reject with their errors
+ */
+
+import { assert, assertEquals, assertRejects, assertThrows } from "@std/assert";
+import { RetryPolicy } from "../../retry.ts";
+import type { IEventRepository, QueryTuple } from "../../application.ts";
+import { DenoKvEventRepository } from "../../denoKvEventRepository.ts";
+import {
+  InMemoryEventRepository,
+  InMemoryEventStore,
+} from "../../inMemoryEventRepository.ts";
+import {
+  type CommandMetadata,
+  type EventMetadata,
+  OptimisticLockingError,
+  RepositoryError,
+} from "../../infrastructure.ts";
+import { createRestaurantDecider } from "./createRestaurantDecider.ts";
+import {
+  type CreateRestaurantCommand,
+  menuItemId,
+  type RestaurantCreatedEvent,
+  restaurantId,
+  restaurantMenuId,
+} from "./api.ts";
+
+const exhausted = (attempts: number) =>
+  new OptimisticLockingError(attempts, "test");
+
+Deno.test("RetryPolicy - backoff grows exponentially up to maxDelayMs", () => {
+  const policy = new RetryPolicy({
+    initialDelayMs: 10,
+    maxDelayMs: 50,
+    jitter: false,
+  });
+
+  assertEquals([1, 2, 3, 4, 5].map((a) => policy.delay(a)), [
+    10,
+    20,
+    40,
+    50,
+    50,
+  ]);
+});
+
+Deno.test("RetryPolicy - full jitter stays between zero and the exponential backoff", () => {
+  const policy = new RetryPolicy({ initialDelayMs: 10, maxDelayMs: 50 });
+
+  for (let attempt = 1; attempt <= 5; attempt++) {
+    for (let i = 0; i < 100; i++) {
+      const delay = policy.delay(attempt);
+      assert(delay >= 0 && delay <= Math.min(50, 10 * 2 ** (attempt - 1)));
+    }
+  }
+});
+
+Deno.test("RetryPolicy - retries conflicts until a result or maxAttempts", async () => {
+  const policy = new RetryPolicy({ maxAttempts: 3, initialDelayMs: 1 });
+
+  const seen: number[] = [];
+  const result = await policy.run((attempt) => {
+    seen.push(attempt);
+    return Promise.resolve(attempt === 3 ? "done" : null);
+  }, exhausted);
+  assertEquals(result, "done");
+  assertEquals(seen, [1, 2, 3]);
+
+  await assertRejects(
+    () => policy.run(() => Promise.resolve(null), exhausted),
+    OptimisticLockingError,
+    "after 3 attempts",
+  );
+});
+
+Deno.test("RetryPolicy - maxElapsedMs gives up instead of backing off past it", async () => {
+  const policy = new RetryPolicy({
+    maxAttempts: 100,
+    initialDelayMs: 20,
+    jitter: false,
+    maxElapsedMs: 50,
+  });
+
+  // Backoffs of 20 and 40 ms: the second would end past 50 ms
+  await assertRejects(
+    () => policy.run(() => Promise.resolve(null), exhausted),
+    OptimisticLockingError,
+    "after 2 attempts",
+  );
+});
+
+Deno.test("RetryPolicy - retries only errors matched by retryOn", async () => {
+  const policy = new RetryPolicy({
+    maxAttempts: 3,
+    initialDelayMs: 1,
+    retryOn: (error) => error instanceof RepositoryError,
+  });
+  const transient = () =>
+    new RepositoryError("persist", new Error("connection reset"));
+
+  let attempts = 0;
+  const result = await policy.run(() => {
+    attempts++;
+    return attempts < 3 ? Promise.reject(transient()) : Promise.resolve("ok");
+  }, exhausted);
+  assertEquals(result, "ok");
+
+  // The last retried error is rethrown once the attempts are used up
+  await assertRejects(
+    () => policy.run(() => Promise.reject(transient()), exhausted),
+    RepositoryError,
+    "connection reset",
+  );
+
+  // Other errors (domain errors) propagate without retry
+  attempts = 0;
+  await assertRejects(
+    () =>
+      policy.run(() => {
+        attempts++;
+        return Promise.reject(new Error("Restaurant not found"));
+      }, exhausted),
+    Error,
+    "Restaurant not found",
+  );
+  assertEquals(attempts, 1);
+});
+
+Deno.test("RetryPolicy - rejects invalid options", () => {
+  assertThrows(() => new RetryPolicy({ maxAttempts: 0 }), RangeError);
+  assertThrows(() => new RetryPolicy({ initialDelayMs: -1 }), RangeError);
+  assertThrows(() => new RetryPolicy({ multiplier: 0.5 }), RangeError);
+  assertThrows(() => RetryPolicy.from(1.5), RangeError);
+});
+
+Deno.test("RetryPolicy - repositories accept a policy in place of maxRetries", async () => {
+  const repository = new InMemoryEventRepository<
+    CreateRestaurantCommand,
+    RestaurantCreatedEvent,
+    RestaurantCreatedEvent
+  >(
+    new InMemoryEventStore(),
+    (cmd) => [["restaurantId:" + cmd.restaurantId, "RestaurantCreatedEvent"]],
+    new RetryPolicy({ maxAttempts: 5, initialDelayMs: 1 }),
+  );
+
+  const [created] = await repository.execute({
+    kind: "CreateRestaurantCommand",
+    restaurantId: restaurantId("r1"),
+    name: "Bistro",
+    menu: {
+      menuId: restaurantMenuId("m1"),
+      cuisine: "ITALIAN",
+      menuItems: [
+        { menuItemId: menuItemId("item1"), name: "Pizza", price: "12.99" },
+      ],
+    },
+    idempotencyKey: "test-retry-create-r1",
+  }, createRestaurantDecider);
+  assertEquals(created.name, "Bistro");
+});
+
+Deno.test("RetryPolicy - repositories compute query tuples after the circuit-break", async () => {
+  const kv = await Deno.openKv(":memory:");
+  try {
+    let failing = false;
+    const getQueryTuples = (
+      cmd: CreateRestaurantCommand,
+    ): QueryTuple<RestaurantCreatedEvent>[] => {
+      if (failing) throw new Error("query tuples unavailable");
+      return [["restaurantId:" + cmd.restaurantId, "RestaurantCreatedEvent"]];
+    };
+    const repositories: IEventRepository<
+      CreateRestaurantCommand,
+      RestaurantCreatedEvent,
+      RestaurantCreatedEvent,
+      CommandMetadata,
+      EventMetadata
+    >[] = [
+      new InMemoryEventRepository(new InMemoryEventStore(), getQueryTuples),
+      new DenoKvEventRepository(kv, getQueryTuples),
+    ];
+
+    for (const repository of repositories) {
+      const command = {
+        kind: "CreateRestaurantCommand" as const,
+        restaurantId: restaurantId("r1"),
+        name: "Bistro",
+        menu: {
+          menuId: restaurantMenuId("m1"),
+          cuisine: "ITALIAN" as const,
+          menuItems: [
+            { menuItemId: menuItemId("item1"), name: "Pizza", price: "12.99" },
+          ],
+        },
+        idempotencyKey: "test-retry-query-tuples-r1",
+      };
+      failing = false;
+      const [created] = await repository.execute(
+        command,
+        createRestaurantDecider,
+      );
+
+      failing = true;
+      const [existing] = await repository.execute(
+        command,
+        createRestaurantDecider,
+      );
+      assertEquals(existing.eventId, created.eventId);
+
+      const pending = repository.execute(
+        { ...command, idempotencyKey: "test-retry-query-tuples-r2" },
+        createRestaurantDecider,
+      );
+      await assertRejects(() => pending, Error, "query tuples unavailable");
+      await assertRejects(
+        () =>
+          repository.executeBatch(
+            [{ ...command, idempotencyKey: "test-retry-query-tuples-r3" }],
+            createRestaurantDecider,
+          ),
+        Error,
+        "query tuples unavailable",
+      );
+    }
+  } finally {
+    kv.close();
+  }
+});
@@ -0,0 +1,230 @@
+/**
+ * Postgres tests for repository snapshots.
+ *
+ * Tests verify:
+ * - A snapshot is stored in `dcb.snapshots` once `frequency` events were folded
+ * - Later commands fold only the events appended after the snapshot
+ * - Decisions match a full replay
+ * - Snapshots are rejected with advisory append locking
+ * - Snapshots are not saved in a caller's transaction
+ *
+ * Requires Docker daemon for testcontainers.
+ */
+
+import { assertEquals, assertThrows } from "@std/assert";
+import { DcbDecider } from "../../decider.ts";
+import type { CommandMetadata } from "../../infrastructure.ts";
+import {
+  type AppendLocking,
+  PostgresEventRepository,
+} from "../../postgresEventRepository.ts";
+import { PostgresSnapshotStore } from "../../postgresSnapshotStore.ts";
+import { snapshotKey, type SnapshotOptions } from "../../snapshot.ts";
+import { createRestaurantDecider } from "./createRestaurantDecider.ts";
+import { createRestaurantPostgresRepository } from "./createRestaurantPostgresRepository.ts";
+import {
+  type ChangeRestaurantMenuCommand,
+  menuItemId,
+  type RestaurantCreatedEvent,
+  restaurantId,
+  type RestaurantMenuChangedEvent,
+  restaurantMenuId,
+} from "./api.ts";
+import {
+  createPostgresClient,
+  startPostgresContainer,
+} from "./testcontainers.ts";
+
+const { container, connectionString } = await startPostgresContainer();
+const client = await createPostgresClient(connectionString);
+
+const store = new PostgresSnapshotStore(client);
+
+/** Accumulation-style decider numbering menus by the changes folded so far */
+const menuRevisionDecider = (evolved: { count: number } = { count: 0 }) =>
+  new DcbDecider<
+    ChangeRestaurantMenuCommand,
+    number,
+    RestaurantCreatedEvent | RestaurantMenuChangedEvent,
+    RestaurantMenuChangedEvent
+  >(
+    (command, revisions) => [{
+      kind: "RestaurantMenuChangedEvent",
+      restaurantId: command.restaurantId,
+      menu: {
+        ...command.menu,
+        menuId: restaurantMenuId("m" + (revisions + 1)),
+      },
+      final: false,
+      tagFields: ["restaurantId"],
+    }],
+    (revisions, event) => {
+      evolved.count++;
+      return event.kind === "RestaurantMenuChangedEvent"
+        ? revisions + 1
+        : revisions;
+    },
+    0,
+  );
+
+const queryTuples = (
+  cmd: ChangeRestaurantMenuCommand,
+): [string, "RestaurantCreatedEvent" | "RestaurantMenuChangedEvent"][] => [
+  ["restaurantId:" + cmd.restaurantId, "RestaurantCreatedEvent"],
+  ["restaurantId:" + cmd.restaurantId, "RestaurantMenuChangedEvent"],
+];
+
+const menuRepository = (
+  snapshots?: SnapshotOptions,
+  appendLocking: AppendLocking = "table",
+) =>
+  new PostgresEventRepository<
+    ChangeRestaurantMenuCommand,
+    RestaurantCreatedEvent | RestaurantMenuChangedEvent,
+    RestaurantMenuChangedEvent
+  >(
+    client,
+    queryTuples,
+    10,
+    false,
+    undefined,
+    undefined,
+    { appendLocking, snapshots },
+  );
+
+const changeMenu = (
+  id: string,
+  n: number,
+): ChangeRestaurantMenuCommand & CommandMetadata => ({
+  kind: "ChangeRestaurantMenuCommand",
+  restaurantId: restaurantId(id),
+  menu: {
+    menuId: restaurantMenuId("m"),
+    cuisine: "ITALIAN",
+    menuItems: [
+      { menuItemId: menuItemId("item1"), name: "Pizza", price: `1${n}.99` },
+    ],
+  },
+  idempotencyKey: `test-pg-snapshot-change-${id}-${n}`,
+});
+
+const createRestaurant = (id: string) =>
+  createRestaurantPostgresRepository(client).execute({
+    kind: "CreateRestaurantCommand",
+    restaurantId: restaurantId(id),
+    name: "Bistro",
+    menu: {
+      menuId: restaurantMenuId("m0"),
+      cuisine: "ITALIAN",
+      menuItems: [
+        { menuItemId: menuItemId("item1"), name: "Pizza", price: "12.99" },
+      ],
+    },
+    idempotencyKey: "test-pg-snapshot-create-" + id,
+  }, createRestaurantDecider);
+
+Deno.test({
+  name: "Postgres: Snapshot - stored after frequency events and resumed from",
+  sanitizeResources: false,
+  sanitizeOps: false,
+  fn: async () => {
+    await createRestaurant("r1");
+    const repository = menuRepository({
+      name: "menu-revision-v1",
+      store,
+      frequency: 3,
+    });
+    const evolved = { count: 0 };
+    const decider = menuRevisionDecider(evolved);
+
+    const ids: string[] = [];
+    for (let n = 1; n <= 4; n++) {
+      const [event] = await repository.execute(changeMenu("r1", n), decider);
+      ids.push(event.eventId);
+    }
+    // The 3rd command folded 3 events and stored a snapshot; the 4th folded 1
+    assertEquals(evolved.count, 1 + 2 + 3 + 1);
+    const key = await snapshotKey(queryTuples(changeMenu("r1", 0)));
+    assertEquals(await store.load("menu-revision-v1", key), {
+      state: 2,
+      position: ids[1],
+    });
+
+    // Only the events appended after the snapshot are folded
+    evolved.count = 0;
+    const [fifth] = await repository.execute(changeMenu("r1", 5), decider);
+    assertEquals(evolved.count, 2);
+    assertEquals(fifth.menu.menuId, restaurantMenuId("m5"));
+  },
+});
+
+Deno.test({
+  name: "Postgres: Snapshot - decisions match a full replay",
+  sanitizeResources: false,
+  sanitizeOps: false,
+  fn: async () => {
+    await createRestaurant("r2");
+    const snapshotting = menuRepository({
+      name: "menu-revision-v1",
+      store,
+      frequency: 2,
+    });
+    const decider = menuRevisionDecider();
+
+    for (let n = 1; n <= 7; n++) {
+      const repository = n % 2 === 0 ? menuRepository() : snapshotting;
+      const [event] = await repository.execute(changeMenu("r2", n), decider);
+      assertEquals(event.menu.menuId, restaurantMenuId("m" + n));
+    }
+  },
+});
+
+Deno.test({
+  name: "Postgres: Snapshot - rejected with advisory append locking",
+  sanitizeResources: false,
+  sanitizeOps: false,
+  fn: () => {
+    assertThrows(
+      () => menuRepository({ name: "v1", store, frequency: 1 }, "advisory"),
+      RangeError,
+    );
+  },
+});
+
+Deno.test({
+  name: "Postgres: Snapshot - not saved in a caller's transaction",
+  sanitizeResources: false,
+  sanitizeOps: false,
+  fn: async () => {
+    await createRestaurant("r3");
+    const repository = menuRepository({
+      name: "menu-revision-v1",
+      store,
+      frequency: 1,
+    });
+
+    await client.queryObject("BEGIN");
+    try {
+      const [event] = await repository.inTransaction(client).execute(
+        changeMenu("r3", 1),
+        menuRevisionDecider(),
+      );
+      assertEquals(event.menu.menuId, restaurantMenuId("m1"));
+
+      const key = await snapshotKey(queryTuples(changeMenu("r3", 0)));
+      assertEquals(await store.load("menu-revision-v1", key), null);
+    } finally {
+      await client.queryObject("ROLLBACK");
+    }
+  },
+});
+
+Deno.test({
+  name: "Postgres: cleanup",
+  sanitizeResources: false,
+  sanitizeOps: false,
+  fn: async () => {
+    await client.end();
+    await container.stop();
+  },
+});
@@ -0,0 +1,218 @@
+/**
+ * Integration tests for repository snapshots over Deno KV.
+ *
+ * Tests verify:
+ * - A snapshot is stored once `frequency` events were folded
+ * - Later commands fold only the events appended after the snapshot
+ * - Decisions match a full replay without snapshots
+ * - Snapshots are separated by name
+ * - Plain event computations (without `evolve`) ignore snapshots
+ */
+
+import { assertEquals, assertRejects } from "@std/assert";
+import { DcbDecider } from "../../decider.ts";
+import { DenoKvEventRepository } from "../../denoKvEventRepository.ts";
+import { DenoKvSnapshotStore } from "../../denoKvSnapshotStore.ts";
+import type { CommandMetadata } from "../../infrastructure.ts";
+import { snapshotKey, type SnapshotOptions } from "../../snapshot.ts";
+import { createRestaurantDecider } from "./createRestaurantDecider.ts";
+import { createRestaurantRepository } from "./createRestaurantRepository.ts";
+import {
+  type ChangeRestaurantMenuCommand,
+  menuItemId,
+  type RestaurantCreatedEvent,
+  restaurantId,
+  type RestaurantMenuChangedEvent,
+  restaurantMenuId,
+  RestaurantNotFoundError,
+} from "./api.ts";
+
+type MenuRevisionState = {
+  readonly created: boolean;
+  readonly revisions: number;
+};
+
+/** Accumulation-style decider: every menu change is folded into the state */
+const menuRevisionDecider = (evolved: { count: number } = { count: 0 }) =>
+  new DcbDecider<
+    ChangeRestaurantMenuCommand,
+    MenuRevisionState,
+    RestaurantCreatedEvent | RestaurantMenuChangedEvent,
+    RestaurantMenuChangedEvent
+  >(
+    (command, state) => {
+      if (!state.created) {
+        throw new RestaurantNotFoundError(command.restaurantId);
+      }
+      return [{
+        kind: "RestaurantMenuChangedEvent",
+        restaurantId: command.restaurantId,
+        menu: {
+          ...command.menu,
+          menuId: restaurantMenuId("m" + (state.revisions + 1)),
+        },
+        final: false,
+        tagFields: ["restaurantId"],
+      }];
+    },
+    (state, event) => {
+      evolved.count++;
+      switch (event.kind) {
+        case "RestaurantCreatedEvent":
+          return { created: true, revisions: 0 };
+        case "RestaurantMenuChangedEvent":
+          return { ...state, revisions: state.revisions + 1 };
+      }
+    },
+    { created: false, revisions: 0 },
+  );
+
+const queryTuples = (
+  cmd: ChangeRestaurantMenuCommand,
+): [string, "RestaurantCreatedEvent" | "RestaurantMenuChangedEvent"][] => [
+  ["restaurantId:" + cmd.restaurantId, "RestaurantCreatedEvent"],
+  ["restaurantId:" + cmd.restaurantId, "RestaurantMenuChangedEvent"],
+];
+
+const menuRepository = (kv: Deno.Kv, snapshots?: SnapshotOptions) =>
+  new DenoKvEventRepository<
+    ChangeRestaurantMenuCommand,
+    RestaurantCreatedEvent | RestaurantMenuChangedEvent,
+    RestaurantMenuChangedEvent
+  >(kv, queryTuples, 10, 5, false, { snapshots });
+
+const changeMenu = (
+  id: string,
+  n: number,
+): ChangeRestaurantMenuCommand & CommandMetadata => ({
+  kind: "ChangeRestaurantMenuCommand",
+  restaurantId: restaurantId(id),
+  menu: {
+    menuId: restaurantMenuId("m"),
+    cuisine: "ITALIAN",
+    menuItems: [
+      { menuItemId: menuItemId("item1"), name: "Pizza", price: `1${n}.99` },
+    ],
+  },
+  idempotencyKey: `test-snapshot-change-${id}-${n}`,
+});
+
+const createRestaurant = (kv: Deno.Kv, id: string) =>
+  createRestaurantRepository(kv).execute({
+    kind: "CreateRestaurantCommand",
+    restaurantId: restaurantId(id),
+    name: "Bistro",
+    menu: {
+      menuId: restaurantMenuId("m0"),
+      cuisine: "ITALIAN",
+      menuItems: [
+        { menuItemId: menuItemId("item1"), name: "Pizza", price: "12.99" },
+      ],
+    },
+    idempotencyKey: "test-snapshot-create-" + id,
+  }, createRestaurantDecider);
+
+Deno.test("Snapshot - stored after frequency events and resumed from", async () => {
+  const kv = await Deno.openKv(":memory:");
+  try {
+    await createRestaurant(kv, "r1");
+    const store = new DenoKvSnapshotStore(kv);
+    const repository = menuRepository(kv, {
+      name: "menu-revision-v1",
+      store,
+      frequency: 3,
+    });
+    const evolved = { count: 0 };
+    const decider = menuRevisionDecider(evolved);
+
+    const ids: string[] = [];
+    for (let n = 1; n <= 4; n++) {
+      const [event] = await repository.execute(changeMenu("r1", n), decider);
+      ids.push(event.eventId);
+    }
+    // The 3rd command folded 3 events and stored a snapshot; the 4th folded 1
+    assertEquals(evolved.count, 1 + 2 + 3 + 1);
+    const key = await snapshotKey(queryTuples(changeMenu("r1", 0)));
+    assertEquals(await store.load("menu-revision-v1", key), {
+      state: { created: true, revisions: 2 },
+      position: ids[1],
+    });
+
+    // Only the events appended after the snapshot are folded
+    evolved.count = 0;
+    const [fifth] = await repository.execute(changeMenu("r1", 5), decider);
+    assertEquals(evolved.count, 2);
+    assertEquals(fifth.menu.menuId, restaurantMenuId("m5"));
+  } finally {
+    kv.close();
+  }
+});
+
+Deno.test("Snapshot - decisions match a full replay", async () => {
+  const kv = await Deno.openKv(":memory:");
+  try {
+    await createRestaurant(kv, "r1");
+    const snapshotting = menuRepository(kv, {
+      name: "menu-revision-v1",
+      store: new DenoKvSnapshotStore(kv),
+      frequency: 2,
+    });
+    const decider = menuRevisionDecider();
+
+    for (let n = 1; n <= 7; n++) {
+      const repository = n % 2 === 0 ? menuRepository(kv) : snapshotting;
+      const [event] = await repository.execute(changeMenu("r1", n), decider);
+      assertEquals(event.menu.menuId, restaurantMenuId("m" + n));
+    }
+  } finally {
+    kv.close();
+  }
+});
+
+Deno.test("Snapshot - domain errors propagate and snapshots are separated by name", async () => {
+  const kv = await Deno.openKv(":memory:");
+  try {
+    const store = new DenoKvSnapshotStore(kv);
+    const decider = menuRevisionDecider();
+    await assertRejects(
+      () =>
+        menuRepository(kv, { name: "v1", store, frequency: 1 })
+          .execute(changeMenu("r1", 1), decider),
+      RestaurantNotFoundError,
+    );
+
+    await createRestaurant(kv, "r1");
+    await menuRepository(kv, { name: "v1", store, frequency: 1 })
+      .execute(changeMenu("r1", 1), decider);
+
+    const key = await snapshotKey(queryTuples(changeMenu("r1", 0)));
+    assertEquals((await store.load("v1", key))?.state, {
+      created: true,
+      revisions: 0,
+    });
+    assertEquals(await store.load("v2", key), null);
+  } finally {
+    kv.close();
+  }
+});
+
+Deno.test("Snapshot - plain event computations ignore snapshots", async () => {
+  const kv = await Deno.openKv(":memory:");
+  try {
+    await createRestaurant(kv, "r1");
+    const store = new DenoKvSnapshotStore(kv);
+    const decider = menuRevisionDecider();
+    const repository = menuRepository(kv, { name: "v1", store, frequency: 1 });
+
+    const [event] = await repository.execute(changeMenu("r1", 1), {
+      computeNewEvents: (events, command) =>
+        decider.computeNewEvents(events, command),
+    });
+
+    assertEquals(event.menu.menuId, restaurantMenuId("m1"));
+    const key = await snapshotKey(queryTuples(changeMenu("r1", 0)));
+    assertEquals(await store.load("v1", key), null);
+  } finally {
+    kv.close();
+  }
+});
@@ -0,0 +1,315 @@
+/**
+ * Tests for SqliteEventRepository and SqliteEventLoader.
+ *
+ * Tests verify:
+ * - Events survive closing and reopening a file database
+ * - Conflicting appends from another connection are detected and retried
+ * - Tag values are bound as parameters, not interpolated into SQL
+ * - Tracing metadata and the fields of a `MetadataMapper` are stored and restored
+ * - The schema can be applied on every start-up
+ */
+
+import { assertEquals, assertRejects } from "@std/assert";
+import { DatabaseSync } from "node:sqlite";
+import { EventSourcedCommandHandler } from "../../application.ts";
+import type { IEventComputation } from "../../decider.ts";
+import {
+  type CommandMetadata,
+  type EventMetadata,
+  metadataFields,
+} from "../../infrastructure.ts";
+import {
+  SQLITE_DCB_SCHEMA,
+  SqliteEventLoader,
+  SqliteEventRepository,
+} from "../../sqliteEventRepository.ts";
+import { createRestaurantDecider } from "./createRestaurantDecider.ts";
+import { placeOrderDecider } from "./placeOrderDecider.ts";
+import {
+  type CreateRestaurantCommand,
+  type Event,
+  menuItemId,
+  OrderAlreadyExistsError,
+  orderId,
+  type PlaceOrderCommand,
+  type RestaurantCreatedEvent,
+  restaurantId,
+  type RestaurantMenuChangedEvent,
+  restaurantMenuId,
+  type RestaurantOrderPlacedEvent,
+} from "./api.ts";
+
+const createRestaurantRepository = (db: DatabaseSync) =>
+  new SqliteEventRepository<
+    CreateRestaurantCommand,
+    RestaurantCreatedEvent,
+    RestaurantCreatedEvent
+  >(
+    db,
+    (cmd) => [["restaurantId:" + cmd.restaurantId, "RestaurantCreatedEvent"]],
+  );
+
+const placeOrderRepository = (db: DatabaseSync) =>
+  new SqliteEventRepository<
+    PlaceOrderCommand,
+    | RestaurantCreatedEvent
+    | RestaurantMenuChangedEvent
+    | RestaurantOrderPlacedEvent,
+    RestaurantOrderPlacedEvent
+  >(
+    db,
+    (cmd) => [
+      ["restaurantId:" + cmd.restaurantId, "RestaurantCreatedEvent"],
+      ["restaurantId:" + cmd.restaurantId, "RestaurantMenuChangedEvent"],
+      ["orderId:" + cmd.orderId, "RestaurantOrderPlacedEvent"],
+    ],
+  );
+
+const createCommand = (
+  id: string,
+  idempotencyKey: string,
+): CreateRestaurantCommand & CommandMetadata => ({
+  kind: "CreateRestaurantCommand",
+  restaurantId: restaurantId(id),
+  name: "Bistro",
+  menu: {
+    menuId: restaurantMenuId("m1"),
+    cuisine: "ITALIAN",
+    menuItems: [
+      { menuItemId: menuItemId("item1"), name: "Pizza", price: "12.99" },
+    ],
+  },
+  idempotencyKey,
+});
+
+const placeCommand = (
+  restaurant: string,
+  order: string,
+  idempotencyKey: string,
+): PlaceOrderCommand & CommandMetadata => ({
+  kind: "PlaceOrderCommand",
+  restaurantId: restaurantId(restaurant),
+  orderId: orderId(order),
+  menuItems: [
+    { menuItemId: menuItemId("item1"), name: "Pizza", price: "12.99" },
+  ],
+  idempotencyKey,
+});
+
+const openDatabase = (path: string): DatabaseSync => {
+  const db = new DatabaseSync(path);
+  db.exec(SQLITE_DCB_SCHEMA);
+  return db;
+};
+
+Deno.test("SqliteEventRepository - events survive reopening the database file", async () => {
+  const path = await Deno.makeTempFile({ suffix: ".db" });
+  try {
+    const db = openDatabase(path);
+    try {
+      await new EventSourcedCommandHandler(
+        createRestaurantDecider,
+        createRestaurantRepository(db),
+      ).handle(createCommand("r1", "create-r1"));
+      await new EventSourcedCommandHandler(
+        placeOrderDecider,
+        placeOrderRepository(db),
+      ).handle(placeCommand("r1", "o1", "place-o1"));
+    } finally {
+      db.close();
+    }
+
+    const reopened = openDatabase(path);
+    try {
+      const events = await new SqliteEventLoader<Event>(reopened).load([
+        ["restaurantId:r1", "RestaurantCreatedEvent"],
+        ["restaurantId:r1", "RestaurantOrderPlacedEvent"],
+      ]);
+      assertEquals(events.map((e) => e.kind), [
+        "RestaurantCreatedEvent",
+        "RestaurantOrderPlacedEvent",
+      ]);
+    } finally {
+      reopened.close();
+    }
+  } finally {
+    await Deno.remove(path);
+  }
+});
+
+Deno.test("SqliteEventRepository - conflicting append from another connection is retried", async () => {
+  const path = await Deno.makeTempFile({ suffix: ".db" });
+  const db = openDatabase(path);
+  const other = openDatabase(path);
+  try {
+    await createRestaurantRepository(db).execute(
+      createCommand("r1", "create-r1"),
+      createRestaurantDecider,
+    );
+
+    // Places the same order through the other connection between load and append.
+    // node:sqlite is synchronous, so that append has committed when execute returns.
+    let decisions = 0;
+    const racingDecider: IEventComputation<
+      PlaceOrderCommand,
+      | RestaurantCreatedEvent
+      | RestaurantMenuChangedEvent
+      | RestaurantOrderPlacedEvent,
+      RestaurantOrderPlacedEvent
+    > = {
+      computeNewEvents: (events, command) => {
+        if (decisions++ === 0) {
+          placeOrderRepository(other).execute(
+            placeCommand("r1", "o1", "place-other"),
+            placeOrderDecider,
+          );
+        }
+        return placeOrderDecider.computeNewEvents(events, command);
+      },
+    };
+
+    await assertRejects(
+      () =>
+        placeOrderRepository(db).execute(
+          placeCommand("r1", "o1", "place-o1"),
+          racingDecider,
+        ),
+      OrderAlreadyExistsError,
+    );
+    assertEquals(decisions, 2);
+
+    const orders = await new SqliteEventLoader<Event>(db, undefined, false)
+      .load([["orderId:o1", "RestaurantOrderPlacedEvent"]]);
+    assertEquals(orders.length, 1);
+  } finally {
+    db.close();
+    other.close();
+    await Deno.remove(path);
+  }
+});
+
+Deno.test("SqliteEventRepository - tag values with quotes are stored and matched verbatim", async () => {
+  const db = openDatabase(":memory:");
+  try {
+    await createRestaurantRepository(db).execute(
+      createCommand("r'1", "create-quote"),
+      createRestaurantDecider,
+    );
+    const events = await new SqliteEventLoader<Event>(db).load([
+      ["restaurantId:r'1", "RestaurantCreatedEvent"],
+    ]);
+    assertEquals(events.length, 1);
+    assertEquals(
+      (events[0] as RestaurantCreatedEvent).restaurantId,
+      restaurantId("r'1"),
+    );
+  } finally {
+    db.close();
+  }
+});
+
+Deno.test("SqliteEventRepository - events carry the command's tracing metadata", async () => {
+  const db = openDatabase(":memory:");
+  try {
+    const repository = createRestaurantRepository(db);
+    const trace = {
+      correlationId: "checkout-1",
+      causationId: "cart-checked-out-1",
+      headers: { tenant: "t1" },
+    };
+    const command = { ...createCommand("r1", "create-r1"), ...trace };
+
+    const [created] = await repository.execute(
+      command,
+      createRestaurantDecider,
+    );
+    assertEquals(created.correlationId, "checkout-1");
+    assertEquals(created.headers, { tenant: "t1" });
+
+    const row = db.prepare(`SELECT metadata FROM dcb_events WHERE id = ?`)
+      .get(Number(created.eventId));
+    assertEquals(JSON.parse(row?.metadata as string), trace);
+
+    // Circuit-break and loadWithMetadata restore the stored metadata
+    const [existing] = await repository.execute(
+      command,
+      createRestaurantDecider,
+    );
+    assertEquals(existing.causationId, "cart-checked-out-1");
+    const [loaded] = await repository.loadWithMetadata([
+      ["restaurantId:r1", "RestaurantCreatedEvent"],
+    ]);
+    assertEquals(loaded.correlationId, "checkout-1");
+
+    // Commands without tracing metadata store NULL
+    const [untraced] = await repository.execute(
+      createCommand("r2", "create-r2"),
+      createRestaurantDecider,
+    );
+    assertEquals(untraced.correlationId, undefined);
+    assertEquals(
+      db.prepare(`SELECT metadata FROM dcb_events WHERE id = ?`)
+        .get(Number(untraced.eventId))?.metadata,
+      null,
+    );
+  } finally {
+    db.close();
+  }
+});
+
+Deno.test("SqliteEventRepository - a metadata mapper stores command fields", async () => {
+  type AuditCommandMetadata = CommandMetadata & { readonly userId: string };
+  type AuditEventMetadata = EventMetadata & { readonly userId: string };
+
+  const db = openDatabase(":memory:");
+  try {
+    const repository = new SqliteEventRepository<
+      CreateRestaurantCommand,
+      RestaurantCreatedEvent,
+      RestaurantCreatedEvent,
+      AuditCommandMetadata,
+      AuditEventMetadata
+    >(
+      db,
+      (cmd) => [["restaurantId:" + cmd.restaurantId, "RestaurantCreatedEvent"]],
+      10,
+      true,
+      undefined,
+      undefined,
+      { metadata: metadataFields("userId") },
+    );
+    const command = { ...createCommand("r1", "create-r1"), userId: "alice" };
+
+    const [created] = await repository.execute(
+      command,
+      createRestaurantDecider,
+    );
+    assertEquals(created.userId, "alice");
+
+    const [existing] = await repository.execute(
+      command,
+      createRestaurantDecider,
+    );
+    assertEquals(existing.eventId, created.eventId);
+    assertEquals(existing.userId, "alice");
+  } finally {
+    db.close();
+  }
+});
+
+Deno.test("SqliteEventRepository - schema can be applied repeatedly", () => {
+  const db = openDatabase(":memory:");
+  try {
+    db.exec(SQLITE_DCB_SCHEMA);
+    const tables = db.prepare(
+      `SELECT name FROM sqlite_master WHERE type = 'table' AND name LIKE 'dcb_%' ORDER BY name`,
+    ).all().map((row) => row.name);
+    assertEquals(tables, [
+      "dcb_event_tags",
+      "dcb_events",
+      "dcb_idempotency_keys",
+    ]);
+  } finally {
+    db.close();
+  }
+});
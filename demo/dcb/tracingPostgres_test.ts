@@ -0,0 +1,175 @@
+/**
+ * Postgres tests for tracing metadata (correlation id, causation id and headers).
+ *
+ * Tests verify:
+ * - Events carry the tracing metadata of the command, with both append lockings
+ * - Idempotency circuit-break returns the stored tracing metadata
+ * - Commands without tracing metadata store NULL and produce events without it
+ * - The outbox and the projection reader deliver it
+ *
+ * Requires Docker daemon for testcontainers.
+ */
+
+import { assertEquals } from "@std/assert";
+import type { CommandMetadata } from "../../infrastructure.ts";
+import { PostgresEventRepository } from "../../postgresEventRepository.ts";
+import { PostgresOutboxStore } from "../../postgresOutboxStore.ts";
+import { PostgresEventStreamReader } from "../../postgresProjectionStore.ts";
+import { createRestaurantDecider } from "./createRestaurantDecider.ts";
+import { createRestaurantPostgresRepository } from "./createRestaurantPostgresRepository.ts";
+import {
+  type CreateRestaurantCommand,
+  menuItemId,
+  type RestaurantCreatedEvent,
+  restaurantId,
+  restaurantMenuId,
+} from "./api.ts";
+import {
+  createPostgresClient,
+  startPostgresContainer,
+} from "./testcontainers.ts";
+
+const { container, connectionString } = await startPostgresContainer();
+const client = await createPostgresClient(connectionString);
+
+const trace = {
+  correlationId: "checkout-1",
+  causationId: "cart-checked-out-1",
+  headers: { tenant: "t1" },
+};
+
+const createCommand = (
+  id: string,
+): CreateRestaurantCommand & CommandMetadata => ({
+  kind: "CreateRestaurantCommand",
+  restaurantId: restaurantId(id),
+  name: "Bistro " + id,
+  menu: {
+    menuId: restaurantMenuId("m1"),
+    cuisine: "ITALIAN",
+    menuItems: [
+      { menuItemId: menuItemId("item1"), name: "Pizza", price: "12.99" },
+    ],
+  },
+  idempotencyKey: "test-pg-tracing-create-" + id,
+});
+
+Deno.test({
+  name: "Postgres: Tracing - events carry the command's tracing metadata",
+  sanitizeResources: false,
+  sanitizeOps: false,
+  fn: async () => {
+    const repository = createRestaurantPostgresRepository(client);
+    const command = { ...createCommand("r1"), ...trace };
+
+    const [created] = await repository.execute(
+      command,
+      createRestaurantDecider,
+    );
+    assertEquals(created.correlationId, "checkout-1");
+    assertEquals(created.causationId, "cart-checked-out-1");
+    assertEquals(created.headers, { tenant: "t1" });
+
+    const result = await client.queryObject<{ metadata: unknown }>(
+      `SELECT metadata FROM dcb.events WHERE id = ${created.eventId}`,
+    );
+    assertEquals(result.rows[0].metadata, trace);
+
+    // Circuit-break returns the stored metadata
+    const [existing] = await repository.execute(
+      command,
+      createRestaurantDecider,
+    );
+    assertEquals(existing.eventId, created.eventId);
+    assertEquals(existing.correlationId, "checkout-1");
+    assertEquals(existing.headers, { tenant: "t1" });
+  },
+});
+
+Deno.test({
+  name: "Postgres: Tracing - advisory append stores the tracing metadata",
+  sanitizeResources: false,
+  sanitizeOps: false,
+  fn: async () => {
+    const [created] = await new PostgresEventRepository<
+      CreateRestaurantCommand,
+      RestaurantCreatedEvent,
+      RestaurantCreatedEvent
+    >(
+      client,
+      (cmd) => [["restaurantId:" + cmd.restaurantId, "RestaurantCreatedEvent"]],
+      10,
+      true,
+      undefined,
+      undefined,
+      { appendLocking: "advisory" },
+    ).execute({ ...createCommand("r2"), ...trace }, createRestaurantDecider);
+
+    const result = await client.queryObject<{ metadata: unknown }>(
+      `SELECT metadata FROM dcb.events WHERE id = ${created.eventId}`,
+    );
+    assertEquals(result.rows[0].metadata, trace);
+  },
+});
+
+Deno.test({
+  name:
+    "Postgres: Tracing - commands without tracing metadata produce events without it",
+  sanitizeResources: false,
+  sanitizeOps: false,
+  fn: async () => {
+    const [created] = await createRestaurantPostgresRepository(client).execute(
+      createCommand("r3"),
+      createRestaurantDecider,
+    );
+    assertEquals("correlationId" in created, false);
+    assertEquals("headers" in created, false);
+
+    const result = await client.queryObject<{ metadata: unknown }>(
+      `SELECT metadata FROM dcb.events WHERE id = ${created.eventId}`,
+    );
+    assertEquals(result.rows[0].metadata, null);
+  },
+});
+
+Deno.test({
+  name: "Postgres: Tracing - outbox and projection reader deliver the metadata",
+  sanitizeResources: false,
+  sanitizeOps: false,
+  fn: async () => {
+    await client.queryObject(`SET dcb.outbox = 'on'`);
+    const [created] = await createRestaurantPostgresRepository(client).execute(
+      { ...createCommand("r4"), ...trace },
+      createRestaurantDecider,
+    );
+    await client.queryObject(`SET dcb.outbox = 'off'`);
+
+    const [entry] = await new PostgresOutboxStore<RestaurantCreatedEvent>(
+      client,
+    ).pending(10);
+    assertEquals(entry.event.eventId, created.eventId);
+    assertEquals(entry.event.correlationId, "checkout-1");
+    assertEquals(entry.event.causationId, "cart-checked-out-1");
+
+    const events = await new PostgresEventStreamReader<RestaurantCreatedEvent>(
+      client,
+    ).read(null, 10);
+    const read = events.find((event) => event.eventId === created.eventId)!;
+    assertEquals(read.correlationId, "checkout-1");
+    assertEquals(read.headers, { tenant: "t1" });
+    assertEquals(
+      "correlationId" in events.find((event) => event.restaurantId === "r3")!,
+      false,
+    );
+  },
+});
+
+Deno.test({
+  name: "Postgres: cleanup",
+  sanitizeResources: false,
+  sanitizeOps: false,
+  fn: async () => {
+    await client.end();
+    await container.stop();
+  },
+});
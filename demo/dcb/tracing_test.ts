@@ -0,0 +1,170 @@
+/**
+ * Tests for tracing metadata (correlation id, causation id and headers).
+ *
+ * Tests verify:
+ * - Events carry the tracing metadata of the command that produced them
+ * - Idempotency circuit-break returns the stored tracing metadata
+ * - Commands without tracing metadata produce events without it
+ * - The subscriber, the outbox and the projection reader deliver it
+ * - The in-memory repository keeps it as well
+ */
+
+import { assertEquals } from "@std/assert";
+import {
+  DenoKvEventRepository,
+  DenoKvEventSubscriber,
+} from "../../denoKvEventRepository.ts";
+import { DenoKvOutboxStore } from "../../denoKvOutboxStore.ts";
+import { DenoKvEventStreamReader } from "../../denoKvProjectionStore.ts";
+import {
+  InMemoryEventRepository,
+  InMemoryEventStore,
+} from "../../inMemoryEventRepository.ts";
+import type { CommandMetadata } from "../../infrastructure.ts";
+import { createRestaurantDecider } from "./createRestaurantDecider.ts";
+import { createRestaurantRepository } from "./createRestaurantRepository.ts";
+import {
+  type CreateRestaurantCommand,
+  menuItemId,
+  type RestaurantCreatedEvent,
+  restaurantId,
+  restaurantMenuId,
+} from "./api.ts";
+
+const trace = {
+  correlationId: "checkout-1",
+  causationId: "cart-checked-out-1",
+  headers: { tenant: "t1" },
+};
+
+const createCommand = (
+  id: string,
+): CreateRestaurantCommand & CommandMetadata => ({
+  kind: "CreateRestaurantCommand",
+  restaurantId: restaurantId(id),
+  name: "Bistro " + id,
+  menu: {
+    menuId: restaurantMenuId("m1"),
+    cuisine: "ITALIAN",
+    menuItems: [
+      { menuItemId: menuItemId("item1"), name: "Pizza", price: "12.99" },
+    ],
+  },
+  idempotencyKey: "test-tracing-create-" + id,
+});
+
+Deno.test("Tracing - events carry the command's tracing metadata", async () => {
+  const kv = await Deno.openKv(":memory:");
+  try {
+    const repository = createRestaurantRepository(kv);
+    const command = { ...createCommand("r1"), ...trace };
+
+    const [created] = await repository.execute(
+      command,
+      createRestaurantDecider,
+    );
+    assertEquals(created.correlationId, "checkout-1");
+    assertEquals(created.causationId, "cart-checked-out-1");
+    assertEquals(created.headers, { tenant: "t1" });
+
+    // Circuit-break returns the stored metadata
+    const [existing] = await repository.execute(
+      command,
+      createRestaurantDecider,
+    );
+    assertEquals(existing.eventId, created.eventId);
+    assertEquals(existing.correlationId, "checkout-1");
+    assertEquals(existing.causationId, "cart-checked-out-1");
+    assertEquals(existing.headers, { tenant: "t1" });
+  } finally {
+    kv.close();
+  }
+});
+
+Deno.test("Tracing - commands without tracing metadata produce events without it", async () => {
+  const kv = await Deno.openKv(":memory:");
+  try {
+    const [created] = await createRestaurantRepository(kv).execute(
+      createCommand("r1"),
+      createRestaurantDecider,
+    );
+    assertEquals("correlationId" in created, false);
+    assertEquals("causationId" in created, false);
+    assertEquals("headers" in created, false);
+
+    const [read] = await new DenoKvEventStreamReader<RestaurantCreatedEvent>(
+      kv,
+    ).read(null, 10);
+    assertEquals("correlationId" in read, false);
+  } finally {
+    kv.close();
+  }
+});
+
+Deno.test("Tracing - subscriber, outbox and projection reader deliver the metadata", async () => {
+  const kv = await Deno.openKv(":memory:");
+  const controller = new AbortController();
+  try {
+    const subscription = new DenoKvEventSubscriber<RestaurantCreatedEvent>(kv)
+      .subscribe([["restaurantId:r1", "RestaurantCreatedEvent"]], {
+        after: "",
+        signal: controller.signal,
+      });
+    const delivered = subscription.next();
+
+    const repository = new DenoKvEventRepository<
+      CreateRestaurantCommand,
+      RestaurantCreatedEvent,
+      RestaurantCreatedEvent
+    >(
+      kv,
+      (cmd) => [["restaurantId:" + cmd.restaurantId, "RestaurantCreatedEvent"]],
+      10,
+      5,
+      true,
+      { outbox: true },
+    );
+    await repository.execute(
+      { ...createCommand("r1"), ...trace },
+      createRestaurantDecider,
+    );
+
+    const { value: subscribed } = await delivered;
+    assertEquals(subscribed?.correlationId, "checkout-1");
+    assertEquals(subscribed?.headers, { tenant: "t1" });
+
+    const [pending] = await new DenoKvOutboxStore<RestaurantCreatedEvent>(kv)
+      .pending(10);
+    assertEquals(pending.event.correlationId, "checkout-1");
+    assertEquals(pending.event.causationId, "cart-checked-out-1");
+
+    const [read] = await new DenoKvEventStreamReader<RestaurantCreatedEvent>(
+      kv,
+    ).read(null, 10);
+    assertEquals(read.correlationId, "checkout-1");
+    assertEquals(read.headers, { tenant: "t1" });
+  } finally {
+    controller.abort();
+    kv.close();
+  }
+});
+
+Deno.test("Tracing - in-memory repository keeps the metadata", async () => {
+  const repository = new InMemoryEventRepository<
+    CreateRestaurantCommand,
+    RestaurantCreatedEvent,
+    RestaurantCreatedEvent
+  >(
+    new InMemoryEventStore(),
+    (cmd) => [["restaurantId:" + cmd.restaurantId, "RestaurantCreatedEvent"]],
+  );
+  const command = { ...createCommand("r1"), ...trace };
+
+  const [created] = await repository.execute(command, createRestaurantDecider);
+  assertEquals(created.correlationId, "checkout-1");
+  assertEquals(created.headers, { tenant: "t1" });
+
+  const [existing] = await repository.execute(command, createRestaurantDecider);
+  assertEquals(existing.eventId, created.eventId);
+  assertEquals(existing.causationId, "cart-checked-out-1");
+});
@@ -0,0 +1,194 @@
+/**
+ * Postgres tests for PostgresEventRepository participating in a caller's transaction.
+ *
+ * Tests verify:
+ * - Appended events commit together with the caller's own writes
+ * - Rolling back the caller's transaction discards the appended events
+ * - A conflicting append is retried without aborting the caller's transaction
+ * - A duplicate idempotency key is resolved without aborting the caller's transaction
+ *
+ * Requires Docker daemon for testcontainers.
+ */
+
+import { assertEquals, assertRejects } from "@std/assert";
+import type { CommandMetadata } from "../../infrastructure.ts";
+import {
+  PostgresEventLoader,
+  type SqlClient,
+} from "../../postgresEventRepository.ts";
+import { createRestaurantPostgresRepository } from "./createRestaurantPostgresRepository.ts";
+import { placeOrderPostgresRepository } from "./placeOrderPostgresRepository.ts";
+import { createRestaurantDecider } from "./createRestaurantDecider.ts";
+import { placeOrderDecider } from "./placeOrderDecider.ts";
+import {
+  type Event,
+  menuItemId,
+  OrderAlreadyExistsError,
+  orderId,
+  type PlaceOrderCommand,
+  restaurantId,
+  restaurantMenuId,
+} from "./api.ts";
+import {
+  createPostgresClient,
+  startPostgresContainer,
+} from "./testcontainers.ts";
+
+const { container, connectionString } = await startPostgresContainer();
+const client = await createPostgresClient(connectionString);
+const other = await createPostgresClient(connectionString);
+
+await client.queryObject(
+  `CREATE TABLE IF NOT EXISTS order_log (order_id text PRIMARY KEY)`,
+);
+await createRestaurantPostgresRepository(client).execute({
+  kind: "CreateRestaurantCommand",
+  restaurantId: restaurantId("r1"),
+  name: "Bistro",
+  menu: {
+    menuId: restaurantMenuId("m1"),
+    cuisine: "ITALIAN",
+    menuItems: [
+      { menuItemId: menuItemId("item1"), name: "Pizza", price: "12.99" },
+    ],
+  },
+  idempotencyKey: "tx-create-r1",
+}, createRestaurantDecider);
+
+const placeCommand = (
+  order: string,
+  idempotencyKey: string,
+): PlaceOrderCommand & CommandMetadata => ({
+  kind: "PlaceOrderCommand",
+  restaurantId: restaurantId("r1"),
+  orderId: orderId(order),
+  menuItems: [
+    { menuItemId: menuItemId("item1"), name: "Pizza", price: "12.99" },
+  ],
+  idempotencyKey,
+});
+
+const loadOrders = (order: string) =>
+  new PostgresEventLoader<Event>(client, undefined, false).load([
+    ["orderId:" + order, "RestaurantOrderPlacedEvent"],
+  ]);
+
+const loggedOrders = async (order: string) =>
+  (await client.queryObject<{ order_id: string }>(
+    `SELECT order_id FROM order_log WHERE order_id = '${order}'`,
+  )).rows.length;
+
+Deno.test({
+  name: "Postgres: Transaction - events commit with the caller's writes",
+  sanitizeResources: false,
+  sanitizeOps: false,
+  fn: async () => {
+    await client.queryObject("BEGIN");
+    const events = await placeOrderPostgresRepository(client)
+      .inTransaction(client)
+      .execute(placeCommand("o1", "tx-place-o1"), placeOrderDecider);
+    await client.queryObject(`INSERT INTO order_log VALUES ('o1')`);
+    await client.queryObject("COMMIT");
+
+    assertEquals(events.length, 1);
+    assertEquals((await loadOrders("o1")).length, 1);
+    assertEquals(await loggedOrders("o1"), 1);
+  },
+});
+
+Deno.test({
+  name: "Postgres: Transaction - rollback discards the appended events",
+  sanitizeResources: false,
+  sanitizeOps: false,
+  fn: async () => {
+    await client.queryObject("BEGIN");
+    await placeOrderPostgresRepository(client)
+      .inTransaction(client)
+      .execute(placeCommand("o2", "tx-place-o2"), placeOrderDecider);
+    await client.queryObject(`INSERT INTO order_log VALUES ('o2')`);
+    await client.queryObject("ROLLBACK");
+
+    assertEquals((await loadOrders("o2")).length, 0);
+    assertEquals(await loggedOrders("o2"), 0);
+  },
+});
+
+/**
+ * A client for the caller's transaction that places `order` (under
+ * `idempotencyKey`) through another connection just before the first append.
+ */
+const racingClient = (order: string, idempotencyKey: string): SqlClient => {
+  let raced = false;
+  return {
+    queryObject: async (sql, params) => {
+      if (!raced && sql.includes("dcb.conditional_append(")) {
+        raced = true;
+        await placeOrderPostgresRepository(other).execute(
+          placeCommand(order, idempotencyKey),
+          placeOrderDecider,
+        );
+      }
+      return client.queryObject(sql, params);
+    },
+  };
+};
+
+Deno.test({
+  name:
+    "Postgres: Transaction - conflicting append is retried in the same transaction",
+  sanitizeResources: false,
+  sanitizeOps: false,
+  fn: async () => {
+    await client.queryObject("BEGIN");
+    try {
+      await assertRejects(
+        () =>
+          placeOrderPostgresRepository(client)
+            .inTransaction(racingClient("o3", "tx-place-other"))
+            .execute(placeCommand("o3", "tx-place-o3"), placeOrderDecider),
+        OrderAlreadyExistsError,
+      );
+      await client.queryObject(`INSERT INTO order_log VALUES ('o3')`);
+      await client.queryObject("COMMIT");
+    } catch (error) {
+      await client.queryObject("ROLLBACK");
+      throw error;
+    }
+
+    assertEquals((await loadOrders("o3")).length, 1);
+    assertEquals(await loggedOrders("o3"), 1);
+  },
+});
+
+Deno.test({
+  name:
+    "Postgres: Transaction - duplicate idempotency key returns the existing events",
+  sanitizeResources: false,
+  sanitizeOps: false,
+  fn: async () => {
+    await client.queryObject("BEGIN");
+    try {
+      const events = await placeOrderPostgresRepository(client)
+        .inTransaction(racingClient("o4", "tx-place-o4"))
+        .execute(placeCommand("o4", "tx-place-o4"), placeOrderDecider);
+      assertEquals(events.length, 1);
+      await client.queryObject("COMMIT");
+    } catch (error) {
+      await client.queryObject("ROLLBACK");
+      throw error;
+    }
+
+    assertEquals((await loadOrders("o4")).length, 1);
+  },
+});
+
+Deno.test({
+  name: "Postgres: cleanup",
+  sanitizeResources: false,
+  sanitizeOps: false,
+  fn: async () => {
+    await client.end();
+    await other.end();
+    await container.stop();
+  },
+});
@@ -0,0 +1,206 @@
+/**
+ * Postgres tests for event upcasting via `versionedSerializer` and
+ * `upcastingDeserializer`.
+ *
+ * Tests verify:
+ * - The loader upcasts legacy events
+ * - Deciders see upcast events and new events are stored with their version
+ * - Idempotency circuit-break returns upcast events
+ *
+ * Requires Docker daemon for testcontainers.
+ */
+
+import { assertEquals } from "@std/assert";
+import type {
+  CommandMetadata,
+  TypeSafeEventShape,
+} from "../../infrastructure.ts";
+import {
+  PostgresEventLoader,
+  PostgresEventRepository,
+  upcastingDeserializer,
+  versionedSerializer,
+} from "../../postgresEventRepository.ts";
+import { UpcasterRegistry } from "../../upcasting.ts";
+import { changeRestaurantManuDecider } from "./changeRestaurantMenuDecider.ts";
+import { createRestaurantDecider } from "./createRestaurantDecider.ts";
+import { createRestaurantPostgresRepository } from "./createRestaurantPostgresRepository.ts";
+import { placeOrderDecider } from "./placeOrderDecider.ts";
+import {
+  type ChangeRestaurantMenuCommand,
+  menuItemId,
+  orderId,
+  type PlaceOrderCommand,
+  type RestaurantCreatedEvent,
+  type RestaurantId,
+  restaurantId,
+  type RestaurantMenu,
+  type RestaurantMenuChangedEvent,
+  restaurantMenuId,
+  type RestaurantOrderPlacedEvent,
+} from "./api.ts";
+import {
+  createPostgresClient,
+  startPostgresContainer,
+} from "./testcontainers.ts";
+
+const { container, connectionString } = await startPostgresContainer();
+const client = await createPostgresClient(connectionString);
+
+/** Version 1 of RestaurantMenuChangedEvent, before `restaurantMenu` was renamed to `menu` */
+type LegacyMenuChangedEvent = TypeSafeEventShape<
+  {
+    readonly kind: "RestaurantMenuChangedEvent";
+    readonly restaurantId: RestaurantId;
+    readonly restaurantMenu: RestaurantMenu;
+    readonly final: boolean;
+  },
+  ["restaurantId"]
+>;
+
+const upcasters = new UpcasterRegistry().register(
+  "RestaurantMenuChangedEvent",
+  1,
+  ({ restaurantMenu, ...event }) => ({ ...event, menu: restaurantMenu }),
+);
+
+const changedMenu: RestaurantMenu = {
+  menuId: restaurantMenuId("m2"),
+  cuisine: "ITALIAN",
+  menuItems: [
+    { menuItemId: menuItemId("item9"), name: "Risotto", price: "14.99" },
+  ],
+};
+
+const changeMenuCommand: ChangeRestaurantMenuCommand & CommandMetadata = {
+  kind: "ChangeRestaurantMenuCommand",
+  restaurantId: restaurantId("r1"),
+  menu: changedMenu,
+  idempotencyKey: "test-pg-upcasting-change-menu",
+};
+
+// Restaurant r1 with a version 1 menu change, appended the way code before the rename did
+await createRestaurantPostgresRepository(client).execute({
+  kind: "CreateRestaurantCommand",
+  restaurantId: restaurantId("r1"),
+  name: "Bistro",
+  menu: {
+    menuId: restaurantMenuId("m1"),
+    cuisine: "ITALIAN",
+    menuItems: [
+      { menuItemId: menuItemId("item1"), name: "Pizza", price: "12.99" },
+    ],
+  },
+  idempotencyKey: "test-pg-upcasting-create",
+}, createRestaurantDecider);
+const [legacy] = await new PostgresEventRepository<
+  ChangeRestaurantMenuCommand,
+  LegacyMenuChangedEvent,
+  LegacyMenuChangedEvent
+>(client, () => []).execute(changeMenuCommand, {
+  computeNewEvents: (_events, command) => [{
+    kind: "RestaurantMenuChangedEvent",
+    restaurantId: command.restaurantId,
+    restaurantMenu: command.menu,
+    final: false,
+    tagFields: ["restaurantId"],
+  }],
+});
+
+Deno.test({
+  name: "Postgres: Upcasting - loader upcasts legacy events",
+  sanitizeResources: false,
+  sanitizeOps: false,
+  fn: async () => {
+    const [current] = await new PostgresEventLoader<RestaurantMenuChangedEvent>(
+      client,
+      upcastingDeserializer(upcasters),
+    ).load([["restaurantId:r1", "RestaurantMenuChangedEvent"]]);
+
+    assertEquals(current, {
+      kind: "RestaurantMenuChangedEvent",
+      restaurantId: restaurantId("r1"),
+      menu: changedMenu,
+      final: false,
+      tagFields: ["restaurantId"],
+    });
+  },
+});
+
+Deno.test({
+  name:
+    "Postgres: Upcasting - deciders see upcast events and new events are stamped",
+  sanitizeResources: false,
+  sanitizeOps: false,
+  fn: async () => {
+    const repository = new PostgresEventRepository<
+      PlaceOrderCommand,
+      | RestaurantCreatedEvent
+      | RestaurantMenuChangedEvent
+      | RestaurantOrderPlacedEvent,
+      RestaurantOrderPlacedEvent
+    >(
+      client,
+      (cmd) => [
+        ["restaurantId:" + cmd.restaurantId, "RestaurantCreatedEvent"],
+        ["restaurantId:" + cmd.restaurantId, "RestaurantMenuChangedEvent"],
+        ["orderId:" + cmd.orderId, "RestaurantOrderPlacedEvent"],
+      ],
+      10,
+      true,
+      versionedSerializer(upcasters),
+      upcastingDeserializer(upcasters),
+    );
+
+    // item9 is only on the menu of the legacy menu change
+    const [placed] = await repository.execute({
+      kind: "PlaceOrderCommand",
+      restaurantId: restaurantId("r1"),
+      orderId: orderId("o1"),
+      menuItems: changedMenu.menuItems,
+      idempotencyKey: "test-pg-upcasting-place-order",
+    }, placeOrderDecider);
+
+    const result = await client.queryObject<{ data: Uint8Array }>(
+      `SELECT data FROM dcb.events WHERE id = ${placed.eventId}`,
+    );
+    const stored = JSON.parse(new TextDecoder().decode(result.rows[0].data));
+    assertEquals(stored.schemaVersion, 1);
+    assertEquals("schemaVersion" in placed, false);
+  },
+});
+
+Deno.test({
+  name: "Postgres: Upcasting - circuit-break returns upcast events",
+  sanitizeResources: false,
+  sanitizeOps: false,
+  fn: async () => {
+    const [existing] = await new PostgresEventRepository<
+      ChangeRestaurantMenuCommand,
+      RestaurantCreatedEvent,
+      RestaurantMenuChangedEvent
+    >(
+      client,
+      (cmd) => [
+        ["restaurantId:" + cmd.restaurantId, "RestaurantCreatedEvent"],
+      ],
+      10,
+      true,
+      versionedSerializer(upcasters),
+      upcastingDeserializer(upcasters),
+    ).execute(changeMenuCommand, changeRestaurantManuDecider);
+
+    assertEquals(existing.eventId, legacy.eventId);
+    assertEquals(existing.menu, changedMenu);
+  },
+});
+
+Deno.test({
+  name: "Postgres: cleanup",
+  sanitizeResources: false,
+  sanitizeOps: false,
+  fn: async () => {
+    await client.end();
+    await container.stop();
+  },
+});
@@ -0,0 +1,315 @@
+/**
+ * Tests for event upcasting over Deno KV.
+ *
+ * Tests verify:
+ * - Upcasters are registered per kind in version order and chained on load
+ * - Events stored by newer code are rejected
+ * - Stored events are stamped with the current schema version
+ * - Legacy events are upcast by the loader, by the decider's load path and on
+ *   idempotency circuit-break
+ * - The subscriber, the projection reader and the outbox store upcast them too
+ */
+
+import { assertEquals, assertRejects, assertThrows } from "@std/assert";
+import {
+  DenoKvEventLoader,
+  DenoKvEventRepository,
+  DenoKvEventSubscriber,
+} from "../../denoKvEventRepository.ts";
+import { DenoKvOutboxStore } from "../../denoKvOutboxStore.ts";
+import { DenoKvEventStreamReader } from "../../denoKvProjectionStore.ts";
+import type {
+  CommandMetadata,
+  TypeSafeEventShape,
+} from "../../infrastructure.ts";
+import { RepositoryError } from "../../infrastructure.ts";
+import { UpcasterRegistry } from "../../upcasting.ts";
+import { changeRestaurantManuDecider } from "./changeRestaurantMenuDecider.ts";
+import { createRestaurantDecider } from "./createRestaurantDecider.ts";
+import { createRestaurantRepository } from "./createRestaurantRepository.ts";
+import { placeOrderDecider } from "./placeOrderDecider.ts";
+import {
+  type ChangeRestaurantMenuCommand,
+  menuItemId,
+  orderId,
+  type PlaceOrderCommand,
+  type RestaurantCreatedEvent,
+  type RestaurantId,
+  restaurantId,
+  type RestaurantMenu,
+  type RestaurantMenuChangedEvent,
+  restaurantMenuId,
+  type RestaurantOrderPlacedEvent,
+} from "./api.ts";
+
+/** Version 1 of RestaurantMenuChangedEvent, before `restaurantMenu` was renamed to `menu` */
+type LegacyMenuChangedEvent = TypeSafeEventShape<
+  {
+    readonly kind: "RestaurantMenuChangedEvent";
+    readonly restaurantId: RestaurantId;
+    readonly restaurantMenu: RestaurantMenu;
+    readonly final: boolean;
+  },
+  ["restaurantId"]
+>;
+
+const upcasters = () =>
+  new UpcasterRegistry().register(
+    "RestaurantMenuChangedEvent",
+    1,
+    ({ restaurantMenu, ...event }) => ({ ...event, menu: restaurantMenu }),
+  );
+
+const changedMenu: RestaurantMenu = {
+  menuId: restaurantMenuId("m2"),
+  cuisine: "ITALIAN",
+  menuItems: [
+    { menuItemId: menuItemId("item9"), name: "Risotto", price: "14.99" },
+  ],
+};
+
+const changeMenuCommand: ChangeRestaurantMenuCommand & CommandMetadata = {
+  kind: "ChangeRestaurantMenuCommand",
+  restaurantId: restaurantId("r1"),
+  menu: changedMenu,
+  idempotencyKey: "test-upcasting-change-menu",
+};
+
+/** Appends a version 1 menu change the way code before the rename did */
+const appendLegacyMenuChange = async (kv: Deno.Kv, outbox = false) => {
+  await createRestaurantRepository(kv).execute({
+    kind: "CreateRestaurantCommand",
+    restaurantId: restaurantId("r1"),
+    name: "Bistro",
+    menu: {
+      menuId: restaurantMenuId("m1"),
+      cuisine: "ITALIAN",
+      menuItems: [
+        { menuItemId: menuItemId("item1"), name: "Pizza", price: "12.99" },
+      ],
+    },
+    idempotencyKey: "test-upcasting-create",
+  }, createRestaurantDecider);
+
+  return await new DenoKvEventRepository<
+    ChangeRestaurantMenuCommand,
+    LegacyMenuChangedEvent,
+    LegacyMenuChangedEvent
+  >(kv, () => [], 10, 5, true, { outbox }).execute(changeMenuCommand, {
+    computeNewEvents: (_events, command) => [{
+      kind: "RestaurantMenuChangedEvent",
+      restaurantId: command.restaurantId,
+      restaurantMenu: command.menu,
+      final: false,
+      tagFields: ["restaurantId"],
+    }],
+  });
+};
+
+Deno.test("UpcasterRegistry - chains upcasters from the stored version", () => {
+  const registry = upcasters().register(
+    "RestaurantMenuChangedEvent",
+    2,
+    (event) => ({ ...event, final: true }),
+  );
+
+  assertEquals(registry.currentVersion("RestaurantMenuChangedEvent"), 3);
+  assertEquals(registry.currentVersion("RestaurantCreatedEvent"), 1);
+  assertEquals<unknown>(
+    registry.upcast({ kind: "RestaurantMenuChangedEvent", restaurantMenu: 1 }),
+    { kind: "RestaurantMenuChangedEvent", menu: 1, final: true },
+  );
+  assertEquals<unknown>(
+    registry.upcast({
+      kind: "RestaurantMenuChangedEvent",
+      menu: 1,
+      schemaVersion: 2,
+    }),
+    { kind: "RestaurantMenuChangedEvent", menu: 1, final: true },
+  );
+  assertEquals(
+    registry.upcast({ kind: "RestaurantCreatedEvent", schemaVersion: 1 }),
+    { kind: "RestaurantCreatedEvent" },
+  );
+});
+
+Deno.test("UpcasterRegistry - rejects gaps and events of newer versions", () => {
+  assertThrows(
+    () => upcasters().register("RestaurantMenuChangedEvent", 3, (e) => e),
+    RangeError,
+  );
+  assertThrows(
+    () =>
+      upcasters().upcast({
+        kind: "RestaurantMenuChangedEvent",
+        schemaVersion: 3,
+      }),
+    RangeError,
+  );
+});
+
+Deno.test("Upcasting - loader upcasts legacy events", async () => {
+  const kv = await Deno.openKv(":memory:");
+  try {
+    await appendLegacyMenuChange(kv);
+    const tuples: [string, "RestaurantMenuChangedEvent"][] = [
+      ["restaurantId:r1", "RestaurantMenuChangedEvent"],
+    ];
+
+    const [legacy] = await new DenoKvEventLoader<LegacyMenuChangedEvent>(kv)
+      .load(tuples);
+    assertEquals(legacy.restaurantMenu, changedMenu);
+
+    const [current] = await new DenoKvEventLoader<RestaurantMenuChangedEvent>(
+      kv,
+      true,
+      upcasters(),
+    ).load(tuples);
+    assertEquals(current, {
+      kind: "RestaurantMenuChangedEvent",
+      restaurantId: restaurantId("r1"),
+      menu: changedMenu,
+      final: false,
+      tagFields: ["restaurantId"],
+    });
+  } finally {
+    kv.close();
+  }
+});
+
+Deno.test("Upcasting - subscriber, projection reader and outbox store upcast legacy events", async () => {
+  const kv = await Deno.openKv(":memory:");
+  const controller = new AbortController();
+  try {
+    const [legacy] = await appendLegacyMenuChange(kv, true);
+
+    const subscription = new DenoKvEventSubscriber<RestaurantMenuChangedEvent>(
+      kv,
+      upcasters(),
+    ).subscribe([["restaurantId:r1", "RestaurantMenuChangedEvent"]], {
+      after: "",
+      signal: controller.signal,
+    });
+    const { value: subscribed } = await subscription.next();
+    assertEquals(subscribed?.eventId, legacy.eventId);
+    assertEquals(subscribed?.menu, changedMenu);
+
+    const read = await new DenoKvEventStreamReader<
+      RestaurantCreatedEvent | RestaurantMenuChangedEvent
+    >(kv, upcasters()).read(null, 10);
+    const changed = read.find((event) => event.eventId === legacy.eventId);
+    assertEquals(
+      changed?.kind === "RestaurantMenuChangedEvent" && changed.menu,
+      changedMenu,
+    );
+
+    const [pending] = await new DenoKvOutboxStore<RestaurantMenuChangedEvent>(
+      kv,
+      upcasters(),
+    ).pending(10);
+    assertEquals(pending.event.eventId, legacy.eventId);
+    assertEquals(pending.event.menu, changedMenu);
+    assertEquals("restaurantMenu" in pending.event, false);
+  } finally {
+    controller.abort();
+    kv.close();
+  }
+});
+
+Deno.test("Upcasting - deciders see upcast events and new events are stamped", async () => {
+  const kv = await Deno.openKv(":memory:");
+  try {
+    await appendLegacyMenuChange(kv);
+    const repository = new DenoKvEventRepository<
+      PlaceOrderCommand,
+      | RestaurantCreatedEvent
+      | RestaurantMenuChangedEvent
+      | RestaurantOrderPlacedEvent,
+      RestaurantOrderPlacedEvent
+    >(
+      kv,
+      (cmd) => [
+        ["restaurantId:" + cmd.restaurantId, "RestaurantCreatedEvent"],
+        ["restaurantId:" + cmd.restaurantId, "RestaurantMenuChangedEvent"],
+        ["orderId:" + cmd.orderId, "RestaurantOrderPlacedEvent"],
+      ],
+      10,
+      5,
+      true,
+      { upcasters: upcasters() },
+    );
+
+    // item9 is only on the menu of the legacy menu change
+    const [placed] = await repository.execute({
+      kind: "PlaceOrderCommand",
+      restaurantId: restaurantId("r1"),
+      orderId: orderId("o1"),
+      menuItems: changedMenu.menuItems,
+      idempotencyKey: "test-upcasting-place-order",
+    }, placeOrderDecider);
+
+    const stored = await kv.get<Record<string, unknown>>([
+      "events",
+      placed.eventId,
+    ]);
+    assertEquals(stored.value?.schemaVersion, 1);
+    assertEquals("schemaVersion" in placed, false);
+  } finally {
+    kv.close();
+  }
+});
+
+Deno.test("Upcasting - circuit-break returns upcast events", async () => {
+  const kv = await Deno.openKv(":memory:");
+  try {
+    const [legacy] = await appendLegacyMenuChange(kv);
+    const repository = (registry?: UpcasterRegistry) =>
+      new DenoKvEventRepository<
+        ChangeRestaurantMenuCommand,
+        RestaurantCreatedEvent,
+        RestaurantMenuChangedEvent
+      >(
+        kv,
+        (cmd) => [
+          ["restaurantId:" + cmd.restaurantId, "RestaurantCreatedEvent"],
+        ],
+        10,
+        5,
+        true,
+        { upcasters: registry },
+      );
+
+    const [existing] = await repository(upcasters()).execute(
+      changeMenuCommand,
+      changeRestaurantManuDecider,
+    );
+    assertEquals(existing.eventId, legacy.eventId);
+    assertEquals(existing.menu, changedMenu);
+
+    // Events stamped with a version the reader does not know are rejected
+    const [next] = await repository(
+      upcasters().register("RestaurantMenuChangedEvent", 2, (e) => e),
+    ).execute(
+      { ...changeMenuCommand, idempotencyKey: "test-upcasting-change-menu-2" },
+      changeRestaurantManuDecider,
+    );
+    await assertRejects(
+      () =>
+        repository(upcasters()).execute(
+          {
+            ...changeMenuCommand,
+            idempotencyKey: "test-upcasting-change-menu-2",
+          },
+          changeRestaurantManuDecider,
+        ),
+      RepositoryError,
+    );
+    assertEquals(
+      (await kv.get<Record<string, unknown>>(["events", next.eventId])).value
+        ?.schemaVersion,
+      3,
+    );
+  } finally {
+    kv.close();
+  }
+});
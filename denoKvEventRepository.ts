@@ -6,22 +6,45 @@
  * for backward compatibility.
  */
 
-import { monotonicUlid } from "@std/ulid";
-import type { IEventComputation } from "./decider.ts";
+import { decodeTime, monotonicUlid } from "@std/ulid";
+import type {
+  IEventComputation,
+  IStatefulEventComputation,
+} from "./decider.ts";
 import type {
   CommandShape,
   EventShape,
   IEventLoader,
   IEventRepository,
+  IEventSubscriber,
   QueryTuple,
+  SubscribeOptions,
 } from "./application.ts";
 import {
   IdempotencyKeyMismatchError,
   matchesQueryTuple,
   OptimisticLockingError,
+  optionsMetadataMapper,
   RepositoryError,
+  traceMetadataMapper,
+} from "./infrastructure.ts";
+import type {
+  CommandMetadata,
+  EventMetadata,
+  MetadataMapper,
+  RepositoryOptionsParameter,
+  StoredMetadata,
+  Tag,
 } from "./infrastructure.ts";
-import type { CommandMetadata, EventMetadata, Tag } from "./infrastructure.ts";
+import type { DenoKvOutboxRecord } from "./denoKvOutboxStore.ts";
+import {
+  isStatefulEventComputation,
+  snapshotKey,
+  type SnapshotOptions,
+} from "./snapshot.ts";
+import type { UpcasterRegistry } from "./upcasting.ts";
+import type { FieldEncryption } from "./encryption.ts";
+import { RetryPolicy } from "./retry.ts";
 
 // Re-export from application.ts for backward compatibility
 export type { CommandShape, EventShape, QueryTuple } from "./application.ts";
@@ -46,10 +69,16 @@ export type {
  * @property events - Array of events in chronological order (sorted by ULID)
  * @property indexKeys - Array of last_event pointer keys with versionstamps for optimistic locking
  *                       (optimization: only last_event pointers are mutable and need conflict detection)
+ * @property position - The eventId (ULID) of the last loaded event, or null if none was loaded
+ * @property eventIds - The eventIds (ULIDs) of the loaded events, in order
+ * @property versionstamps - The versionstamps of the loaded events, in order
  */
 export interface LoadedEvents<E> {
   readonly events: readonly E[];
   readonly indexKeys: { key: Deno.KvKey; versionstamp: string | null }[];
+  readonly position: string | null;
+  readonly eventIds: readonly string[];
+  readonly versionstamps: readonly string[];
 }
 
 /**
@@ -72,12 +101,33 @@ export class TagFieldConfigurationError extends Error {
   }
 }
 
+/**
+ * Options of `DenoKvEventRepository`.
+ *
+ * @property outbox - When true, records every appended event under ["outbox", eventId] in the same atomic commit, for `OutboxRelay` via `DenoKvOutboxStore`. Default: false
+ * @property snapshots - Snapshot configuration for full-replay mode (see `SnapshotOptions`); not combinable with `encryption`. Default: none
+ * @property upcasters - When set, events are stored with their schema version and upcast to the current version on load (see `UpcasterRegistry`). Default: none
+ * @property encryption - When set, personal fields are stored encrypted with per-subject keys and decrypted on load (see `FieldEncryption`). Default: none
+ * @property metadata - Maps command metadata to the metadata stored with its events, and back to `EM` on load (see `MetadataMapper`). Default: `traceMetadataMapper`
+ */
+export interface DenoKvEventRepositoryOptions<
+  CM extends CommandMetadata = CommandMetadata,
+  EM extends EventMetadata = EventMetadata,
+> {
+  readonly outbox?: boolean;
+  readonly snapshots?: SnapshotOptions;
+  readonly upcasters?: UpcasterRegistry;
+  readonly encryption?: FieldEncryption;
+  readonly metadata?: MetadataMapper<CM, EM>;
+}
+
 /**
  * Generic event-sourced repository implementation using Deno KV.
  *
  * Implements the two-index architecture with pointer pattern:
  * - Primary storage: ["events", eventId] → full event data
  * - Tag indexes: ["events_by_type", eventType, ...tags, eventId] → eventId (pointer)
+ * - Event metadata: ["event_metadata", eventId] → metadata stored by the `MetadataMapper` (only when non-empty)
  *
  * Provides optimistic locking with automatic retry for concurrent modifications.
  *
@@ -123,30 +173,58 @@ export class TagFieldConfigurationError extends Error {
  * @typeParam C - Command type (must conform to CommandShape)
  * @typeParam Ei - Input event type (consumed by decider, must conform to EventShape)
  * @typeParam Eo - Output event type (produced by decider, must conform to EventShape)
+ * @typeParam CM - Command metadata type (default: `CommandMetadata`)
+ * @typeParam EM - Event metadata type, restored by the `metadata` mapper (default: `EventMetadata`)
  */
 export class DenoKvEventRepository<
   C extends CommandShape,
   Ei extends EventShape,
   Eo extends EventShape,
-> implements IEventRepository<C, Ei, Eo, CommandMetadata, EventMetadata> {
+  CM extends CommandMetadata = CommandMetadata,
+  EM extends EventMetadata = EventMetadata,
+> implements IEventRepository<C, Ei, Eo, CM, EM> {
+  private readonly retryPolicy: RetryPolicy;
+  private readonly outbox: boolean;
+  private readonly snapshots?: SnapshotOptions;
+  private readonly upcasters?: UpcasterRegistry;
+  private readonly encryption?: FieldEncryption;
+  private readonly metadata: MetadataMapper<CM, EM>;
+
   /**
    * Creates a new DenoKvEventRepository.
    *
    * @param kv - Deno KV instance for storage
    * @param getQueryTuples - Returns array of query tuples to load for this command
-   * @param maxRetries - Maximum optimistic locking retry attempts (default: 10)
+   * @param maxRetries - Maximum optimistic locking attempts, or a `RetryPolicy` with backoff between them (default: 10)
    * @param maxTagFields - Maximum number of tag fields per event (default: 5, generates 2^5-1=31 indexes)
    * @param idempotent - When true, loads only the latest event per query tuple via last_event pointers (O(1) per tuple). When false, performs a full events_by_type range scan. Default: true
+   * @param options - Outbox, snapshots, upcasting, encryption and metadata mapping (see `DenoKvEventRepositoryOptions`); required with custom `CM`/`EM`, for their `metadata` mapper
+   * @throws RangeError if `snapshots` are combined with `encryption`
    */
   constructor(
     private readonly kv: Deno.Kv,
     private readonly getQueryTuples: (
       command: C,
     ) => QueryTuple<Ei>[],
-    private readonly maxRetries: number = 10,
+    maxRetries: number | RetryPolicy = 10,
     private readonly maxTagFields: number = 5,
     private readonly idempotent: boolean = true,
+    ...[options]: RepositoryOptionsParameter<
+      DenoKvEventRepositoryOptions<CM, EM>,
+      CM,
+      EM
+    >
   ) {
+    // Snapshots store decrypted state, which forgetting a subject cannot erase
+    if (options?.snapshots !== undefined && options.encryption !== undefined) {
+      throw new RangeError("snapshots cannot be combined with encryption");
+    }
+    this.retryPolicy = RetryPolicy.from(maxRetries);
+    this.outbox = options?.outbox ?? false;
+    this.snapshots = options?.snapshots;
+    this.upcasters = options?.upcasters;
+    this.encryption = options?.encryption;
+    this.metadata = optionsMetadataMapper(options);
   }
 
   /**
@@ -157,7 +235,11 @@ export class DenoKvEventRepository<
    * 2. Load events with versionstamps
    * 3. Compute new events using decider
    * 4. Attempt to persist with versionstamp checks and atomic idempotency key check
-   * 5. Retry on conflict up to maxRetries
+   * 5. Retry on conflict, backing off as configured by the retry policy
+   *
+   * With `snapshots` configured in full-replay mode and a decider that is an
+   * `IStatefulEventComputation`, step 2 loads the snapshot of the command's query
+   * tuples plus only the events appended after it.
    *
    * @param command - The command with CommandMetadata to execute
    * @param decider - The decider that computes new events
@@ -166,64 +248,77 @@ export class DenoKvEventRepository<
    * @throws RepositoryError if storage operations fail
    */
   async execute(
-    command: C & CommandMetadata,
+    command: C & CM,
     decider: IEventComputation<C, Ei, Eo>,
-  ): Promise<readonly (Eo & EventMetadata)[]> {
-    let attempts = 0;
+  ): Promise<readonly (Eo & EM)[]> {
     const { idempotencyKey } = command;
-
-    while (attempts < this.maxRetries) {
-      attempts++;
-
-      // Step 1: Idempotency check — circuit-break if key already used
-      const idempotencyEntry = await this.kv.get<
-        { eventIds: string[]; commandKind: string }
-      >(
-        ["events_by_idempotency_key", idempotencyKey],
-      );
-      if (idempotencyEntry.value !== null) {
-        if (idempotencyEntry.value.commandKind !== command.kind) {
-          throw new IdempotencyKeyMismatchError(
+    // Computed after the circuit-break, and kept for the exhaustion error
+    let queryTuples: QueryTuple<Ei>[] = [];
+
+    return await this.retryPolicy.run(
+      async () => {
+        // Step 1: Idempotency check — circuit-break if key already used
+        const idempotencyEntry = await this.kv.get<
+          { eventIds: string[]; commandKind: string }
+        >(
+          ["events_by_idempotency_key", idempotencyKey],
+        );
+        if (idempotencyEntry.value !== null) {
+          if (idempotencyEntry.value.commandKind !== command.kind) {
+            throw new IdempotencyKeyMismatchError(
+              idempotencyKey,
+              command.kind,
+              idempotencyEntry.value.commandKind,
+            );
+          }
+          // Load and return existing events by their IDs
+          return await this.loadEventsByIds(
+            idempotencyEntry.value.eventIds,
             idempotencyKey,
-            command.kind,
-            idempotencyEntry.value.commandKind,
           );
         }
-        // Load and return existing events by their IDs
-        return await this.loadEventsByIds(
-          idempotencyEntry.value.eventIds,
-          idempotencyKey,
-        );
-      }
-
-      // Step 2: Normal flow — load events for decider
-      const queryTuples = this.getQueryTuples(command);
-      const { events, indexKeys } = await this.loadEvents(
-        queryTuples,
-      );
 
-      // Step 3: Compute new events using decider
-      const newEvents = decider.computeNewEvents(events, command);
+        queryTuples = this.getQueryTuples(command);
+
+        // Step 2: Normal flow — load events for decider
+        let newEvents: readonly Eo[];
+        let indexKeys: LoadedEvents<Ei>["indexKeys"];
+        if (
+          this.snapshots !== undefined && !this.idempotent &&
+          isStatefulEventComputation(decider)
+        ) {
+          // Steps 2-3 from the snapshot plus the events appended after it
+          ({ newEvents, indexKeys } = await this.computeFromSnapshot(
+            command,
+            queryTuples,
+            decider,
+            this.snapshots,
+          ));
+        } else {
+          const loaded = await this.loadEvents(queryTuples);
+          indexKeys = loaded.indexKeys;
+
+          // Step 3: Compute new events using decider
+          newEvents = decider.computeNewEvents(loaded.events, command);
+        }
 
-      if (newEvents.length === 0) return [];
+        if (newEvents.length === 0) return [];
 
-      // Step 4: Attempt to persist with optimistic locking and atomic idempotency check
-      const persistedEvents = await this.persistEvents(
-        newEvents,
-        indexKeys,
-        idempotencyKey,
-        command.kind,
-      );
+        // Step 4: Attempt to persist with optimistic locking and atomic idempotency check
+        const persistedEvents = await this.persistEvents(
+          newEvents,
+          indexKeys,
+          idempotencyKey,
+          command.kind,
+          this.metadata.toStored(command),
+        );
 
-      if (persistedEvents) {
+        // Conflict detected (persistedEvents is null), retry
         return persistedEvents;
-      }
-
-      // Conflict detected (persistedEvents is null), retry
-    }
-
-    // Extract first entity ID for error message (no generic id field available)
-    throw new OptimisticLockingError(attempts, "unknown");
+      },
+      (attempts) =>
+        OptimisticLockingError.forQueryTuples(attempts, queryTuples),
+    );
   }
 
   /**
@@ -247,19 +342,15 @@ export class DenoKvEventRepository<
    * @throws RepositoryError if storage operations fail
    */
   async executeBatch(
-    commands: readonly (C & CommandMetadata)[],
+    commands: readonly (C & CM)[],
     decider: IEventComputation<C, Ei, Eo>,
-  ): Promise<readonly (Eo & EventMetadata)[]> {
+  ): Promise<readonly (Eo & EM)[]> {
     if (commands.length === 0) return [];
 
     // Use the idempotencyKey from the first command for the entire batch
     const { idempotencyKey } = commands[0];
 
-    let attempts = 0;
-
-    while (attempts < this.maxRetries) {
-      attempts++;
-
+    return await this.retryPolicy.run(async () => {
       // Step 1: Idempotency check — circuit-break if key already used
       const idempotencyEntry = await this.kv.get<
         { eventIds: string[]; commandKind: string }
@@ -365,16 +456,16 @@ export class DenoKvEventRepository<
         allIndexKeys,
         idempotencyKey,
         commands[0].kind,
+        this.metadata.toStored(commands[0]),
       );
 
-      if (persistedEvents) {
-        return persistedEvents;
-      }
-
       // Conflict detected, retry entire batch
-    }
-
-    throw new OptimisticLockingError(attempts, "batch");
+      return persistedEvents;
+    }, (attempts) =>
+      OptimisticLockingError.forQueryTuples(
+        attempts,
+        commands.flatMap((command) => this.getQueryTuples(command)),
+      ));
   }
 
   /**
@@ -391,6 +482,76 @@ export class DenoKvEventRepository<
     return events;
   }
 
+  /**
+   * Loads events matching the given query tuples together with their event metadata.
+   *
+   * The metadata is reconstructed as on idempotency circuit-break: `timestamp` from
+   * the ULID, stored metadata from `["event_metadata", eventId]` (restored by the
+   * metadata mapper); `idempotencyKey` is not stored per event and is an empty string.
+   *
+   * @param queryTuples - Array of query tuples specifying which events to load
+   * @returns A promise resolving to the loaded events with their metadata in chronological order
+   */
+  async loadWithMetadata(
+    queryTuples: QueryTuple<Ei>[],
+  ): Promise<readonly (Ei & EM)[]> {
+    const { events, eventIds, versionstamps } = await this.loadEvents(
+      queryTuples,
+    );
+    let stored: StoredMetadata[];
+    try {
+      stored = await loadStoredMetadata(this.kv, eventIds);
+    } catch (error) {
+      throw new RepositoryError("load", error as Error);
+    }
+    return events.map((event, i) => ({
+      ...event,
+      ...this.metadata.fromStored({
+        eventId: eventIds[i],
+        timestamp: decodeTime(eventIds[i]),
+        versionstamp: versionstamps[i],
+        idempotencyKey: "",
+      }, stored[i]),
+    }));
+  }
+
+  /**
+   * Computes new events from the stored snapshot of the query tuples plus the
+   * events appended after it, and stores a new snapshot when at least `frequency`
+   * events were folded on top of it.
+   *
+   * @returns The new events and the last_event pointer keys for optimistic locking
+   */
+  private async computeFromSnapshot(
+    command: C,
+    queryTuples: QueryTuple<Ei>[],
+    decider: IStatefulEventComputation<C, unknown, Ei, Eo>,
+    { name, store, frequency }: SnapshotOptions,
+  ): Promise<
+    {
+      newEvents: readonly Eo[];
+      indexKeys: LoadedEvents<Ei>["indexKeys"];
+    }
+  > {
+    const key = await snapshotKey(queryTuples);
+    const snapshot = await store.load(name, key);
+    const { events, indexKeys, position } = await this.loadEvents(
+      queryTuples,
+      snapshot?.position ?? null,
+    );
+
+    const state = events.reduce(
+      (s, event) => decider.evolve(s, event),
+      snapshot !== null ? snapshot.state : decider.initialState,
+    );
+    if (position !== null && events.length >= frequency) {
+      await store.save(name, key, { state, position });
+    }
+
+    // Decider errors propagate directly — never wrapped
+    return { newEvents: decider.decide(command, state), indexKeys };
+  }
+
   /**
    * Loads events using query tuples.
    *
@@ -406,11 +567,13 @@ export class DenoKvEventRepository<
    * Both modes use `last_event` pointer versionstamps for optimistic locking.
    *
    * @param queryTuples - Array of query tuples to process
+   * @param after - Full-replay mode only: skip events up to this eventId (a snapshot position); an event committed later with a lower ULID is skipped as well
    * @returns Loaded events with last_event pointer keys for optimistic locking
    * @throws RepositoryError if load operation fails
    */
   private async loadEvents(
     queryTuples: QueryTuple<Ei>[],
+    after: string | null = null,
   ): Promise<LoadedEvents<Ei>> {
     try {
       const eventIds: string[] = [];
@@ -457,9 +620,19 @@ export class DenoKvEventRepository<
             ...sortedTags,
           ];
 
-          const iter = this.kv.list({ prefix });
-          for await (const entry of iter) {
-            eventIds.push(entry.value as string);
+          // The entries of exactly these tags index every matching event, so after
+          // a snapshot the listing starts at its position. Entries of tag supersets
+          // share the prefix, so the ids are still filtered. Tag-less tuples have
+          // no entries of their own and are listed in full.
+          const selector: Deno.KvListSelector =
+            after !== null && sortedTags.length > 0
+              ? { prefix, start: [...prefix, after] }
+              : { prefix };
+          for await (const entry of this.kv.list(selector)) {
+            const eventId = entry.value as string;
+            if (after === null || eventId > after) {
+              eventIds.push(eventId);
+            }
           }
 
           // Load last_event pointer for conflict detection
@@ -481,18 +654,25 @@ export class DenoKvEventRepository<
         ["events", id] as Deno.KvKey
       );
       const eventResults = await this.kv.getMany(primaryKeys);
-      const events = eventResults.map((result, i) => {
+      const stored = eventResults.map((result, i) => {
         if (result.value === null) {
           throw new Error(
             `Event ${uniqueEventIds[i]} not found in primary storage`,
           );
         }
-        return result.value as Ei;
+        return result.value;
       });
 
       return {
-        events,
+        events: await readStoredEvents<Ei>(
+          stored,
+          this.upcasters,
+          this.encryption,
+        ),
         indexKeys: lastEventKeys,
+        position: uniqueEventIds.at(-1) ?? null,
+        eventIds: uniqueEventIds,
+        versionstamps: eventResults.map((result) => result.versionstamp!),
       };
     } catch (error) {
       throw new RepositoryError("load", error as Error);
@@ -505,7 +685,7 @@ export class DenoKvEventRepository<
    * Creates an atomic operation that:
    * 1. Checks all loaded last_event pointer versionstamps (including null for empty result sets)
    * 2. Checks that the idempotency key does NOT already exist (versionstamp is null)
-   * 3. Writes new events to primary storage
+   * 3. Writes new events to primary storage, with personal fields encrypted when `encryption` is set
    * 4. Writes pointers to type indexes
    * 5. Updates last_event pointers for all tag subsets
    * 6. Stores the idempotency key → eventIds mapping
@@ -513,6 +693,8 @@ export class DenoKvEventRepository<
    * @param events - Events to persist
    * @param indexKeys - Last_event pointer keys with versionstamps for conflict detection
    * @param idempotencyKey - The idempotency key from the command's CommandMetadata
+   * @param commandKind - Kind of the command, recorded with the idempotency key
+   * @param metadata - Metadata stored with the events under `["event_metadata", eventId]`, when non-empty
    * @returns Persisted events with metadata, or null if conflict detected
    * @throws RepositoryError if persist operation fails
    */
@@ -521,12 +703,16 @@ export class DenoKvEventRepository<
     indexKeys: { key: Deno.KvKey; versionstamp: string | null }[],
     idempotencyKey: string,
     commandKind: string,
-  ): Promise<readonly (Eo & EventMetadata)[] | null> {
+    metadata: StoredMetadata,
+  ): Promise<readonly (Eo & EM)[] | null> {
     try {
       const atomic = this.kv.atomic();
       const timestamp = Date.now();
-      const eventsWithMetadata: (Eo & EventMetadata)[] = [];
+      const eventsWithMetadata: (Eo & EM)[] = [];
       const eventIds: string[] = [];
+      const storedEvents = this.encryption
+        ? await this.encryption.encryptAll(events)
+        : events;
 
       // Check all loaded last_event pointer versionstamps
       for (const { key, versionstamp } of indexKeys) {
@@ -540,13 +726,32 @@ export class DenoKvEventRepository<
       });
 
       // Write new events
-      for (const event of events) {
+      for (const [i, event] of events.entries()) {
+        const stored = storedEvents[i];
         const eventId = monotonicUlid();
         const eventType = (event as { kind: string }).kind;
         eventIds.push(eventId);
 
         // Primary storage
-        atomic.set(["events", eventId], event);
+        atomic.set(
+          ["events", eventId],
+          this.upcasters ? this.upcasters.stamp(stored) : stored,
+        );
+
+        // Stored metadata, only for commands that carry some
+        if (Object.keys(metadata).length > 0) {
+          atomic.set(["event_metadata", eventId], metadata);
+        }
+
+        // Transactional outbox
+        if (this.outbox) {
+          const record: DenoKvOutboxRecord = {
+            idempotencyKey,
+            attempts: 0,
+            lastError: null,
+          };
+          atomic.set(["outbox", eventId], record);
+        }
 
         // Tag-based indexes - extract tagFields from the event itself
         const tagFields = event.tagFields;
@@ -560,7 +765,11 @@ export class DenoKvEventRepository<
             );
           }
 
-          const tags = this.extractTags(event, tagFields as readonly string[]);
+          // Encrypted tag fields are indexed by their hash
+          const tags = this.extractTags(
+            stored,
+            tagFields as readonly string[],
+          );
           const sortedTags = this.sortTags(tags);
           const subsets = this.generateSubsets(sortedTags);
 
@@ -581,10 +790,12 @@ export class DenoKvEventRepository<
 
         eventsWithMetadata.push({
           ...event,
-          eventId,
-          timestamp,
-          versionstamp: "", // Will be set after commit
-          idempotencyKey,
+          ...this.metadata.fromStored({
+            eventId,
+            timestamp,
+            versionstamp: "", // Will be set after commit
+            idempotencyKey,
+          }, metadata),
         });
       }
 
@@ -610,7 +821,7 @@ export class DenoKvEventRepository<
     }
   }
   /**
-   * Loads events by their IDs and returns them with EventMetadata.
+   * Loads events by their IDs and returns them with their event metadata.
    *
    * Used by the idempotency circuit-break path to return previously persisted events
    * when a duplicate idempotency key is detected.
@@ -623,25 +834,34 @@ export class DenoKvEventRepository<
   private async loadEventsByIds(
     eventIds: string[],
     idempotencyKey: string,
-  ): Promise<readonly (Eo & EventMetadata)[]> {
+  ): Promise<readonly (Eo & EM)[]> {
     try {
       const primaryKeys = eventIds.map((id) => ["events", id] as Deno.KvKey);
       const results = await this.kv.getMany(primaryKeys);
-
-      return results.map((result, i) => {
+      const stored = results.map((result, i) => {
         if (result.value === null) {
           throw new Error(
             `Event ${eventIds[i]} not found in primary storage`,
           );
         }
-        return {
-          ...(result.value as Eo),
+        return result.value;
+      });
+      const decrypted = await readStoredEvents<Eo>(
+        stored,
+        this.upcasters,
+        this.encryption,
+      );
+      const metadata = await loadStoredMetadata(this.kv, eventIds);
+
+      return results.map((result, i) => ({
+        ...decrypted[i],
+        ...this.metadata.fromStored({
           eventId: eventIds[i],
           timestamp: 0, // Original timestamp not stored separately; use 0 as placeholder
           versionstamp: result.versionstamp ?? "",
           idempotencyKey,
-        };
-      });
+        }, metadata[i]),
+      }));
     } catch (error) {
       if (error instanceof RepositoryError) throw error;
       throw new RepositoryError("load", error as Error);
@@ -747,10 +967,14 @@ export class DenoKvEventLoader<Ei extends EventShape>
   /**
    * @param kv - Deno KV instance for storage
    * @param idempotent - When true, loads only the latest event per query tuple. When false, performs full range scans. Default: true
+   * @param upcasters - When set, events are upcast to their current schema version (see `UpcasterRegistry`). Default: none
+   * @param encryption - When set, encrypted personal fields are decrypted (see `FieldEncryption`). Default: none
    */
   constructor(
     private readonly kv: Deno.Kv,
     private readonly idempotent: boolean = true,
+    private readonly upcasters?: UpcasterRegistry,
+    private readonly encryption?: FieldEncryption,
   ) {}
 
   async load(queryTuples: QueryTuple<Ei>[]): Promise<readonly Ei[]> {
@@ -795,14 +1019,225 @@ export class DenoKvEventLoader<Ei extends EventShape>
     );
     const results = await this.kv.getMany(primaryKeys);
 
-    return results.map((result, i) => {
+    const stored = results.map((result, i) => {
       if (result.value === null) {
         throw new Error(
           `Event ${uniqueEventIds[i]} not found in primary storage`,
         );
       }
-      return result.value as Ei;
+      return result.value;
+    });
+    return await readStoredEvents<Ei>(stored, this.upcasters, this.encryption);
+  }
+
+  private sortTags(tags: Tag[]): Tag[] {
+    return [...tags].sort((a, b) => a.localeCompare(b));
+  }
+}
+
+/**
+ * Turns stored events into current events: encrypted fields are decrypted first,
+ * as they were stored, then the events are upcast to their current schema version.
+ *
+ * @param stored - Events as stored under `["events", eventId]`
+ * @param upcasters - Registry upcasting the events, if any
+ * @param encryption - Field encryption decrypting the events, if any
+ * @returns The decrypted and upcast events, in order
+ */
+export async function readStoredEvents<E extends EventShape>(
+  stored: readonly unknown[],
+  upcasters?: UpcasterRegistry,
+  encryption?: FieldEncryption,
+): Promise<readonly E[]> {
+  const decrypted = encryption
+    ? await encryption.decryptAll(stored as readonly EventShape[])
+    : stored;
+  return upcasters
+    ? decrypted.map((event) => upcasters.upcast<E>(event))
+    : decrypted as readonly E[];
+}
+
+/**
+ * Loads the stored metadata of events, written under `["event_metadata", eventId]`
+ * by `DenoKvEventRepository` for commands that carry some.
+ *
+ * @param kv - Deno KV instance for storage
+ * @param eventIds - Ids of the events
+ * @returns The stored metadata per event id, in order (empty for events without it)
+ */
+export async function loadStoredMetadata(
+  kv: Deno.Kv,
+  eventIds: readonly string[],
+): Promise<StoredMetadata[]> {
+  const metadata: StoredMetadata[] = [];
+  // getMany accepts at most 10 keys per call
+  for (let i = 0; i < eventIds.length; i += 10) {
+    const results = await kv.getMany<StoredMetadata[]>(
+      eventIds.slice(i, i + 10).map((id) => ["event_metadata", id]),
+    );
+    metadata.push(...results.map((result) => result.value ?? {}));
+  }
+  return metadata;
+}
+
+/**
+ * Live event subscriptions on Deno KV.
+ *
+ * Watches the `["last_event", type, ...tags]` pointers of the subscribed query
+ * tuples with `kv.watch`. Whenever a pointer moves, the new event ids are read
+ * from `["events_by_type", type, ...tags]` and the events are yielded in ULID order.
+ *
+ * Each query tuple must contain at least one tag (tag-less events are not indexed),
+ * and at most 10 tuples can be watched at once (Deno KV `watch` limit).
+ *
+ * Event metadata is reconstructed from storage: `timestamp` from the ULID,
+ * `versionstamp` from the entry, the rest restored by the `metadata` mapper from
+ * `["event_metadata", eventId]`; `idempotencyKey` is not stored per event and is
+ * an empty string.
+ *
+ * Ids are ULIDs minted before commit, so an event committing after a later-minted
+ * id can sort below the `after` cursor or an id already delivered, and is then
+ * not delivered (see `DenoKvEventStreamReader`).
+ *
+ * @typeParam Ei - Event type to subscribe to
+ */
+export class DenoKvEventSubscriber<Ei extends EventShape>
+  implements IEventSubscriber<Ei, EventMetadata> {
+  /**
+   * @param kv - Deno KV instance for storage
+   * @param upcasters - When set, events are upcast to their current schema version (see `UpcasterRegistry`). Default: none
+   * @param encryption - When set, encrypted personal fields are decrypted before the events are upcast (see `FieldEncryption`). Default: none
+   * @param metadata - Restores the event metadata from the stored metadata, as the repository's `metadata` mapper does (see `MetadataMapper`). Default: `traceMetadataMapper`
+   */
+  constructor(
+    private readonly kv: Deno.Kv,
+    private readonly upcasters?: UpcasterRegistry,
+    private readonly encryption?: FieldEncryption,
+    private readonly metadata: Pick<
+      MetadataMapper<CommandMetadata, EventMetadata>,
+      "fromStored"
+    > = traceMetadataMapper,
+  ) {}
+
+  async *subscribe(
+    queryTuples: QueryTuple<Ei>[],
+    options: SubscribeOptions = {},
+  ): AsyncGenerator<Ei & EventMetadata> {
+    if (queryTuples.length === 0 || queryTuples.length > 10) {
+      throw new RangeError("subscribe requires between 1 and 10 query tuples");
+    }
+    const { after, signal } = options;
+    if (signal?.aborted) return;
+
+    const patterns = queryTuples.map((tuple) => {
+      const eventType = tuple[tuple.length - 1] as Ei["kind"];
+      const tags = this.sortTags(tuple.slice(0, -1) as string[]);
+      if (tags.length === 0) {
+        throw new RangeError(
+          `Query tuple for ${eventType} must contain at least one tag`,
+        );
+      }
+      return {
+        pointerKey: ["last_event", eventType, ...tags] as Deno.KvKey,
+        indexPrefix: ["events_by_type", eventType, ...tags] as Deno.KvKey,
+      };
     });
+
+    const reader = this.kv.watch(patterns.map((p) => p.pointerKey))
+      .getReader();
+    const onAbort = () => {
+      reader.cancel().catch(() => {});
+    };
+    signal?.addEventListener("abort", onAbort);
+
+    try {
+      // Per tuple: last event id already delivered (null = nothing yet)
+      let cursors: (string | null)[] | null = after === undefined
+        ? null
+        : patterns.map(() => after);
+
+      while (!signal?.aborted) {
+        const { value: pointers, done } = await reader.read();
+        if (done) return;
+
+        const current = pointers.map((entry) => entry.value as string | null);
+        if (cursors === null) {
+          // First emission: start from the current pointers
+          cursors = current;
+          continue;
+        }
+
+        // Collect ids appended behind every pointer that moved, listing the index
+        // from the cursor on; the cursor advances to the highest id read, which
+        // may already be past the pointer
+        const newIds = new Set<string>();
+        for (let i = 0; i < patterns.length; i++) {
+          const cursor = cursors[i];
+          if (current[i] === null || current[i] === cursor) continue;
+          const { indexPrefix } = patterns[i];
+          const selector: Deno.KvListSelector = cursor === null
+            ? { prefix: indexPrefix }
+            : { prefix: indexPrefix, start: [...indexPrefix, cursor] };
+          let highest = cursor;
+          for await (const entry of this.kv.list<string>(selector)) {
+            // Entries of tag supersets share the prefix and sort after the ids,
+            // so the ids are filtered (`start` is inclusive of the cursor too)
+            if (cursor !== null && entry.value <= cursor) continue;
+            newIds.add(entry.value);
+            if (highest === null || entry.value > highest) {
+              highest = entry.value;
+            }
+          }
+          cursors[i] = highest;
+        }
+
+        const ids = [...newIds].sort((a, b) => a.localeCompare(b));
+        for (const event of await this.loadEvents(ids)) {
+          if (signal?.aborted) return;
+          yield event;
+        }
+      }
+    } finally {
+      signal?.removeEventListener("abort", onAbort);
+      await reader.cancel().catch(() => {});
+    }
+  }
+
+  private async loadEvents(
+    eventIds: string[],
+  ): Promise<(Ei & EventMetadata)[]> {
+    const events: (Ei & EventMetadata)[] = [];
+    // getMany accepts at most 10 keys per call
+    for (let i = 0; i < eventIds.length; i += 10) {
+      const chunk = eventIds.slice(i, i + 10);
+      const results = await this.kv.getMany<Ei[]>(
+        chunk.map((id) => ["events", id]),
+      );
+      const versionstamps = results.map((result, j) => {
+        if (result.versionstamp === null) {
+          throw new Error(`Event ${chunk[j]} not found in primary storage`);
+        }
+        return result.versionstamp;
+      });
+      const metadata = await loadStoredMetadata(this.kv, chunk);
+      const stored = await readStoredEvents<Ei>(
+        results.map((result) => result.value),
+        this.upcasters,
+        this.encryption,
+      );
+      stored.forEach((event, j) => {
+        events.push({
+          ...event,
+          ...this.metadata.fromStored({
+            eventId: chunk[j],
+            timestamp: decodeTime(chunk[j]),
+            versionstamp: versionstamps[j],
+            idempotencyKey: "",
+          }, metadata[j]),
+        });
+      });
+    }
+    return events;
   }
 
   private sortTags(tags: Tag[]): Tag[] {
@@ -0,0 +1,59 @@
+/**
+ * Deno KV storage for per-subject encryption keys.
+ *
+ * This module provides the Deno KV-specific `IKeyStore`, keeping one AES-256 key
+ * per subject under `["encryption_key", subjectId]`.
+ */
+
+import type { IKeyStore } from "./encryption.ts";
+import { RepositoryError } from "./infrastructure.ts";
+
+/**
+ * Key store over the `["encryption_key"]` keyspace.
+ *
+ * Keep the keys in a separate Deno KV database from the events when backups of
+ * the event store must not be able to restore forgotten keys.
+ */
+export class DenoKvKeyStore implements IKeyStore {
+  /**
+   * @param kv - Deno KV instance for storage
+   */
+  constructor(private readonly kv: Deno.Kv) {}
+
+  async getKey(subjectId: string): Promise<Uint8Array | null> {
+    try {
+      return (await this.kv.get<Uint8Array>(["encryption_key", subjectId]))
+        .value;
+    } catch (error) {
+      throw new RepositoryError("load", error as Error);
+    }
+  }
+
+  async getOrCreateKey(subjectId: string): Promise<Uint8Array> {
+    try {
+      const key: Deno.KvKey = ["encryption_key", subjectId];
+      while (true) {
+        const entry = await this.kv.get<Uint8Array>(key);
+        if (entry.value !== null) return entry.value;
+
+        // Concurrent creators race on the null versionstamp; the loser reads the winner's key
+        const created = crypto.getRandomValues(new Uint8Array(32));
+        const result = await this.kv.atomic()
+          .check({ key, versionstamp: null })
+          .set(key, created)
+          .commit();
+        if (result.ok) return created;
+      }
+    } catch (error) {
+      throw new RepositoryError("persist", error as Error);
+    }
+  }
+
+  async deleteKey(subjectId: string): Promise<void> {
+    try {
+      await this.kv.delete(["encryption_key", subjectId]);
+    } catch (error) {
+      throw new RepositoryError("persist", error as Error);
+    }
+  }
+}
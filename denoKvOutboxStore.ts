@@ -0,0 +1,175 @@
+/**
+ * Deno KV storage for the transactional outbox.
+ *
+ * This module provides the Deno KV-specific `IOutboxStore`. `DenoKvEventRepository`
+ * constructed with `outbox: true` records every appended event under
+ * `["outbox", eventId]` in the same `kv.atomic()` commit that stores the event;
+ * dead-lettered entries move to `["outbox_dead_letter", eventId]`.
+ */
+
+import { decodeTime } from "@std/ulid";
+import type { EventShape } from "./application.ts";
+import { RepositoryError, traceMetadataMapper } from "./infrastructure.ts";
+import type {
+  CommandMetadata,
+  EventMetadata,
+  MetadataMapper,
+} from "./infrastructure.ts";
+import {
+  loadStoredMetadata,
+  readStoredEvents,
+} from "./denoKvEventRepository.ts";
+import type { FieldEncryption } from "./encryption.ts";
+import type { IOutboxStore, OutboxEntry } from "./outbox.ts";
+import type { UpcasterRegistry } from "./upcasting.ts";
+
+/**
+ * Value stored under `["outbox", eventId]` and `["outbox_dead_letter", eventId]`.
+ * The event itself stays in `["events", eventId]`.
+ */
+export interface DenoKvOutboxRecord {
+  readonly idempotencyKey: string;
+  readonly attempts: number;
+  readonly lastError: string | null;
+}
+
+/**
+ * Outbox store over the `["outbox"]` and `["outbox_dead_letter"]` keyspaces.
+ *
+ * Entries are listed in ULID (append) order. Metadata matches
+ * `DenoKvEventRepository`: `eventId` from the key, `timestamp` from the ULID,
+ * `versionstamp` from the `["events", eventId]` entry, the rest restored by the
+ * `metadata` mapper from `["event_metadata", eventId]`.
+ *
+ * @typeParam E - Event type recorded in the outbox
+ */
+export class DenoKvOutboxStore<E extends EventShape>
+  implements IOutboxStore<E> {
+  /**
+   * @param kv - Deno KV instance for storage
+   * @param upcasters - When set, events are upcast to their current schema version (see `UpcasterRegistry`). Default: none
+   * @param encryption - When set, encrypted personal fields are decrypted before the events are upcast (see `FieldEncryption`). Default: none
+   * @param metadata - Restores the event metadata from the stored metadata, as the repository's `metadata` mapper does (see `MetadataMapper`). Default: `traceMetadataMapper`
+   */
+  constructor(
+    private readonly kv: Deno.Kv,
+    private readonly upcasters?: UpcasterRegistry,
+    private readonly encryption?: FieldEncryption,
+    private readonly metadata: Pick<
+      MetadataMapper<CommandMetadata, EventMetadata>,
+      "fromStored"
+    > = traceMetadataMapper,
+  ) {}
+
+  pending(limit: number): Promise<readonly OutboxEntry<E>[]> {
+    return this.list("outbox", limit);
+  }
+
+  deadLetters(limit: number): Promise<readonly OutboxEntry<E>[]> {
+    return this.list("outbox_dead_letter", limit);
+  }
+
+  async acknowledge(eventId: string): Promise<void> {
+    try {
+      await this.kv.delete(["outbox", eventId]);
+    } catch (error) {
+      throw new RepositoryError("persist", error as Error);
+    }
+  }
+
+  async recordFailure(eventId: string, error: string): Promise<void> {
+    try {
+      const entry = await this.kv.get<DenoKvOutboxRecord>(["outbox", eventId]);
+      if (entry.value === null) return;
+      await this.kv.set(["outbox", eventId], {
+        ...entry.value,
+        attempts: entry.value.attempts + 1,
+        lastError: error,
+      });
+    } catch (error) {
+      throw new RepositoryError("persist", error as Error);
+    }
+  }
+
+  async deadLetter(eventId: string, error: string): Promise<void> {
+    try {
+      const entry = await this.kv.get<DenoKvOutboxRecord>(["outbox", eventId]);
+      if (entry.value === null) return;
+      await this.kv.atomic()
+        .check(entry)
+        .delete(["outbox", eventId])
+        .set(["outbox_dead_letter", eventId], {
+          ...entry.value,
+          attempts: entry.value.attempts + 1,
+          lastError: error,
+        })
+        .commit();
+    } catch (error) {
+      throw new RepositoryError("persist", error as Error);
+    }
+  }
+
+  async retryDeadLetter(eventId: string): Promise<void> {
+    try {
+      const entry = await this.kv.get<DenoKvOutboxRecord>([
+        "outbox_dead_letter",
+        eventId,
+      ]);
+      if (entry.value === null) return;
+      await this.kv.atomic()
+        .check(entry)
+        .delete(["outbox_dead_letter", eventId])
+        .set(["outbox", eventId], {
+          ...entry.value,
+          attempts: 0,
+          lastError: null,
+        })
+        .commit();
+    } catch (error) {
+      throw new RepositoryError("persist", error as Error);
+    }
+  }
+
+  private async list(
+    prefix: "outbox" | "outbox_dead_letter",
+    limit: number,
+  ): Promise<readonly OutboxEntry<E>[]> {
+    try {
+      const entries: OutboxEntry<E>[] = [];
+      for await (
+        const entry of this.kv.list<DenoKvOutboxRecord>({ prefix: [prefix] }, {
+          limit,
+        })
+      ) {
+        const eventId = entry.key[1] as string;
+        const stored = await this.kv.get<E>(["events", eventId]);
+        if (stored.value === null || stored.versionstamp === null) {
+          throw new Error(`Event ${eventId} not found in primary storage`);
+        }
+        const [metadata] = await loadStoredMetadata(this.kv, [eventId]);
+        const [value] = await readStoredEvents<E>(
+          [stored.value],
+          this.upcasters,
+          this.encryption,
+        );
+        const event: E & EventMetadata = {
+          ...value,
+          ...this.metadata.fromStored({
+            eventId,
+            timestamp: decodeTime(eventId),
+            versionstamp: stored.versionstamp,
+            idempotencyKey: entry.value.idempotencyKey,
+          }, metadata),
+        };
+        entries.push({
+          event,
+          attempts: entry.value.attempts,
+          lastError: entry.value.lastError,
+        });
+      }
+      return entries;
+    } catch (error) {
+      throw new RepositoryError("load", error as Error);
+    }
+  }
+}
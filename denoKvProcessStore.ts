@@ -0,0 +1,71 @@
+/**
+ * Deno KV storage for process runners.
+ *
+ * This module provides the Deno KV-specific `IDeadlineScheduler`, delivering
+ * process deadlines through the KV queue (`kv.enqueue` with a delay).
+ */
+
+import { RepositoryError } from "./infrastructure.ts";
+import type { IDeadlineScheduler, ProcessDeadline } from "./processRunner.ts";
+
+/**
+ * Queue message carrying a scheduled process deadline.
+ */
+interface DeadlineMessage {
+  readonly kind: "ProcessDeadline";
+  readonly deadline: ProcessDeadline;
+}
+
+/**
+ * Schedules process deadlines on the Deno KV queue.
+ *
+ * Each deadline is enqueued with a delay until `dueAt` and delivered to the
+ * handler registered with {@link DenoKvDeadlineScheduler.listen}, typically
+ * `ProcessRunner.handleDeadline`. The queue retries failed deliveries, so
+ * handlers must be idempotent (the runner derives a stable idempotency key
+ * from the deadline).
+ */
+export class DenoKvDeadlineScheduler implements IDeadlineScheduler {
+  /**
+   * @param kv - Deno KV instance for storage
+   */
+  constructor(private readonly kv: Deno.Kv) {}
+
+  async schedule(deadline: ProcessDeadline): Promise<void> {
+    try {
+      const message: DeadlineMessage = { kind: "ProcessDeadline", deadline };
+      await this.kv.enqueue(message, {
+        delay: Math.max(0, deadline.dueAt - Date.now()),
+      });
+    } catch (error) {
+      throw new RepositoryError("persist", error as Error);
+    }
+  }
+
+  /**
+   * Delivers passed deadlines to the handler. Other queue messages are ignored.
+   *
+   * A KV database supports a single queue listener, so applications sharing the
+   * queue should dispatch on the message kind themselves.
+   *
+   * @param handler - Called with every delivered deadline
+   * @returns Promise that resolves when the KV database is closed
+   */
+  listen(
+    handler: (deadline: ProcessDeadline) => Promise<unknown>,
+  ): Promise<void> {
+    return this.kv.listenQueue(async (message: unknown) => {
+      if (isDeadlineMessage(message)) {
+        await handler(message.deadline);
+      }
+    });
+  }
+}
+
+/**
+ * Checks whether a queue message carries a process deadline.
+ */
+function isDeadlineMessage(message: unknown): message is DeadlineMessage {
+  return typeof message === "object" && message !== null &&
+    (message as { kind?: unknown }).kind === "ProcessDeadline";
+}
@@ -0,0 +1,132 @@
+/**
+ * Deno KV storage for catch-up projections.
+ *
+ * This module provides the Deno KV-specific `IEventStreamReader` over the
+ * ULID-ordered `["events", eventId]` keyspace and an `ICheckpointStore`
+ * keeping one checkpoint per projection name.
+ */
+
+import { decodeTime } from "@std/ulid";
+import type { EventShape } from "./application.ts";
+import { RepositoryError, traceMetadataMapper } from "./infrastructure.ts";
+import type {
+  CommandMetadata,
+  EventMetadata,
+  MetadataMapper,
+} from "./infrastructure.ts";
+import type {
+  ICheckpointStore,
+  IEventStreamReader,
+} from "./projectionRunner.ts";
+import {
+  loadStoredMetadata,
+  readStoredEvents,
+} from "./denoKvEventRepository.ts";
+import type { FieldEncryption } from "./encryption.ts";
+import type { UpcasterRegistry } from "./upcasting.ts";
+
+/**
+ * Reads the global event log from Deno KV in ULID order.
+ *
+ * Metadata is reconstructed from storage: `eventId` from the key, `timestamp`
+ * from the ULID, `versionstamp` from the entry, the rest restored by the
+ * `metadata` mapper from `["event_metadata", eventId]`. The idempotency key is not
+ * stored per event in Deno KV, so `idempotencyKey` is an empty string.
+ *
+ * Ids are ULIDs minted by the appending process before its commit. An event
+ * that commits after a later-minted id (a concurrent append, or a writer with a
+ * lagging clock) can sort below a position already read, and is not returned
+ * by reads after that position.
+ *
+ * @typeParam E - Event type returned by the reader
+ */
+export class DenoKvEventStreamReader<E extends EventShape>
+  implements IEventStreamReader<E> {
+  /**
+   * @param kv - Deno KV instance for storage
+   * @param upcasters - When set, events are upcast to their current schema version (see `UpcasterRegistry`). Default: none
+   * @param encryption - When set, encrypted personal fields are decrypted before the events are upcast (see `FieldEncryption`). Default: none
+   * @param metadata - Restores the event metadata from the stored metadata, as the repository's `metadata` mapper does (see `MetadataMapper`). Default: `traceMetadataMapper`
+   */
+  constructor(
+    private readonly kv: Deno.Kv,
+    private readonly upcasters?: UpcasterRegistry,
+    private readonly encryption?: FieldEncryption,
+    private readonly metadata: Pick<
+      MetadataMapper<CommandMetadata, EventMetadata>,
+      "fromStored"
+    > = traceMetadataMapper,
+  ) {}
+
+  async read(
+    position: string | null,
+    limit: number,
+  ): Promise<readonly (E & EventMetadata)[]> {
+    try {
+      const selector: Deno.KvListSelector = position === null
+        ? { prefix: ["events"] }
+        : { prefix: ["events"], start: ["events", position] };
+      // `start` is inclusive — read one extra entry to skip the checkpoint itself
+      const entries: Deno.KvEntry<unknown>[] = [];
+      for await (
+        const entry of this.kv.list(selector, { limit: limit + 1 })
+      ) {
+        if (entry.key[1] === position) continue;
+        if (entries.length === limit) break;
+        entries.push(entry);
+      }
+      const eventIds = entries.map((entry) => entry.key[1] as string);
+      const events = await readStoredEvents<E>(
+        entries.map((entry) => entry.value),
+        this.upcasters,
+        this.encryption,
+      );
+      const metadata = await loadStoredMetadata(this.kv, eventIds);
+      return events.map((event, i) => ({
+        ...event,
+        ...this.metadata.fromStored({
+          eventId: eventIds[i],
+          timestamp: decodeTime(eventIds[i]),
+          versionstamp: entries[i].versionstamp,
+          idempotencyKey: "",
+        }, metadata[i]),
+      }));
+    } catch (error) {
+      throw new RepositoryError("load", error as Error);
+    }
+  }
+}
+
+/**
+ * Stores projection checkpoints in Deno KV under `["checkpoint", name]`.
+ */
+export class DenoKvCheckpointStore implements ICheckpointStore {
+  /**
+   * @param kv - Deno KV instance for storage
+   */
+  constructor(private readonly kv: Deno.Kv) {}
+
+  async load(name: string): Promise<string | null> {
+    try {
+      return (await this.kv.get<string>(["checkpoint", name])).value;
+    } catch (error) {
+      throw new RepositoryError("load", error as Error);
+    }
+  }
+
+  async save(name: string, position: string): Promise<void> {
+    try {
+      await this.kv.set(["checkpoint", name], position);
+    } catch (error) {
+      throw new RepositoryError("persist", error as Error);
+    }
+  }
+
+  async reset(name: string): Promise<void> {
+    try {
+      await this.kv.delete(["checkpoint", name]);
+    } catch (error) {
+      throw new RepositoryError("persist", error as Error);
+    }
+  }
+}
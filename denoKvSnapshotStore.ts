@@ -0,0 +1,38 @@
+/**
+ * Deno KV storage for event repository snapshots.
+ *
+ * This module provides the Deno KV-specific `ISnapshotStore`, keeping one
+ * snapshot per name and query tuples key under `["snapshot", name, key]`.
+ */
+
+import { RepositoryError } from "./infrastructure.ts";
+import type { ISnapshotStore, Snapshot } from "./snapshot.ts";
+
+/**
+ * Snapshot store over the `["snapshot"]` keyspace.
+ *
+ * States are stored as Deno KV values, so they must be structured-cloneable and
+ * fit the 64 KiB value limit.
+ */
+export class DenoKvSnapshotStore implements ISnapshotStore {
+  /**
+   * @param kv - Deno KV instance for storage
+   */
+  constructor(private readonly kv: Deno.Kv) {}
+
+  async load(name: string, key: string): Promise<Snapshot | null> {
+    try {
+      return (await this.kv.get<Snapshot>(["snapshot", name, key])).value;
+    } catch (error) {
+      throw new RepositoryError("load", error as Error);
+    }
+  }
+
+  async save(name: string, key: string, snapshot: Snapshot): Promise<void> {
+    try {
+      await this.kv.set(["snapshot", name, key], snapshot);
+    } catch (error) {
+      throw new RepositoryError("persist", error as Error);
+    }
+  }
+}
@@ -0,0 +1,268 @@
+/**
+ * State-stored repository implementation using Deno KV.
+ *
+ * This module provides the Deno KV-specific `IStateRepository` implementation
+ * for aggregates that persist their current state directly instead of an
+ * event stream. It pairs with `StateStoredCommandHandler` and any
+ * `IAggregateDecider` (via `IStateComputation`).
+ */
+
+import type { IStateComputation } from "./decider.ts";
+import type { CommandShape, IStateRepository } from "./application.ts";
+import {
+  IdempotencyKeyMismatchError,
+  OptimisticLockingError,
+  RepositoryError,
+} from "./infrastructure.ts";
+import type { CommandMetadata, StateMetadata } from "./infrastructure.ts";
+import { RetryPolicy } from "./retry.ts";
+
+/**
+ * State loaded from storage with its versionstamp for optimistic locking.
+ *
+ * @property state - The current state, or the repository's initial state if none is stored yet
+ * @property versionstamp - Versionstamp of the `["state", id]` entry (null if no state is stored yet)
+ */
+export interface LoadedState<S> {
+  readonly state: S;
+  readonly versionstamp: string | null;
+}
+
+/**
+ * Value stored under `["state_by_idempotency_key", idempotencyKey]`.
+ *
+ * Keeps a copy of the state produced by the command so that a replay with the
+ * same key returns the original outcome, even if the aggregate has moved on.
+ */
+interface StateIdempotencyEntry<S> {
+  readonly stateId: string;
+  readonly commandKind: string;
+  readonly state: S;
+  readonly timestamp: number;
+}
+
+/**
+ * Generic state-stored repository implementation using Deno KV.
+ *
+ * Storage layout:
+ * - State storage: `["state", stateId]` → current aggregate state
+ * - Idempotency: `["state_by_idempotency_key", idempotencyKey]` → `{ stateId, commandKind, state, timestamp }`
+ *
+ * The state id is derived from the command via `getId`. Use a prefixed id
+ * (for example `"restaurantId:" + cmd.restaurantId`) when several aggregate types
+ * share the same KV database.
+ *
+ * Provides optimistic locking with automatic retry: the state entry's versionstamp
+ * is checked on commit, and the whole load-compute-persist cycle is retried on conflict.
+ *
+ * Stored state must be serializable by Deno KV (structured clone) and fit within
+ * the KV value size limit. Returned state is spread together with `StateMetadata`,
+ * so `S` is expected to be an object type (or `null` before the aggregate exists).
+ *
+ * @typeParam C - Command type (must conform to CommandShape)
+ * @typeParam S - State type of the aggregate
+ */
+export class DenoKvStateRepository<C extends CommandShape, S>
+  implements IStateRepository<C, S, CommandMetadata, StateMetadata> {
+  private readonly retryPolicy: RetryPolicy;
+
+  /**
+   * Creates a new DenoKvStateRepository.
+   *
+   * @param kv - Deno KV instance for storage
+   * @param getId - Derives the state id from a command
+   * @param initialState - State used when no state is stored for the id yet (typically the decider's `initialState`)
+   * @param maxRetries - Maximum optimistic locking attempts, or a `RetryPolicy` with backoff between them (default: 10)
+   */
+  constructor(
+    private readonly kv: Deno.Kv,
+    private readonly getId: (command: C) => string,
+    private readonly initialState: S,
+    maxRetries: number | RetryPolicy = 10,
+  ) {
+    this.retryPolicy = RetryPolicy.from(maxRetries);
+  }
+
+  /**
+   * Executes a command by loading state, computing new state, and persisting it.
+   *
+   * Implements optimistic locking with automatic retry and idempotency circuit-break:
+   * 1. Check if idempotencyKey already exists — if so, return the stored state (circuit-break)
+   * 2. Load current state with its versionstamp
+   * 3. Compute new state using decider
+   * 4. Attempt to persist with versionstamp check and atomic idempotency key check
+   * 5. Retry on conflict, backing off as configured by the retry policy
+   *
+   * @param command - The command with CommandMetadata to execute
+   * @param decider - The decider that computes the new state
+   * @returns New state with metadata, or the previously produced state on circuit-break
+   * @throws IdempotencyKeyMismatchError if the key was used by a different command kind
+   * @throws OptimisticLockingError if max retries exceeded
+   * @throws RepositoryError if storage operations fail
+   */
+  execute(
+    command: C & CommandMetadata,
+    decider: IStateComputation<C, S>,
+  ): Promise<S & StateMetadata> {
+    return this.executeCommands([command], decider);
+  }
+
+  /**
+   * Executes a batch of commands by loading state once, computing new state for each
+   * command sequentially, and persisting the final state in a single atomic operation.
+   *
+   * All commands are applied to the state identified by the first command. The single
+   * `idempotencyKey` from the first command's metadata deduplicates the entire batch as
+   * one logical operation. On conflict, the entire batch retries.
+   *
+   * @param commands - The ordered list of commands with CommandMetadata to execute
+   * @param decider - The decider that computes new state from each command
+   * @returns The final state with metadata
+   * @throws IdempotencyKeyMismatchError if the key was used by a different command kind
+   * @throws OptimisticLockingError if max retries exceeded
+   * @throws RepositoryError if storage operations fail
+   */
+  executeBatch(
+    commands: readonly (C & CommandMetadata)[],
+    decider: IStateComputation<C, S>,
+  ): Promise<S & StateMetadata> {
+    if (commands.length === 0) {
+      return Promise.reject(
+        new RangeError("executeBatch requires at least one command"),
+      );
+    }
+    return this.executeCommands(commands, decider);
+  }
+
+  /**
+   * Shared load-compute-persist cycle for `execute` and `executeBatch`.
+   */
+  private async executeCommands(
+    commands: readonly (C & CommandMetadata)[],
+    decider: IStateComputation<C, S>,
+  ): Promise<S & StateMetadata> {
+    const { idempotencyKey, kind: commandKind } = commands[0];
+    const stateId = this.getId(commands[0]);
+
+    return await this.retryPolicy.run(async () => {
+      // Step 1: Idempotency check — circuit-break if key already used
+      const idempotencyEntry = await this.kv.get<StateIdempotencyEntry<S>>(
+        ["state_by_idempotency_key", idempotencyKey],
+      );
+      if (idempotencyEntry.value !== null) {
+        if (idempotencyEntry.value.commandKind !== commandKind) {
+          throw new IdempotencyKeyMismatchError(
+            idempotencyKey,
+            commandKind,
+            idempotencyEntry.value.commandKind,
+          );
+        }
+        return {
+          ...idempotencyEntry.value.state,
+          timestamp: idempotencyEntry.value.timestamp,
+          versionstamp: idempotencyEntry.versionstamp ?? "",
+          idempotencyKey,
+        } as S & StateMetadata;
+      }
+
+      // Step 2: Load current state
+      const { state, versionstamp } = await this.loadState(stateId);
+
+      // Step 3: Compute new state — decider errors propagate directly
+      const newState = commands.reduce(
+        (s, command) => decider.computeNewState(s, command),
+        state,
+      );
+
+      // Step 4: Attempt to persist with optimistic locking and atomic idempotency check
+      const persistedState = await this.persistState(
+        stateId,
+        newState,
+        versionstamp,
+        idempotencyKey,
+        commandKind,
+      );
+
+      // Conflict detected (persistedState is null), retry
+      return persistedState;
+    }, (attempts) => new OptimisticLockingError(attempts, stateId));
+  }
+
+  /**
+   * Loads the current state for the given id.
+   *
+   * @param stateId - The state id derived from the command
+   * @returns The stored state (or initial state) with its versionstamp
+   * @throws RepositoryError if load operation fails
+   */
+  private async loadState(stateId: string): Promise<LoadedState<S>> {
+    try {
+      const entry = await this.kv.get<S>(["state", stateId]);
+      // A missing entry has a null versionstamp; a stored `null` state does not
+      if (entry.versionstamp === null) {
+        return { state: this.initialState, versionstamp: null };
+      }
+      return { state: entry.value as S, versionstamp: entry.versionstamp };
+    } catch (error) {
+      throw new RepositoryError("load", error as Error);
+    }
+  }
+
+  /**
+   * Persists state with optimistic locking and atomic idempotency key check.
+   *
+   * Creates an atomic operation that:
+   * 1. Checks the loaded state versionstamp (null if no state was stored yet)
+   * 2. Checks that the idempotency key does NOT already exist (versionstamp is null)
+   * 3. Writes the new state
+   * 4. Stores the idempotency key → state mapping
+   *
+   * @param stateId - The state id derived from the command
+   * @param state - The new state to persist
+   * @param versionstamp - Versionstamp observed when the state was loaded
+   * @param idempotencyKey - The idempotency key from the command's CommandMetadata
+   * @param commandKind - The kind of the (first) command, recorded for mismatch detection
+   * @returns Persisted state with metadata, or null if conflict detected
+   * @throws RepositoryError if persist operation fails
+   */
+  private async persistState(
+    stateId: string,
+    state: S,
+    versionstamp: string | null,
+    idempotencyKey: string,
+    commandKind: string,
+  ): Promise<(S & StateMetadata) | null> {
+    try {
+      const timestamp = Date.now();
+      const entry: StateIdempotencyEntry<S> = {
+        stateId,
+        commandKind,
+        state,
+        timestamp,
+      };
+
+      const result = await this.kv.atomic()
+        .check({ key: ["state", stateId], versionstamp })
+        .check({
+          key: ["state_by_idempotency_key", idempotencyKey],
+          versionstamp: null,
+        })
+        .set(["state", stateId], state)
+        .set(["state_by_idempotency_key", idempotencyKey], entry)
+        .commit();
+
+      if (!result.ok) {
+        return null; // Conflict detected (optimistic lock OR idempotency race)
+      }
+
+      return {
+        ...state,
+        timestamp,
+        versionstamp: result.versionstamp,
+        idempotencyKey,
+      } as S & StateMetadata;
+    } catch (error) {
+      throw new RepositoryError("persist", error as Error);
+    }
+  }
+}
@@ -0,0 +1,181 @@
+/**
+ * Materialized view repository implementation using Deno KV.
+ *
+ * This module provides the Deno KV-specific `IViewStateRepository` implementation
+ * for read models that are updated event by event and queried from storage,
+ * instead of being replayed from the event store on every query.
+ * It pairs with `EventHandler` and any `IProjection` (e.g. `Projection`).
+ */
+
+import type { IProjection } from "./view.ts";
+import type { EventShape, IViewStateRepository } from "./application.ts";
+import { OptimisticLockingError, RepositoryError } from "./infrastructure.ts";
+import type { EventMetadata, ViewStateMetadata } from "./infrastructure.ts";
+import { RetryPolicy } from "./retry.ts";
+
+/**
+ * Value stored under `["view_state", viewId]`.
+ *
+ * Keeps the id of the last applied event next to the state so that
+ * re-delivering it, or any earlier event, does not apply it twice.
+ */
+interface ViewStateEntry<S> {
+  readonly state: S;
+  readonly lastEventId: string;
+  readonly timestamp: number;
+}
+
+/**
+ * Generic materialized view repository implementation using Deno KV.
+ *
+ * Storage layout:
+ * - View state: `["view_state", viewId]` → `{ state, lastEventId, timestamp }`
+ *
+ * The view id is derived from the event via `getId`. Use a prefixed id
+ * (for example `"restaurantId:" + event.restaurantId`) when several views
+ * share the same KV database.
+ *
+ * Re-delivery is a no-op: an event whose `eventId` does not sort after the last
+ * applied one (event ids are monotonic ULIDs) returns the stored state unchanged.
+ * Events of one view must therefore be projected in event order. Concurrent
+ * updates of the same view id are detected via the entry's versionstamp and
+ * retried as configured by `maxRetries` (see `RetryPolicy`).
+ *
+ * @typeParam E - Event type consumed by the view (must conform to EventShape)
+ * @typeParam S - State type of the view
+ */
+export class DenoKvViewStateRepository<E extends EventShape, S>
+  implements IViewStateRepository<E, S, EventMetadata, ViewStateMetadata> {
+  private readonly retryPolicy: RetryPolicy;
+
+  /**
+   * Creates a new DenoKvViewStateRepository.
+   *
+   * @param kv - Deno KV instance for storage
+   * @param getId - Derives the view id from an event
+   * @param maxRetries - Maximum optimistic locking attempts, or a `RetryPolicy` with backoff between them (default: 10)
+   */
+  constructor(
+    private readonly kv: Deno.Kv,
+    private readonly getId: (event: E) => string,
+    maxRetries: number | RetryPolicy = 10,
+  ) {
+    this.retryPolicy = RetryPolicy.from(maxRetries);
+  }
+
+  /**
+   * Projects an event by loading the view state, evolving it, and persisting it.
+   *
+   * 1. Load the current view state (or the view's `initialState`) with its versionstamp
+   * 2. If the event was already applied (`eventId` is not after `lastEventId`),
+   *    return the stored state
+   * 3. Evolve the state using the view
+   * 4. Persist with a versionstamp check, retrying on conflict as configured by the retry policy
+   *
+   * @param event - The event with EventMetadata to project
+   * @param view - The projection that evolves state from events
+   * @returns Updated view state with metadata
+   * @throws OptimisticLockingError if max retries exceeded
+   * @throws RepositoryError if storage operations fail
+   */
+  async execute(
+    event: E & EventMetadata,
+    view: IProjection<S, E>,
+  ): Promise<S & ViewStateMetadata> {
+    const viewId = this.getId(event);
+
+    return await this.retryPolicy.run(async () => {
+      // Step 1: Load current view state
+      const entry = await this.loadEntry(viewId);
+
+      // Step 2: Re-delivered event — nothing to apply
+      if (entry.value !== null && event.eventId <= entry.value.lastEventId) {
+        return this.toViewState(entry.value, entry.versionstamp!);
+      }
+
+      // Step 3: Evolve state — view errors propagate directly
+      const newState = view.evolve(
+        entry.value !== null ? entry.value.state : view.initialState,
+        event,
+      );
+
+      // Step 4: Attempt to persist with optimistic locking
+      const persisted = await this.persistEntry(viewId, {
+        state: newState,
+        lastEventId: event.eventId,
+        timestamp: Date.now(),
+      }, entry.versionstamp);
+
+      // Conflict detected (persisted is null), retry
+      return persisted;
+    }, (attempts) => new OptimisticLockingError(attempts, viewId));
+  }
+
+  /**
+   * Loads the stored view state for a view id, for serving queries.
+   *
+   * @param viewId - The view id (same format as produced by `getId`)
+   * @returns The stored view state with metadata, or null if no event was projected yet
+   * @throws RepositoryError if load operation fails
+   */
+  async load(viewId: string): Promise<(S & ViewStateMetadata) | null> {
+    const entry = await this.loadEntry(viewId);
+    if (entry.value === null) return null;
+    return this.toViewState(entry.value, entry.versionstamp!);
+  }
+
+  /**
+   * Reads the raw `["view_state", viewId]` entry.
+   *
+   * @throws RepositoryError if load operation fails
+   */
+  private async loadEntry(
+    viewId: string,
+  ): Promise<Deno.KvEntryMaybe<ViewStateEntry<S>>> {
+    try {
+      return await this.kv.get<ViewStateEntry<S>>(["view_state", viewId]);
+    } catch (error) {
+      throw new RepositoryError("load", error as Error);
+    }
+  }
+
+  /**
+   * Persists the view state entry with a versionstamp check.
+   *
+   * @returns Persisted view state with metadata, or null if conflict detected
+   * @throws RepositoryError if persist operation fails
+   */
+  private async persistEntry(
+    viewId: string,
+    entry: ViewStateEntry<S>,
+    versionstamp: string | null,
+  ): Promise<(S & ViewStateMetadata) | null> {
+    try {
+      const result = await this.kv.atomic()
+        .check({ key: ["view_state", viewId], versionstamp })
+        .set(["view_state", viewId], entry)
+        .commit();
+
+      if (!result.ok) {
+        return null; // Conflict detected
+      }
+
+      return this.toViewState(entry, result.versionstamp);
+    } catch (error) {
+      throw new RepositoryError("persist", error as Error);
+    }
+  }
+
+  /** Spreads the stored state together with its ViewStateMetadata. */
+  private toViewState(
+    entry: ViewStateEntry<S>,
+    versionstamp: string,
+  ): S & ViewStateMetadata {
+    return {
+      ...entry.state,
+      lastEventId: entry.lastEventId,
+      timestamp: entry.timestamp,
+      versionstamp,
+    } as S & ViewStateMetadata;
+  }
+}
@@ -0,0 +1,230 @@
+/**
+ * Crypto-shredding: field-level encryption of personal data in events.
+ *
+ * This module provides the storage-agnostic `FieldEncryption`. Selected fields of
+ * an event are encrypted with a key of the event's subject (a customer, a user)
+ * before the event is stored, and decrypted when it is loaded. Deleting the
+ * subject's key "forgets" the data: the events stay in the stream, but the
+ * encrypted fields can no longer be read.
+ *
+ * Storage-specific key stores live in `denoKvKeyStore.ts` and `postgresKeyStore.ts`.
+ */
+
+import { createHmac } from "node:crypto";
+import type { EventShape } from "./application.ts";
+
+/**
+ * Holds one AES-256 key per subject.
+ */
+export interface IKeyStore {
+  /**
+   * Loads the key of a subject.
+   *
+   * @returns The raw key, or null if the subject has no key (or was forgotten)
+   */
+  readonly getKey: (subjectId: string) => Promise<Uint8Array | null>;
+
+  /**
+   * Loads the key of a subject, creating it if missing. Concurrent callers
+   * receive the same key.
+   */
+  readonly getOrCreateKey: (subjectId: string) => Promise<Uint8Array>;
+
+  /**
+   * Deletes the key of a subject, making its encrypted fields unreadable.
+   */
+  readonly deleteKey: (subjectId: string) => Promise<void>;
+}
+
+/**
+ * Encrypted fields of one event kind.
+ *
+ * @property subjectField - Field holding the subject id the key belongs to (stays in plaintext)
+ * @property fields - Fields encrypted with the subject's key
+ */
+export interface EncryptedFields {
+  readonly subjectField: string;
+  readonly fields: readonly string[];
+}
+
+/**
+ * Ciphertext of an event's encrypted fields, stored in its `encrypted` field.
+ *
+ * @property subjectId - Subject whose key encrypted the fields
+ * @property iv - Base64 AES-GCM initialization vector
+ * @property data - Base64 AES-GCM ciphertext of the fields as JSON object
+ */
+export interface EncryptedPayload {
+  readonly subjectId: string;
+  readonly iv: string;
+  readonly data: string;
+}
+
+/**
+ * Encrypts and decrypts the personal fields of events.
+ *
+ * @remarks
+ * In the stored event, encrypted fields are replaced by `null` and their values
+ * are kept, AES-GCM encrypted with the subject's key, in an `encrypted` field.
+ * Encrypted fields that are also tag fields are replaced by `hashTag(value)`
+ * instead, so the event stays queryable by tag:
+ *
+ * ```ts
+ * (cmd) => [["email:" + encryption.hashTag(cmd.email), "UserRegisteredEvent"]]
+ * ```
+ *
+ * Once the subject is forgotten, loaded events keep `null` (or the tag hash) in
+ * their encrypted fields. Tag hashes are HMAC-SHA256 with `tagSecret`, shared by
+ * all subjects; they remain in the store after forgetting.
+ *
+ * @example
+ * ```ts
+ * const encryption = new FieldEncryption(
+ *   new DenoKvKeyStore(kv),
+ *   { UserRegisteredEvent: { subjectField: "userId", fields: ["name", "email"] } },
+ *   tagSecret,
+ * );
+ * await encryption.forget("user-42"); // GDPR erasure
+ * ```
+ */
+export class FieldEncryption {
+  /**
+   * @param keys - Store of the per-subject keys
+   * @param policy - Encrypted fields by event kind; other kinds are stored as they are
+   * @param tagSecret - HMAC secret for hashed tags
+   */
+  constructor(
+    private readonly keys: IKeyStore,
+    private readonly policy: Readonly<Record<string, EncryptedFields>>,
+    private readonly tagSecret: Uint8Array,
+  ) {}
+
+  /**
+   * Hashes the value of an encrypted tag field, as stored in the tag.
+   *
+   * @returns The hex HMAC-SHA256 of the value
+   */
+  hashTag(value: string): string {
+    return createHmac("sha256", this.tagSecret).update(value).digest("hex");
+  }
+
+  /**
+   * Forgets a subject by deleting its key.
+   */
+  forget(subjectId: string): Promise<void> {
+    return this.keys.deleteKey(subjectId);
+  }
+
+  /**
+   * Encrypts the policy's fields of each event for storage.
+   */
+  async encryptAll<E extends EventShape>(
+    events: readonly E[],
+  ): Promise<readonly E[]> {
+    const stored: E[] = [];
+    for (const event of events) {
+      stored.push(await this.encrypt(event));
+    }
+    return stored;
+  }
+
+  /**
+   * Decrypts stored events, looking each subject's key up once.
+   */
+  async decryptAll<E extends EventShape>(
+    events: readonly E[],
+  ): Promise<readonly E[]> {
+    const keys = new Map<string, Promise<CryptoKey | null>>();
+    const decrypted: E[] = [];
+    for (const event of events) {
+      decrypted.push(await this.decrypt(event, keys));
+    }
+    return decrypted;
+  }
+
+  private async encrypt<E extends EventShape>(event: E): Promise<E> {
+    const policy = this.policy[event.kind];
+    if (policy === undefined) return event;
+
+    const fields = event as Record<string, unknown>;
+    const subjectId = fields[policy.subjectField];
+    if (typeof subjectId !== "string" || subjectId === "") {
+      throw new Error(
+        `${event.kind}.${policy.subjectField} must be a non-empty subject id`,
+      );
+    }
+
+    const tagFields = new Set<string>(event.tagFields ?? []);
+    const plaintext: Record<string, unknown> = {};
+    const stored: Record<string, unknown> = { ...event };
+    for (const field of policy.fields) {
+      const value = fields[field];
+      if (value === undefined) continue;
+      plaintext[field] = value;
+      stored[field] = tagFields.has(field) && typeof value === "string"
+        ? this.hashTag(value)
+        : null;
+    }
+
+    const key = await importKey(await this.keys.getOrCreateKey(subjectId));
+    const iv = crypto.getRandomValues(new Uint8Array(12));
+    const data = await crypto.subtle.encrypt(
+      { name: "AES-GCM", iv },
+      key,
+      new TextEncoder().encode(JSON.stringify(plaintext)),
+    );
+    const encrypted: EncryptedPayload = {
+      subjectId,
+      iv: toBase64(iv),
+      data: toBase64(new Uint8Array(data)),
+    };
+    return { ...stored, encrypted } as unknown as E;
+  }
+
+  private async decrypt<E extends EventShape>(
+    event: E,
+    keys: Map<string, Promise<CryptoKey | null>>,
+  ): Promise<E> {
+    const { encrypted, ...stored } = event as E & {
+      encrypted?: EncryptedPayload;
+    };
+    if (encrypted === undefined) return event;
+
+    let key = keys.get(encrypted.subjectId);
+    if (key === undefined) {
+      key = this.keys.getKey(encrypted.subjectId).then((raw) =>
+        raw === null ? null : importKey(raw)
+      );
+      keys.set(encrypted.subjectId, key);
+    }
+    const cryptoKey = await key;
+    if (cryptoKey === null) return stored as unknown as E; // forgotten
+
+    const plaintext = await crypto.subtle.decrypt(
+      { name: "AES-GCM", iv: fromBase64(encrypted.iv) },
+      cryptoKey,
+      fromBase64(encrypted.data),
+    );
+    return {
+      ...stored,
+      ...JSON.parse(new TextDecoder().decode(plaintext)),
+    } as unknown as E;
+  }
+}
+
+function importKey(raw: Uint8Array): Promise<CryptoKey> {
+  return crypto.subtle.importKey("raw", new Uint8Array(raw), "AES-GCM", false, [
+    "encrypt",
+    "decrypt",
+  ]);
+}
+
+function toBase64(bytes: Uint8Array): string {
+  let binary = "";
+  for (const byte of bytes) binary += String.fromCharCode(byte);
+  return btoa(binary);
+}
+
+function fromBase64(base64: string): Uint8Array<ArrayBuffer> {
+  return Uint8Array.from(atob(base64), (char) => char.charCodeAt(0));
+}
@@ -0,0 +1,512 @@
+/**
+ * Reusable conformance suite for `IEventRepository` implementations.
+ *
+ * The suite exercises a repository through a small built-in account domain and
+ * checks the guarantees every store in this library provides: idempotent
+ * replays, idempotency key/kind mismatch detection, optimistic locking under
+ * concurrent conflicting appends, batch accumulation, tag subset querying,
+ * chronological ordering and, when implemented, loading with event metadata.
+ * A third backend (SQLite, in-memory, a custom store) that passes it is a
+ * drop-in replacement for `DenoKvEventRepository`.
+ *
+ * Like `test_specification.ts`, it is runtime-agnostic: inject any
+ * {@link Assertions} implementation.
+ */
+
+import { DcbDecider } from "./decider.ts";
+import type { IEventRepository, QueryTuple } from "./application.ts";
+import {
+  IdempotencyKeyMismatchError,
+  OptimisticLockingError,
+} from "./infrastructure.ts";
+import type { CommandMetadata, EventMetadata } from "./infrastructure.ts";
+import type { Assertions } from "./test_specification.ts";
+
+// ---------------------------------------------------------------------------
+// Conformance domain
+// ---------------------------------------------------------------------------
+
+/** Opens an account within a tenant. */
+export type OpenAccountCommand = {
+  readonly kind: "OpenAccountCommand";
+  readonly accountId: string;
+  readonly tenantId: string;
+};
+
+/** Deposits money to an opened account. */
+export type DepositMoneyCommand = {
+  readonly kind: "DepositMoneyCommand";
+  readonly accountId: string;
+  readonly amount: number;
+};
+
+/** Commands of the conformance domain. */
+export type ConformanceCommand = OpenAccountCommand | DepositMoneyCommand;
+
+/** Emitted when an account is opened. Tagged by account and tenant. */
+export type AccountOpenedEvent = {
+  readonly kind: "AccountOpenedEvent";
+  readonly accountId: string;
+  readonly tenantId: string;
+  readonly tagFields: readonly ["accountId", "tenantId"];
+};
+
+/** Emitted when money is deposited. Tagged by account. */
+export type MoneyDepositedEvent = {
+  readonly kind: "MoneyDepositedEvent";
+  readonly accountId: string;
+  readonly amount: number;
+  readonly tagFields: readonly ["accountId"];
+};
+
+/** Events of the conformance domain. */
+export type ConformanceEvent = AccountOpenedEvent | MoneyDepositedEvent;
+
+/** Domain error raised by the conformance decider. */
+export class ConformanceDomainError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "ConformanceDomainError";
+  }
+}
+
+/**
+ * Query tuples the factory must pass to the repository under test.
+ *
+ * Opening an account loads the account's `AccountOpenedEvent`; a deposit loads
+ * it together with the account's deposits.
+ */
+export const conformanceQueryTuples = (
+  command: ConformanceCommand,
+): QueryTuple<ConformanceEvent>[] => {
+  switch (command.kind) {
+    case "OpenAccountCommand":
+      return [["accountId:" + command.accountId, "AccountOpenedEvent"]];
+    case "DepositMoneyCommand":
+      return [
+        ["accountId:" + command.accountId, "AccountOpenedEvent"],
+        ["accountId:" + command.accountId, "MoneyDepositedEvent"],
+      ];
+  }
+};
+
+// ---------------------------------------------------------------------------
+// Suite
+// ---------------------------------------------------------------------------
+
+/**
+ * Repository under test, typed to the conformance domain.
+ *
+ * `loadWithMetadata` is not part of `IEventRepository`; when implemented (as
+ * `ProcessRunner` requires), it is checked too.
+ */
+export type ConformanceEventRepository =
+  & IEventRepository<
+    ConformanceCommand,
+    ConformanceEvent,
+    ConformanceEvent,
+    CommandMetadata,
+    EventMetadata
+  >
+  & {
+    readonly loadWithMetadata?: (
+      queryTuples: QueryTuple<ConformanceEvent>[],
+    ) => Promise<readonly (ConformanceEvent & EventMetadata)[]>;
+  };
+
+/**
+ * Creates the repository under test for the given query tuples function.
+ *
+ * Called once per scenario. Scenarios use unique account ids and idempotency
+ * keys, so every call may share the same underlying store.
+ */
+export type EventRepositoryFactory = (
+  getQueryTuples: typeof conformanceQueryTuples,
+) => ConformanceEventRepository | Promise<ConformanceEventRepository>;
+
+/**
+ * A named conformance scenario.
+ */
+interface Scenario {
+  readonly name: string;
+  readonly run: (
+    repository: ConformanceEventRepository,
+    id: (name: string) => string,
+  ) => Promise<void>;
+}
+
+/**
+ * Runs the conformance suite against repositories created by `factory`.
+ *
+ * Scenarios run sequentially, each on a fresh repository from the factory. The
+ * first failing scenario rejects the returned promise with an error naming it
+ * (the original failure is kept as `cause`).
+ *
+ * @example Deno KV:
+ * ```typescript
+ * import { assert, assertEquals } from "@std/assert";
+ *
+ * Deno.test("DenoKvEventRepository conforms", async () => {
+ *   const kv = await Deno.openKv(":memory:");
+ *   try {
+ *     await runEventRepositoryConformance(
+ *       (getQueryTuples) => new DenoKvEventRepository(kv, getQueryTuples),
+ *       { assert, assertEquals },
+ *     );
+ *   } finally {
+ *     kv.close();
+ *   }
+ * });
+ * ```
+ *
+ * @param factory - Creates the repository under test
+ * @param assertions - Assertion library used by the scenarios
+ */
+export async function runEventRepositoryConformance(
+  factory: EventRepositoryFactory,
+  assertions: Assertions,
+): Promise<void> {
+  const runId = crypto.randomUUID();
+  for (const [index, scenario] of scenarios(assertions).entries()) {
+    const repository = await factory(conformanceQueryTuples);
+    const id = (name: string) => `${runId}-${index}-${name}`;
+    try {
+      await scenario.run(repository, id);
+    } catch (error) {
+      throw new Error(
+        `Conformance scenario "${scenario.name}" failed: ${
+          (error as Error).message
+        }`,
+        { cause: error },
+      );
+    }
+  }
+}
+
+function scenarios(
+  { assert, assertEquals }: Assertions,
+): readonly Scenario[] {
+  // Created lazily: decider.ts imports mod.ts, which re-exports this module
+  const accountDecider = new DcbDecider<
+    ConformanceCommand,
+    { readonly opened: boolean },
+    ConformanceEvent,
+    ConformanceEvent
+  >(
+    (command, state) => {
+      switch (command.kind) {
+        case "OpenAccountCommand":
+          if (state.opened) {
+            throw new ConformanceDomainError(
+              `Account ${command.accountId} already opened`,
+            );
+          }
+          return [{
+            kind: "AccountOpenedEvent",
+            accountId: command.accountId,
+            tenantId: command.tenantId,
+            tagFields: ["accountId", "tenantId"],
+          }];
+        case "DepositMoneyCommand":
+          if (!state.opened) {
+            throw new ConformanceDomainError(
+              `Account ${command.accountId} not opened`,
+            );
+          }
+          return [{
+            kind: "MoneyDepositedEvent",
+            accountId: command.accountId,
+            amount: command.amount,
+            tagFields: ["accountId"],
+          }];
+      }
+    },
+    (state, event) =>
+      event.kind === "AccountOpenedEvent" ? { opened: true } : state,
+    { opened: false },
+  );
+
+  const open = (
+    accountId: string,
+    tenantId: string,
+    idempotencyKey: string,
+  ): OpenAccountCommand & CommandMetadata => ({
+    kind: "OpenAccountCommand",
+    accountId,
+    tenantId,
+    idempotencyKey,
+  });
+
+  const deposit = (
+    accountId: string,
+    amount: number,
+    idempotencyKey: string,
+  ): DepositMoneyCommand & CommandMetadata => ({
+    kind: "DepositMoneyCommand",
+    accountId,
+    amount,
+    idempotencyKey,
+  });
+
+  const rejection = async (promise: Promise<unknown>): Promise<unknown> => {
+    try {
+      await promise;
+    } catch (error) {
+      return error;
+    }
+    throw new Error("Expected promise to reject, but it resolved.");
+  };
+
+  const accountIds = (events: readonly ConformanceEvent[]) =>
+    events.map((event) => event.accountId);
+
+  return [
+    {
+      name: "execute appends events with metadata",
+      run: async (repository, id) => {
+        const events = await repository.execute(
+          open(id("a1"), id("t1"), id("k1")),
+          accountDecider,
+        );
+        assertEquals(events.length, 1);
+        assertEquals(events[0].kind, "AccountOpenedEvent");
+        assertEquals(events[0].accountId, id("a1"));
+        assertEquals(events[0].idempotencyKey, id("k1"));
+        assert(typeof events[0].eventId === "string");
+        assert(typeof events[0].timestamp === "number");
+        assert(typeof events[0].versionstamp === "string");
+
+        const loaded = await repository.load(
+          conformanceQueryTuples(deposit(id("a1"), 0, id("unused"))),
+        );
+        assertEquals(accountIds(loaded), [id("a1")]);
+      },
+    },
+    {
+      name: "loadWithMetadata returns the loaded events with their ids",
+      run: async (repository, id) => {
+        if (repository.loadWithMetadata === undefined) return;
+        const [opened] = await repository.execute(
+          open(id("a1"), id("t1"), id("k1")),
+          accountDecider,
+        );
+        const [deposited] = await repository.execute(
+          deposit(id("a1"), 5, id("k2")),
+          accountDecider,
+        );
+
+        const queryTuples = conformanceQueryTuples(
+          deposit(id("a1"), 0, id("unused")),
+        );
+        const loaded = await repository.loadWithMetadata(queryTuples);
+        assertEquals(
+          loaded.map((event) => event.eventId),
+          [opened.eventId, deposited.eventId],
+        );
+        assert(loaded.every((event) => typeof event.timestamp === "number"));
+        assertEquals(
+          accountIds(loaded),
+          accountIds(await repository.load(queryTuples)),
+        );
+      },
+    },
+    {
+      name: "domain errors propagate and append nothing",
+      run: async (repository, id) => {
+        const error = await rejection(
+          repository.execute(deposit(id("a1"), 10, id("k1")), accountDecider),
+        );
+        assert(error instanceof ConformanceDomainError);
+
+        // The key was not consumed by the failed command
+        const events = await repository.execute(
+          open(id("a1"), id("t1"), id("k1")),
+          accountDecider,
+        );
+        assertEquals(events.length, 1);
+      },
+    },
+    {
+      name: "repeated idempotency key returns the original events",
+      run: async (repository, id) => {
+        await repository.execute(
+          open(id("a1"), id("t1"), id("k1")),
+          accountDecider,
+        );
+        const first = await repository.execute(
+          deposit(id("a1"), 10, id("k2")),
+          accountDecider,
+        );
+        const replayed = await repository.execute(
+          deposit(id("a1"), 10, id("k2")),
+          accountDecider,
+        );
+        assertEquals(
+          replayed.map((event) => event.eventId),
+          first.map((event) => event.eventId),
+        );
+        assertEquals(replayed[0].idempotencyKey, id("k2"));
+
+        // A replayed command whose decision would now fail still circuit-breaks
+        const reopened = await repository.execute(
+          open(id("a1"), id("t1"), id("k1")),
+          accountDecider,
+        );
+        assertEquals(reopened.length, 1);
+        assertEquals(reopened[0].kind, "AccountOpenedEvent");
+      },
+    },
+    {
+      name: "idempotency key reused by another command kind is rejected",
+      run: async (repository, id) => {
+        await repository.execute(
+          open(id("a1"), id("t1"), id("k1")),
+          accountDecider,
+        );
+        const error = await rejection(
+          repository.execute(deposit(id("a1"), 10, id("k1")), accountDecider),
+        );
+        assert(error instanceof IdempotencyKeyMismatchError);
+      },
+    },
+    {
+      name: "concurrent conflicting appends commit exactly once",
+      run: async (repository, id) => {
+        const results = await Promise.allSettled([
+          repository.execute(
+            open(id("a1"), id("t1"), id("k1")),
+            accountDecider,
+          ),
+          repository.execute(
+            open(id("a1"), id("t1"), id("k2")),
+            accountDecider,
+          ),
+        ]);
+        const rejected = results.filter((r) => r.status === "rejected");
+        assertEquals(rejected.length, 1);
+        const reason = (rejected[0] as PromiseRejectedResult).reason;
+        assert(
+          reason instanceof ConformanceDomainError ||
+            reason instanceof OptimisticLockingError,
+        );
+
+        const loaded = await repository.load([
+          ["accountId:" + id("a1"), "AccountOpenedEvent"],
+        ]);
+        assertEquals(accountIds(loaded), [id("a1")]);
+      },
+    },
+    {
+      name: "executeBatch propagates accumulated events between commands",
+      run: async (repository, id) => {
+        const events = await repository.executeBatch([
+          open(id("a1"), id("t1"), id("k1")),
+          deposit(id("a1"), 10, id("k1")),
+          deposit(id("a1"), 20, id("k1")),
+        ], accountDecider);
+        assertEquals(events.map((event) => event.kind), [
+          "AccountOpenedEvent",
+          "MoneyDepositedEvent",
+          "MoneyDepositedEvent",
+        ]);
+        assert(events.every((event) => event.idempotencyKey === id("k1")));
+
+        // The whole batch is one logical operation for its idempotency key
+        const replayed = await repository.executeBatch([
+          open(id("a1"), id("t1"), id("k1")),
+          deposit(id("a1"), 10, id("k1")),
+          deposit(id("a1"), 20, id("k1")),
+        ], accountDecider);
+        assertEquals(
+          replayed.map((event) => event.eventId),
+          events.map((event) => event.eventId),
+        );
+      },
+    },
+    {
+      name: "executeBatch appends nothing when a command fails",
+      run: async (repository, id) => {
+        const error = await rejection(
+          repository.executeBatch([
+            open(id("a1"), id("t1"), id("k1")),
+            deposit(id("a2"), 10, id("k1")),
+          ], accountDecider),
+        );
+        assert(error instanceof ConformanceDomainError);
+
+        const loaded = await repository.load([
+          ["accountId:" + id("a1"), "AccountOpenedEvent"],
+        ]);
+        assertEquals(loaded.length, 0);
+      },
+    },
+    {
+      name: "query tuples match events carrying a subset of their tags",
+      run: async (repository, id) => {
+        await repository.execute(
+          open(id("a1"), id("t1"), id("k1")),
+          accountDecider,
+        );
+
+        const byTenant = await repository.load([
+          ["tenantId:" + id("t1"), "AccountOpenedEvent"],
+        ]);
+        assertEquals(accountIds(byTenant), [id("a1")]);
+
+        // Tag order within a tuple is irrelevant
+        const byBoth = await repository.load([
+          [
+            "tenantId:" + id("t1"),
+            "accountId:" + id("a1"),
+            "AccountOpenedEvent",
+          ],
+        ]);
+        assertEquals(accountIds(byBoth), [id("a1")]);
+
+        const otherTenant = await repository.load([
+          ["tenantId:" + id("t2"), "AccountOpenedEvent"],
+        ]);
+        assertEquals(otherTenant.length, 0);
+
+        const otherKind = await repository.load([
+          ["tenantId:" + id("t1"), "MoneyDepositedEvent"],
+        ]);
+        assertEquals(otherKind.length, 0);
+      },
+    },
+    {
+      name: "loaded and produced events are in chronological order",
+      run: async (repository, id) => {
+        for (const account of ["a1", "a2", "a3"]) {
+          await repository.execute(
+            open(id(account), id("t1"), id("k-" + account)),
+            accountDecider,
+          );
+        }
+
+        const loaded = await repository.load([
+          ["accountId:" + id("a3"), "AccountOpenedEvent"],
+          ["accountId:" + id("a1"), "AccountOpenedEvent"],
+          ["accountId:" + id("a2"), "AccountOpenedEvent"],
+          // Overlapping tuple — events are not duplicated
+          [
+            "accountId:" + id("a1"),
+            "tenantId:" + id("t1"),
+            "AccountOpenedEvent",
+          ],
+        ]);
+        assertEquals(accountIds(loaded), [id("a1"), id("a2"), id("a3")]);
+
+        const deposits = await repository.executeBatch([
+          deposit(id("a2"), 3, id("k-batch")),
+          deposit(id("a2"), 1, id("k-batch")),
+          deposit(id("a2"), 2, id("k-batch")),
+        ], accountDecider);
+        assertEquals(
+          deposits.map((event) => (event as MoneyDepositedEvent).amount),
+          [3, 1, 2],
+        );
+      },
+    },
+  ];
+}
@@ -0,0 +1,100 @@
+import { assert, assertEquals, assertRejects } from "@std/assert";
+import {
+  type ConformanceCommand,
+  type ConformanceEvent,
+  type ConformanceEventRepository,
+  runEventRepositoryConformance,
+} from "./event_repository_conformance.ts";
+import { DenoKvEventRepository } from "./denoKvEventRepository.ts";
+import {
+  InMemoryEventRepository,
+  InMemoryEventStore,
+} from "./inMemoryEventRepository.ts";
+import {
+  SQLITE_DCB_SCHEMA,
+  SqliteEventRepository,
+} from "./sqliteEventRepository.ts";
+import { DatabaseSync } from "node:sqlite";
+
+Deno.test("Conformance - DenoKvEventRepository (idempotent mode)", async () => {
+  const kv = await Deno.openKv(":memory:");
+  try {
+    await runEventRepositoryConformance(
+      (getQueryTuples) => new DenoKvEventRepository(kv, getQueryTuples),
+      { assert, assertEquals },
+    );
+  } finally {
+    kv.close();
+  }
+});
+
+Deno.test("Conformance - DenoKvEventRepository (full-replay mode)", async () => {
+  const kv = await Deno.openKv(":memory:");
+  try {
+    await runEventRepositoryConformance(
+      (getQueryTuples) =>
+        new DenoKvEventRepository(kv, getQueryTuples, 10, 5, false),
+      { assert, assertEquals },
+    );
+  } finally {
+    kv.close();
+  }
+});
+
+Deno.test("Conformance - InMemoryEventRepository", async () => {
+  const store = new InMemoryEventStore();
+  await runEventRepositoryConformance(
+    (getQueryTuples) => new InMemoryEventRepository(store, getQueryTuples),
+    { assert, assertEquals },
+  );
+  await runEventRepositoryConformance(
+    (getQueryTuples) =>
+      new InMemoryEventRepository(store, getQueryTuples, 10, 5, false),
+    { assert, assertEquals },
+  );
+});
+
+Deno.test("Conformance - SqliteEventRepository", async () => {
+  const db = new DatabaseSync(":memory:");
+  try {
+    db.exec(SQLITE_DCB_SCHEMA);
+    await runEventRepositoryConformance(
+      (getQueryTuples) => new SqliteEventRepository(db, getQueryTuples),
+      { assert, assertEquals },
+    );
+    await runEventRepositoryConformance(
+      (getQueryTuples) =>
+        new SqliteEventRepository(db, getQueryTuples, 10, false),
+      { assert, assertEquals },
+    );
+  } finally {
+    db.close();
+  }
+});
+
+Deno.test("Conformance - a non-conforming repository fails with the scenario name", async () => {
+  const store = new InMemoryEventStore();
+  const error = await assertRejects(
+    () =>
+      runEventRepositoryConformance(
+        (getQueryTuples): ConformanceEventRepository => {
+          const repository = new InMemoryEventRepository<
+            ConformanceCommand,
+            ConformanceEvent,
+            ConformanceEvent
+          >(store, getQueryTuples);
+          // Returns loaded events newest first
+          return {
+            execute: repository.execute.bind(repository),
+            executeBatch: repository.executeBatch.bind(repository),
+            load: async (queryTuples) =>
+              [...await repository.load(queryTuples)].reverse(),
+          };
+        },
+        { assert, assertEquals },
+      ),
+    Error,
+    'Conformance scenario "loaded and produced events are in chronological order" failed',
+  );
+  assert(error.cause instanceof Error);
+});
@@ -0,0 +1,541 @@
+/**
+ * Event-sourced repository implementation for DCB pattern in memory.
+ *
+ * This module provides an `IEventRepository` and `IEventLoader` over a plain
+ * in-memory event log, with the same semantics as the Deno KV and PostgreSQL
+ * stores. It needs neither `--unstable-kv` nor a database, so it suits unit
+ * tests and browser prototypes. Nothing is persisted across process restarts.
+ */
+
+import { monotonicUlid } from "@std/ulid";
+import type { IEventComputation } from "./decider.ts";
+import type {
+  CommandShape,
+  EventShape,
+  IEventLoader,
+  IEventRepository,
+  QueryTuple,
+} from "./application.ts";
+import {
+  IdempotencyKeyMismatchError,
+  matchesQueryTuple,
+  OptimisticLockingError,
+  optionsMetadataMapper,
+  RepositoryError,
+} from "./infrastructure.ts";
+import type {
+  CommandMetadata,
+  EventMetadata,
+  MetadataMapper,
+  RepositoryOptionsParameter,
+  StoredMetadata,
+  Tag,
+} from "./infrastructure.ts";
+import { TagFieldConfigurationError } from "./denoKvEventRepository.ts";
+import { RetryPolicy } from "./retry.ts";
+
+/**
+ * Event stored in an {@link InMemoryEventStore}.
+ *
+ * @property event - The event as produced by the decider
+ * @property metadata - Metadata assigned when the event was appended
+ * @property storedMetadata - Command metadata stored by the repository's `MetadataMapper`
+ * @property tags - Tags extracted from the event's `tagFields`, sorted
+ */
+export interface StoredEvent {
+  readonly event: EventShape;
+  readonly metadata: EventMetadata;
+  readonly storedMetadata: StoredMetadata;
+  readonly tags: readonly Tag[];
+}
+
+/**
+ * Events produced by an idempotency key, with the kind of the command that produced them.
+ */
+interface IdempotencyEntry {
+  readonly eventIds: readonly string[];
+  readonly commandKind: string;
+}
+
+/**
+ * In-memory event log shared by {@link InMemoryEventRepository} and
+ * {@link InMemoryEventLoader} instances, the in-memory counterpart of a
+ * `Deno.Kv` database or a PostgreSQL `dcb` schema.
+ *
+ * @example
+ * ```typescript
+ * const store = new InMemoryEventStore();
+ * const repository = new InMemoryEventRepository(store, getQueryTuples);
+ * const loader = new InMemoryEventLoader(store);
+ * ```
+ */
+export class InMemoryEventStore {
+  /** Appended events in ascending eventId order */
+  readonly events: StoredEvent[] = [];
+  /** Idempotency key → ids of the events it produced and the command kind */
+  readonly idempotencyKeys: Map<string, IdempotencyEntry> = new Map();
+  /** Number of committed appends, used as versionstamp */
+  commits = 0;
+}
+
+/**
+ * Last-event pointer of a query tuple with the event id it pointed to when loaded.
+ */
+interface LoadedPointer<Ei extends EventShape> {
+  readonly tuple: QueryTuple<Ei>;
+  readonly eventId: string | null;
+}
+
+/**
+ * Options of `InMemoryEventRepository`.
+ *
+ * @property metadata - Maps command metadata to the metadata stored with its events, and back to `EM` on load (see `MetadataMapper`). Default: `traceMetadataMapper`
+ */
+export interface InMemoryEventRepositoryOptions<
+  CM extends CommandMetadata = CommandMetadata,
+  EM extends EventMetadata = EventMetadata,
+> {
+  readonly metadata?: MetadataMapper<CM, EM>;
+}
+
+/**
+ * Generic event-sourced repository implementation in memory.
+ *
+ * Mirrors `DenoKvEventRepository`:
+ * - Events are indexed by every non-empty subset of the tags extracted from their
+ *   `tagFields`; a query tuple matches events of its type carrying all its tags
+ *   (checked with `matchesQueryTuple`). Events without tags are not indexed.
+ * - In idempotent mode only the latest event per query tuple is loaded; otherwise
+ *   all matching events are loaded in eventId order.
+ * - The last event id per loaded query tuple acts as the optimistic lock: if any
+ *   moved between load and append, the load-decide-append cycle is retried.
+ * - A repeated idempotency key returns the events it produced (circuit-break), or
+ *   throws `IdempotencyKeyMismatchError` when it was used by another command kind.
+ *
+ * Loading yields to the event loop, so concurrently executed commands interleave
+ * the same way they do against a real store.
+ *
+ * @typeParam C - Command type (must conform to CommandShape)
+ * @typeParam Ei - Input event type (consumed by decider, must conform to EventShape)
+ * @typeParam Eo - Output event type (produced by decider, must conform to EventShape)
+ * @typeParam CM - Command metadata type (default: `CommandMetadata`)
+ * @typeParam EM - Event metadata type, restored by the `metadata` mapper (default: `EventMetadata`)
+ */
+export class InMemoryEventRepository<
+  C extends CommandShape,
+  Ei extends EventShape,
+  Eo extends EventShape,
+  CM extends CommandMetadata = CommandMetadata,
+  EM extends EventMetadata = EventMetadata,
+> implements IEventRepository<C, Ei, Eo, CM, EM> {
+  private readonly retryPolicy: RetryPolicy;
+  private readonly metadata: MetadataMapper<CM, EM>;
+
+  /**
+   * Creates a new InMemoryEventRepository.
+   *
+   * @param store - In-memory event log
+   * @param getQueryTuples - Returns array of query tuples to load for this command
+   * @param maxRetries - Maximum optimistic locking attempts, or a `RetryPolicy` with backoff between them (default: 10)
+   * @param maxTagFields - Maximum number of tag fields per event (default: 5)
+   * @param idempotent - When true, loads only the latest event per query tuple. When false, loads all matching events. Default: true
+   * @param options - Metadata mapping (see `InMemoryEventRepositoryOptions`); required with custom `CM`/`EM`, for their `metadata` mapper
+   */
+  constructor(
+    private readonly store: InMemoryEventStore,
+    private readonly getQueryTuples: (
+      command: C,
+    ) => QueryTuple<Ei>[],
+    maxRetries: number | RetryPolicy = 10,
+    private readonly maxTagFields: number = 5,
+    private readonly idempotent: boolean = true,
+    ...[options]: RepositoryOptionsParameter<
+      InMemoryEventRepositoryOptions<CM, EM>,
+      CM,
+      EM
+    >
+  ) {
+    this.retryPolicy = RetryPolicy.from(maxRetries);
+    this.metadata = optionsMetadataMapper(options);
+  }
+
+  /**
+   * Executes a command by loading events, computing new events, and appending them.
+   *
+   * @param command - The command with CommandMetadata to execute
+   * @param decider - The decider that computes new events
+   * @returns Newly produced events with metadata, or existing events on circuit-break
+   * @throws IdempotencyKeyMismatchError if the key was used by a different command kind
+   * @throws OptimisticLockingError if max retries exceeded
+   * @throws RepositoryError if an event has too many tag fields
+   */
+  async execute(
+    command: C & CM,
+    decider: IEventComputation<C, Ei, Eo>,
+  ): Promise<readonly (Eo & EM)[]> {
+    const { idempotencyKey } = command;
+    // Computed after the circuit-break, and kept for the exhaustion error
+    let queryTuples: QueryTuple<Ei>[] = [];
+
+    return await this.retryPolicy.run(
+      async () => {
+        // Step 1: Idempotency check — circuit-break if key already used
+        const previous = this.circuitBreak(idempotencyKey, command.kind);
+        if (previous) return previous;
+
+        queryTuples = this.getQueryTuples(command);
+
+        // Step 2: Load events for decider
+        const { events, pointers } = await this.loadEvents(queryTuples);
+
+        // Step 3: Compute new events using decider
+        const newEvents = decider.computeNewEvents(events, command);
+
+        if (newEvents.length === 0) return [];
+
+        // Step 4: Append with optimistic locking and idempotency check
+        const appended = this.appendEvents(
+          newEvents,
+          pointers,
+          idempotencyKey,
+          command.kind,
+          this.metadata.toStored(command),
+        );
+
+        // Conflict detected (appended is null), retry
+        return appended;
+      },
+      (attempts) =>
+        OptimisticLockingError.forQueryTuples(attempts, queryTuples),
+    );
+  }
+
+  /**
+   * Executes a batch of commands by loading events once, processing each command sequentially
+   * with accumulated event propagation, and appending all events at once.
+   *
+   * For each command after the first, accumulated events from prior commands are filtered
+   * through the current command's query tuples using `matchesQueryTuple`, then appended
+   * to the initially-loaded events before computing new events.
+   *
+   * @param commands - The ordered list of commands with CommandMetadata to execute
+   * @param decider - The decider that computes new events from each command and event history
+   * @returns All produced events with metadata, preserving production order
+   * @throws IdempotencyKeyMismatchError if the key was used by a different command kind
+   * @throws OptimisticLockingError if max retries exceeded
+   * @throws RepositoryError if an event has too many tag fields
+   */
+  async executeBatch(
+    commands: readonly (C & CM)[],
+    decider: IEventComputation<C, Ei, Eo>,
+  ): Promise<readonly (Eo & EM)[]> {
+    if (commands.length === 0) return [];
+
+    // Use the idempotencyKey from the first command for the entire batch
+    const { idempotencyKey } = commands[0];
+
+    return await this.retryPolicy.run(async () => {
+      // Step 1: Idempotency check — circuit-break if key already used
+      const previous = this.circuitBreak(idempotencyKey, commands[0].kind);
+      if (previous) return previous;
+
+      // Step 2: Load events using query tuples from the first command
+      const firstQueryTuples = this.getQueryTuples(commands[0]);
+      const { events: initialEvents, pointers } = await this.loadEvents(
+        firstQueryTuples,
+      );
+      const allPointers = [...pointers];
+
+      // Step 3: Process each command sequentially, accumulating events
+      const accumulatedEvents: Eo[] = [];
+
+      for (let i = 0; i < commands.length; i++) {
+        const command = commands[i];
+        let eventsForCommand: readonly Ei[] = initialEvents;
+
+        if (i > 0) {
+          const queryTuples = this.getQueryTuples(command);
+          // Lock the last-event pointers of subsequent commands as well
+          allPointers.push(
+            ...queryTuples.map((tuple) => ({
+              tuple,
+              eventId: this.lastEventId(tuple),
+            })),
+          );
+          const matchingAccumulated = accumulatedEvents.filter((event) =>
+            queryTuples.some((tuple) => matchesQueryTuple<Eo, Ei>(event, tuple))
+          );
+          eventsForCommand = [
+            ...initialEvents,
+            ...matchingAccumulated as unknown as Ei[],
+          ];
+        }
+
+        // Domain errors propagate immediately — nothing is appended
+        accumulatedEvents.push(
+          ...decider.computeNewEvents(eventsForCommand, command),
+        );
+      }
+
+      if (accumulatedEvents.length === 0) {
+        return [];
+      }
+
+      // Step 4: Append all events at once with idempotency check
+      const appended = this.appendEvents(
+        accumulatedEvents,
+        allPointers,
+        idempotencyKey,
+        commands[0].kind,
+        this.metadata.toStored(commands[0]),
+      );
+
+      // Conflict detected, retry entire batch
+      return appended;
+    }, (attempts) =>
+      OptimisticLockingError.forQueryTuples(
+        attempts,
+        commands.flatMap((command) => this.getQueryTuples(command)),
+      ));
+  }
+
+  /**
+   * Loads events matching the given query tuples without executing the decide-append cycle.
+   *
+   * @param queryTuples - Array of query tuples specifying which events to load
+   * @returns A promise resolving to the loaded events in chronological order
+   */
+  async load(queryTuples: QueryTuple<Ei>[]): Promise<readonly Ei[]> {
+    const { events } = await this.loadEvents(queryTuples);
+    return events;
+  }
+
+  /**
+   * Loads events matching the given query tuples together with their event metadata.
+   *
+   * @param queryTuples - Array of query tuples specifying which events to load
+   * @returns A promise resolving to the loaded events with their metadata in chronological order
+   */
+  async loadWithMetadata(
+    queryTuples: QueryTuple<Ei>[],
+  ): Promise<readonly (Ei & EM)[]> {
+    // Yield like a storage round-trip
+    await Promise.resolve();
+    return selectStoredEvents(this.store, queryTuples, this.idempotent)
+      .map((stored) => this.withMetadata<Ei>(stored));
+  }
+
+  /**
+   * Returns the events of an already used idempotency key, or null if the key is unused.
+   *
+   * @throws IdempotencyKeyMismatchError if the key was used by a different command kind
+   */
+  private circuitBreak(
+    idempotencyKey: string,
+    commandKind: string,
+  ): readonly (Eo & EM)[] | null {
+    const entry = this.store.idempotencyKeys.get(idempotencyKey);
+    if (entry === undefined) return null;
+    if (entry.commandKind !== commandKind) {
+      throw new IdempotencyKeyMismatchError(
+        idempotencyKey,
+        commandKind,
+        entry.commandKind,
+      );
+    }
+    const ids = new Set(entry.eventIds);
+    return this.store.events
+      .filter((stored) => ids.has(stored.metadata.eventId))
+      .map((stored) => this.withMetadata<Eo>(stored));
+  }
+
+  /**
+   * Loads events and the last-event pointers of the query tuples.
+   */
+  private async loadEvents(
+    queryTuples: QueryTuple<Ei>[],
+  ): Promise<{
+    events: readonly Ei[];
+    pointers: readonly LoadedPointer<Ei>[];
+  }> {
+    // Yield like a storage round-trip, so concurrent commands can conflict
+    await Promise.resolve();
+    return {
+      events: selectEvents(this.store, queryTuples, this.idempotent),
+      pointers: queryTuples.map((tuple) => ({
+        tuple,
+        eventId: this.lastEventId(tuple),
+      })),
+    };
+  }
+
+  private lastEventId(tuple: QueryTuple<Ei>): string | null {
+    return lastEvent(this.store, tuple)?.metadata.eventId ?? null;
+  }
+
+  /**
+   * Appends events if no loaded pointer moved and the idempotency key is unused.
+   *
+   * @returns Appended events with metadata, or null if conflict detected
+   * @throws RepositoryError if an event has too many tag fields
+   */
+  private appendEvents(
+    events: readonly Eo[],
+    pointers: readonly LoadedPointer<Ei>[],
+    idempotencyKey: string,
+    commandKind: string,
+    storedMetadata: StoredMetadata,
+  ): readonly (Eo & EM)[] | null {
+    if (
+      this.store.idempotencyKeys.has(idempotencyKey) ||
+      pointers.some(({ tuple, eventId }) => this.lastEventId(tuple) !== eventId)
+    ) {
+      return null;
+    }
+
+    try {
+      const timestamp = Date.now();
+      const versionstamp = String(this.store.commits + 1).padStart(20, "0");
+      const stored: StoredEvent[] = events.map((event) => {
+        const tagFields = (event.tagFields ?? []) as readonly string[];
+        if (tagFields.length > this.maxTagFields) {
+          throw new TagFieldConfigurationError(
+            tagFields.length,
+            this.maxTagFields,
+            tagFields,
+          );
+        }
+        return {
+          event,
+          metadata: {
+            eventId: monotonicUlid(),
+            timestamp,
+            versionstamp,
+            idempotencyKey,
+          },
+          storedMetadata,
+          tags: extractTags(event, tagFields),
+        };
+      });
+
+      this.store.events.push(...stored);
+      this.store.idempotencyKeys.set(idempotencyKey, {
+        eventIds: stored.map((s) => s.metadata.eventId),
+        commandKind,
+      });
+      this.store.commits++;
+
+      return stored.map((s) => this.withMetadata<Eo>(s));
+    } catch (error) {
+      throw new RepositoryError("persist", error as Error);
+    }
+  }
+
+  /**
+   * Returns a stored event with its metadata restored by the metadata mapper.
+   */
+  private withMetadata<E>(stored: StoredEvent): E & EM {
+    return {
+      ...stored.event as E,
+      ...this.metadata.fromStored(stored.metadata, stored.storedMetadata),
+    };
+  }
+}
+
+/**
+ * Standalone in-memory event loader implementing `IEventLoader`.
+ *
+ * Provides read-only event loading by query tuples over an
+ * {@link InMemoryEventStore}, with the same matching as
+ * {@link InMemoryEventRepository}.
+ */
+export class InMemoryEventLoader<Ei extends EventShape>
+  implements IEventLoader<Ei> {
+  /**
+   * @param store - In-memory event log
+   * @param idempotent - When true, loads only the latest event per query tuple. When false, loads all matching events. Default: true
+   */
+  constructor(
+    private readonly store: InMemoryEventStore,
+    private readonly idempotent: boolean = true,
+  ) {}
+
+  load(queryTuples: QueryTuple<Ei>[]): Promise<readonly Ei[]> {
+    return Promise.resolve(
+      selectEvents(this.store, queryTuples, this.idempotent),
+    );
+  }
+}
+
+/**
+ * Selects the events matching any of the query tuples, deduplicated, in eventId order.
+ */
+function selectEvents<Ei extends EventShape>(
+  store: InMemoryEventStore,
+  queryTuples: QueryTuple<Ei>[],
+  idempotent: boolean,
+): Ei[] {
+  return selectStoredEvents(store, queryTuples, idempotent)
+    .map((stored) => stored.event as Ei);
+}
+
+/**
+ * Stored events matching the query tuples, in eventId order.
+ */
+function selectStoredEvents<Ei extends EventShape>(
+  store: InMemoryEventStore,
+  queryTuples: QueryTuple<Ei>[],
+  idempotent: boolean,
+): StoredEvent[] {
+  const selected = new Set<StoredEvent>();
+  for (const tuple of queryTuples) {
+    if (idempotent) {
+      const last = lastEvent(store, tuple);
+      if (last) selected.add(last);
+    } else {
+      for (const stored of store.events) {
+        if (isIndexedFor(stored, tuple)) selected.add(stored);
+      }
+    }
+  }
+  return store.events.filter((stored) => selected.has(stored));
+}
+
+/**
+ * Latest event indexed for the query tuple. Tuples without tags have no
+ * last-event pointer, as in Deno KV.
+ */
+function lastEvent<Ei extends EventShape>(
+  store: InMemoryEventStore,
+  tuple: QueryTuple<Ei>,
+): StoredEvent | undefined {
+  if (tuple.length < 2) return undefined;
+  return store.events.findLast((stored) => isIndexedFor(stored, tuple));
+}
+
+/**
+ * Checks whether an event is indexed under the query tuple: it carries tags,
+ * matches the tuple, and every tag of the tuple is one of its extracted tags.
+ */
+function isIndexedFor<Ei extends EventShape>(
+  stored: StoredEvent,
+  tuple: QueryTuple<Ei>,
+): boolean {
+  return stored.tags.length > 0 &&
+    matchesQueryTuple(stored.event, tuple) &&
+    (tuple.slice(0, -1) as string[]).every((tag) => stored.tags.includes(tag));
+}
+
+/**
+ * Extracts tags from event fields in "fieldName:fieldValue" format, skipping
+ * undefined, null and empty values, sorted for deterministic matching.
+ */
+function extractTags(event: EventShape, tagFields: readonly string[]): Tag[] {
+  const tags: Tag[] = [];
+  for (const field of tagFields) {
+    const value = (event as Record<string, unknown>)[field];
+    if (value === undefined || value === null || value === "") continue;
+    tags.push(`${field}:${value as string}`);
+  }
+  return tags.sort((a, b) => a.localeCompare(b));
+}
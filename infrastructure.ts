@@ -64,11 +64,26 @@ export type TypeSafeEventShape<
  */
 export type Tag = string;
 
+/**
+ * Tracing metadata: optional on commands, persisted with the events they produce.
+ *
+ * @property correlationId - Id shared by every message of one business transaction (e.g. an order from placement to preparation)
+ * @property causationId - Id of the message that caused this one (for commands issued by a process, the triggering event's id)
+ * @property headers - Free-form string headers (e.g. tenant, user, trace context)
+ */
+export interface TraceMetadata {
+  readonly correlationId?: string;
+  readonly causationId?: string;
+  readonly headers?: Readonly<Record<string, string>>;
+}
+
 /**
  * Infrastructure metadata required on every command submission.
  * The CM type parameter in repositories and handlers extends this interface.
+ *
+ * The optional `TraceMetadata` is persisted with every event the command produces.
  */
-export interface CommandMetadata {
+export interface CommandMetadata extends TraceMetadata {
   readonly idempotencyKey: string;
 }
 
@@ -79,14 +94,184 @@ export interface CommandMetadata {
  * @property timestamp - Unix timestamp in milliseconds when event was created
  * @property versionstamp - Deno KV versionstamp for optimistic locking
  * @property idempotencyKey - The idempotency key from the originating command
+ *
+ * `correlationId`, `causationId` and `headers` are those of the originating command,
+ * absent when it had none.
  */
-export interface EventMetadata {
+export interface EventMetadata extends TraceMetadata {
   readonly eventId: string;
   readonly timestamp: number;
   readonly versionstamp: string;
   readonly idempotencyKey: string;
 }
 
+/**
+ * Picks the tracing metadata of a command or event, omitting absent fields.
+ *
+ * @returns The `TraceMetadata` fields that are set (an empty object if none)
+ */
+export function traceMetadata(metadata: TraceMetadata): TraceMetadata {
+  const { correlationId, causationId, headers } = metadata;
+  return {
+    ...(correlationId !== undefined && { correlationId }),
+    ...(causationId !== undefined && { causationId }),
+    ...(headers !== undefined && { headers }),
+  };
+}
+
+/**
+ * Metadata stored with every event a command produces: a JSON object, empty when
+ * there is nothing to store.
+ */
+export type StoredMetadata = Readonly<Record<string, unknown>>;
+
+/**
+ * Maps command metadata to the metadata stored with its events, and the stored
+ * metadata back to event metadata on load.
+ *
+ * Event repositories take a mapper to persist command metadata beyond the
+ * idempotency key — e.g. the user who issued the command — and return it as
+ * part of `EM`. The default, {@link traceMetadataMapper}, stores `TraceMetadata`.
+ *
+ * @typeParam CM - Command metadata type of the repository
+ * @typeParam EM - Event metadata type of the repository
+ */
+export interface MetadataMapper<
+  CM extends CommandMetadata,
+  EM extends EventMetadata,
+> {
+  /**
+   * Picks the metadata to store with the events of a command.
+   */
+  readonly toStored: (command: CM) => StoredMetadata;
+  /**
+   * Restores event metadata from the storage metadata and the stored metadata.
+   */
+  readonly fromStored: (
+    metadata: EventMetadata,
+    stored: StoredMetadata,
+  ) => EM;
+}
+
+/**
+ * Default metadata mapper: stores the `TraceMetadata` of commands.
+ */
+export const traceMetadataMapper: MetadataMapper<
+  CommandMetadata,
+  EventMetadata
+> = {
+  toStored: (command) => ({ ...traceMetadata(command) }),
+  fromStored: (metadata, stored) => ({
+    ...metadata,
+    ...traceMetadata(stored as TraceMetadata),
+  }),
+};
+
+/**
+ * Creates a metadata mapper storing the given command metadata fields next to
+ * the `TraceMetadata`, and returning them as event metadata fields of the same name.
+ *
+ * @example
+ * ```ts
+ * type AuditCommandMetadata = CommandMetadata & { readonly userId: string };
+ * type AuditEventMetadata = EventMetadata & { readonly userId: string };
+ *
+ * const mapper = metadataFields<AuditCommandMetadata, AuditEventMetadata>("userId");
+ * ```
+ *
+ * @param fields - Command metadata fields to store; absent fields are not stored
+ * @returns Mapper storing the trace metadata and the fields
+ */
+export function metadataFields<
+  CM extends CommandMetadata,
+  EM extends EventMetadata,
+>(
+  ...fields: readonly (keyof CM & keyof EM & string)[]
+): MetadataMapper<CM, EM> {
+  const pick = (source: StoredMetadata) =>
+    Object.fromEntries(
+      fields.filter((field) => source[field] !== undefined).map((
+        field,
+      ) => [field, source[field]]),
+    );
+  return {
+    toStored: (command) => ({
+      ...traceMetadata(command),
+      ...pick(command as StoredMetadata),
+    }),
+    fromStored: (metadata, stored) =>
+      ({
+        ...metadata,
+        ...traceMetadata(stored as TraceMetadata),
+        ...pick(stored),
+      }) as unknown as EM,
+  };
+}
+
+/**
+ * Trailing options parameter of an event repository constructor: optional while
+ * the repository uses the default `CommandMetadata` and `EventMetadata`, and
+ * required with its `metadata` mapper otherwise, as the default
+ * {@link traceMetadataMapper} only restores `EventMetadata`.
+ *
+ * @typeParam O - Options of the repository, with an optional `metadata` mapper
+ * @typeParam CM - Command metadata type of the repository
+ * @typeParam EM - Event metadata type of the repository
+ */
+export type RepositoryOptionsParameter<
+  O extends { readonly metadata?: MetadataMapper<CM, EM> },
+  CM extends CommandMetadata,
+  EM extends EventMetadata,
+> = [CommandMetadata, EventMetadata] extends [CM, EM] ? [options?: O]
+  : [options: O & { readonly metadata: MetadataMapper<CM, EM> }];
+
+/**
+ * Returns the `metadata` mapper of repository options, or the
+ * {@link traceMetadataMapper} when they have none. `RepositoryOptionsParameter`
+ * only leaves it out for the default metadata types, where `EventMetadata` is `EM`.
+ *
+ * @param options - Options passed to the repository constructor
+ * @returns The mapper of the repository
+ */
+export function optionsMetadataMapper<
+  CM extends CommandMetadata,
+  EM extends EventMetadata,
+>(
+  options?: { readonly metadata?: MetadataMapper<CM, EM> },
+): MetadataMapper<CM, EM> {
+  return options?.metadata ?? {
+    toStored: traceMetadataMapper.toStored,
+    fromStored: (metadata, stored) =>
+      traceMetadataMapper.fromStored(metadata, stored) as EM,
+  };
+}
+
+/**
+ * Metadata attached to persisted aggregate state.
+ *
+ * @property timestamp - Unix timestamp in milliseconds when the state was stored
+ * @property versionstamp - Storage version of the state row/entry, used for optimistic locking
+ * @property idempotencyKey - The idempotency key from the command that produced this state
+ */
+export interface StateMetadata {
+  readonly timestamp: number;
+  readonly versionstamp: string;
+  readonly idempotencyKey: string;
+}
+
+/**
+ * Metadata attached to persisted view (read model) state.
+ *
+ * @property lastEventId - Id of the last event applied to the view state, used to skip re-deliveries
+ * @property timestamp - Unix timestamp in milliseconds when the view state was stored
+ * @property versionstamp - Storage version of the view state row/entry, used for optimistic locking
+ */
+export interface ViewStateMetadata {
+  readonly lastEventId: string;
+  readonly timestamp: number;
+  readonly versionstamp: string;
+}
+
 /**
  * Base error class for repository operations.
  *
@@ -106,18 +291,35 @@ export class RepositoryError extends Error {
  * Error thrown when optimistic locking fails after maximum retry attempts.
  *
  * This indicates that concurrent modifications prevented the operation from
- * completing successfully within the configured retry limit.
+ * completing successfully within the configured retry policy (see `RetryPolicy`).
+ * Event repositories report the conflicting query tuples, state repositories the
+ * entity id.
  */
 export class OptimisticLockingError extends Error {
   constructor(
     public readonly attempts: number,
     public readonly entityId: string,
+    public readonly queryTuples: readonly (readonly string[])[] = [],
   ) {
     super(
       `Optimistic locking failed after ${attempts} attempts for entity ${entityId}`,
     );
     this.name = "OptimisticLockingError";
   }
+
+  /**
+   * Creates the error of an event repository, identified by its query tuples.
+   */
+  static forQueryTuples(
+    attempts: number,
+    queryTuples: readonly (readonly string[])[],
+  ): OptimisticLockingError {
+    return new OptimisticLockingError(
+      attempts,
+      queryTuples.map((tuple) => `[${tuple.join(", ")}]`).join(", "),
+      queryTuples,
+    );
+  }
 }
 
 /**
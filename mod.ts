@@ -5,8 +5,36 @@ export * from "./view.ts";
 export * from "./application.ts";
 export * from "./infrastructure.ts";
 export * from "./denoKvEventRepository.ts";
+export * from "./denoKvStateRepository.ts";
+export * from "./denoKvViewStateRepository.ts";
+export * from "./denoKvProjectionStore.ts";
+export * from "./denoKvProcessStore.ts";
+export * from "./denoKvOutboxStore.ts";
+export * from "./denoKvSnapshotStore.ts";
+export * from "./denoKvKeyStore.ts";
+export * from "./inMemoryEventRepository.ts";
 export * from "./postgresEventRepository.ts";
+export * from "./postgresStateRepository.ts";
+export * from "./postgresViewStateRepository.ts";
+export * from "./postgresProjectionStore.ts";
+export * from "./postgresProcessStore.ts";
+export * from "./postgresOutboxStore.ts";
+export * from "./postgresSnapshotStore.ts";
+export * from "./postgresKeyStore.ts";
+export * from "./sqliteEventRepository.ts";
+export * from "./projectionRunner.ts";
+export * from "./processRunner.ts";
+export * from "./outbox.ts";
+export * from "./snapshot.ts";
+export * from "./upcasting.ts";
+export * from "./encryption.ts";
+export * from "./retry.ts";
 export * from "./test_specification.ts";
+export {
+  type ConformanceEventRepository,
+  type EventRepositoryFactory,
+  runEventRepositoryConformance,
+} from "./event_repository_conformance.ts";
 
 /**
  * The identity function: returns its input unchanged.
@@ -0,0 +1,176 @@
+/**
+ * Transactional outbox relay for publishing appended events to external brokers.
+ *
+ * This module provides the storage-agnostic `OutboxRelay`, which drains events
+ * recorded in an outbox — in the same atomic operation that appended them — and
+ * hands each one to an `IEventPublisher` (a Kafka or NATS producer, a webhook,
+ * ...). Delivery is at-least-once: an entry is removed only after the publisher
+ * acknowledged it, and entries that keep failing are moved to a dead-letter slot.
+ *
+ * Storage-specific outbox stores live in `denoKvOutboxStore.ts` and
+ * `postgresOutboxStore.ts`.
+ */
+
+import type { EventShape } from "./application.ts";
+import type { EventMetadata } from "./infrastructure.ts";
+
+/**
+ * Publishes events to an external broker.
+ *
+ * `publish` resolves once the broker acknowledged the event; a rejection marks
+ * the delivery as failed. Events may be delivered more than once (after a crash
+ * between publishing and acknowledging), so consumers should deduplicate by
+ * `eventId`.
+ *
+ * @typeParam E - Event type to publish
+ */
+export interface IEventPublisher<E extends EventShape> {
+  readonly publish: (event: E & EventMetadata) => Promise<void>;
+}
+
+/**
+ * An event recorded in the outbox.
+ *
+ * @property event - The appended event with its metadata
+ * @property attempts - Number of failed deliveries so far
+ * @property lastError - Message of the last failed delivery, or null
+ */
+export interface OutboxEntry<E extends EventShape> {
+  readonly event: E & EventMetadata;
+  readonly attempts: number;
+  readonly lastError: string | null;
+}
+
+/**
+ * Outbox storage: pending entries in append order plus a dead-letter slot.
+ *
+ * Entries are identified by the `eventId` of their event.
+ *
+ * @typeParam E - Event type recorded in the outbox
+ */
+export interface IOutboxStore<E extends EventShape> {
+  /**
+   * Reads up to `limit` pending (not dead-lettered) entries in append order.
+   */
+  readonly pending: (limit: number) => Promise<readonly OutboxEntry<E>[]>;
+
+  /**
+   * Removes a delivered entry from the outbox.
+   */
+  readonly acknowledge: (eventId: string) => Promise<void>;
+
+  /**
+   * Records a failed delivery: increments `attempts` and stores the error.
+   */
+  readonly recordFailure: (eventId: string, error: string) => Promise<void>;
+
+  /**
+   * Records a failed delivery and moves the entry to the dead-letter slot.
+   */
+  readonly deadLetter: (eventId: string, error: string) => Promise<void>;
+
+  /**
+   * Reads up to `limit` dead-lettered entries in append order.
+   */
+  readonly deadLetters: (limit: number) => Promise<readonly OutboxEntry<E>[]>;
+
+  /**
+   * Moves a dead-lettered entry back to pending with `attempts` reset to 0.
+   */
+  readonly retryDeadLetter: (eventId: string) => Promise<void>;
+}
+
+/**
+ * Options for {@link OutboxRelay}.
+ *
+ * @property batchSize - Number of pending entries read per batch (default: 100)
+ * @property maxAttempts - Failed deliveries after which an entry is dead-lettered (default: 5)
+ */
+export interface OutboxRelayOptions {
+  readonly batchSize?: number;
+  readonly maxAttempts?: number;
+}
+
+/**
+ * Drains an outbox through an event publisher.
+ *
+ * @remarks
+ * Entries are published in append order. An entry is acknowledged (removed) only
+ * after `publish` resolved, so a crash in between re-delivers it. When `publish`
+ * rejects, the failure is recorded and the batch stops, so later entries are not
+ * published ahead of it; the next run retries it. After `maxAttempts` failed
+ * deliveries the entry is dead-lettered and the relay moves on.
+ *
+ * Run a single relay per outbox: concurrent relays publish the same entries.
+ *
+ * @typeParam E - Event type recorded in the outbox
+ */
+export class OutboxRelay<E extends EventShape> {
+  private readonly batchSize: number;
+  private readonly maxAttempts: number;
+
+  /**
+   * @param store - Outbox storage
+   * @param publisher - Publisher each entry is handed to
+   * @param options - Batch size and maximum delivery attempts
+   */
+  constructor(
+    private readonly store: IOutboxStore<E>,
+    private readonly publisher: IEventPublisher<E>,
+    options: OutboxRelayOptions = {},
+  ) {
+    this.batchSize = options.batchSize ?? 100;
+    if (!Number.isInteger(this.batchSize) || this.batchSize < 1) {
+      throw new RangeError("batchSize must be a positive integer");
+    }
+    this.maxAttempts = options.maxAttempts ?? 5;
+    if (!Number.isInteger(this.maxAttempts) || this.maxAttempts < 1) {
+      throw new RangeError("maxAttempts must be a positive integer");
+    }
+  }
+
+  /**
+   * Publishes a single batch of pending entries.
+   *
+   * @returns The number of entries settled (acknowledged or dead-lettered)
+   */
+  async runOnce(): Promise<number> {
+    const entries = await this.store.pending(this.batchSize);
+
+    let settled = 0;
+    for (const entry of entries) {
+      const { eventId } = entry.event;
+      try {
+        await this.publisher.publish(entry.event);
+      } catch (error) {
+        const message = error instanceof Error ? error.message : String(error);
+        if (entry.attempts + 1 >= this.maxAttempts) {
+          await this.store.deadLetter(eventId, message);
+          settled++;
+          continue;
+        }
+        await this.store.recordFailure(eventId, message);
+        return settled;
+      }
+      await this.store.acknowledge(eventId);
+      settled++;
+    }
+
+    return settled;
+  }
+
+  /**
+   * Publishes batches until the outbox is empty or a delivery fails.
+   *
+   * @returns The total number of entries settled
+   */
+  async drain(): Promise<number> {
+    let total = 0;
+    let count: number;
+    do {
+      count = await this.runOnce();
+      total += count;
+    } while (count === this.batchSize);
+    return total;
+  }
+}
@@ -1,7 +1,7 @@
 /**
  * Event-sourced repository and loader implementations for DCB pattern using PostgreSQL.
  *
- * This module provides the PostgreSQL-specific repository and loader implementations,
+ * This module provides the PostgreSQL-specific repository, loader and subscriber implementations,
  * delegating storage, indexing, and conflict detection to predefined SQL functions
  * in the `dcb` schema via any PostgreSQL client that implements the `SqlClient` interface.
  *
@@ -10,22 +10,43 @@
  * switching from Deno KV to Postgres requires only swapping the repository instance.
  */
 
-import type { IEventComputation } from "./decider.ts";
+import type {
+  IEventComputation,
+  IStatefulEventComputation,
+} from "./decider.ts";
 import type {
   CommandShape,
   EventShape,
   IEventLoader,
   IEventRepository,
+  IEventSubscriber,
   QueryTuple,
+  SubscribeOptions,
 } from "./application.ts";
 import {
   IdempotencyConflictError,
   IdempotencyKeyMismatchError,
   matchesQueryTuple,
   OptimisticLockingError,
+  optionsMetadataMapper,
   RepositoryError,
+  traceMetadataMapper,
+} from "./infrastructure.ts";
+import type {
+  CommandMetadata,
+  EventMetadata,
+  MetadataMapper,
+  RepositoryOptionsParameter,
+  StoredMetadata,
 } from "./infrastructure.ts";
-import type { CommandMetadata, EventMetadata } from "./infrastructure.ts";
+import {
+  isStatefulEventComputation,
+  snapshotKey,
+  type SnapshotOptions,
+} from "./snapshot.ts";
+import type { UpcasterRegistry } from "./upcasting.ts";
+import type { FieldEncryption } from "./encryption.ts";
+import { RetryPolicy } from "./retry.ts";
 
 // ---------------------------------------------------------------------------
 // Serializer / Deserializer
@@ -53,6 +74,77 @@ export const defaultSerializer: Serializer<unknown> = (event) =>
 export const defaultDeserializer: Deserializer<unknown> = (data) =>
   JSON.parse(new TextDecoder().decode(data));
 
+/**
+ * Serializer storing events in their versioned envelope: the event stamped with
+ * the current schema version of its kind (see `UpcasterRegistry`).
+ *
+ * @param upcasters - Registry providing the current schema versions
+ * @param serializer - Serializer of the envelope (default: JSON)
+ */
+export function versionedSerializer<E extends EventShape>(
+  upcasters: UpcasterRegistry,
+  serializer: Serializer<unknown> = defaultSerializer,
+): Serializer<E> {
+  return (event) => serializer(upcasters.stamp(event));
+}
+
+/**
+ * Deserializer upcasting stored events, built by `upcastingDeserializer`.
+ *
+ * @property upcasters - Registry of upcasters applied to stored events
+ * @property envelope - Deserializer of the envelope, before upcasting
+ */
+export interface UpcastingDeserializer<E> extends Deserializer<E> {
+  readonly upcasters: UpcasterRegistry;
+  readonly envelope: Deserializer<unknown>;
+}
+
+/**
+ * Deserializer upcasting stored events to the current schema version of their
+ * kind (see `UpcasterRegistry`). Pass it to repositories and loaders, so every
+ * load path returns current events.
+ *
+ * Repositories and loaders with field encryption decrypt the envelope before
+ * upcasting it, since events are encrypted in the shape they were stored in.
+ *
+ * @param upcasters - Registry of upcasters applied to stored events
+ * @param deserializer - Deserializer of the envelope (default: JSON)
+ */
+export function upcastingDeserializer<E extends EventShape>(
+  upcasters: UpcasterRegistry,
+  deserializer: Deserializer<unknown> = defaultDeserializer,
+): UpcastingDeserializer<E> {
+  return Object.assign(
+    (data: Uint8Array) => upcasters.upcast<E>(deserializer(data)),
+    { upcasters, envelope: deserializer },
+  );
+}
+
+/**
+ * Deserializes stored events and decrypts their encrypted fields. With an
+ * upcasting deserializer, the envelope is decrypted before it is upcast.
+ *
+ * @param data - Stored event payloads (`dcb.events.data`)
+ * @param deserializer - Converts bytea back into events
+ * @param encryption - Field encryption decrypting the events, if any
+ * @returns The deserialized and decrypted events, in order
+ */
+export async function deserializeEvents<E extends EventShape>(
+  data: readonly Uint8Array[],
+  deserializer: Deserializer<E>,
+  encryption?: FieldEncryption,
+): Promise<readonly E[]> {
+  if (encryption === undefined) return data.map(deserializer);
+  if (!("upcasters" in deserializer)) {
+    return await encryption.decryptAll(data.map(deserializer));
+  }
+  const { upcasters, envelope } = deserializer as UpcastingDeserializer<E>;
+  const decrypted = await encryption.decryptAll(
+    data.map((bytes) => envelope(bytes) as EventShape),
+  );
+  return decrypted.map((event) => upcasters.upcast<E>(event));
+}
+
 // ---------------------------------------------------------------------------
 // SqlClient – minimal interface for PostgreSQL client abstraction
 // ---------------------------------------------------------------------------
@@ -63,11 +155,19 @@ export const defaultDeserializer: Deserializer<unknown> = (data) =>
  * Any Postgres client library can be adapted to this single-method interface.
  * The built-in `@bartlomieju/postgres` `Client` satisfies it out of the box.
  *
+ * Clients that bind `$1`, `$2`, … placeholders to the `params` argument declare
+ * it with `parameterized: true`. The event repository, loader and subscriber then
+ * send idempotency keys, tags and event payloads as bound parameters. Without
+ * the flag, values are inlined as escaped SQL literals.
+ *
  * @example Adapter for node-postgres (`pg`) / `@neondatabase/serverless`:
  * ```typescript
  * import pg from "pg";
  * const pgClient = new pg.Client("postgres://...");
- * const client: SqlClient = { queryObject: (sql) => pgClient.query(sql) };
+ * const client: SqlClient = {
+ *   queryObject: (sql, params) => pgClient.query(sql, params),
+ *   parameterized: true,
+ * };
  * ```
  *
  * @example Adapter for `postgres.js` (porsager):
@@ -75,14 +175,74 @@ export const defaultDeserializer: Deserializer<unknown> = (data) =>
  * import postgres from "postgres";
  * const sql = postgres("postgres://...");
  * const client: SqlClient = {
- *   queryObject: async <T>(query: string) =>
- *     ({ rows: await sql.unsafe(query) as T[] }),
+ *   queryObject: async <T>(query: string, params?: unknown[]) =>
+ *     ({ rows: await sql.unsafe(query, params as never[]) as T[] }),
+ *   parameterized: true,
+ * };
+ * ```
+ *
+ * @example `@bartlomieju/postgres` with bound parameters:
+ * ```typescript
+ * const client: SqlClient = {
+ *   queryObject: (sql, params) => pgClient.queryObject(sql, params),
+ *   parameterized: true,
  * };
  * ```
  */
 export interface SqlClient {
-  /** Execute a SQL string and return rows as typed objects. */
-  queryObject<T>(sql: string): Promise<{ rows: T[] }>;
+  /**
+   * Execute a SQL string and return rows as typed objects.
+   *
+   * `params` is only passed when `parameterized` is true.
+   */
+  queryObject<T>(sql: string, params?: unknown[]): Promise<{ rows: T[] }>;
+  /** True if `queryObject` binds `$n` placeholders to `params`. */
+  readonly parameterized?: boolean;
+}
+
+/**
+ * Minimal LISTEN interface for the PostgreSQL event subscriber.
+ *
+ * LISTEN needs a dedicated connection that stays open, so it is kept separate
+ * from `SqlClient`.
+ *
+ * @example Adapter for node-postgres (`pg`):
+ * ```typescript
+ * const listener: SqlListener = {
+ *   listen: async (channel, onPayload) => {
+ *     const handler = (msg: pg.Notification) => {
+ *       if (msg.channel === channel) onPayload(msg.payload ?? "");
+ *     };
+ *     pgClient.on("notification", handler);
+ *     await pgClient.query(`LISTEN ${channel}`);
+ *     return async () => {
+ *       await pgClient.query(`UNLISTEN ${channel}`);
+ *       pgClient.off("notification", handler);
+ *     };
+ *   },
+ * };
+ * ```
+ *
+ * @example Adapter for `postgres.js` (porsager):
+ * ```typescript
+ * const listener: SqlListener = {
+ *   listen: async (channel, onPayload) => {
+ *     const { unlisten } = await sql.listen(channel, onPayload);
+ *     return unlisten;
+ *   },
+ * };
+ * ```
+ */
+export interface SqlListener {
+  /**
+   * Starts listening on a channel.
+   *
+   * @returns A function that stops listening
+   */
+  listen(
+    channel: string,
+    onPayload: (payload: string) => void,
+  ): Promise<() => Promise<void>>;
 }
 
 // ---------------------------------------------------------------------------
@@ -90,22 +250,77 @@ export interface SqlClient {
 // ---------------------------------------------------------------------------
 
 /** Escapes single quotes in SQL string literals by doubling them. */
-function escapeSqlString(s: string): string {
+export function escapeSqlString(s: string): string {
   return s.replace(/'/g, "''");
 }
 
 /** Converts a Uint8Array to a hex string for use in SQL bytea literals. */
-function toHex(bytes: Uint8Array): string {
+export function toHex(bytes: Uint8Array): string {
   return Array.from(bytes).map((b) => b.toString(16).padStart(2, "0")).join("");
 }
 
 /**
- * Converts `QueryTuple[]` into the SQL literal representation of `dcb_query_item_tt[]`.
+ * Bound parameters of a statement sent to a parameterized `SqlClient`.
+ */
+export class SqlParameters {
+  /** Values in placeholder order (`$1` is `values[0]`). */
+  readonly values: unknown[] = [];
+
+  /**
+   * Appends a value and returns its placeholder, cast to `type`.
+   */
+  bind(value: unknown, type: string): string {
+    this.values.push(value);
+    return `$${this.values.length}::${type}`;
+  }
+}
+
+/**
+ * Renders a string as a bound `text` parameter, or as an escaped literal when
+ * `params` is undefined.
+ */
+export function textSql(value: string, params?: SqlParameters): string {
+  return params ? params.bind(value, "text") : `'${escapeSqlString(value)}'`;
+}
+
+/**
+ * Renders a text array as a bound `text[]` parameter, or as an `ARRAY[...]`
+ * literal when `params` is undefined.
+ */
+function textArraySql(
+  values: readonly string[],
+  params?: SqlParameters,
+): string {
+  if (params) return params.bind(values, "text[]");
+  return values.length === 0
+    ? "ARRAY[]::text[]"
+    : `ARRAY[${values.map((v) => `'${escapeSqlString(v)}'`).join(",")}]`;
+}
+
+/**
+ * Runs the statement produced by `build`. When the client is parameterized, `build`
+ * receives a `SqlParameters` collector and its values are sent along; otherwise it
+ * receives undefined and must inline escaped literals.
+ */
+export function queryWithParameters<T>(
+  client: SqlClient,
+  build: (params?: SqlParameters) => string,
+): Promise<{ rows: T[] }> {
+  if (!client.parameterized) return client.queryObject<T>(build());
+  const params = new SqlParameters();
+  const sql = build(params);
+  return client.queryObject<T>(sql, params.values);
+}
+
+/**
+ * Converts `QueryTuple[]` into the SQL representation of `dcb_query_item_tt[]`.
  *
  * Each `QueryTuple` `[...tags, eventType]` maps to a `dcb_query_item_tt`:
  * - `types`: single-element text array containing the last element (event type)
  * - `tags`: text array of all preceding elements
  *
+ * With `params`, the event types and tags are bound as parameters instead of literals.
+ *
  * @example
  * ```
  * mapQueryTuplesToSql([["restaurantId:r1", "RestaurantCreatedEvent"]])
@@ -114,15 +329,15 @@ function toHex(bytes: Uint8Array): string {
  */
 export function mapQueryTuplesToSql<Ei extends EventShape>(
   queryTuples: QueryTuple<Ei>[],
+  params?: SqlParameters,
 ): string {
   const items = queryTuples.map((tuple) => {
     const eventType = tuple[tuple.length - 1] as string;
     const tags = tuple.slice(0, -1) as string[];
-    const typesLiteral = `ARRAY['${escapeSqlString(eventType)}']`;
-    const tagsLiteral = tags.length === 0
-      ? "ARRAY[]::text[]"
-      : `ARRAY[${tags.map((t) => `'${escapeSqlString(t)}'`).join(",")}]`;
-    return `ROW(${typesLiteral},${tagsLiteral})::dcb.dcb_query_item_tt`;
+    const typesSql = `ARRAY[${textSql(eventType, params)}]`;
+    return `ROW(${typesSql},${
+      textArraySql(tags, params)
+    })::dcb.dcb_query_item_tt`;
   });
   return `ARRAY[${items.join(",")}]`;
 }
@@ -147,31 +362,107 @@ export function extractTags<Eo extends EventShape>(event: Eo): string[] {
 }
 
 /**
- * Converts output events into the SQL literal representation of `dcb_event_tt[]`.
+ * Converts output events into the SQL representation of `dcb_event_tt[]`.
  *
  * Each event maps to `ROW(type, data, tags)::dcb.dcb_event_tt` where:
  * - `type` is `event.kind`
- * - `data` is the serialized bytea as a hex-encoded literal (`'\x...'`)
+ * - `data` is the serialized bytea as a hex-encoded literal (`'\\x...'`)
  * - `tags` is the extracted tag array
+ *
+ * With `params`, type, data and tags are bound as parameters instead of literals.
  */
 export function buildEventTuples<Eo extends EventShape>(
   events: readonly Eo[],
   serializer: Serializer<Eo>,
+  params?: SqlParameters,
 ): string {
   const items = events.map((event) => {
     const serialized = serializer(event);
-    const hexData = `'\\x${toHex(serialized)}'`;
-    const tags = extractTags(event);
-    const tagsLiteral = tags.length === 0
-      ? "ARRAY[]::text[]"
-      : `ARRAY[${tags.map((t) => `'${escapeSqlString(t)}'`).join(",")}]`;
-    return `ROW('${
-      escapeSqlString(event.kind)
-    }',${hexData},${tagsLiteral})::dcb.dcb_event_tt`;
+    const dataSql = params
+      ? params.bind(serialized, "bytea")
+      : `'\\x${toHex(serialized)}'`;
+    return `ROW(${textSql(event.kind, params)},${dataSql},${
+      textArraySql(extractTags(event), params)
+    })::dcb.dcb_event_tt`;
   });
   return `ARRAY[${items.join(",")}]`;
 }
 
+// ---------------------------------------------------------------------------
+// Append locking
+// ---------------------------------------------------------------------------
+
+/**
+ * How `PostgresEventRepository` serializes concurrent appends.
+ *
+ * - `"table"` — `dcb.conditional_append` takes a table-level EXCLUSIVE lock, so
+ *   every append is serialized and ids become visible in order.
+ * - `"advisory"` — `dcb.conditional_append_advisory` takes transaction-scoped
+ *   advisory locks per (type, tag) of the query tuples and new events, so only
+ *   appends that could conflict are serialized. Ids of unrelated appends may
+ *   become visible out of order, which global-log cursors (catch-up projections,
+ *   `PostgresEventSubscriber`, snapshot positions) do not account for.
+ *
+ * All writers of one event store must use the same mode.
+ */
+export type AppendLocking = "table" | "advisory";
+
+/**
+ * Options of `PostgresEventRepository`.
+ *
+ * @property appendLocking - How appends are serialized (see `AppendLocking`). Default: `"table"`
+ * @property snapshots - Snapshot configuration for full-replay mode (see `SnapshotOptions`); requires table append locking and is not combinable with `encryption`. Default: none
+ * @property encryption - When set, personal fields are stored encrypted with per-subject keys and decrypted on load (see `FieldEncryption`). Default: none
+ * @property metadata - Maps command metadata to the metadata stored in `dcb.events.metadata`, and back to `EM` on load (see `MetadataMapper`). Default: `traceMetadataMapper`
+ */
+export interface PostgresEventRepositoryOptions<
+  CM extends CommandMetadata = CommandMetadata,
+  EM extends EventMetadata = EventMetadata,
+> {
+  readonly appendLocking?: AppendLocking;
+  readonly snapshots?: SnapshotOptions;
+  readonly encryption?: FieldEncryption;
+  readonly metadata?: MetadataMapper<CM, EM>;
+}
+
+/**
+ * Row of `dcb.events` as loaded by `PostgresEventRepository`.
+ */
+interface LoadedEventRow {
+  id: bigint;
+  type: string;
+  tags: string[];
+  data: Uint8Array;
+  metadata: StoredMetadata | null;
+  idempotency_key: string;
+  created_at: Date;
+}
+
+/**
+ * Id of the last row matching each query tuple, or 0 when none matched.
+ * Used as the per-tuple position for `conditional_append_advisory`.
+ */
+function lastIdsByQueryTuple<Ei extends EventShape>(
+  rows: readonly { id: bigint; type: string; tags: readonly string[] }[],
+  queryTuples: QueryTuple<Ei>[],
+): bigint[] {
+  return queryTuples.map((tuple) => {
+    const eventType = tuple[tuple.length - 1] as string;
+    const tags = tuple.slice(0, -1) as string[];
+    let lastId = BigInt(0);
+    for (const row of rows) {
+      const id = BigInt(row.id);
+      if (
+        row.type === eventType && tags.every((tag) => row.tags.includes(tag)) &&
+        id > lastId
+      ) {
+        lastId = id;
+      }
+    }
+    return lastId;
+  });
+}
+
 // ---------------------------------------------------------------------------
 // PostgresEventRepository
 // ---------------------------------------------------------------------------
@@ -182,32 +473,135 @@ export function buildEventTuples<Eo extends EventShape>(
  * Delegates all storage, indexing, and conflict detection to predefined SQL
  * functions in the `dcb` schema:
  * - `dcb.conditional_append` — atomic conflict check + append
+ * - `dcb.conditional_append_advisory` — the same under per-tag advisory locks
  * - `dcb.select_events_by_tags` — full-replay event loading
  * - `dcb.select_last_events_by_tags` — idempotent (last-event) loading
  * - `dcb.select_max_id` — current max event id
  *
  * Optimistic locking uses an integer `after_id` (the max event id at load time)
  * instead of Deno KV versionstamps, and all atomicity is handled server-side.
+ * With `appendLocking: "advisory"` the position is tracked per query tuple
+ * instead (see `AppendLocking`).
+ *
+ * With `snapshots` configured in full-replay mode, `execute` loads the snapshot
+ * of the command's query tuples plus only the events appended after it (see
+ * `SnapshotOptions`). Snapshots require table append locking and cannot be
+ * combined with `encryption`, as forgetting a subject would leave its decrypted
+ * state in the snapshot store. In a caller's transaction (`inTransaction`)
+ * snapshots are loaded but not saved, as the snapshot store writes outside that
+ * transaction.
+ *
+ * With `encryption` configured, personal fields are encrypted before the
+ * serializer sees them and decrypted after the deserializer (see
+ * `FieldEncryption`); with an `upcastingDeserializer`, before the events are
+ * upcast.
+ *
+ * The `metadata` mapper picks the command metadata stored in
+ * `dcb.events.metadata` and restores `EM` from it on load (see `MetadataMapper`).
  *
  * @typeParam C - Command type (must conform to CommandShape)
  * @typeParam Ei - Input event type (consumed by decider, must conform to EventShape)
  * @typeParam Eo - Output event type (produced by decider, must conform to EventShape)
+ * @typeParam CM - Command metadata type (default: `CommandMetadata`)
+ * @typeParam EM - Event metadata type, restored by the `metadata` mapper (default: `EventMetadata`)
  */
 export class PostgresEventRepository<
   C extends CommandShape,
   Ei extends EventShape,
   Eo extends EventShape,
-> implements IEventRepository<C, Ei, Eo, CommandMetadata, EventMetadata> {
+  CM extends CommandMetadata = CommandMetadata,
+  EM extends EventMetadata = EventMetadata,
+> implements IEventRepository<C, Ei, Eo, CM, EM> {
+  private readonly retryPolicy: RetryPolicy;
+  private readonly appendLocking: AppendLocking;
+  private readonly snapshots?: SnapshotOptions;
+  private readonly encryption?: FieldEncryption;
+  private readonly metadata: MetadataMapper<CM, EM>;
+  // Passed on as is by `inTransaction`
+  private readonly options: RepositoryOptionsParameter<
+    PostgresEventRepositoryOptions<CM, EM>,
+    CM,
+    EM
+  >;
+
+  /**
+   * @param client - PostgreSQL client
+   * @param getQueryTuples - Returns array of query tuples to load for this command
+   * @param maxRetries - Maximum optimistic locking attempts, or a `RetryPolicy` with backoff between them (default: 10)
+   * @param idempotent - When true, loads only the latest event per query tuple. When false, loads all matching events. Default: true
+   * @param serializer - Serializer of stored events (default: JSON)
+   * @param deserializer - Deserializer of stored events (default: JSON)
+   * @param options - Append locking, snapshots, encryption and metadata mapping (see `PostgresEventRepositoryOptions`); required with custom `CM`/`EM`, for their `metadata` mapper
+   * @throws RangeError if `snapshots` are combined with advisory append locking or with `encryption`
+   */
   constructor(
     private readonly client: SqlClient,
     private readonly getQueryTuples: (command: C) => QueryTuple<Ei>[],
-    private readonly maxRetries: number = 10,
+    maxRetries: number | RetryPolicy = 10,
     private readonly idempotent: boolean = true,
     private readonly serializer: Serializer<Eo> =
       defaultSerializer as Serializer<Eo>,
     private readonly deserializer: Deserializer<Ei & Eo> =
       defaultDeserializer as Deserializer<Ei & Eo>,
-  ) {}
+    ...options: RepositoryOptionsParameter<
+      PostgresEventRepositoryOptions<CM, EM>,
+      CM,
+      EM
+    >
+  ) {
+    const [{ appendLocking = "table", snapshots, encryption } = {}] = options;
+    // Snapshot positions rely on ids becoming visible in order
+    if (snapshots !== undefined && appendLocking === "advisory") {
+      throw new RangeError('snapshots require appendLocking "table"');
+    }
+    // Snapshots store decrypted state, which forgetting a subject cannot erase
+    if (snapshots !== undefined && encryption !== undefined) {
+      throw new RangeError("snapshots cannot be combined with encryption");
+    }
+    this.retryPolicy = RetryPolicy.from(maxRetries);
+    this.appendLocking = appendLocking;
+    this.snapshots = snapshots;
+    this.encryption = encryption;
+    this.metadata = optionsMetadataMapper(options[0]);
+    this.options = options;
+  }
+
+  /** True when bound to a transaction owned by the caller (see `inTransaction`). */
+  private inCallerTransaction = false;
+
+  /**
+   * Returns a repository that runs on `tx`, a client bound to a transaction the
+   * caller has begun. Events are then appended in that transaction and commit or
+   * roll back together with the caller's own writes (view rows, outbox records).
+   *
+   * Each append runs under a savepoint, so a conflicting append is rolled back
+   * and retried without aborting the caller's transaction. Use `READ COMMITTED`:
+   * retries must see events committed by others. Append locks are held until the
+   * caller commits, so keep the transaction short.
+   *
+   * Snapshots are not saved here: the folded events may still be rolled back.
+   *
+   * @example
+   * ```ts
+   * await pgClient.queryObject("BEGIN");
+   * const events = await repository.inTransaction(pgClient).execute(command, decider);
+   * await pgClient.queryObject("UPDATE my_view SET ...");
+   * await pgClient.queryObject("COMMIT");
+   * ```
+   */
+  inTransaction(tx: SqlClient): PostgresEventRepository<C, Ei, Eo, CM, EM> {
+    const repository = new PostgresEventRepository<C, Ei, Eo, CM, EM>(
+      tx,
+      this.getQueryTuples,
+      this.retryPolicy,
+      this.idempotent,
+      this.serializer,
+      this.deserializer,
+      ...this.options,
+    );
+    repository.inCallerTransaction = true;
+    return repository;
+  }
 
   /**
    * Loads events matching the given query tuples.
@@ -220,6 +614,17 @@ export class PostgresEventRepository<
     return events;
   }
 
+  /**
+   * Loads events matching the given query tuples together with their event
+   * metadata, restored from `dcb.events` by the metadata mapper.
+   */
+  async loadWithMetadata(
+    queryTuples: QueryTuple<Ei>[],
+  ): Promise<readonly (Ei & EM)[]> {
+    const { events, metadata } = await this.loadEvents(queryTuples);
+    return events.map((event, i) => ({ ...event, ...metadata[i] }));
+  }
+
   /**
    * Executes a command by loading events, computing new events via the decider,
    * and persisting them with optimistic locking via `conditional_append`.
@@ -229,66 +634,84 @@ export class PostgresEventRepository<
    * 2. Load events with query tuples
    * 3. Compute new events using decider
    * 4. Persist with idempotencyKey
-   * 5. Retry on conflict (optimistic lock or idempotency race)
+   * 5. Retry on conflict (optimistic lock or idempotency race), backing off as
+   *    configured by the retry policy
    */
   async execute(
-    command: C & CommandMetadata,
+    command: C & CM,
     decider: IEventComputation<C, Ei, Eo>,
-  ): Promise<readonly (Eo & EventMetadata)[]> {
-    let attempts = 0;
+  ): Promise<readonly (Eo & EM)[]> {
     const { idempotencyKey } = command;
-
-    while (attempts < this.maxRetries) {
-      attempts++;
-
-      // Step 1: Idempotency check — circuit-break if key already used
-      const { events: existing, commandKind } = await this
-        .loadEventsByIdempotencyKey(idempotencyKey);
-      if (existing.length > 0) {
-        if (commandKind !== null && commandKind !== command.kind) {
-          throw new IdempotencyKeyMismatchError(
-            idempotencyKey,
-            command.kind,
-            commandKind,
-          );
+    // Computed after the circuit-break, and kept for the exhaustion error
+    let queryTuples: QueryTuple<Ei>[] = [];
+
+    return await this.retryPolicy.run(
+      async () => {
+        // Step 1: Idempotency check — circuit-break if key already used
+        const { events: existing, commandKind } = await this
+          .loadEventsByIdempotencyKey(idempotencyKey);
+        if (existing.length > 0) {
+          if (commandKind !== null && commandKind !== command.kind) {
+            throw new IdempotencyKeyMismatchError(
+              idempotencyKey,
+              command.kind,
+              commandKind,
+            );
+          }
+          return existing;
         }
-        return existing;
-      }
 
-      // Step 2: Normal flow — load events for decider
-      const queryTuples = this.getQueryTuples(command);
-      const { events, afterId } = await this.loadEvents(queryTuples);
-
-      // Step 3: Decider errors propagate directly — never wrapped
-      const newEvents = decider.computeNewEvents(events, command);
+        queryTuples = this.getQueryTuples(command);
+
+        // Step 2: Normal flow — load events for decider
+        let newEvents: readonly Eo[];
+        let afterId: bigint;
+        let afterIds: bigint[];
+        if (
+          this.snapshots !== undefined && !this.idempotent &&
+          isStatefulEventComputation(decider)
+        ) {
+          // Steps 2-3 from the snapshot plus the events appended after it
+          ({ newEvents, afterId, afterIds } = await this.computeFromSnapshot(
+            command,
+            queryTuples,
+            decider,
+            this.snapshots,
+          ));
+        } else {
+          const loaded = await this.loadEvents(queryTuples);
+          ({ afterId, afterIds } = loaded);
 
-      if (newEvents.length === 0) return [];
+          // Step 3: Decider errors propagate directly — never wrapped
+          newEvents = decider.computeNewEvents(loaded.events, command);
+        }
 
-      // Step 4: Persist with idempotencyKey
-      try {
-        const result = await this.persistEvents(
-          newEvents,
-          queryTuples,
-          afterId,
-          idempotencyKey,
-          command.kind,
-        );
+        if (newEvents.length === 0) return [];
 
-        if (result !== null) {
-          return result;
-        }
-        // NULL → optimistic locking conflict, retry
-      } catch (error) {
-        if (error instanceof IdempotencyConflictError) {
-          // Race condition: another execution persisted with same key
-          // Retry — next iteration's idempotency check will find existing events
-          continue;
+        // Step 4: Persist with idempotencyKey
+        try {
+          // NULL → optimistic locking conflict, retry
+          return await this.persistEvents(
+            newEvents,
+            queryTuples,
+            afterId,
+            afterIds,
+            idempotencyKey,
+            command.kind,
+            this.metadata.toStored(command),
+          );
+        } catch (error) {
+          if (error instanceof IdempotencyConflictError) {
+            // Race condition: another execution persisted with same key
+            // Retry — next attempt's idempotency check will find existing events
+            return null;
+          }
+          throw error;
         }
-        throw error;
-      }
-    }
-
-    throw new OptimisticLockingError(attempts, "unknown");
+      },
+      (attempts) =>
+        OptimisticLockingError.forQueryTuples(attempts, queryTuples),
+    );
   }
 
   /**
@@ -300,19 +723,15 @@ export class PostgresEventRepository<
    * the entire batch as one logical operation.
    */
   async executeBatch(
-    commands: readonly (C & CommandMetadata)[],
+    commands: readonly (C & CM)[],
     decider: IEventComputation<C, Ei, Eo>,
-  ): Promise<readonly (Eo & EventMetadata)[]> {
+  ): Promise<readonly (Eo & EM)[]> {
     if (commands.length === 0) return [];
 
     // Use the idempotencyKey from the first command for the entire batch
     const { idempotencyKey } = commands[0];
 
-    let attempts = 0;
-
-    while (attempts < this.maxRetries) {
-      attempts++;
-
+    return await this.retryPolicy.run(async () => {
       // Step 1: Idempotency check — circuit-break if key already used
       const { events: existing, commandKind } = await this
         .loadEventsByIdempotencyKey(idempotencyKey);
@@ -329,9 +748,8 @@ export class PostgresEventRepository<
 
       // Step 2: Load events using first command's tuples
       const firstQueryTuples = this.getQueryTuples(commands[0]);
-      const { events: initialEvents, afterId } = await this.loadEvents(
-        firstQueryTuples,
-      );
+      const { events: initialEvents, afterId, afterIds } = await this
+        .loadEvents(firstQueryTuples);
 
       // Collect all query tuples for the conditional_append conflict check
       const allQueryTuples = [...firstQueryTuples];
@@ -351,6 +769,9 @@ export class PostgresEventRepository<
           for (const qt of queryTuples) {
             allQueryTuples.push(qt);
           }
+          if (this.appendLocking === "advisory") {
+            afterIds.push(...await this.loadLastIds(queryTuples));
+          }
         }
 
         // Filter accumulated events by this command's query tuples
@@ -374,29 +795,29 @@ export class PostgresEventRepository<
 
       // Step 3: Persist all events with idempotencyKey
       try {
-        const result = await this.persistEvents(
+        // NULL → optimistic locking conflict, retry entire batch
+        return await this.persistEvents(
           allNewEvents,
           allQueryTuples,
           afterId,
+          afterIds,
           idempotencyKey,
           commands[0].kind,
+          this.metadata.toStored(commands[0]),
         );
-
-        if (result !== null) {
-          return result;
-        }
-        // NULL → optimistic locking conflict, retry entire batch
       } catch (error) {
         if (error instanceof IdempotencyConflictError) {
           // Race condition: another execution persisted with same key
-          // Retry — next iteration's idempotency check will find existing events
-          continue;
+          // Retry — next attempt's idempotency check will find existing events
+          return null;
         }
         throw error;
       }
-    }
-
-    throw new OptimisticLockingError(attempts, "batch");
+    }, (attempts) =>
+      OptimisticLockingError.forQueryTuples(
+        attempts,
+        commands.flatMap((command) => this.getQueryTuples(command)),
+      ));
   }
 
   // -------------------------------------------------------------------------
@@ -404,43 +825,112 @@ export class PostgresEventRepository<
   // -------------------------------------------------------------------------
 
   /**
-   * Loads events and determines the `after_id` for optimistic locking.
+   * Computes new events from the stored snapshot of the query tuples plus the
+   * events appended after it, and stores a new snapshot when at least `frequency`
+   * events were folded on top of it — except in a caller's transaction, whose
+   * events may still be rolled back.
+   */
+  private async computeFromSnapshot(
+    command: C,
+    queryTuples: QueryTuple<Ei>[],
+    decider: IStatefulEventComputation<C, unknown, Ei, Eo>,
+    { name, store, frequency }: SnapshotOptions,
+  ): Promise<
+    { newEvents: readonly Eo[]; afterId: bigint; afterIds: bigint[] }
+  > {
+    const key = await snapshotKey(queryTuples);
+    const snapshot = await store.load(name, key);
+    const { events, afterId, afterIds, position } = await this.loadEvents(
+      queryTuples,
+      snapshot !== null ? BigInt(snapshot.position) : BigInt(0),
+    );
+
+    const state = events.reduce(
+      (s, event) => decider.evolve(s, event),
+      snapshot !== null ? snapshot.state : decider.initialState,
+    );
+    if (
+      !this.inCallerTransaction && position !== null &&
+      events.length >= frequency
+    ) {
+      await store.save(name, key, { state, position: String(position) });
+    }
+
+    // Decider errors propagate directly — never wrapped
+    return { newEvents: decider.decide(command, state), afterId, afterIds };
+  }
+
+  /**
+   * Loads events and determines the `after_id` for optimistic locking, or the
+   * per-tuple `after_ids` in advisory locking mode.
+   *
+   * In full-replay mode only events with an id greater than `after` (a snapshot
+   * position) are loaded; they still count as seen for optimistic locking.
    */
   private async loadEvents(
     queryTuples: QueryTuple<Ei>[],
-  ): Promise<{ events: readonly Ei[]; afterId: bigint }> {
+    after: bigint = BigInt(0),
+  ): Promise<
+    {
+      events: readonly Ei[];
+      metadata: readonly EM[];
+      afterId: bigint;
+      afterIds: bigint[];
+      position: bigint | null;
+    }
+  > {
     try {
-      const queryItemsSql = mapQueryTuplesToSql(queryTuples);
-
-      let rows: {
-        id: bigint;
-        type: string;
-        data: Uint8Array;
-        created_at: Date;
-      }[];
+      let rows: LoadedEventRow[];
 
       if (this.idempotent) {
-        const result = await this.client.queryObject<{
-          id: bigint;
-          type: string;
-          data: Uint8Array;
-          created_at: Date;
-        }>(
-          `SELECT e.id, e.type, e.data, e.created_at FROM dcb.select_last_events_by_tags(${queryItemsSql}::dcb.dcb_query_item_tt[]) AS e ORDER BY e.id ASC`,
+        const result = await queryWithParameters<LoadedEventRow>(
+          this.client,
+          (params) =>
+            `SELECT e.id, e.type, e.tags, e.data, e.metadata, e.idempotency_key, e.created_at FROM dcb.select_last_events_by_tags(${
+              mapQueryTuplesToSql(queryTuples, params)
+            }::dcb.dcb_query_item_tt[]) AS e ORDER BY e.id ASC`,
         );
         rows = result.rows;
       } else {
-        const result = await this.client.queryObject<{
-          id: bigint;
-          type: string;
-          data: Uint8Array;
-          created_at: Date;
-        }>(
-          `SELECT e.id, e.type, e.data, e.created_at FROM dcb.select_events_by_tags(${queryItemsSql}::dcb.dcb_query_item_tt[], 0, NULL) AS e ORDER BY e.id ASC`,
+        const result = await queryWithParameters<LoadedEventRow>(
+          this.client,
+          (params) =>
+            `SELECT e.id, e.type, e.tags, e.data, e.metadata, e.idempotency_key, e.created_at FROM dcb.select_events_by_tags(${
+              mapQueryTuplesToSql(queryTuples, params)
+            }::dcb.dcb_query_item_tt[], ${after}::bigint, NULL) AS e ORDER BY e.id ASC`,
         );
         rows = result.rows;
       }
 
+      // Deserialize events
+      const events = await deserializeEvents(
+        rows.map((row) => row.data),
+        this.deserializer,
+        this.encryption,
+      );
+      const metadata = rows.map((row) =>
+        this.metadata.fromStored({
+          eventId: String(row.id),
+          timestamp: row.created_at.getTime(),
+          versionstamp: String(row.id),
+          idempotencyKey: row.idempotency_key,
+        }, row.metadata ?? {})
+      );
+      const position = rows.length > 0
+        ? BigInt(rows[rows.length - 1].id)
+        : null;
+
+      // Advisory mode: position per tuple, from the rows loaded in one snapshot
+      if (this.appendLocking === "advisory") {
+        return {
+          events,
+          metadata,
+          afterId: BigInt(0),
+          afterIds: lastIdsByQueryTuple(rows, queryTuples),
+          position,
+        };
+      }
+
       // Determine after_id: max id from loaded events, or from select_max_id()
       let afterId: bigint;
       if (rows.length > 0) {
@@ -454,10 +944,30 @@ export class PostgresEventRepository<
         afterId = maxIdResult.rows[0].select_max_id ?? BigInt(0);
       }
 
-      // Deserialize events
-      const events = rows.map((row) => this.deserializer(row.data));
+      return { events, metadata, afterId, afterIds: [], position };
+    } catch (error) {
+      throw new RepositoryError("load", error as Error);
+    }
+  }
 
-      return { events, afterId };
+  /**
+   * Loads the per-tuple `after_ids` of query tuples whose events were not
+   * loaded (subsequent commands of a batch in advisory locking mode).
+   */
+  private async loadLastIds(queryTuples: QueryTuple<Ei>[]): Promise<bigint[]> {
+    try {
+      const result = await queryWithParameters<{
+        id: bigint;
+        type: string;
+        tags: string[];
+      }>(
+        this.client,
+        (params) =>
+          `SELECT e.id, e.type, e.tags FROM dcb.select_last_events_by_tags(${
+            mapQueryTuplesToSql(queryTuples, params)
+          }::dcb.dcb_query_item_tt[]) AS e`,
+      );
+      return lastIdsByQueryTuple(result.rows, queryTuples);
     } catch (error) {
       throw new RepositoryError("load", error as Error);
     }
@@ -467,7 +977,7 @@ export class PostgresEventRepository<
    * Loads events by idempotency key for circuit-break detection.
    *
    * Queries `dcb.events` for all events with the given idempotency key.
-   * If events exist, deserializes and returns them with full EventMetadata.
+   * If events exist, deserializes and returns them with their event metadata.
    * If no events exist, returns an empty array.
    *
    * @param idempotencyKey - The idempotency key to look up
@@ -476,16 +986,18 @@ export class PostgresEventRepository<
   private async loadEventsByIdempotencyKey(
     idempotencyKey: string,
   ): Promise<
-    { events: readonly (Eo & EventMetadata)[]; commandKind: string | null }
+    { events: readonly (Eo & EM)[]; commandKind: string | null }
   > {
     try {
-      const escapedKey = escapeSqlString(idempotencyKey);
-
       // Check idempotency_keys table for the stored command_kind
-      const keyResult = await this.client.queryObject<{
+      const keyResult = await queryWithParameters<{
         command_kind: string;
       }>(
-        `SELECT command_kind FROM dcb.idempotency_keys WHERE idempotency_key = '${escapedKey}'`,
+        this.client,
+        (params) =>
+          `SELECT command_kind FROM dcb.idempotency_keys WHERE idempotency_key = ${
+            textSql(idempotencyKey, params)
+          }`,
       );
 
       if (keyResult.rows.length === 0) {
@@ -494,25 +1006,34 @@ export class PostgresEventRepository<
 
       const commandKind = keyResult.rows[0].command_kind;
 
-      const result = await this.client.queryObject<{
+      const result = await queryWithParameters<{
         id: bigint;
         type: string;
         data: Uint8Array;
+        metadata: StoredMetadata | null;
         created_at: Date;
       }>(
-        `SELECT id, type, data, created_at FROM dcb.events WHERE idempotency_key = '${escapedKey}' ORDER BY id ASC`,
+        this.client,
+        (params) =>
+          `SELECT id, type, data, metadata, created_at FROM dcb.events WHERE idempotency_key = ${
+            textSql(idempotencyKey, params)
+          } ORDER BY id ASC`,
       );
 
-      const events = result.rows.map((row) => {
-        const event = this.deserializer(row.data) as Eo;
-        return {
-          ...event,
+      const decrypted = await deserializeEvents(
+        result.rows.map((row) => row.data),
+        this.deserializer as Deserializer<Eo>,
+        this.encryption,
+      );
+      const events = result.rows.map((row, i) => ({
+        ...decrypted[i],
+        ...this.metadata.fromStored({
           eventId: String(row.id),
           timestamp: row.created_at.getTime(),
           versionstamp: String(row.id),
           idempotencyKey,
-        };
-      });
+        }, row.metadata ?? {}),
+      }));
 
       return { events, commandKind };
     } catch (error) {
@@ -521,28 +1042,108 @@ export class PostgresEventRepository<
   }
 
   /**
-   * Persists events via `conditional_append` and enriches with EventMetadata.
+   * Persists events, under a savepoint when running in the caller's transaction.
+   * A conflict or error rolls back to the savepoint, releasing the append locks
+   * and leaving the caller's transaction usable for the retry.
+   */
+  private async persistEvents(
+    events: readonly Eo[],
+    queryTuples: QueryTuple<Ei>[],
+    afterId: bigint,
+    afterIds: readonly bigint[],
+    idempotencyKey: string,
+    commandKind: string,
+    metadata: StoredMetadata,
+  ): Promise<readonly (Eo & EM)[] | null> {
+    if (!this.inCallerTransaction) {
+      return this.appendEvents(
+        events,
+        queryTuples,
+        afterId,
+        afterIds,
+        idempotencyKey,
+        commandKind,
+        metadata,
+      );
+    }
+
+    await this.savepoint("SAVEPOINT dcb_append");
+    let result: readonly (Eo & EM)[] | null;
+    try {
+      result = await this.appendEvents(
+        events,
+        queryTuples,
+        afterId,
+        afterIds,
+        idempotencyKey,
+        commandKind,
+        metadata,
+      );
+    } catch (error) {
+      await this.savepoint("ROLLBACK TO SAVEPOINT dcb_append");
+      throw error;
+    }
+    await this.savepoint(
+      result === null
+        ? "ROLLBACK TO SAVEPOINT dcb_append"
+        : "RELEASE SAVEPOINT dcb_append",
+    );
+    return result;
+  }
+
+  private async savepoint(sql: string): Promise<void> {
+    try {
+      await this.client.queryObject(sql);
+    } catch (error) {
+      throw new RepositoryError("persist", error as Error);
+    }
+  }
+
+  /**
+   * Appends events via `conditional_append` (or `conditional_append_advisory`),
+   * storing the command's metadata in `dcb.events.metadata`, and enriches them
+   * with event metadata.
    * Returns null on conflict (NULL from conditional_append).
    * Throws IdempotencyConflictError on PK violation on dcb.idempotency_keys.
    */
-  private async persistEvents(
+  private async appendEvents(
     events: readonly Eo[],
     queryTuples: QueryTuple<Ei>[],
     afterId: bigint,
+    afterIds: readonly bigint[],
     idempotencyKey: string,
     commandKind: string,
-  ): Promise<readonly (Eo & EventMetadata)[] | null> {
+    metadata: StoredMetadata,
+  ): Promise<readonly (Eo & EM)[] | null> {
     try {
-      const queryItemsSql = mapQueryTuplesToSql(queryTuples);
-      const eventTuplesSql = buildEventTuples(events, this.serializer);
-      const escapedKey = escapeSqlString(idempotencyKey);
-      const escapedKind = escapeSqlString(commandKind);
+      // Encrypted tag fields are indexed by their hash
+      const storedEvents = this.encryption
+        ? await this.encryption.encryptAll(events)
+        : events;
 
       // Call conditional_append with idempotency key and command kind
-      const appendResult = await this.client.queryObject<{
+      const appendResult = await queryWithParameters<{
         conditional_append: unknown;
       }>(
-        `SELECT dcb.conditional_append(${queryItemsSql}::dcb.dcb_query_item_tt[], ${afterId}::bigint, ${eventTuplesSql}::dcb.dcb_event_tt[], '${escapedKey}', '${escapedKind}')`,
+        this.client,
+        (params) => {
+          const queryItems = `${
+            mapQueryTuplesToSql(queryTuples, params)
+          }::dcb.dcb_query_item_tt[]`;
+          const newEvents = `${
+            buildEventTuples(storedEvents, this.serializer, params)
+          }::dcb.dcb_event_tt[]`;
+          const key = textSql(idempotencyKey, params);
+          const kind = textSql(commandKind, params);
+          const stored = Object.keys(metadata).length > 0
+            ? `${textSql(JSON.stringify(metadata), params)}::jsonb`
+            : "NULL::jsonb";
+          return this.appendLocking === "advisory"
+            ? `SELECT dcb.conditional_append_advisory(${queryItems}, ARRAY[${
+              afterIds.join(",")
+            }]::bigint[], ${newEvents}, ${key}, ${kind}, ${stored}) AS conditional_append`
+            : `SELECT dcb.conditional_append(${queryItems}, ${afterId}::bigint, ${newEvents}, ${key}, ${kind}, ${stored})`;
+        },
       );
 
       const returnedValue = appendResult.rows[0]?.conditional_append;
@@ -553,11 +1154,16 @@ export class PostgresEventRepository<
       }
 
       // Success — fetch metadata for newly persisted events
-      const metadataResult = await this.client.queryObject<{
+      // (by idempotency key: events of other streams may also have ids > afterId)
+      const metadataResult = await queryWithParameters<{
         id: bigint;
         created_at: Date;
       }>(
-        `SELECT id, created_at FROM dcb.events WHERE id > ${afterId} ORDER BY id ASC`,
+        this.client,
+        (params) =>
+          `SELECT id, created_at FROM dcb.events WHERE idempotency_key = ${
+            textSql(idempotencyKey, params)
+          } ORDER BY id ASC`,
       );
 
       const metadataRows = metadataResult.rows;
@@ -567,10 +1173,12 @@ export class PostgresEventRepository<
         const meta = metadataRows[i];
         return {
           ...event,
-          eventId: String(meta.id),
-          timestamp: meta.created_at.getTime(),
-          versionstamp: String(meta.id),
-          idempotencyKey,
+          ...this.metadata.fromStored({
+            eventId: String(meta.id),
+            timestamp: meta.created_at.getTime(),
+            versionstamp: String(meta.id),
+            idempotencyKey,
+          }, metadata),
         };
       });
     } catch (error) {
@@ -602,11 +1210,18 @@ export class PostgresEventRepository<
  */
 export class PostgresEventLoader<Ei extends EventShape>
   implements IEventLoader<Ei> {
+  /**
+   * @param client - PostgreSQL client instance
+   * @param deserializer - Converts bytea back into events (default: JSON)
+   * @param idempotent - When true, loads only the latest event per query tuple. When false, performs full replays. Default: true
+   * @param encryption - When set, encrypted personal fields are decrypted (see `FieldEncryption`). Default: none
+   */
   constructor(
     private readonly client: SqlClient,
     private readonly deserializer: Deserializer<Ei> =
       defaultDeserializer as Deserializer<Ei>,
     private readonly idempotent: boolean = true,
+    private readonly encryption?: FieldEncryption,
   ) {}
 
   /**
@@ -617,8 +1232,6 @@ export class PostgresEventLoader<Ei extends EventShape>
    */
   async load(queryTuples: QueryTuple<Ei>[]): Promise<readonly Ei[]> {
     try {
-      const queryItemsSql = mapQueryTuplesToSql(queryTuples);
-
       let rows: {
         id: bigint;
         type: string;
@@ -627,28 +1240,216 @@ export class PostgresEventLoader<Ei extends EventShape>
       }[];
 
       if (this.idempotent) {
-        const result = await this.client.queryObject<{
+        const result = await queryWithParameters<{
           id: bigint;
           type: string;
           data: Uint8Array;
           created_at: Date;
         }>(
-          `SELECT e.id, e.type, e.data, e.created_at FROM dcb.select_last_events_by_tags(${queryItemsSql}::dcb.dcb_query_item_tt[]) AS e ORDER BY e.id ASC`,
+          this.client,
+          (params) =>
+            `SELECT e.id, e.type, e.data, e.created_at FROM dcb.select_last_events_by_tags(${
+              mapQueryTuplesToSql(queryTuples, params)
+            }::dcb.dcb_query_item_tt[]) AS e ORDER BY e.id ASC`,
         );
         rows = result.rows;
       } else {
-        const result = await this.client.queryObject<{
+        const result = await queryWithParameters<{
           id: bigint;
           type: string;
           data: Uint8Array;
           created_at: Date;
         }>(
-          `SELECT e.id, e.type, e.data, e.created_at FROM dcb.select_events_by_tags(${queryItemsSql}::dcb.dcb_query_item_tt[], 0, NULL) AS e ORDER BY e.id ASC`,
+          this.client,
+          (params) =>
+            `SELECT e.id, e.type, e.data, e.created_at FROM dcb.select_events_by_tags(${
+              mapQueryTuplesToSql(queryTuples, params)
+            }::dcb.dcb_query_item_tt[], 0, NULL) AS e ORDER BY e.id ASC`,
         );
         rows = result.rows;
       }
 
-      return rows.map((row) => this.deserializer(row.data));
+      return await deserializeEvents(
+        rows.map((row) => row.data),
+        this.deserializer,
+        this.encryption,
+      );
+    } catch (error) {
+      throw new RepositoryError("load", error as Error);
+    }
+  }
+}
+
+// ---------------------------------------------------------------------------
+// PostgresEventSubscriber
+// ---------------------------------------------------------------------------
+
+/**
+ * Channel notified by `dcb.unconditional_append` after every append.
+ */
+export const DCB_EVENTS_CHANNEL = "dcb_events";
+
+/**
+ * Payload of a `dcb_events` notification. `types` and `tags` are omitted when
+ * they do not fit into the NOTIFY payload limit.
+ */
+interface AppendNotification {
+  readonly max_id: number;
+  readonly types?: readonly string[] | null;
+  readonly tags?: readonly string[] | null;
+}
+
+/**
+ * Live event subscriptions on PostgreSQL via LISTEN/NOTIFY.
+ *
+ * Listens on the `dcb_events` channel. Each notification carries the new max id
+ * and the appended types and tags; when it may match a subscribed query tuple, new
+ * rows are loaded with `dcb.select_events_by_tags(query_items, after_id)` starting
+ * from the last seen id, so no polling loop is needed.
+ *
+ * Appends are serialized by the EXCLUSIVE lock in `conditional_append`, so ids
+ * become visible in order and the last seen id is a safe cursor. This does not
+ * hold for repositories using `appendLocking: "advisory"`.
+ *
+ * Metadata matches `PostgresEventRepository`, restored by the `metadata` mapper
+ * from `dcb.events.metadata`.
+ *
+ * @typeParam Ei - Event type to subscribe to
+ */
+export class PostgresEventSubscriber<Ei extends EventShape>
+  implements IEventSubscriber<Ei, EventMetadata> {
+  /**
+   * @param client - PostgreSQL client used to load events
+   * @param listener - Dedicated connection used for LISTEN
+   * @param deserializer - Converts bytea back into events (default: JSON)
+   * @param encryption - When set, encrypted personal fields are decrypted, before an `upcastingDeserializer` upcasts the events (see `FieldEncryption`). Default: none
+   * @param metadata - Restores the event metadata from the stored metadata, as the repository's `metadata` mapper does (see `MetadataMapper`). Default: `traceMetadataMapper`
+   */
+  constructor(
+    private readonly client: SqlClient,
+    private readonly listener: SqlListener,
+    private readonly deserializer: Deserializer<Ei> =
+      defaultDeserializer as Deserializer<Ei>,
+    private readonly encryption?: FieldEncryption,
+    private readonly metadata: Pick<
+      MetadataMapper<CommandMetadata, EventMetadata>,
+      "fromStored"
+    > = traceMetadataMapper,
+  ) {}
+
+  async *subscribe(
+    queryTuples: QueryTuple<Ei>[],
+    options: SubscribeOptions = {},
+  ): AsyncGenerator<Ei & EventMetadata> {
+    if (queryTuples.length === 0) {
+      throw new RangeError("subscribe requires at least one query tuple");
+    }
+    const { after, signal } = options;
+    if (signal?.aborted) return;
+
+    let pending = after !== undefined;
+    let wake: (() => void) | null = null;
+    const notify = () => {
+      pending = true;
+      wake?.();
+    };
+
+    // Listen before reading the current max id, so no append is missed
+    const unlisten = await this.listener.listen(
+      DCB_EVENTS_CHANNEL,
+      (payload) => {
+        if (this.mayMatch(payload, queryTuples)) notify();
+      },
+    );
+    signal?.addEventListener("abort", notify);
+
+    try {
+      let lastSeenId = after !== undefined
+        ? BigInt(after)
+        : await this.selectMaxId();
+
+      while (!signal?.aborted) {
+        if (!pending) {
+          await new Promise<void>((resolve) => (wake = resolve));
+          wake = null;
+          continue;
+        }
+        pending = false;
+
+        for (const event of await this.loadAfter(queryTuples, lastSeenId)) {
+          if (signal?.aborted) return;
+          lastSeenId = BigInt(event.eventId);
+          yield event;
+        }
+      }
+    } finally {
+      signal?.removeEventListener("abort", notify);
+      await unlisten();
+    }
+  }
+
+  /**
+   * Checks whether a notification may contain events for the query tuples.
+   * Payloads without types/tags (or unparseable ones) always may match.
+   */
+  private mayMatch(payload: string, queryTuples: QueryTuple<Ei>[]): boolean {
+    let notification: AppendNotification;
+    try {
+      notification = JSON.parse(payload);
+    } catch {
+      return true;
+    }
+    const { types, tags } = notification;
+    if (!types || !tags) return true;
+    return queryTuples.some((tuple) =>
+      types.includes(tuple[tuple.length - 1]) &&
+      (tuple.slice(0, -1) as string[]).every((tag) => tags.includes(tag))
+    );
+  }
+
+  private async selectMaxId(): Promise<bigint> {
+    try {
+      const result = await this.client.queryObject<{ max_id: bigint | null }>(
+        `SELECT dcb.select_max_id() AS max_id`,
+      );
+      return BigInt(result.rows[0]?.max_id ?? 0);
+    } catch (error) {
+      throw new RepositoryError("load", error as Error);
+    }
+  }
+
+  private async loadAfter(
+    queryTuples: QueryTuple<Ei>[],
+    afterId: bigint,
+  ): Promise<(Ei & EventMetadata)[]> {
+    try {
+      const result = await queryWithParameters<{
+        id: bigint;
+        data: Uint8Array;
+        idempotency_key: string;
+        metadata: StoredMetadata | null;
+        created_at: Date;
+      }>(
+        this.client,
+        (params) =>
+          `SELECT e.id, e.data, e.idempotency_key, e.metadata, e.created_at FROM dcb.select_events_by_tags(${
+            mapQueryTuplesToSql(queryTuples, params)
+          }::dcb.dcb_query_item_tt[], ${afterId}::bigint, NULL) AS e ORDER BY e.id ASC`,
+      );
+      const events = await deserializeEvents(
+        result.rows.map((row) => row.data),
+        this.deserializer,
+        this.encryption,
+      );
+      return result.rows.map((row, index) => ({
+        ...events[index],
+        ...this.metadata.fromStored({
+          eventId: String(row.id),
+          timestamp: row.created_at.getTime(),
+          versionstamp: String(row.id),
+          idempotencyKey: row.idempotency_key,
+        }, row.metadata ?? {}),
+      }));
     } catch (error) {
       throw new RepositoryError("load", error as Error);
     }
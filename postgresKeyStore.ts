@@ -0,0 +1,89 @@
+/**
+ * PostgreSQL storage for per-subject encryption keys.
+ *
+ * This module provides the PostgreSQL-specific `IKeyStore` backed by the
+ * `dcb.encryption_keys` table, one AES-256 key per subject.
+ */
+
+import type { IKeyStore } from "./encryption.ts";
+import { RepositoryError } from "./infrastructure.ts";
+import {
+  queryWithParameters,
+  type SqlClient,
+  textSql,
+  toHex,
+} from "./postgresEventRepository.ts";
+
+/**
+ * Key store over the `dcb.encryption_keys` table.
+ *
+ * Deleting a row is final only once it is gone from backups too; keep the table's
+ * backup retention in line with your erasure deadlines.
+ */
+export class PostgresKeyStore implements IKeyStore {
+  /**
+   * @param client - PostgreSQL client instance
+   */
+  constructor(private readonly client: SqlClient) {}
+
+  async getKey(subjectId: string): Promise<Uint8Array | null> {
+    try {
+      return await this.selectKey(subjectId);
+    } catch (error) {
+      throw new RepositoryError("load", error as Error);
+    }
+  }
+
+  async getOrCreateKey(subjectId: string): Promise<Uint8Array> {
+    try {
+      const existing = await this.selectKey(subjectId);
+      if (existing !== null) return existing;
+
+      // Concurrent creators insert once; every caller re-reads the stored key
+      const created = crypto.getRandomValues(new Uint8Array(32));
+      await queryWithParameters(
+        this.client,
+        (params) =>
+          `INSERT INTO dcb.encryption_keys (subject_id, key) VALUES (${
+            textSql(subjectId, params)
+          }, ${
+            params
+              ? params.bind(created, "bytea")
+              : `'\\x${toHex(created)}'::bytea`
+          }) ON CONFLICT (subject_id) DO NOTHING`,
+      );
+      const stored = await this.selectKey(subjectId);
+      if (stored === null) {
+        throw new Error(`Encryption key of ${subjectId} deleted concurrently`);
+      }
+      return stored;
+    } catch (error) {
+      throw new RepositoryError("persist", error as Error);
+    }
+  }
+
+  async deleteKey(subjectId: string): Promise<void> {
+    try {
+      await queryWithParameters(
+        this.client,
+        (params) =>
+          `DELETE FROM dcb.encryption_keys WHERE subject_id = ${
+            textSql(subjectId, params)
+          }`,
+      );
+    } catch (error) {
+      throw new RepositoryError("persist", error as Error);
+    }
+  }
+
+  private async selectKey(subjectId: string): Promise<Uint8Array | null> {
+    const result = await queryWithParameters<{ key: Uint8Array }>(
+      this.client,
+      (params) =>
+        `SELECT key FROM dcb.encryption_keys WHERE subject_id = ${
+          textSql(subjectId, params)
+        }`,
+    );
+    return result.rows.length > 0 ? result.rows[0].key : null;
+  }
+}
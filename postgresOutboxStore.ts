@@ -0,0 +1,170 @@
+/**
+ * PostgreSQL storage for the transactional outbox.
+ *
+ * This module provides the PostgreSQL-specific `IOutboxStore` backed by the
+ * `dcb.outbox` table. `dcb.unconditional_append` records every appended event in
+ * it, in the append transaction, when the `dcb.outbox` setting is `'on'`:
+ *
+ * ```sql
+ * ALTER DATABASE mydb SET dcb.outbox = 'on';
+ * ```
+ *
+ * The setting applies to every writer of the database, so no append can bypass
+ * the outbox.
+ */
+
+import type { EventShape } from "./application.ts";
+import { RepositoryError, traceMetadataMapper } from "./infrastructure.ts";
+import type {
+  CommandMetadata,
+  EventMetadata,
+  MetadataMapper,
+  StoredMetadata,
+} from "./infrastructure.ts";
+import {
+  defaultDeserializer,
+  deserializeEvents,
+  type Deserializer,
+  queryWithParameters,
+  type SqlClient,
+  type SqlParameters,
+  textSql,
+} from "./postgresEventRepository.ts";
+import type { FieldEncryption } from "./encryption.ts";
+import type { IOutboxStore, OutboxEntry } from "./outbox.ts";
+
+/**
+ * Outbox store over the `dcb.outbox` table.
+ *
+ * Entries are read in `dcb.events.id` order. Metadata matches
+ * `PostgresEventRepository`: `eventId` and `versionstamp` are the event id as
+ * string, `timestamp` is `created_at` in milliseconds, the rest is restored by
+ * the `metadata` mapper from `dcb.events.metadata`.
+ *
+ * @typeParam E - Event type recorded in the outbox
+ */
+export class PostgresOutboxStore<E extends EventShape>
+  implements IOutboxStore<E> {
+  /**
+   * @param client - PostgreSQL client instance
+   * @param deserializer - Converts bytea back into events (default: JSON)
+   * @param encryption - When set, encrypted personal fields are decrypted, before an `upcastingDeserializer` upcasts the events (see `FieldEncryption`). Default: none
+   * @param metadata - Restores the event metadata from the stored metadata, as the repository's `metadata` mapper does (see `MetadataMapper`). Default: `traceMetadataMapper`
+   */
+  constructor(
+    private readonly client: SqlClient,
+    private readonly deserializer: Deserializer<E> =
+      defaultDeserializer as Deserializer<E>,
+    private readonly encryption?: FieldEncryption,
+    private readonly metadata: Pick<
+      MetadataMapper<CommandMetadata, EventMetadata>,
+      "fromStored"
+    > = traceMetadataMapper,
+  ) {}
+
+  pending(limit: number): Promise<readonly OutboxEntry<E>[]> {
+    return this.list(false, limit);
+  }
+
+  deadLetters(limit: number): Promise<readonly OutboxEntry<E>[]> {
+    return this.list(true, limit);
+  }
+
+  async acknowledge(eventId: string): Promise<void> {
+    try {
+      await this.client.queryObject(
+        `DELETE FROM dcb.outbox WHERE event_id = ${BigInt(eventId)}::bigint`,
+      );
+    } catch (error) {
+      throw new RepositoryError("persist", error as Error);
+    }
+  }
+
+  recordFailure(eventId: string, error: string): Promise<void> {
+    return this.update(
+      eventId,
+      (params) =>
+        `attempts = attempts + 1, last_error = ${textSql(error, params)}`,
+      false,
+    );
+  }
+
+  deadLetter(eventId: string, error: string): Promise<void> {
+    return this.update(
+      eventId,
+      (params) =>
+        `attempts = attempts + 1, last_error = ${
+          textSql(error, params)
+        }, dead_lettered = true`,
+      false,
+    );
+  }
+
+  retryDeadLetter(eventId: string): Promise<void> {
+    return this.update(
+      eventId,
+      () => `attempts = 0, last_error = NULL, dead_lettered = false`,
+      true,
+    );
+  }
+
+  private async update(
+    eventId: string,
+    assignments: (params?: SqlParameters) => string,
+    deadLettered: boolean,
+  ): Promise<void> {
+    try {
+      await queryWithParameters(
+        this.client,
+        (params) =>
+          `UPDATE dcb.outbox SET ${assignments(params)} WHERE event_id = ${
+            BigInt(eventId)
+          }::bigint AND dead_lettered = ${deadLettered}`,
+      );
+    } catch (error) {
+      throw new RepositoryError("persist", error as Error);
+    }
+  }
+
+  private async list(
+    deadLettered: boolean,
+    limit: number,
+  ): Promise<readonly OutboxEntry<E>[]> {
+    try {
+      const result = await this.client.queryObject<{
+        id: bigint;
+        data: Uint8Array;
+        idempotency_key: string;
+        metadata: StoredMetadata | null;
+        created_at: Date;
+        attempts: number;
+        last_error: string | null;
+      }>(
+        `SELECT e.id, e.data, e.idempotency_key, e.metadata, e.created_at, o.attempts, o.last_error FROM dcb.outbox o JOIN dcb.events e ON e.id = o.event_id WHERE ${
+          deadLettered ? "" : "NOT "
+        }o.dead_lettered ORDER BY o.event_id ASC LIMIT ${limit}::bigint`,
+      );
+
+      const events = await deserializeEvents(
+        result.rows.map((row) => row.data),
+        this.deserializer,
+        this.encryption,
+      );
+      return result.rows.map((row, index) => ({
+        event: {
+          ...events[index],
+          ...this.metadata.fromStored({
+            eventId: String(row.id),
+            timestamp: row.created_at.getTime(),
+            versionstamp: String(row.id),
+            idempotencyKey: row.idempotency_key,
+          }, row.metadata ?? {}),
+        },
+        attempts: Number(row.attempts),
+        lastError: row.last_error,
+      }));
+    } catch (error) {
+      throw new RepositoryError("load", error as Error);
+    }
+  }
+}
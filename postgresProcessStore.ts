@@ -0,0 +1,114 @@
+/**
+ * PostgreSQL storage for process runners.
+ *
+ * This module provides the PostgreSQL-specific `IDeadlineScheduler`, backed by
+ * the `dcb.process_deadlines` table and delivered by polling for due rows.
+ */
+
+import { RepositoryError } from "./infrastructure.ts";
+import {
+  queryWithParameters,
+  type SqlClient,
+  type SqlParameters,
+  textSql,
+} from "./postgresEventRepository.ts";
+import type { IDeadlineScheduler, ProcessDeadline } from "./processRunner.ts";
+
+/**
+ * Schedules process deadlines in the `dcb.process_deadlines` table.
+ *
+ * Deadlines are delivered by polling: read the passed ones with
+ * {@link PostgresDeadlineScheduler.due}, hand each to
+ * `ProcessRunner.handleDeadline`, then {@link PostgresDeadlineScheduler.remove}
+ * it. A crash between handling and removal re-delivers the deadline, which the
+ * runner circuit-breaks on its idempotency key.
+ */
+export class PostgresDeadlineScheduler implements IDeadlineScheduler {
+  /**
+   * @param client - PostgreSQL client instance
+   */
+  constructor(private readonly client: SqlClient) {}
+
+  async schedule(deadline: ProcessDeadline): Promise<void> {
+    try {
+      await queryWithParameters(
+        this.client,
+        (params) =>
+          `INSERT INTO dcb.process_deadlines (process_name, process_id, name, due_at) VALUES (${
+            deadlineValues(deadline, params)
+          }) ON CONFLICT DO NOTHING`,
+      );
+    } catch (error) {
+      throw new RepositoryError("persist", error as Error);
+    }
+  }
+
+  /**
+   * Reads deadlines that have passed, oldest first.
+   *
+   * @param now - Unix timestamp in milliseconds to compare against (default: now)
+   * @param limit - Maximum number of deadlines to return (default: 100)
+   * @returns The passed deadlines
+   * @throws RepositoryError if the read fails
+   */
+  async due(
+    now: number = Date.now(),
+    limit: number = 100,
+  ): Promise<readonly ProcessDeadline[]> {
+    try {
+      const result = await this.client.queryObject<{
+        process_name: string;
+        process_id: string;
+        name: string;
+        due_at: bigint;
+      }>(
+        `SELECT process_name, process_id, name, due_at FROM dcb.process_deadlines WHERE due_at <= ${
+          BigInt(Math.floor(now))
+        }::bigint ORDER BY due_at ASC LIMIT ${limit}`,
+      );
+      return result.rows.map((row) => ({
+        processName: row.process_name,
+        processId: row.process_id,
+        name: row.name,
+        dueAt: Number(row.due_at),
+      }));
+    } catch (error) {
+      throw new RepositoryError("load", error as Error);
+    }
+  }
+
+  /**
+   * Removes a delivered deadline.
+   *
+   * @param deadline - The deadline to remove
+   * @throws RepositoryError if the delete fails
+   */
+  async remove(deadline: ProcessDeadline): Promise<void> {
+    try {
+      await queryWithParameters(
+        this.client,
+        (params) =>
+          `DELETE FROM dcb.process_deadlines WHERE (process_name, process_id, name, due_at) = (${
+            deadlineValues(deadline, params)
+          })`,
+      );
+    } catch (error) {
+      throw new RepositoryError("persist", error as Error);
+    }
+  }
+}
+
+/**
+ * Renders the key columns of a deadline as an SQL value list, with the text
+ * columns bound as parameters when `params` is given.
+ */
+function deadlineValues(
+  deadline: ProcessDeadline,
+  params?: SqlParameters,
+): string {
+  return `${textSql(deadline.processName, params)}, ${
+    textSql(deadline.processId, params)
+  }, ${textSql(deadline.name, params)}, ${
+    BigInt(Math.floor(deadline.dueAt))
+  }::bigint`;
+}
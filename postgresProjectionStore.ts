@@ -0,0 +1,146 @@
+/**
+ * PostgreSQL storage for catch-up projections.
+ *
+ * This module provides the PostgreSQL-specific `IEventStreamReader` over the
+ * `dcb.events.id` sequence (via `dcb.select_events_after`) and an
+ * `ICheckpointStore` backed by the `dcb.checkpoints` table.
+ */
+
+import type { EventShape } from "./application.ts";
+import { RepositoryError, traceMetadataMapper } from "./infrastructure.ts";
+import type {
+  CommandMetadata,
+  EventMetadata,
+  MetadataMapper,
+  StoredMetadata,
+} from "./infrastructure.ts";
+import {
+  defaultDeserializer,
+  deserializeEvents,
+  type Deserializer,
+  queryWithParameters,
+  type SqlClient,
+  textSql,
+} from "./postgresEventRepository.ts";
+import type { FieldEncryption } from "./encryption.ts";
+import type {
+  ICheckpointStore,
+  IEventStreamReader,
+} from "./projectionRunner.ts";
+
+/**
+ * Reads the global event log from PostgreSQL in `dcb.events.id` order.
+ *
+ * Metadata matches `PostgresEventRepository`: `eventId` and `versionstamp` are the
+ * event id as string, `timestamp` is `created_at` in milliseconds, the rest is
+ * restored by the `metadata` mapper from `dcb.events.metadata`.
+ *
+ * @typeParam E - Event type returned by the reader
+ */
+export class PostgresEventStreamReader<E extends EventShape>
+  implements IEventStreamReader<E> {
+  /**
+   * @param client - PostgreSQL client instance
+   * @param deserializer - Converts bytea back into events (default: JSON)
+   * @param encryption - When set, encrypted personal fields are decrypted, before an `upcastingDeserializer` upcasts the events (see `FieldEncryption`). Default: none
+   * @param metadata - Restores the event metadata from the stored metadata, as the repository's `metadata` mapper does (see `MetadataMapper`). Default: `traceMetadataMapper`
+   */
+  constructor(
+    private readonly client: SqlClient,
+    private readonly deserializer: Deserializer<E> =
+      defaultDeserializer as Deserializer<E>,
+    private readonly encryption?: FieldEncryption,
+    private readonly metadata: Pick<
+      MetadataMapper<CommandMetadata, EventMetadata>,
+      "fromStored"
+    > = traceMetadataMapper,
+  ) {}
+
+  async read(
+    position: string | null,
+    limit: number,
+  ): Promise<readonly (E & EventMetadata)[]> {
+    try {
+      const afterId = position === null ? BigInt(0) : BigInt(position);
+      const result = await this.client.queryObject<{
+        id: bigint;
+        data: Uint8Array;
+        idempotency_key: string;
+        metadata: StoredMetadata | null;
+        created_at: Date;
+      }>(
+        `SELECT e.id, e.data, e.idempotency_key, e.metadata, e.created_at FROM dcb.select_events_after(${afterId}::bigint, ${limit}::bigint) AS e`,
+      );
+
+      const events = await deserializeEvents(
+        result.rows.map((row) => row.data),
+        this.deserializer,
+        this.encryption,
+      );
+      return result.rows.map((row, index) => ({
+        ...events[index],
+        ...this.metadata.fromStored({
+          eventId: String(row.id),
+          timestamp: row.created_at.getTime(),
+          versionstamp: String(row.id),
+          idempotencyKey: row.idempotency_key,
+        }, row.metadata ?? {}),
+      }));
+    } catch (error) {
+      throw new RepositoryError("load", error as Error);
+    }
+  }
+}
+
+/**
+ * Stores projection checkpoints in the `dcb.checkpoints` table.
+ */
+export class PostgresCheckpointStore implements ICheckpointStore {
+  /**
+   * @param client - PostgreSQL client instance
+   */
+  constructor(private readonly client: SqlClient) {}
+
+  async load(name: string): Promise<string | null> {
+    try {
+      const result = await queryWithParameters<{ position: bigint }>(
+        this.client,
+        (params) =>
+          `SELECT position FROM dcb.checkpoints WHERE name = ${
+            textSql(name, params)
+          }`,
+      );
+      return result.rows.length > 0 ? String(result.rows[0].position) : null;
+    } catch (error) {
+      throw new RepositoryError("load", error as Error);
+    }
+  }
+
+  async save(name: string, position: string): Promise<void> {
+    try {
+      await queryWithParameters(
+        this.client,
+        (params) =>
+          `INSERT INTO dcb.checkpoints (name, position) VALUES (${
+            textSql(name, params)
+          }, ${
+            BigInt(position)
+          }::bigint) ON CONFLICT (name) DO UPDATE SET position = EXCLUDED.position, updated_at = now()`,
+      );
+    } catch (error) {
+      throw new RepositoryError("persist", error as Error);
+    }
+  }
+
+  async reset(name: string): Promise<void> {
+    try {
+      await queryWithParameters(
+        this.client,
+        (params) =>
+          `DELETE FROM dcb.checkpoints WHERE name = ${textSql(name, params)}`,
+      );
+    } catch (error) {
+      throw new RepositoryError("persist", error as Error);
+    }
+  }
+}
@@ -0,0 +1,79 @@
+/**
+ * PostgreSQL storage for event repository snapshots.
+ *
+ * This module provides the PostgreSQL-specific `ISnapshotStore` backed by the
+ * `dcb.snapshots` table, one row per name and query tuples key.
+ */
+
+import { RepositoryError } from "./infrastructure.ts";
+import {
+  defaultDeserializer,
+  defaultSerializer,
+  type Deserializer,
+  queryWithParameters,
+  type Serializer,
+  type SqlClient,
+  textSql,
+  toHex,
+} from "./postgresEventRepository.ts";
+import type { ISnapshotStore, Snapshot } from "./snapshot.ts";
+
+/**
+ * Snapshot store over the `dcb.snapshots` table.
+ *
+ * Positions are `dcb.events.id` values, as produced by `PostgresEventRepository`.
+ */
+export class PostgresSnapshotStore implements ISnapshotStore {
+  /**
+   * @param client - PostgreSQL client instance
+   * @param serializer - Converts states into bytea (default: JSON)
+   * @param deserializer - Converts bytea back into states (default: JSON)
+   */
+  constructor(
+    private readonly client: SqlClient,
+    private readonly serializer: Serializer<unknown> = defaultSerializer,
+    private readonly deserializer: Deserializer<unknown> = defaultDeserializer,
+  ) {}
+
+  async load(name: string, key: string): Promise<Snapshot | null> {
+    try {
+      const result = await queryWithParameters<{
+        state: Uint8Array;
+        position: bigint;
+      }>(
+        this.client,
+        (params) =>
+          `SELECT state, position FROM dcb.snapshots WHERE name = ${
+            textSql(name, params)
+          } AND key = ${textSql(key, params)}`,
+      );
+      if (result.rows.length === 0) return null;
+      const row = result.rows[0];
+      return {
+        state: this.deserializer(row.state),
+        position: String(row.position),
+      };
+    } catch (error) {
+      throw new RepositoryError("load", error as Error);
+    }
+  }
+
+  async save(name: string, key: string, snapshot: Snapshot): Promise<void> {
+    try {
+      const state = this.serializer(snapshot.state);
+      await queryWithParameters(
+        this.client,
+        (params) =>
+          `INSERT INTO dcb.snapshots (name, key, state, position) VALUES (${
+            textSql(name, params)
+          }, ${textSql(key, params)}, ${
+            params ? params.bind(state, "bytea") : `'\\x${toHex(state)}'::bytea`
+          }, ${
+            BigInt(snapshot.position)
+          }::bigint) ON CONFLICT (name, key) DO UPDATE SET state = EXCLUDED.state, position = EXCLUDED.position, updated_at = now() WHERE dcb.snapshots.position < EXCLUDED.position`,
+      );
+    } catch (error) {
+      throw new RepositoryError("persist", error as Error);
+    }
+  }
+}
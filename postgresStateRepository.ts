@@ -0,0 +1,312 @@
+/**
+ * State-stored repository implementation using PostgreSQL.
+ *
+ * This module provides the PostgreSQL-specific `IStateRepository` implementation,
+ * storing one versioned row per aggregate id in `dcb.states` and delegating the
+ * compare-and-set write to the `dcb.conditional_save_state` SQL function.
+ *
+ * The Postgres state repository mirrors the `DenoKvStateRepository` API surface —
+ * same generic type parameters, same `execute`/`executeBatch` methods — so that
+ * switching from Deno KV to Postgres requires only swapping the repository instance.
+ */
+
+import type { IStateComputation } from "./decider.ts";
+import type { CommandShape, IStateRepository } from "./application.ts";
+import {
+  IdempotencyConflictError,
+  IdempotencyKeyMismatchError,
+  OptimisticLockingError,
+  RepositoryError,
+} from "./infrastructure.ts";
+import type { CommandMetadata, StateMetadata } from "./infrastructure.ts";
+import {
+  defaultDeserializer,
+  defaultSerializer,
+  type Deserializer,
+  queryWithParameters,
+  type Serializer,
+  type SqlClient,
+  textSql,
+  toHex,
+} from "./postgresEventRepository.ts";
+import { RetryPolicy } from "./retry.ts";
+
+/**
+ * Row shape of `dcb.states` as returned by the client.
+ */
+interface StateRow {
+  id: string | null;
+  data: Uint8Array | null;
+  version: bigint | null;
+  idempotency_key: string | null;
+  updated_at: Date | null;
+}
+
+// ---------------------------------------------------------------------------
+// PostgresStateRepository
+// ---------------------------------------------------------------------------
+
+/**
+ * Generic state-stored repository implementation using PostgreSQL.
+ *
+ * Storage layout (see `dcb_schema.sql`):
+ * - `dcb.states` — one row per aggregate id: serialized state, `version`, last idempotency key
+ * - `dcb.state_idempotency_keys` — every idempotency key with the command kind and the state it produced
+ *
+ * Writes go through `dcb.conditional_save_state`, a compare-and-set on `version`
+ * (`0` means "no row yet"). A version mismatch returns `NULL` and the whole
+ * load-compute-persist cycle is retried; once retries are exhausted an
+ * `OptimisticLockingError` is thrown with the state id.
+ *
+ * @typeParam C - Command type (must conform to CommandShape)
+ * @typeParam S - State type of the aggregate
+ */
+export class PostgresStateRepository<C extends CommandShape, S>
+  implements IStateRepository<C, S, CommandMetadata, StateMetadata> {
+  private readonly retryPolicy: RetryPolicy;
+
+  /**
+   * Creates a new PostgresStateRepository.
+   *
+   * @param client - PostgreSQL client instance
+   * @param getId - Derives the state id from a command
+   * @param initialState - State used when no row exists for the id yet (typically the decider's `initialState`)
+   * @param maxRetries - Maximum optimistic locking attempts, or a `RetryPolicy` with backoff between them (default: 10)
+   * @param serializer - Converts state into bytea (default: JSON)
+   * @param deserializer - Converts bytea back into state (default: JSON)
+   */
+  constructor(
+    private readonly client: SqlClient,
+    private readonly getId: (command: C) => string,
+    private readonly initialState: S,
+    maxRetries: number | RetryPolicy = 10,
+    private readonly serializer: Serializer<S> =
+      defaultSerializer as Serializer<S>,
+    private readonly deserializer: Deserializer<S> =
+      defaultDeserializer as Deserializer<S>,
+  ) {
+    this.retryPolicy = RetryPolicy.from(maxRetries);
+  }
+
+  /**
+   * Executes a command by loading state, computing new state via the decider,
+   * and persisting it with a compare-and-set on the version column.
+   *
+   * Implements idempotency circuit-break:
+   * 1. Check if idempotencyKey already exists — if so, return the state it produced
+   * 2. Load current state and version
+   * 3. Compute new state using decider
+   * 4. Persist with idempotencyKey via `conditional_save_state`
+   * 5. Retry on conflict (version mismatch or idempotency race), backing off as
+   *    configured by the retry policy
+   */
+  execute(
+    command: C & CommandMetadata,
+    decider: IStateComputation<C, S>,
+  ): Promise<S & StateMetadata> {
+    return this.executeCommands([command], decider);
+  }
+
+  /**
+   * Executes a batch of commands: load state once using the first command's id,
+   * apply each command sequentially, single `conditional_save_state` for the final state.
+   *
+   * The single `idempotencyKey` from the first command's metadata deduplicates
+   * the entire batch as one logical operation.
+   */
+  executeBatch(
+    commands: readonly (C & CommandMetadata)[],
+    decider: IStateComputation<C, S>,
+  ): Promise<S & StateMetadata> {
+    if (commands.length === 0) {
+      return Promise.reject(
+        new RangeError("executeBatch requires at least one command"),
+      );
+    }
+    return this.executeCommands(commands, decider);
+  }
+
+  // -------------------------------------------------------------------------
+  // Private helpers
+  // -------------------------------------------------------------------------
+
+  /**
+   * Shared load-compute-persist cycle for `execute` and `executeBatch`.
+   */
+  private async executeCommands(
+    commands: readonly (C & CommandMetadata)[],
+    decider: IStateComputation<C, S>,
+  ): Promise<S & StateMetadata> {
+    const { idempotencyKey, kind: commandKind } = commands[0];
+    const stateId = this.getId(commands[0]);
+
+    return await this.retryPolicy.run(async () => {
+      // Step 1: Idempotency check — circuit-break if key already used
+      const existing = await this.loadStateByIdempotencyKey(idempotencyKey);
+      if (existing !== null) {
+        if (existing.commandKind !== commandKind) {
+          throw new IdempotencyKeyMismatchError(
+            idempotencyKey,
+            commandKind,
+            existing.commandKind,
+          );
+        }
+        return existing.state;
+      }
+
+      // Step 2: Load current state and version
+      const { state, version } = await this.loadState(stateId);
+
+      // Step 3: Decider errors propagate directly — never wrapped
+      const newState = commands.reduce(
+        (s, command) => decider.computeNewState(s, command),
+        state,
+      );
+
+      // Step 4: Persist with idempotencyKey
+      try {
+        // NULL → version mismatch, retry
+        return await this.persistState(
+          stateId,
+          newState,
+          version,
+          idempotencyKey,
+          commandKind,
+        );
+      } catch (error) {
+        if (error instanceof IdempotencyConflictError) {
+          // Race condition: another execution persisted with same key
+          // Retry — next attempt's idempotency check will find the stored state
+          return null;
+        }
+        throw error;
+      }
+    }, (attempts) => new OptimisticLockingError(attempts, stateId));
+  }
+
+  /**
+   * Loads the current state and its version (`0` if no row exists yet).
+   */
+  private async loadState(
+    stateId: string,
+  ): Promise<{ state: S; version: bigint }> {
+    try {
+      const result = await queryWithParameters<{
+        data: Uint8Array;
+        version: bigint;
+      }>(
+        this.client,
+        (params) =>
+          `SELECT data, version FROM dcb.states WHERE id = ${
+            textSql(stateId, params)
+          }`,
+      );
+
+      if (result.rows.length === 0) {
+        return { state: this.initialState, version: BigInt(0) };
+      }
+
+      const row = result.rows[0];
+      return {
+        state: this.deserializer(row.data),
+        version: BigInt(row.version),
+      };
+    } catch (error) {
+      throw new RepositoryError("load", error as Error);
+    }
+  }
+
+  /**
+   * Loads the state produced by a previous command with the same idempotency key.
+   *
+   * @param idempotencyKey - The idempotency key to look up
+   * @returns The stored state with metadata and the original command kind, or null if the key is unused
+   */
+  private async loadStateByIdempotencyKey(
+    idempotencyKey: string,
+  ): Promise<{ state: S & StateMetadata; commandKind: string } | null> {
+    try {
+      const result = await queryWithParameters<{
+        command_kind: string;
+        data: Uint8Array;
+        version: bigint;
+        created_at: Date;
+      }>(
+        this.client,
+        (params) =>
+          `SELECT command_kind, data, version, created_at FROM dcb.state_idempotency_keys WHERE idempotency_key = ${
+            textSql(idempotencyKey, params)
+          }`,
+      );
+
+      if (result.rows.length === 0) return null;
+
+      const row = result.rows[0];
+      return {
+        state: {
+          ...this.deserializer(row.data),
+          timestamp: row.created_at.getTime(),
+          versionstamp: String(row.version),
+          idempotencyKey,
+        } as S & StateMetadata,
+        commandKind: row.command_kind,
+      };
+    } catch (error) {
+      throw new RepositoryError("load", error as Error);
+    }
+  }
+
+  /**
+   * Persists state via `conditional_save_state` and enriches it with StateMetadata.
+   * Returns null on conflict (NULL from conditional_save_state).
+   * Throws IdempotencyConflictError on PK violation on dcb.state_idempotency_keys.
+   */
+  private async persistState(
+    stateId: string,
+    state: S,
+    expectedVersion: bigint,
+    idempotencyKey: string,
+    commandKind: string,
+  ): Promise<(S & StateMetadata) | null> {
+    try {
+      const data = this.serializer(state);
+
+      const result = await queryWithParameters<StateRow>(
+        this.client,
+        (params) =>
+          `SELECT * FROM dcb.conditional_save_state(${
+            textSql(stateId, params)
+          }, ${expectedVersion}::bigint, ${
+            params ? params.bind(data, "bytea") : `'\\x${toHex(data)}'::bytea`
+          }, ${textSql(idempotencyKey, params)}, ${
+            textSql(commandKind, params)
+          })`,
+      );
+
+      const row = result.rows[0];
+
+      // NULL row means version mismatch
+      if (!row || row.version === null || row.updated_at === null) {
+        return null;
+      }
+
+      return {
+        ...state,
+        timestamp: row.updated_at.getTime(),
+        versionstamp: String(row.version),
+        idempotencyKey,
+      } as S & StateMetadata;
+    } catch (error) {
+      // Check for PK violation on dcb.state_idempotency_keys (unique_violation = 23505)
+      const pgError = error as { code?: string; message?: string };
+      if (
+        pgError.code === "23505" ||
+        (pgError.message &&
+          pgError.message.includes("state_idempotency_keys"))
+      ) {
+        throw new IdempotencyConflictError(idempotencyKey);
+      }
+      throw new RepositoryError("persist", error as Error);
+    }
+  }
+}
@@ -0,0 +1,200 @@
+/**
+ * Materialized view repository implementation using PostgreSQL.
+ *
+ * This module provides the PostgreSQL-specific `IViewStateRepository` implementation,
+ * storing one versioned row per view id in `dcb.view_states` together with the id
+ * of the last applied event, and delegating the compare-and-set write to the
+ * `dcb.conditional_save_view_state` SQL function.
+ *
+ * It mirrors the `DenoKvViewStateRepository` API surface, so that switching from
+ * Deno KV to Postgres requires only swapping the repository instance.
+ */
+
+import type { IProjection } from "./view.ts";
+import type { EventShape, IViewStateRepository } from "./application.ts";
+import { OptimisticLockingError, RepositoryError } from "./infrastructure.ts";
+import type { EventMetadata, ViewStateMetadata } from "./infrastructure.ts";
+import {
+  defaultDeserializer,
+  defaultSerializer,
+  type Deserializer,
+  queryWithParameters,
+  type Serializer,
+  type SqlClient,
+  textSql,
+  toHex,
+} from "./postgresEventRepository.ts";
+import { RetryPolicy } from "./retry.ts";
+
+/**
+ * Row shape of `dcb.view_states` as returned by the client.
+ */
+interface ViewStateRow {
+  id: string | null;
+  data: Uint8Array | null;
+  last_event_id: string | null;
+  version: bigint | null;
+  updated_at: Date | null;
+}
+
+// ---------------------------------------------------------------------------
+// PostgresViewStateRepository
+// ---------------------------------------------------------------------------
+
+/**
+ * Generic materialized view repository implementation using PostgreSQL.
+ *
+ * Storage layout (see `dcb_schema.sql`):
+ * - `dcb.view_states` — one row per view id: serialized state, `last_event_id`, `version`
+ *
+ * Re-delivery is a no-op: an event whose `eventId` is not greater than
+ * `last_event_id` (event ids are `dcb.events.id` values) returns the stored state
+ * unchanged. Events of one view must therefore be projected in event order.
+ * Writes go through `dcb.conditional_save_view_state`, a compare-and-set on
+ * `version` (`0` means "no row yet"); conflicts are retried as configured by
+ * `maxRetries` (see `RetryPolicy`).
+ *
+ * @typeParam E - Event type consumed by the view (must conform to EventShape)
+ * @typeParam S - State type of the view
+ */
+export class PostgresViewStateRepository<E extends EventShape, S>
+  implements IViewStateRepository<E, S, EventMetadata, ViewStateMetadata> {
+  private readonly retryPolicy: RetryPolicy;
+
+  /**
+   * Creates a new PostgresViewStateRepository.
+   *
+   * @param client - PostgreSQL client instance
+   * @param getId - Derives the view id from an event
+   * @param maxRetries - Maximum optimistic locking attempts, or a `RetryPolicy` with backoff between them (default: 10)
+   * @param serializer - Converts view state into bytea (default: JSON)
+   * @param deserializer - Converts bytea back into view state (default: JSON)
+   */
+  constructor(
+    private readonly client: SqlClient,
+    private readonly getId: (event: E) => string,
+    maxRetries: number | RetryPolicy = 10,
+    private readonly serializer: Serializer<S> =
+      defaultSerializer as Serializer<S>,
+    private readonly deserializer: Deserializer<S> =
+      defaultDeserializer as Deserializer<S>,
+  ) {
+    this.retryPolicy = RetryPolicy.from(maxRetries);
+  }
+
+  /**
+   * Projects an event by loading the view state, evolving it, and persisting it.
+   *
+   * 1. Load the current view state (or the view's `initialState`) with its version
+   * 2. If the event was already applied (`eventId` is not greater than
+   *    `last_event_id`), return the stored state
+   * 3. Evolve the state using the view
+   * 4. Persist via `conditional_save_view_state`, retrying on conflict as configured by the retry policy
+   */
+  async execute(
+    event: E & EventMetadata,
+    view: IProjection<S, E>,
+  ): Promise<S & ViewStateMetadata> {
+    const viewId = this.getId(event);
+
+    return await this.retryPolicy.run(async () => {
+      // Step 1: Load current view state
+      const row = await this.loadRow(viewId);
+
+      // Step 2: Re-delivered event — nothing to apply
+      if (
+        row !== null && BigInt(event.eventId) <= BigInt(row.last_event_id!)
+      ) {
+        return this.toViewState(row);
+      }
+
+      // Step 3: Evolve state — view errors propagate directly
+      const newState = view.evolve(
+        row !== null ? this.deserializer(row.data!) : view.initialState,
+        event,
+      );
+
+      // Step 4: Persist with compare-and-set on version
+      const persisted = await this.persistRow(
+        viewId,
+        newState,
+        row !== null ? BigInt(row.version!) : BigInt(0),
+        event.eventId,
+      );
+
+      // NULL → version mismatch, retry
+      return persisted !== null ? this.toViewState(persisted) : null;
+    }, (attempts) => new OptimisticLockingError(attempts, viewId));
+  }
+
+  /**
+   * Loads the stored view state for a view id, for serving queries.
+   *
+   * @param viewId - The view id (same format as produced by `getId`)
+   * @returns The stored view state with metadata, or null if no event was projected yet
+   */
+  async load(viewId: string): Promise<(S & ViewStateMetadata) | null> {
+    const row = await this.loadRow(viewId);
+    return row !== null ? this.toViewState(row) : null;
+  }
+
+  // -------------------------------------------------------------------------
+  // Private helpers
+  // -------------------------------------------------------------------------
+
+  private async loadRow(viewId: string): Promise<ViewStateRow | null> {
+    try {
+      const result = await queryWithParameters<ViewStateRow>(
+        this.client,
+        (params) =>
+          `SELECT id, data, last_event_id, version, updated_at FROM dcb.view_states WHERE id = ${
+            textSql(viewId, params)
+          }`,
+      );
+      return result.rows.length > 0 ? result.rows[0] : null;
+    } catch (error) {
+      throw new RepositoryError("load", error as Error);
+    }
+  }
+
+  /**
+   * Persists view state via `conditional_save_view_state`.
+   * Returns null on conflict (NULL from conditional_save_view_state).
+   */
+  private async persistRow(
+    viewId: string,
+    state: S,
+    expectedVersion: bigint,
+    lastEventId: string,
+  ): Promise<ViewStateRow | null> {
+    try {
+      const data = this.serializer(state);
+
+      const result = await queryWithParameters<ViewStateRow>(
+        this.client,
+        (params) =>
+          `SELECT * FROM dcb.conditional_save_view_state(${
+            textSql(viewId, params)
+          }, ${expectedVersion}::bigint, ${
+            params ? params.bind(data, "bytea") : `'\\x${toHex(data)}'::bytea`
+          }, ${textSql(lastEventId, params)})`,
+      );
+
+      const row = result.rows[0];
+      // NULL row means version mismatch
+      return row && row.version !== null ? row : null;
+    } catch (error) {
+      throw new RepositoryError("persist", error as Error);
+    }
+  }
+
+  /** Deserializes a stored row and spreads it together with ViewStateMetadata. */
+  private toViewState(row: ViewStateRow): S & ViewStateMetadata {
+    return {
+      ...this.deserializer(row.data!),
+      lastEventId: row.last_event_id!,
+      timestamp: row.updated_at!.getTime(),
+      versionstamp: String(row.version),
+    } as S & ViewStateMetadata;
+  }
+}
@@ -0,0 +1,536 @@
+/**
+ * Process runtime that executes process actions and feeds their results back.
+ *
+ * This module provides the storage-agnostic `ProcessRunner`, which drives an
+ * `IDcbProcess` (for example an `AggregateWorkflowProcess`) as a production
+ * component: action results are fed through `decide`, the produced process
+ * events are persisted via an `IEventRepository`, the actions made ready by
+ * `react` are dispatched to registered executors, and the executors' outcomes
+ * are fed back through `decide`. Deadlines of process events can be scheduled
+ * with an `IDeadlineScheduler` and are fed back as action results when they pass.
+ */
+
+import type {
+  CommandShape,
+  IEventRepository,
+  QueryTuple,
+} from "./application.ts";
+import type { IEventComputation } from "./decider.ts";
+import {
+  type CommandMetadata,
+  type EventMetadata,
+  type TraceMetadata,
+  traceMetadata,
+} from "./infrastructure.ts";
+import type { IDcbProcess } from "./process.ts";
+import type {
+  TaskDeadlineElapsed,
+  TaskPayloads,
+  UntypedTaskPayloads,
+  WorkflowEvent,
+} from "./process_workflow.ts";
+
+/**
+ * Stored form of an event produced by a process.
+ *
+ * Process events are kept in the same event store as domain events, tagged with
+ * the process name and the process instance id.
+ *
+ * @typeParam E - Event type of the process (e.g. `WorkflowEvent<TaskName>`)
+ */
+export interface ProcessEvent<E> {
+  readonly kind: "ProcessEvent";
+  readonly processName: string;
+  readonly processId: string;
+  readonly event: E;
+  readonly tagFields: readonly ["processName", "processId"];
+}
+
+/**
+ * Command that feeds an action result into a process instance.
+ *
+ * @typeParam AR - Action result type of the process
+ */
+export interface ProcessCommand<AR> {
+  readonly kind: "ProcessActionResult";
+  readonly processName: string;
+  readonly processId: string;
+  readonly actionResult: AR;
+}
+
+/**
+ * Repository persisting the events of process instances.
+ *
+ * Must load the full event history (for `DenoKvEventRepository`, pass
+ * `idempotent = false`), and should use {@link processQueryTuples} to select the
+ * events of the process instance. On top of `IEventRepository`, it loads events
+ * with their metadata, from which `recover` restores the idempotency keys and
+ * tracing metadata of interrupted actions. `DenoKvEventRepository`,
+ * `PostgresEventRepository`, `SqliteEventRepository` and
+ * `InMemoryEventRepository` implement it.
+ */
+export interface ProcessEventRepository<AR, E> extends
+  IEventRepository<
+    ProcessCommand<AR>,
+    ProcessEvent<E>,
+    ProcessEvent<E>,
+    CommandMetadata,
+    EventMetadata
+  > {
+  /**
+   * Loads events matching the given query tuples together with their event metadata.
+   *
+   * @param queryTuples - Array of query tuples specifying which events to load
+   * @returns A promise resolving to the loaded events with their metadata, in chronological order
+   */
+  readonly loadWithMetadata: (
+    queryTuples: QueryTuple<ProcessEvent<E>>[],
+  ) => Promise<readonly (ProcessEvent<E> & EventMetadata)[]>;
+}
+
+/**
+ * Query tuples selecting the events of the process instance a command targets.
+ *
+ * @param command - The process command
+ * @returns A single tuple tagged with the process name and id
+ */
+export const processQueryTuples = <AR, E>(
+  command: ProcessCommand<AR>,
+): QueryTuple<ProcessEvent<E>>[] => [
+  [
+    "processName:" + command.processName,
+    "processId:" + command.processId,
+    "ProcessEvent",
+  ],
+];
+
+/**
+ * Executors of process actions, keyed by action kind.
+ *
+ * Each executor receives the action and its command metadata — a deterministic
+ * idempotency key, the inherited correlation id and headers, and the id of the
+ * process event that made the action ready as causation id — and returns the
+ * outcomes to feed back into the process. Actions may be executed again after a
+ * crash or a re-delivery, so executors must be idempotent — typically by passing
+ * the metadata on to a command handler.
+ *
+ * @typeParam A - Action type of the process
+ * @typeParam AR - Action result type of the process
+ */
+export type ActionExecutors<A extends CommandShape, AR> = {
+  readonly [K in A["kind"]]?: (
+    action: Extract<A, { kind: K }>,
+    metadata: CommandMetadata,
+  ) => Promise<readonly AR[]>;
+};
+
+/**
+ * Deadline of a process instance, e.g. of a started workflow task.
+ *
+ * @property processName - Name of the process the deadline belongs to
+ * @property processId - Id of the process instance
+ * @property name - Name of the deadline within the instance (e.g. the task name)
+ * @property dueAt - Unix timestamp in milliseconds when the deadline passes
+ */
+export interface ProcessDeadline {
+  readonly processName: string;
+  readonly processId: string;
+  readonly name: string;
+  readonly dueAt: number;
+}
+
+/**
+ * Schedules process deadlines for delivery once they pass.
+ *
+ * Delivery is implementation-specific (a queue listener or a polled due-at table);
+ * delivered deadlines are handed to {@link ProcessRunner.handleDeadline}. A
+ * deadline may be delivered more than once.
+ */
+export interface IDeadlineScheduler {
+  /**
+   * Schedules a deadline.
+   *
+   * @param deadline - The deadline to deliver once `dueAt` has passed
+   */
+  readonly schedule: (deadline: ProcessDeadline) => Promise<void>;
+}
+
+/**
+ * Deadline handling of a {@link ProcessRunner}.
+ *
+ * @property scheduler - Scheduler the deadlines of new process events are registered with
+ * @property getDeadline - Extracts the deadline of a process event, or null if it has none
+ * @property toActionResult - Turns a passed deadline into the action result fed into the process
+ *
+ * @typeParam AR - Action result type of the process
+ * @typeParam E - Event type of the process
+ */
+export interface ProcessRunnerDeadlines<AR, E> {
+  readonly scheduler: IDeadlineScheduler;
+  readonly getDeadline: (
+    event: E,
+  ) => { readonly name: string; readonly dueAt: number } | null;
+  readonly toActionResult: (deadline: ProcessDeadline) => AR;
+}
+
+/**
+ * Deadline handling for workflow processes: every `TaskStarted` event with a
+ * deadline is scheduled, and passed deadlines are fed back as `TaskDeadlineElapsed`
+ * (handled by `TaskDeadlineWorkflow`).
+ *
+ * @typeParam TaskName - Union type of valid task names for type safety
+ * @typeParam Tasks - Payload types per task name
+ * @param scheduler - Scheduler the task deadlines are registered with
+ * @returns Deadline handling for a workflow `ProcessRunner`
+ */
+export const workflowDeadlines = <
+  TaskName extends string,
+  Tasks extends TaskPayloads<TaskName> = UntypedTaskPayloads<TaskName>,
+>(
+  scheduler: IDeadlineScheduler,
+): ProcessRunnerDeadlines<
+  TaskDeadlineElapsed<TaskName>,
+  WorkflowEvent<TaskName, Tasks>
+> => ({
+  scheduler,
+  getDeadline: (event) =>
+    event.type === "TaskStarted" && event.deadline !== undefined
+      ? { name: event.taskName, dueAt: event.deadline }
+      : null,
+  toActionResult: (deadline) => ({
+    kind: "TaskDeadlineElapsed",
+    processId: deadline.processId,
+    taskName: deadline.name as TaskName,
+    deadline: deadline.dueAt,
+  }),
+});
+
+/**
+ * Runs a named process over action results.
+ *
+ * @remarks
+ * Process instances are identified by `getId(actionResult)`; each instance has its
+ * own event stream, and its state is rebuilt from that stream on every step.
+ *
+ * Handling an action result:
+ * 1. Feeds it through the process's `decide` and persists the produced events
+ * 2. For every produced event, evolves the state and dispatches the actions returned by `react`
+ * 3. Feeds the executors' outcomes back the same way, until no actions remain
+ *
+ * Idempotency keys are derived deterministically from the triggering event ids,
+ * so re-delivered action results return the stored process events, and executors
+ * see the same keys when an action is issued again.
+ *
+ * Tracing metadata flows along each step: process events and dispatched actions
+ * inherit the correlation id and headers of the action result, and take the id
+ * of the event that caused them as causation id.
+ *
+ * After a crash, actions may have been dispatched but their outcomes never fed
+ * back. {@link ProcessRunner.recover} re-issues the actions from `pending(state)`
+ * of every process instance, with the tracing metadata stored with their steps.
+ *
+ * With `deadlines` configured, the deadline of every persisted process event is
+ * scheduled before its actions are dispatched, and passed deadlines are fed back
+ * through {@link ProcessRunner.handleDeadline}.
+ *
+ * @typeParam AR - Action result type of the process
+ * @typeParam S - State type of the process
+ * @typeParam E - Event type of the process
+ * @typeParam A - Action type of the process
+ */
+export class ProcessRunner<AR, S, E, A extends CommandShape> {
+  /**
+   * @param name - Process name, tagged on every stored process event
+   * @param process - The process to run
+   * @param repository - Repository persisting the process events
+   * @param getId - Derives the process instance id from an action result
+   * @param executors - Executors of the process actions, keyed by action kind
+   * @param deadlines - Optional deadline scheduling (e.g. {@link workflowDeadlines})
+   */
+  constructor(
+    private readonly name: string,
+    private readonly process: IDcbProcess<AR, S, E, E, A>,
+    private readonly repository: ProcessEventRepository<AR, E>,
+    private readonly getId: (actionResult: AR) => string,
+    private readonly executors: ActionExecutors<A, AR>,
+    private readonly deadlines?: ProcessRunnerDeadlines<AR, E>,
+  ) {}
+
+  /**
+   * Handles every action result of a source until it ends.
+   *
+   * The idempotency key of each step is derived from the action result's `eventId`.
+   * The step inherits the action result's correlation id (its `eventId` when it has
+   * none) and headers, with its `eventId` as causation id. For sources without
+   * event metadata (e.g. `IEventLoader.load`), call {@link ProcessRunner.handle}
+   * with an explicit key instead.
+   *
+   * @param source - Action results with metadata, e.g. `IEventSubscriber.subscribe`
+   * @returns The number of handled action results
+   * @throws Error if an action has no registered executor
+   */
+  async run(
+    source:
+      | AsyncIterable<AR & EventMetadata>
+      | Iterable<AR & EventMetadata>,
+  ): Promise<number> {
+    let count = 0;
+    for await (const actionResult of source) {
+      await this.handle(actionResult, this.name + ":" + actionResult.eventId, {
+        ...traceMetadata(actionResult),
+        correlationId: actionResult.correlationId ?? actionResult.eventId,
+        causationId: actionResult.eventId,
+      });
+      count++;
+    }
+    return count;
+  }
+
+  /**
+   * Handles a single action result, including the outcomes of the actions it makes ready.
+   *
+   * A re-delivered action result (same idempotency key) returns the stored process
+   * events without dispatching their actions again; actions interrupted by a crash
+   * are re-issued by {@link ProcessRunner.recover}.
+   *
+   * @param actionResult - The action result to feed into the process
+   * @param idempotencyKey - Idempotency key of the step (e.g. derived from the event id)
+   * @param trace - Tracing metadata of the step, stored with its process events and inherited by its actions
+   * @returns All process events produced, in order
+   * @throws Error if an action has no registered executor
+   */
+  async handle(
+    actionResult: AR,
+    idempotencyKey: string,
+    trace: TraceMetadata = {},
+  ): Promise<readonly (ProcessEvent<E> & EventMetadata)[]> {
+    const produced: (ProcessEvent<E> & EventMetadata)[] = [];
+    const queue = [{ actionResult, idempotencyKey, trace }];
+
+    while (queue.length > 0) {
+      const step = queue.shift()!;
+      // State the successful attempt decided on; not set on circuit-break
+      let state = this.process.initialState;
+      let decided = false;
+      const decider: IEventComputation<
+        ProcessCommand<AR>,
+        ProcessEvent<E>,
+        ProcessEvent<E>
+      > = {
+        computeNewEvents: (events, command) => {
+          const current = this.currentState(events);
+          state = current;
+          decided = true;
+          return this.process.decide(command.actionResult, current).map((
+            event,
+          ) => this.toProcessEvent(command.processId, event));
+        },
+      };
+
+      const processId = this.getId(step.actionResult);
+      const newEvents = await this.repository.execute({
+        kind: "ProcessActionResult",
+        processName: this.name,
+        processId,
+        actionResult: step.actionResult,
+        idempotencyKey: step.idempotencyKey,
+        ...step.trace,
+      }, decider);
+      produced.push(...newEvents);
+      if (!decided) continue;
+
+      for (const event of newEvents) {
+        await this.scheduleDeadline(processId, event.event);
+      }
+      for (const event of newEvents) {
+        state = this.process.evolve(state, event.event);
+        const actions = this.process.react(state, event.event);
+        for (const [index, action] of actions.entries()) {
+          const key = this.name + ":" + event.eventId + ":" + index;
+          const trace = { ...step.trace, causationId: event.eventId };
+          const outcomes = await this.dispatch(action, {
+            idempotencyKey: key,
+            ...trace,
+          });
+          outcomes.forEach((outcome, outcomeIndex) =>
+            queue.push({
+              actionResult: outcome,
+              idempotencyKey: key + ":" + outcomeIndex,
+              trace,
+            })
+          );
+        }
+      }
+    }
+
+    return produced;
+  }
+
+  /**
+   * Handles a deadline delivered by the scheduler.
+   *
+   * @param deadline - The passed deadline; deadlines of other processes are ignored
+   * @returns All process events produced, in order
+   * @throws Error if the runner has no deadline handling configured
+   */
+  handleDeadline(
+    deadline: ProcessDeadline,
+  ): Promise<readonly (ProcessEvent<E> & EventMetadata)[]> {
+    if (this.deadlines === undefined) {
+      return Promise.reject(
+        new Error(`Process ${this.name}: no deadline handling configured`),
+      );
+    }
+    if (deadline.processName !== this.name) return Promise.resolve([]);
+    return this.handle(
+      this.deadlines.toActionResult(deadline),
+      this.name + ":deadline:" + deadline.processId + ":" + deadline.name +
+        ":" + deadline.dueAt,
+    );
+  }
+
+  /**
+   * Re-issues the actions from `pending(state)` of every process instance and
+   * feeds their outcomes back. Call on startup, before consuming new action results.
+   *
+   * Each pending action is keyed like its original dispatch, by the id of the
+   * latest process event whose `react` returned it, so executors circuit-break on
+   * actions that completed before the crash. Pending actions no event reacted
+   * with are keyed by the instance's stream length.
+   *
+   * With `deadlines` configured, the deadlines of instances with pending actions
+   * are scheduled again, in case the runner stopped before scheduling them.
+   *
+   * Re-issued actions carry the tracing metadata of their original dispatch: the
+   * correlation id and headers stored with the reacting process event, and its id
+   * as causation id. Pending actions no event reacted with take them from the
+   * latest process event of the instance.
+   *
+   * @returns The number of re-issued actions
+   * @throws Error if an action has no registered executor
+   */
+  async recover(): Promise<number> {
+    const events = await this.repository.loadWithMetadata([
+      ["processName:" + this.name, "ProcessEvent"],
+    ]);
+
+    const streams = new Map<string, (ProcessEvent<E> & EventMetadata)[]>();
+    for (const event of events) {
+      const stream = streams.get(event.processId) ?? [];
+      stream.push(event);
+      streams.set(event.processId, stream);
+    }
+
+    let count = 0;
+    for (const [processId, stream] of streams) {
+      const actions = this.process.pending(this.currentState(stream));
+      if (actions.length > 0) {
+        for (const event of stream) {
+          await this.scheduleDeadline(processId, event.event);
+        }
+      }
+      const reacted = this.reactedActions(stream);
+      const latest = stream[stream.length - 1];
+      for (const [index, action] of actions.entries()) {
+        // Keyed like the original dispatch; otherwise by the stream length, so
+        // recovering the same state again reuses the keys
+        const { key, trace } = reacted.get(JSON.stringify(action)) ?? {
+          key: this.name + ":recover:" + processId + ":" + stream.length + ":" +
+            index,
+          trace: { ...traceMetadata(latest), causationId: latest.eventId },
+        };
+        const outcomes = await this.dispatch(action, {
+          idempotencyKey: key,
+          ...trace,
+        });
+        for (const [outcomeIndex, outcome] of outcomes.entries()) {
+          await this.handle(outcome, key + ":" + outcomeIndex, trace);
+        }
+        count++;
+      }
+    }
+    return count;
+  }
+
+  /**
+   * Replays a process instance stream and maps every action returned by `react`,
+   * by its serialized form, to the idempotency key and tracing metadata it was
+   * dispatched with; later events override earlier ones.
+   */
+  private reactedActions(
+    stream: readonly (ProcessEvent<E> & EventMetadata)[],
+  ): Map<string, { key: string; trace: TraceMetadata }> {
+    const dispatched = new Map<string, { key: string; trace: TraceMetadata }>();
+    let state = this.process.initialState;
+    for (const event of stream) {
+      state = this.process.evolve(state, event.event);
+      for (
+        const [index, action] of this.process.react(state, event.event)
+          .entries()
+      ) {
+        dispatched.set(JSON.stringify(action), {
+          key: this.name + ":" + event.eventId + ":" + index,
+          trace: { ...traceMetadata(event), causationId: event.eventId },
+        });
+      }
+    }
+    return dispatched;
+  }
+
+  /**
+   * Dispatches an action to the executor registered for its kind.
+   */
+  private dispatch(
+    action: A,
+    metadata: CommandMetadata,
+  ): Promise<readonly AR[]> {
+    const executor = this.executors[action.kind as A["kind"]] as
+      | ((action: A, metadata: CommandMetadata) => Promise<readonly AR[]>)
+      | undefined;
+    if (executor === undefined) {
+      return Promise.reject(
+        new Error(
+          `Process ${this.name}: no executor registered for action "${action.kind}"`,
+        ),
+      );
+    }
+    return executor(action, metadata);
+  }
+
+  /**
+   * Schedules the deadline of a process event, if it has one.
+   */
+  private async scheduleDeadline(processId: string, event: E): Promise<void> {
+    const deadline = this.deadlines?.getDeadline(event);
+    if (this.deadlines === undefined || !deadline) return;
+    await this.deadlines.scheduler.schedule({
+      processName: this.name,
+      processId,
+      name: deadline.name,
+      dueAt: deadline.dueAt,
+    });
+  }
+
+  /**
+   * Folds process events into the process state.
+   */
+  private currentState(events: readonly ProcessEvent<E>[]): S {
+    return events.reduce(
+      (state, event) => this.process.evolve(state, event.event),
+      this.process.initialState,
+    );
+  }
+
+  /**
+   * Wraps a process event for storage.
+   */
+  private toProcessEvent(processId: string, event: E): ProcessEvent<E> {
+    return {
+      kind: "ProcessEvent",
+      processName: this.name,
+      processId,
+      event,
+      tagFields: ["processName", "processId"],
+    };
+  }
+}
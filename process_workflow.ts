@@ -14,39 +14,174 @@
 import type { IAggregateProcess, IDcbProcess, IProcess } from "./process.ts";
 import { AggregateProcess, DcbProcess, Process } from "./process.ts";
 
+/**
+ * Payload types of a workflow task.
+ *
+ * @property start - Type of the `metadata` of the task's TaskStarted event
+ * @property result - Type of the `result` of the task's TaskCompleted event
+ */
+export interface TaskPayload {
+  readonly start: unknown;
+  readonly result: unknown;
+}
+
+/**
+ * Maps every task name of a workflow to its payload types.
+ *
+ * @example
+ * ```typescript
+ * type OrderTasks = {
+ *   createOrder: {
+ *     start: { orderId: OrderId; menuItems: MenuItem[] };
+ *     result: { orderId: OrderId };
+ *   };
+ * };
+ * type OrderTaskName = keyof OrderTasks;
+ * ```
+ *
+ * @typeParam TaskName - Union type of valid task names for type safety
+ */
+export type TaskPayloads<TaskName extends string = string> = {
+  readonly [K in TaskName]: TaskPayload;
+};
+
+/**
+ * Task payloads of workflows that do not declare them: start metadata is a
+ * record of unknown values and results are unknown.
+ *
+ * @typeParam TaskName - Union type of valid task names for type safety
+ */
+export type UntypedTaskPayloads<TaskName extends string = string> = {
+  readonly [K in TaskName]: {
+    readonly start: Record<string, unknown>;
+    readonly result: unknown;
+  };
+};
+
 /**
  * Represents the initiation of a workflow task.
  *
  * @remarks
  * Fixed event type for standardized workflow task management.
  * Used to signal when a task begins execution in a workflow process.
+ * A union over the task names, so narrowing on `taskName` narrows `metadata`
+ * to the start payload of that task.
+ *
+ * @typeParam TaskName - Union type of valid task names for type safety
+ * @typeParam Tasks - Payload types per task name
+ */
+export type TaskStarted<
+  TaskName extends string = string,
+  Tasks extends TaskPayloads<TaskName> = UntypedTaskPayloads<TaskName>,
+> = {
+  [K in TaskName]: {
+    readonly type: "TaskStarted";
+    readonly taskName: K;
+    /** Unix timestamp in milliseconds after which the task times out if it is still "started" */
+    readonly deadline?: number;
+    readonly timestamp?: number;
+    readonly metadata?: Tasks[K]["start"];
+  };
+}[TaskName];
+
+/**
+ * Represents the completion of a workflow task.
+ *
+ * @remarks
+ * Fixed event type for standardized workflow task management.
+ * Used to signal when a task completes execution, optionally with result data.
+ * A union over the task names, so narrowing on `taskName` narrows `result`
+ * to the result payload of that task.
+ *
+ * @typeParam TaskName - Union type of valid task names for type safety
+ * @typeParam Tasks - Payload types per task name
+ */
+export type TaskCompleted<
+  TaskName extends string = string,
+  Tasks extends TaskPayloads<TaskName> = UntypedTaskPayloads<TaskName>,
+> = {
+  [K in TaskName]: {
+    readonly type: "TaskCompleted";
+    readonly taskName: K;
+    readonly result?: Tasks[K]["result"];
+    readonly timestamp?: number;
+    readonly metadata?: Record<string, unknown>;
+  };
+}[TaskName];
+
+/**
+ * Represents a failed attempt of a workflow task.
+ *
+ * @remarks
+ * Fixed event type for standardized workflow task management.
+ * Used to signal that an attempt of a task failed. Whether the task is retried
+ * (by starting it again) or compensated is decided by the workflow, typically
+ * based on the task's retry policy (see `shouldRetryTask`).
  *
  * @typeParam TaskName - Union type of valid task names for type safety
  */
-export interface TaskStarted<TaskName extends string = string> {
-  readonly type: "TaskStarted";
+export interface TaskFailed<TaskName extends string = string> {
+  readonly type: "TaskFailed";
   readonly taskName: TaskName;
+  readonly attempt: number;
+  readonly error?: unknown;
   readonly timestamp?: number;
   readonly metadata?: Record<string, unknown>;
 }
 
 /**
- * Represents the completion of a workflow task.
+ * Represents the compensation of a workflow task.
  *
  * @remarks
  * Fixed event type for standardized workflow task management.
- * Used to signal when a task completes execution, optionally with result data.
+ * Used to signal that the effects of a task were undone, optionally with result data
+ * from the compensating action (e.g. a refund).
  *
  * @typeParam TaskName - Union type of valid task names for type safety
  */
-export interface TaskCompleted<TaskName extends string = string> {
-  readonly type: "TaskCompleted";
+export interface TaskCompensated<TaskName extends string = string> {
+  readonly type: "TaskCompensated";
   readonly taskName: TaskName;
   readonly result?: unknown;
   readonly timestamp?: number;
   readonly metadata?: Record<string, unknown>;
 }
 
+/**
+ * Represents a workflow task that was still running when its deadline passed.
+ *
+ * @remarks
+ * Fixed event type for standardized workflow task management.
+ * Emitted by {@link TaskDeadlineWorkflow} when a `TaskDeadlineElapsed` action result
+ * arrives for a task that is still "started".
+ *
+ * @typeParam TaskName - Union type of valid task names for type safety
+ */
+export interface TaskTimedOut<TaskName extends string = string> {
+  readonly type: "TaskTimedOut";
+  readonly taskName: TaskName;
+  readonly deadline: number;
+  readonly timestamp?: number;
+  readonly metadata?: Record<string, unknown>;
+}
+
+/**
+ * Action result delivered by a scheduler when the deadline of a started task passes.
+ *
+ * @remarks
+ * Scheduled by `ProcessRunner` for every `TaskStarted` event with a deadline
+ * (see `workflowDeadlines`). The deadline identifies the task start it belongs to,
+ * so a deadline of an earlier attempt does not time out a retried task.
+ *
+ * @typeParam TaskName - Union type of valid task names for type safety
+ */
+export interface TaskDeadlineElapsed<TaskName extends string = string> {
+  readonly kind: "TaskDeadlineElapsed";
+  readonly processId: string;
+  readonly taskName: TaskName;
+  readonly deadline: number;
+}
+
 /**
  * Union type combining all workflow event types.
  *
@@ -55,10 +190,17 @@ export interface TaskCompleted<TaskName extends string = string> {
  * Simplifies event handling by constraining to task-based operations.
  *
  * @typeParam TaskName - Union type of valid task names for type safety
+ * @typeParam Tasks - Payload types per task name
  */
-export type WorkflowEvent<TaskName extends string = string> =
-  | TaskStarted<TaskName>
-  | TaskCompleted<TaskName>;
+export type WorkflowEvent<
+  TaskName extends string = string,
+  Tasks extends TaskPayloads<TaskName> = UntypedTaskPayloads<TaskName>,
+> =
+  | TaskStarted<TaskName, Tasks>
+  | TaskCompleted<TaskName, Tasks>
+  | TaskFailed<TaskName>
+  | TaskCompensated<TaskName>
+  | TaskTimedOut<TaskName>;
 
 /**
  * Standardized task status values for workflow state tracking.
@@ -67,10 +209,18 @@ export type WorkflowEvent<TaskName extends string = string> =
  * Provides consistent task state representation across workflow processes.
  * - "started": Task has been initiated but not yet completed
  * - "finished": Task has been completed successfully
+ * - "failed": The last attempt of the task failed
+ * - "compensated": The effects of the task have been undone
+ * - "timedOut": The task was still "started" when its deadline passed
  *
  * @author Иван Дугалић / Ivan Dugalic / @idugalic
  */
-export type TaskStatus = "started" | "finished";
+export type TaskStatus =
+  | "started"
+  | "finished"
+  | "failed"
+  | "compensated"
+  | "timedOut";
 
 /**
  * Standardized task state structure for tracking task progress.
@@ -93,29 +243,77 @@ export type TaskState<TaskName extends string = string> = {
  * Provides a foundation for workflow processes to track task progress alongside business state.
  *
  * @typeParam TaskName - Union type of valid task names for type safety
+ * @typeParam Tasks - Payload types per task name
  */
-export interface WorkflowState<TaskName extends string = string> {
+export interface WorkflowState<
+  TaskName extends string = string,
+  Tasks extends TaskPayloads<TaskName> = UntypedTaskPayloads<TaskName>,
+> {
   readonly tasks: TaskState<TaskName>;
+  /**
+   * Metadata of the TaskStarted event of each started task.
+   * Lets `pending` rebuild the full actions of unfinished tasks during recovery.
+   */
+  readonly taskMetadata?: {
+    readonly [K in TaskName]?: Tasks[K]["start"];
+  };
+  /**
+   * Number of failed attempts of each task (the `attempt` of its last TaskFailed event).
+   */
+  readonly attempts?: {
+    readonly [K in TaskName]?: number;
+  };
+  /**
+   * Deadline of the last TaskStarted event of each task, if it had one.
+   */
+  readonly deadlines?: {
+    readonly [K in TaskName]?: number;
+  };
+}
+
+/**
+ * Retry policy of a workflow task.
+ *
+ * @property maxAttempts - Maximum number of attempts, including the first one
+ */
+export interface TaskRetryPolicy {
+  readonly maxAttempts: number;
 }
 
+/**
+ * Retry policies per task name. Tasks without a policy are attempted once.
+ *
+ * @typeParam TaskName - Union type of valid task names for type safety
+ */
+export type WorkflowRetryPolicy<TaskName extends string = string> = {
+  readonly [K in TaskName]?: TaskRetryPolicy;
+};
+
 /**
  * Standard state evolution function for workflow processes.
  *
  * @remarks
  * Provides automatic handling of workflow events to update task states.
- * - TaskStarted events set task status to "started"
+ * - TaskStarted events set task status to "started" and record the event metadata and deadline
  * - TaskCompleted events set task status to "finished"
+ * - TaskFailed events set task status to "failed" and record the attempt
+ * - TaskCompensated events set task status to "compensated"
+ * - TaskTimedOut events set task status to "timedOut"
  * This eliminates the need for users to implement boilerplate state evolution logic.
  *
  * @typeParam TaskName - Union type of valid task names for type safety
+ * @typeParam Tasks - Payload types per task name
  * @param state - Current workflow state
  * @param event - Workflow event to process
  * @returns New workflow state with updated task status
  */
-export const evolveWorkflowState = <TaskName extends string = string>(
-  state: WorkflowState<TaskName>,
-  event: WorkflowEvent<TaskName>,
-): WorkflowState<TaskName> => {
+export const evolveWorkflowState = <
+  TaskName extends string = string,
+  Tasks extends TaskPayloads<TaskName> = UntypedTaskPayloads<TaskName>,
+>(
+  state: WorkflowState<TaskName, Tasks>,
+  event: WorkflowEvent<TaskName, Tasks>,
+): WorkflowState<TaskName, Tasks> => {
   switch (event.type) {
     case "TaskStarted":
       return {
@@ -124,6 +322,20 @@ export const evolveWorkflowState = <TaskName extends string = string>(
           ...state.tasks,
           [event.taskName]: "started",
         } as TaskState<TaskName>,
+        ...(event.metadata !== undefined && {
+          taskMetadata: {
+            ...state.taskMetadata,
+            [event.taskName]: event.metadata,
+          } as WorkflowState<TaskName, Tasks>["taskMetadata"],
+        }),
+        // A restart without a deadline clears the deadline of the previous start
+        ...((event.deadline !== undefined ||
+          state.deadlines?.[event.taskName] !== undefined) && {
+          deadlines: {
+            ...state.deadlines,
+            [event.taskName]: event.deadline,
+          },
+        }),
       };
     case "TaskCompleted":
       return {
@@ -133,6 +345,34 @@ export const evolveWorkflowState = <TaskName extends string = string>(
           [event.taskName]: "finished",
         } as TaskState<TaskName>,
       };
+    case "TaskFailed":
+      return {
+        ...state,
+        tasks: {
+          ...state.tasks,
+          [event.taskName]: "failed",
+        } as TaskState<TaskName>,
+        attempts: {
+          ...state.attempts,
+          [event.taskName]: event.attempt,
+        },
+      };
+    case "TaskCompensated":
+      return {
+        ...state,
+        tasks: {
+          ...state.tasks,
+          [event.taskName]: "compensated",
+        } as TaskState<TaskName>,
+      };
+    case "TaskTimedOut":
+      return {
+        ...state,
+        tasks: {
+          ...state.tasks,
+          [event.taskName]: "timedOut",
+        } as TaskState<TaskName>,
+      };
     default:
       // This should never happen due to TypeScript's exhaustive checking
       return state;
@@ -151,28 +391,35 @@ export const evolveWorkflowState = <TaskName extends string = string>(
  * @typeParam AR - Action Result type representing results from executed actions
  * @typeParam A - Action type representing actions that can be executed as part of the business process
  * @typeParam TaskName - Union type of valid task names for type safety
+ * @typeParam Tasks - Payload types per task name
  */
-export interface IWorkflowProcess<AR, A, TaskName extends string = string>
-  extends
-    IProcess<
-      AR,
-      WorkflowState<TaskName>,
-      WorkflowState<TaskName>,
-      WorkflowEvent<TaskName>,
-      WorkflowEvent<TaskName>,
-      A
-    > {
+export interface IWorkflowProcess<
+  AR,
+  A,
+  TaskName extends string = string,
+  Tasks extends TaskPayloads<TaskName> = UntypedTaskPayloads<TaskName>,
+> extends
+  IProcess<
+    AR,
+    WorkflowState<TaskName, Tasks>,
+    WorkflowState<TaskName, Tasks>,
+    WorkflowEvent<TaskName, Tasks>,
+    WorkflowEvent<TaskName, Tasks>,
+    A
+  > {
   /**
    * Creates a TaskStarted event with the specified task name.
    *
    * @param taskName - The name of the task being started
    * @param metadata - Optional metadata to include with the event
+   * @param deadline - Optional Unix timestamp in milliseconds after which the task times out
    * @returns A TaskStarted event ready for processing
    */
-  readonly createTaskStarted: (
-    taskName: TaskName,
-    metadata?: Record<string, unknown>,
-  ) => TaskStarted<TaskName>;
+  readonly createTaskStarted: <K extends TaskName>(
+    taskName: K,
+    metadata?: Tasks[K]["start"],
+    deadline?: number,
+  ) => TaskStarted<TaskName, Tasks>;
 
   /**
    * Creates a TaskCompleted event with the specified task name and optional result.
@@ -182,11 +429,11 @@ export interface IWorkflowProcess<AR, A, TaskName extends string = string>
    * @param metadata - Optional metadata to include with the event
    * @returns A TaskCompleted event ready for processing
    */
-  readonly createTaskCompleted: (
-    taskName: TaskName,
-    result?: unknown,
+  readonly createTaskCompleted: <K extends TaskName>(
+    taskName: K,
+    result?: Tasks[K]["result"],
     metadata?: Record<string, unknown>,
-  ) => TaskCompleted<TaskName>;
+  ) => TaskCompleted<TaskName, Tasks>;
 
   /**
    * Retrieves the current status of a specific task from the workflow state.
@@ -196,7 +443,7 @@ export interface IWorkflowProcess<AR, A, TaskName extends string = string>
    * @returns The current status of the task, or undefined if the task is not found
    */
   readonly getTaskStatus: (
-    state: WorkflowState<TaskName>,
+    state: WorkflowState<TaskName, Tasks>,
     taskName: TaskName,
   ) => TaskStatus | undefined;
 
@@ -205,10 +452,10 @@ export interface IWorkflowProcess<AR, A, TaskName extends string = string>
    *
    * @param state - The current workflow state containing task information
    * @param taskName - The name of the task to check
-   * @returns True if the task has been started, false otherwise
+   * @returns True if the task has been started (in any status), false otherwise
    */
   readonly isTaskStarted: (
-    state: WorkflowState<TaskName>,
+    state: WorkflowState<TaskName, Tasks>,
     taskName: TaskName,
   ) => boolean;
 
@@ -220,9 +467,144 @@ export interface IWorkflowProcess<AR, A, TaskName extends string = string>
    * @returns True if the task has been completed, false otherwise
    */
   readonly isTaskCompleted: (
-    state: WorkflowState<TaskName>,
+    state: WorkflowState<TaskName, Tasks>,
     taskName: TaskName,
   ) => boolean;
+
+  /**
+   * Retry policies per task name. Tasks without a policy are attempted once.
+   */
+  readonly retryPolicy: WorkflowRetryPolicy<TaskName>;
+
+  /**
+   * Creates a TaskFailed event with the specified task name and attempt.
+   *
+   * @param taskName - The name of the task that failed
+   * @param attempt - The failed attempt, starting at 1 (typically `getTaskAttempts(state, taskName) + 1`)
+   * @param error - Optional error data describing the failure
+   * @param metadata - Optional metadata to include with the event
+   * @returns A TaskFailed event ready for processing
+   */
+  readonly createTaskFailed: (
+    taskName: TaskName,
+    attempt: number,
+    error?: unknown,
+    metadata?: Record<string, unknown>,
+  ) => TaskFailed<TaskName>;
+
+  /**
+   * Creates a TaskCompensated event with the specified task name and optional result.
+   *
+   * @param taskName - The name of the task being compensated
+   * @param result - Optional result data from the compensating action
+   * @param metadata - Optional metadata to include with the event
+   * @returns A TaskCompensated event ready for processing
+   */
+  readonly createTaskCompensated: (
+    taskName: TaskName,
+    result?: unknown,
+    metadata?: Record<string, unknown>,
+  ) => TaskCompensated<TaskName>;
+
+  /**
+   * Retrieves the number of failed attempts of a specific task.
+   *
+   * @param state - The current workflow state containing task information
+   * @param taskName - The name of the task to query
+   * @returns The number of failed attempts (0 if the task never failed)
+   */
+  readonly getTaskAttempts: (
+    state: WorkflowState<TaskName, Tasks>,
+    taskName: TaskName,
+  ) => number;
+
+  /**
+   * Checks if the last attempt of a specific task failed.
+   *
+   * @param state - The current workflow state containing task information
+   * @param taskName - The name of the task to check
+   * @returns True if the task has failed, false otherwise
+   */
+  readonly isTaskFailed: (
+    state: WorkflowState<TaskName, Tasks>,
+    taskName: TaskName,
+  ) => boolean;
+
+  /**
+   * Checks if a specific task has been compensated.
+   *
+   * @param state - The current workflow state containing task information
+   * @param taskName - The name of the task to check
+   * @returns True if the task has been compensated, false otherwise
+   */
+  readonly isTaskCompensated: (
+    state: WorkflowState<TaskName, Tasks>,
+    taskName: TaskName,
+  ) => boolean;
+
+  /**
+   * Checks if a failed task may be attempted again according to its retry policy.
+   *
+   * @param state - The current workflow state containing task information
+   * @param taskName - The name of the task to check
+   * @returns True if the task has failed and has attempts left, false otherwise
+   */
+  readonly shouldRetryTask: (
+    state: WorkflowState<TaskName, Tasks>,
+    taskName: TaskName,
+  ) => boolean;
+
+  /**
+   * Creates a TaskTimedOut event with the specified task name and deadline.
+   *
+   * @param taskName - The name of the task that timed out
+   * @param deadline - The deadline that passed
+   * @param metadata - Optional metadata to include with the event
+   * @returns A TaskTimedOut event ready for processing
+   */
+  readonly createTaskTimedOut: (
+    taskName: TaskName,
+    deadline: number,
+    metadata?: Record<string, unknown>,
+  ) => TaskTimedOut<TaskName>;
+
+  /**
+   * Retrieves the deadline of a specific task.
+   *
+   * @param state - The current workflow state containing task information
+   * @param taskName - The name of the task to query
+   * @returns The deadline of the task's last start, or undefined if it has none
+   */
+  readonly getTaskDeadline: (
+    state: WorkflowState<TaskName, Tasks>,
+    taskName: TaskName,
+  ) => number | undefined;
+
+  /**
+   * Checks if a specific task has timed out.
+   *
+   * @param state - The current workflow state containing task information
+   * @param taskName - The name of the task to check
+   * @returns True if the task has timed out, false otherwise
+   */
+  readonly isTaskTimedOut: (
+    state: WorkflowState<TaskName, Tasks>,
+    taskName: TaskName,
+  ) => boolean;
+
+  /**
+   * Checks if a specific task is still "started" after its deadline.
+   *
+   * @param state - The current workflow state containing task information
+   * @param taskName - The name of the task to check
+   * @param now - Current Unix timestamp in milliseconds (default: `Date.now()`)
+   * @returns True if the task is started and its deadline has passed, false otherwise
+   */
+  readonly isTaskOverdue: (
+    state: WorkflowState<TaskName, Tasks>,
+    taskName: TaskName,
+    now?: number,
+  ) => boolean;
 }
 
 /**
@@ -237,17 +619,22 @@ export interface IWorkflowProcess<AR, A, TaskName extends string = string>
  * @typeParam AR - Action Result type representing results from executed actions
  * @typeParam A - Action type representing actions that can be executed as part of the business process
  * @typeParam TaskName - Union type of valid task names for type safety
+ * @typeParam Tasks - Payload types per task name
  */
-export interface IDcbWorkflowProcess<AR, A, TaskName extends string = string>
-  extends
-    IWorkflowProcess<AR, A, TaskName>,
-    IDcbProcess<
-      AR,
-      WorkflowState<TaskName>,
-      WorkflowEvent<TaskName>,
-      WorkflowEvent<TaskName>,
-      A
-    > {
+export interface IDcbWorkflowProcess<
+  AR,
+  A,
+  TaskName extends string = string,
+  Tasks extends TaskPayloads<TaskName> = UntypedTaskPayloads<TaskName>,
+> extends
+  IWorkflowProcess<AR, A, TaskName, Tasks>,
+  IDcbProcess<
+    AR,
+    WorkflowState<TaskName, Tasks>,
+    WorkflowEvent<TaskName, Tasks>,
+    WorkflowEvent<TaskName, Tasks>,
+    A
+  > {
 }
 
 /**
@@ -263,14 +650,21 @@ export interface IDcbWorkflowProcess<AR, A, TaskName extends string = string>
  * @typeParam AR - Action Result type representing results from executed actions within the aggregate boundary
  * @typeParam A - Action type representing actions that can be executed as part of the business process
  * @typeParam TaskName - Union type of valid task names for type safety
+ * @typeParam Tasks - Payload types per task name
  */
 export interface IAggregateWorkflowProcess<
   AR,
   A,
   TaskName extends string = string,
+  Tasks extends TaskPayloads<TaskName> = UntypedTaskPayloads<TaskName>,
 > extends
-  IWorkflowProcess<AR, A, TaskName>,
-  IAggregateProcess<AR, WorkflowState<TaskName>, WorkflowEvent<TaskName>, A> {
+  IWorkflowProcess<AR, A, TaskName, Tasks>,
+  IAggregateProcess<
+    AR,
+    WorkflowState<TaskName, Tasks>,
+    WorkflowEvent<TaskName, Tasks>,
+    A
+  > {
 }
 /**
  * The foundational workflow process implementation with fixed WorkflowState type.
@@ -284,15 +678,20 @@ export interface IAggregateWorkflowProcess<
  * @typeParam AR - Action Result type representing results from executed actions
  * @typeParam A - Action type representing actions that can be executed as part of the business process
  * @typeParam TaskName - Union type of valid task names for type safety
+ * @typeParam Tasks - Payload types per task name
  */
-export class WorkflowProcess<AR, A, TaskName extends string = string>
-  implements IWorkflowProcess<AR, A, TaskName> {
+export class WorkflowProcess<
+  AR,
+  A,
+  TaskName extends string = string,
+  Tasks extends TaskPayloads<TaskName> = UntypedTaskPayloads<TaskName>,
+> implements IWorkflowProcess<AR, A, TaskName, Tasks> {
   private readonly _process: Process<
     AR,
-    WorkflowState<TaskName>,
-    WorkflowState<TaskName>,
-    WorkflowEvent<TaskName>,
-    WorkflowEvent<TaskName>,
+    WorkflowState<TaskName, Tasks>,
+    WorkflowState<TaskName, Tasks>,
+    WorkflowEvent<TaskName, Tasks>,
+    WorkflowEvent<TaskName, Tasks>,
     A
   >;
 
@@ -303,20 +702,22 @@ export class WorkflowProcess<AR, A, TaskName extends string = string>
    * @param react - Determines ready actions: `(WorkflowState, WorkflowEvent) → Action[]` (subset of pending)
    * @param pending - Returns complete ToDo list: `WorkflowState → Action[]`
    * @param initialState - Optional starting workflow state (defaults to empty task state)
+   * @param retryPolicy - Optional retry policies per task name (defaults to a single attempt per task)
    */
   constructor(
     readonly decide: (
       actionResult: AR,
-      state: WorkflowState<TaskName>,
-    ) => readonly WorkflowEvent<TaskName>[],
+      state: WorkflowState<TaskName, Tasks>,
+    ) => readonly WorkflowEvent<TaskName, Tasks>[],
     readonly react: (
-      state: WorkflowState<TaskName>,
-      event: WorkflowEvent<TaskName>,
+      state: WorkflowState<TaskName, Tasks>,
+      event: WorkflowEvent<TaskName, Tasks>,
     ) => readonly A[],
-    readonly pending: (state: WorkflowState<TaskName>) => readonly A[],
-    readonly initialState: WorkflowState<TaskName> = {
+    readonly pending: (state: WorkflowState<TaskName, Tasks>) => readonly A[],
+    readonly initialState: WorkflowState<TaskName, Tasks> = {
       tasks: {},
-    } as WorkflowState<TaskName>,
+    } as WorkflowState<TaskName, Tasks>,
+    readonly retryPolicy: WorkflowRetryPolicy<TaskName> = {},
   ) {
     this._process = new Process(
       decide,
@@ -329,26 +730,32 @@ export class WorkflowProcess<AR, A, TaskName extends string = string>
 
   /**
    * Standard state evolution function for workflow processes.
-   * Automatically handles TaskStarted and TaskCompleted events.
+   * Automatically handles TaskStarted, TaskCompleted, TaskFailed, TaskCompensated and TaskTimedOut events.
    */
-  readonly evolve = evolveWorkflowState;
+  readonly evolve: (
+    state: WorkflowState<TaskName, Tasks>,
+    event: WorkflowEvent<TaskName, Tasks>,
+  ) => WorkflowState<TaskName, Tasks> = evolveWorkflowState;
 
   /**
    * Creates a TaskStarted event with the specified task name.
    *
    * @param taskName - The name of the task being started
    * @param metadata - Optional metadata to include with the event
+   * @param deadline - Optional Unix timestamp in milliseconds after which the task times out
    * @returns A TaskStarted event ready for processing
    */
-  readonly createTaskStarted = (
-    taskName: TaskName,
-    metadata?: Record<string, unknown>,
-  ): TaskStarted<TaskName> => {
+  readonly createTaskStarted = <K extends TaskName>(
+    taskName: K,
+    metadata?: Tasks[K]["start"],
+    deadline?: number,
+  ): TaskStarted<TaskName, Tasks> => {
     return {
       type: "TaskStarted",
       taskName,
       timestamp: Date.now(),
       metadata,
+      ...(deadline !== undefined && { deadline }),
     };
   };
 
@@ -358,64 +765,236 @@ export class WorkflowProcess<AR, A, TaskName extends string = string>
    * @param taskName - The name of the task being completed
    * @param result - Optional result data from the completed task
    * @param metadata - Optional metadata to include with the event
-   * @returns A TaskCompleted event ready for processing
+   * @returns A TaskCompleted event ready for processing
+   */
+  readonly createTaskCompleted = <K extends TaskName>(
+    taskName: K,
+    result?: Tasks[K]["result"],
+    metadata?: Record<string, unknown>,
+  ): TaskCompleted<TaskName, Tasks> => {
+    return {
+      type: "TaskCompleted",
+      taskName,
+      result,
+      timestamp: Date.now(),
+      metadata,
+    };
+  };
+
+  /**
+   * Retrieves the current status of a specific task from the workflow state.
+   *
+   * @param state - The current workflow state containing task information
+   * @param taskName - The name of the task to query
+   * @returns The current status of the task, or undefined if the task is not found
+   */
+  readonly getTaskStatus = (
+    state: WorkflowState<TaskName, Tasks>,
+    taskName: TaskName,
+  ): TaskStatus | undefined => {
+    return state.tasks[taskName];
+  };
+
+  /**
+   * Checks if a specific task has been started in the workflow state.
+   *
+   * @param state - The current workflow state containing task information
+   * @param taskName - The name of the task to check
+   * @returns True if the task has been started (in any status), false otherwise
+   */
+  readonly isTaskStarted = (
+    state: WorkflowState<TaskName, Tasks>,
+    taskName: TaskName,
+  ): boolean => {
+    return this.getTaskStatus(state, taskName) !== undefined;
+  };
+
+  /**
+   * Checks if a specific task has been completed in the workflow state.
+   *
+   * @param state - The current workflow state containing task information
+   * @param taskName - The name of the task to check
+   * @returns True if the task has been completed, false otherwise
+   */
+  readonly isTaskCompleted = (
+    state: WorkflowState<TaskName, Tasks>,
+    taskName: TaskName,
+  ): boolean => {
+    const status = this.getTaskStatus(state, taskName);
+    return status === "finished";
+  };
+
+  /**
+   * Creates a TaskFailed event with the specified task name and attempt.
+   *
+   * @param taskName - The name of the task that failed
+   * @param attempt - The failed attempt, starting at 1 (typically `getTaskAttempts(state, taskName) + 1`)
+   * @param error - Optional error data describing the failure
+   * @param metadata - Optional metadata to include with the event
+   * @returns A TaskFailed event ready for processing
+   */
+  readonly createTaskFailed = (
+    taskName: TaskName,
+    attempt: number,
+    error?: unknown,
+    metadata?: Record<string, unknown>,
+  ): TaskFailed<TaskName> => {
+    return {
+      type: "TaskFailed",
+      taskName,
+      attempt,
+      error,
+      timestamp: Date.now(),
+      metadata,
+    };
+  };
+
+  /**
+   * Creates a TaskCompensated event with the specified task name and optional result.
+   *
+   * @param taskName - The name of the task being compensated
+   * @param result - Optional result data from the compensating action
+   * @param metadata - Optional metadata to include with the event
+   * @returns A TaskCompensated event ready for processing
+   */
+  readonly createTaskCompensated = (
+    taskName: TaskName,
+    result?: unknown,
+    metadata?: Record<string, unknown>,
+  ): TaskCompensated<TaskName> => {
+    return {
+      type: "TaskCompensated",
+      taskName,
+      result,
+      timestamp: Date.now(),
+      metadata,
+    };
+  };
+
+  /**
+   * Retrieves the number of failed attempts of a specific task.
+   *
+   * @param state - The current workflow state containing task information
+   * @param taskName - The name of the task to query
+   * @returns The number of failed attempts (0 if the task never failed)
+   */
+  readonly getTaskAttempts = (
+    state: WorkflowState<TaskName, Tasks>,
+    taskName: TaskName,
+  ): number => {
+    return state.attempts?.[taskName] ?? 0;
+  };
+
+  /**
+   * Checks if the last attempt of a specific task failed.
+   *
+   * @param state - The current workflow state containing task information
+   * @param taskName - The name of the task to check
+   * @returns True if the task has failed, false otherwise
+   */
+  readonly isTaskFailed = (
+    state: WorkflowState<TaskName, Tasks>,
+    taskName: TaskName,
+  ): boolean => {
+    return this.getTaskStatus(state, taskName) === "failed";
+  };
+
+  /**
+   * Checks if a specific task has been compensated.
+   *
+   * @param state - The current workflow state containing task information
+   * @param taskName - The name of the task to check
+   * @returns True if the task has been compensated, false otherwise
+   */
+  readonly isTaskCompensated = (
+    state: WorkflowState<TaskName, Tasks>,
+    taskName: TaskName,
+  ): boolean => {
+    return this.getTaskStatus(state, taskName) === "compensated";
+  };
+
+  /**
+   * Checks if a failed task may be attempted again according to its retry policy.
+   *
+   * @param state - The current workflow state containing task information
+   * @param taskName - The name of the task to check
+   * @returns True if the task has failed and has attempts left, false otherwise
+   */
+  readonly shouldRetryTask = (
+    state: WorkflowState<TaskName, Tasks>,
+    taskName: TaskName,
+  ): boolean => {
+    const maxAttempts = this.retryPolicy[taskName]?.maxAttempts ?? 1;
+    return this.isTaskFailed(state, taskName) &&
+      this.getTaskAttempts(state, taskName) < maxAttempts;
+  };
+
+  /**
+   * Creates a TaskTimedOut event with the specified task name and deadline.
+   *
+   * @param taskName - The name of the task that timed out
+   * @param deadline - The deadline that passed
+   * @param metadata - Optional metadata to include with the event
+   * @returns A TaskTimedOut event ready for processing
    */
-  readonly createTaskCompleted = (
+  readonly createTaskTimedOut = (
     taskName: TaskName,
-    result?: unknown,
+    deadline: number,
     metadata?: Record<string, unknown>,
-  ): TaskCompleted<TaskName> => {
+  ): TaskTimedOut<TaskName> => {
     return {
-      type: "TaskCompleted",
+      type: "TaskTimedOut",
       taskName,
-      result,
+      deadline,
       timestamp: Date.now(),
       metadata,
     };
   };
 
   /**
-   * Retrieves the current status of a specific task from the workflow state.
+   * Retrieves the deadline of a specific task.
    *
    * @param state - The current workflow state containing task information
    * @param taskName - The name of the task to query
-   * @returns The current status of the task, or undefined if the task is not found
+   * @returns The deadline of the task's last start, or undefined if it has none
    */
-  readonly getTaskStatus = (
-    state: WorkflowState<TaskName>,
+  readonly getTaskDeadline = (
+    state: WorkflowState<TaskName, Tasks>,
     taskName: TaskName,
-  ): TaskStatus | undefined => {
-    return state.tasks[taskName];
+  ): number | undefined => {
+    return state.deadlines?.[taskName];
   };
 
   /**
-   * Checks if a specific task has been started in the workflow state.
+   * Checks if a specific task has timed out.
    *
    * @param state - The current workflow state containing task information
    * @param taskName - The name of the task to check
-   * @returns True if the task has been started, false otherwise
+   * @returns True if the task has timed out, false otherwise
    */
-  readonly isTaskStarted = (
-    state: WorkflowState<TaskName>,
+  readonly isTaskTimedOut = (
+    state: WorkflowState<TaskName, Tasks>,
     taskName: TaskName,
   ): boolean => {
-    const status = this.getTaskStatus(state, taskName);
-    return status === "started" || status === "finished";
+    return this.getTaskStatus(state, taskName) === "timedOut";
   };
 
   /**
-   * Checks if a specific task has been completed in the workflow state.
+   * Checks if a specific task is still "started" after its deadline.
    *
    * @param state - The current workflow state containing task information
    * @param taskName - The name of the task to check
-   * @returns True if the task has been completed, false otherwise
+   * @param now - Current Unix timestamp in milliseconds (default: `Date.now()`)
+   * @returns True if the task is started and its deadline has passed, false otherwise
    */
-  readonly isTaskCompleted = (
-    state: WorkflowState<TaskName>,
+  readonly isTaskOverdue = (
+    state: WorkflowState<TaskName, Tasks>,
     taskName: TaskName,
+    now: number = Date.now(),
   ): boolean => {
-    const status = this.getTaskStatus(state, taskName);
-    return status === "finished";
+    const deadline = this.getTaskDeadline(state, taskName);
+    return this.getTaskStatus(state, taskName) === "started" &&
+      deadline !== undefined && deadline <= now;
   };
 
   /**
@@ -427,13 +1006,14 @@ export class WorkflowProcess<AR, A, TaskName extends string = string>
    */
   mapContraOnActionResult<ARn>(
     f: (arn: ARn) => AR,
-  ): WorkflowProcess<ARn, A, TaskName> {
+  ): WorkflowProcess<ARn, A, TaskName, Tasks> {
     const mappedProcess = this._process.mapContraOnActionResult(f);
     return new WorkflowProcess(
       mappedProcess.decide,
       mappedProcess.react,
       mappedProcess.pending,
       mappedProcess.initialState,
+      this.retryPolicy,
     );
   }
 
@@ -444,13 +1024,14 @@ export class WorkflowProcess<AR, A, TaskName extends string = string>
    * @param f - Mapping function from original to new action type
    * @returns New WorkflowProcess instance that produces the new action type
    */
-  mapOnAction<An>(f: (a: A) => An): WorkflowProcess<AR, An, TaskName> {
+  mapOnAction<An>(f: (a: A) => An): WorkflowProcess<AR, An, TaskName, Tasks> {
     const mappedProcess = this._process.mapOnAction(f);
     return new WorkflowProcess(
       mappedProcess.decide,
       mappedProcess.react,
       mappedProcess.pending,
       mappedProcess.initialState,
+      this.retryPolicy,
     );
   }
 
@@ -463,14 +1044,15 @@ export class WorkflowProcess<AR, A, TaskName extends string = string>
    * @returns A new WorkflowProcess that handles both sets of action results and maintains an intersected WorkflowState
    */
   combine<AR2, A2>(
-    y: WorkflowProcess<AR2, A2, TaskName>,
-  ): WorkflowProcess<AR | AR2, A | A2, TaskName> {
+    y: WorkflowProcess<AR2, A2, TaskName, Tasks>,
+  ): WorkflowProcess<AR | AR2, A | A2, TaskName, Tasks> {
     const combinedProcess = this._process.combine(y._process);
     return new WorkflowProcess(
       combinedProcess.decide,
       combinedProcess.react,
       combinedProcess.pending,
       combinedProcess.initialState,
+      { ...this.retryPolicy, ...y.retryPolicy },
     );
   }
 
@@ -484,8 +1066,8 @@ export class WorkflowProcess<AR, A, TaskName extends string = string>
    * @deprecated Use combine method instead for WorkflowProcess instances
    */
   combineViaTuples<AR2, A2>(
-    y: WorkflowProcess<AR2, A2, TaskName>,
-  ): WorkflowProcess<AR | AR2, A | A2, TaskName> {
+    y: WorkflowProcess<AR2, A2, TaskName, Tasks>,
+  ): WorkflowProcess<AR | AR2, A | A2, TaskName, Tasks> {
     // For WorkflowProcess with fixed WorkflowState, delegate to combine method
     return this.combine(y);
   }
@@ -504,14 +1086,19 @@ export class WorkflowProcess<AR, A, TaskName extends string = string>
  * @typeParam AR - Action Result type representing results from executed actions
  * @typeParam A - Action type representing actions that can be executed as part of the business process
  * @typeParam TaskName - Union type of valid task names for type safety
+ * @typeParam Tasks - Payload types per task name
  */
-export class DcbWorkflowProcess<AR, A, TaskName extends string = string>
-  implements IDcbWorkflowProcess<AR, A, TaskName> {
+export class DcbWorkflowProcess<
+  AR,
+  A,
+  TaskName extends string = string,
+  Tasks extends TaskPayloads<TaskName> = UntypedTaskPayloads<TaskName>,
+> implements IDcbWorkflowProcess<AR, A, TaskName, Tasks> {
   private readonly _dcbProcess: DcbProcess<
     AR,
-    WorkflowState<TaskName>,
-    WorkflowEvent<TaskName>,
-    WorkflowEvent<TaskName>,
+    WorkflowState<TaskName, Tasks>,
+    WorkflowEvent<TaskName, Tasks>,
+    WorkflowEvent<TaskName, Tasks>,
     A
   >;
 
@@ -522,20 +1109,22 @@ export class DcbWorkflowProcess<AR, A, TaskName extends string = string>
    * @param react - Determines ready actions: `(WorkflowState, WorkflowEvent) → Action[]` (subset of pending)
    * @param pending - Returns complete ToDo list: `WorkflowState → Action[]`
    * @param initialState - Optional starting workflow state (defaults to empty task state)
+   * @param retryPolicy - Optional retry policies per task name (defaults to a single attempt per task)
    */
   constructor(
     readonly decide: (
       actionResult: AR,
-      state: WorkflowState<TaskName>,
-    ) => readonly WorkflowEvent<TaskName>[],
+      state: WorkflowState<TaskName, Tasks>,
+    ) => readonly WorkflowEvent<TaskName, Tasks>[],
     readonly react: (
-      state: WorkflowState<TaskName>,
-      event: WorkflowEvent<TaskName>,
+      state: WorkflowState<TaskName, Tasks>,
+      event: WorkflowEvent<TaskName, Tasks>,
     ) => readonly A[],
-    readonly pending: (state: WorkflowState<TaskName>) => readonly A[],
-    readonly initialState: WorkflowState<TaskName> = {
+    readonly pending: (state: WorkflowState<TaskName, Tasks>) => readonly A[],
+    readonly initialState: WorkflowState<TaskName, Tasks> = {
       tasks: {},
-    } as WorkflowState<TaskName>,
+    } as WorkflowState<TaskName, Tasks>,
+    readonly retryPolicy: WorkflowRetryPolicy<TaskName> = {},
   ) {
     this._dcbProcess = new DcbProcess(
       decide,
@@ -548,9 +1137,12 @@ export class DcbWorkflowProcess<AR, A, TaskName extends string = string>
 
   /**
    * Standard state evolution function for workflow processes.
-   * Automatically handles TaskStarted and TaskCompleted events.
+   * Automatically handles TaskStarted, TaskCompleted, TaskFailed, TaskCompensated and TaskTimedOut events.
    */
-  readonly evolve = evolveWorkflowState;
+  readonly evolve: (
+    state: WorkflowState<TaskName, Tasks>,
+    event: WorkflowEvent<TaskName, Tasks>,
+  ) => WorkflowState<TaskName, Tasks> = evolveWorkflowState;
 
   /**
    * Computes new events from existing events and an action result using event-sourced computation.
@@ -560,9 +1152,9 @@ export class DcbWorkflowProcess<AR, A, TaskName extends string = string>
    * @returns New workflow events to append to the event stream
    */
   computeNewEvents(
-    events: readonly WorkflowEvent<TaskName>[],
+    events: readonly WorkflowEvent<TaskName, Tasks>[],
     actionResult: AR,
-  ): readonly WorkflowEvent<TaskName>[] {
+  ): readonly WorkflowEvent<TaskName, Tasks>[] {
     return this._dcbProcess.computeNewEvents(events, actionResult);
   }
 
@@ -571,17 +1163,20 @@ export class DcbWorkflowProcess<AR, A, TaskName extends string = string>
    *
    * @param taskName - The name of the task being started
    * @param metadata - Optional metadata to include with the event
+   * @param deadline - Optional Unix timestamp in milliseconds after which the task times out
    * @returns A TaskStarted event ready for processing
    */
-  readonly createTaskStarted = (
-    taskName: TaskName,
-    metadata?: Record<string, unknown>,
-  ): TaskStarted<TaskName> => {
+  readonly createTaskStarted = <K extends TaskName>(
+    taskName: K,
+    metadata?: Tasks[K]["start"],
+    deadline?: number,
+  ): TaskStarted<TaskName, Tasks> => {
     return {
       type: "TaskStarted",
       taskName,
       timestamp: Date.now(),
       metadata,
+      ...(deadline !== undefined && { deadline }),
     };
   };
 
@@ -593,11 +1188,11 @@ export class DcbWorkflowProcess<AR, A, TaskName extends string = string>
    * @param metadata - Optional metadata to include with the event
    * @returns A TaskCompleted event ready for processing
    */
-  readonly createTaskCompleted = (
-    taskName: TaskName,
-    result?: unknown,
+  readonly createTaskCompleted = <K extends TaskName>(
+    taskName: K,
+    result?: Tasks[K]["result"],
     metadata?: Record<string, unknown>,
-  ): TaskCompleted<TaskName> => {
+  ): TaskCompleted<TaskName, Tasks> => {
     return {
       type: "TaskCompleted",
       taskName,
@@ -615,7 +1210,7 @@ export class DcbWorkflowProcess<AR, A, TaskName extends string = string>
    * @returns The current status of the task, or undefined if the task is not found
    */
   readonly getTaskStatus = (
-    state: WorkflowState<TaskName>,
+    state: WorkflowState<TaskName, Tasks>,
     taskName: TaskName,
   ): TaskStatus | undefined => {
     return state.tasks[taskName];
@@ -626,14 +1221,13 @@ export class DcbWorkflowProcess<AR, A, TaskName extends string = string>
    *
    * @param state - The current workflow state containing task information
    * @param taskName - The name of the task to check
-   * @returns True if the task has been started, false otherwise
+   * @returns True if the task has been started (in any status), false otherwise
    */
   readonly isTaskStarted = (
-    state: WorkflowState<TaskName>,
+    state: WorkflowState<TaskName, Tasks>,
     taskName: TaskName,
   ): boolean => {
-    const status = this.getTaskStatus(state, taskName);
-    return status === "started" || status === "finished";
+    return this.getTaskStatus(state, taskName) !== undefined;
   };
 
   /**
@@ -644,13 +1238,186 @@ export class DcbWorkflowProcess<AR, A, TaskName extends string = string>
    * @returns True if the task has been completed, false otherwise
    */
   readonly isTaskCompleted = (
-    state: WorkflowState<TaskName>,
+    state: WorkflowState<TaskName, Tasks>,
     taskName: TaskName,
   ): boolean => {
     const status = this.getTaskStatus(state, taskName);
     return status === "finished";
   };
 
+  /**
+   * Creates a TaskFailed event with the specified task name and attempt.
+   *
+   * @param taskName - The name of the task that failed
+   * @param attempt - The failed attempt, starting at 1 (typically `getTaskAttempts(state, taskName) + 1`)
+   * @param error - Optional error data describing the failure
+   * @param metadata - Optional metadata to include with the event
+   * @returns A TaskFailed event ready for processing
+   */
+  readonly createTaskFailed = (
+    taskName: TaskName,
+    attempt: number,
+    error?: unknown,
+    metadata?: Record<string, unknown>,
+  ): TaskFailed<TaskName> => {
+    return {
+      type: "TaskFailed",
+      taskName,
+      attempt,
+      error,
+      timestamp: Date.now(),
+      metadata,
+    };
+  };
+
+  /**
+   * Creates a TaskCompensated event with the specified task name and optional result.
+   *
+   * @param taskName - The name of the task being compensated
+   * @param result - Optional result data from the compensating action
+   * @param metadata - Optional metadata to include with the event
+   * @returns A TaskCompensated event ready for processing
+   */
+  readonly createTaskCompensated = (
+    taskName: TaskName,
+    result?: unknown,
+    metadata?: Record<string, unknown>,
+  ): TaskCompensated<TaskName> => {
+    return {
+      type: "TaskCompensated",
+      taskName,
+      result,
+      timestamp: Date.now(),
+      metadata,
+    };
+  };
+
+  /**
+   * Retrieves the number of failed attempts of a specific task.
+   *
+   * @param state - The current workflow state containing task information
+   * @param taskName - The name of the task to query
+   * @returns The number of failed attempts (0 if the task never failed)
+   */
+  readonly getTaskAttempts = (
+    state: WorkflowState<TaskName, Tasks>,
+    taskName: TaskName,
+  ): number => {
+    return state.attempts?.[taskName] ?? 0;
+  };
+
+  /**
+   * Checks if the last attempt of a specific task failed.
+   *
+   * @param state - The current workflow state containing task information
+   * @param taskName - The name of the task to check
+   * @returns True if the task has failed, false otherwise
+   */
+  readonly isTaskFailed = (
+    state: WorkflowState<TaskName, Tasks>,
+    taskName: TaskName,
+  ): boolean => {
+    return this.getTaskStatus(state, taskName) === "failed";
+  };
+
+  /**
+   * Checks if a specific task has been compensated.
+   *
+   * @param state - The current workflow state containing task information
+   * @param taskName - The name of the task to check
+   * @returns True if the task has been compensated, false otherwise
+   */
+  readonly isTaskCompensated = (
+    state: WorkflowState<TaskName, Tasks>,
+    taskName: TaskName,
+  ): boolean => {
+    return this.getTaskStatus(state, taskName) === "compensated";
+  };
+
+  /**
+   * Checks if a failed task may be attempted again according to its retry policy.
+   *
+   * @param state - The current workflow state containing task information
+   * @param taskName - The name of the task to check
+   * @returns True if the task has failed and has attempts left, false otherwise
+   */
+  readonly shouldRetryTask = (
+    state: WorkflowState<TaskName, Tasks>,
+    taskName: TaskName,
+  ): boolean => {
+    const maxAttempts = this.retryPolicy[taskName]?.maxAttempts ?? 1;
+    return this.isTaskFailed(state, taskName) &&
+      this.getTaskAttempts(state, taskName) < maxAttempts;
+  };
+
+  /**
+   * Creates a TaskTimedOut event with the specified task name and deadline.
+   *
+   * @param taskName - The name of the task that timed out
+   * @param deadline - The deadline that passed
+   * @param metadata - Optional metadata to include with the event
+   * @returns A TaskTimedOut event ready for processing
+   */
+  readonly createTaskTimedOut = (
+    taskName: TaskName,
+    deadline: number,
+    metadata?: Record<string, unknown>,
+  ): TaskTimedOut<TaskName> => {
+    return {
+      type: "TaskTimedOut",
+      taskName,
+      deadline,
+      timestamp: Date.now(),
+      metadata,
+    };
+  };
+
+  /**
+   * Retrieves the deadline of a specific task.
+   *
+   * @param state - The current workflow state containing task information
+   * @param taskName - The name of the task to query
+   * @returns The deadline of the task's last start, or undefined if it has none
+   */
+  readonly getTaskDeadline = (
+    state: WorkflowState<TaskName, Tasks>,
+    taskName: TaskName,
+  ): number | undefined => {
+    return state.deadlines?.[taskName];
+  };
+
+  /**
+   * Checks if a specific task has timed out.
+   *
+   * @param state - The current workflow state containing task information
+   * @param taskName - The name of the task to check
+   * @returns True if the task has timed out, false otherwise
+   */
+  readonly isTaskTimedOut = (
+    state: WorkflowState<TaskName, Tasks>,
+    taskName: TaskName,
+  ): boolean => {
+    return this.getTaskStatus(state, taskName) === "timedOut";
+  };
+
+  /**
+   * Checks if a specific task is still "started" after its deadline.
+   *
+   * @param state - The current workflow state containing task information
+   * @param taskName - The name of the task to check
+   * @param now - Current Unix timestamp in milliseconds (default: `Date.now()`)
+   * @returns True if the task is started and its deadline has passed, false otherwise
+   */
+  readonly isTaskOverdue = (
+    state: WorkflowState<TaskName, Tasks>,
+    taskName: TaskName,
+    now: number = Date.now(),
+  ): boolean => {
+    const deadline = this.getTaskDeadline(state, taskName);
+    return this.getTaskStatus(state, taskName) === "started" &&
+      deadline !== undefined && deadline <= now;
+  };
+
   /**
    * Transforms the action result type using contravariant mapping.
    *
@@ -660,13 +1427,14 @@ export class DcbWorkflowProcess<AR, A, TaskName extends string = string>
    */
   mapContraOnActionResult<ARn>(
     f: (arn: ARn) => AR,
-  ): DcbWorkflowProcess<ARn, A, TaskName> {
+  ): DcbWorkflowProcess<ARn, A, TaskName, Tasks> {
     const mappedProcess = this._dcbProcess.mapContraOnActionResult(f);
     return new DcbWorkflowProcess(
       mappedProcess.decide,
       mappedProcess.react,
       mappedProcess.pending,
       mappedProcess.initialState,
+      this.retryPolicy,
     );
   }
 
@@ -677,13 +1445,16 @@ export class DcbWorkflowProcess<AR, A, TaskName extends string = string>
    * @param f - Mapping function from original to new action type
    * @returns New DcbWorkflowProcess instance that produces the new action type
    */
-  mapOnAction<An>(f: (a: A) => An): DcbWorkflowProcess<AR, An, TaskName> {
+  mapOnAction<An>(
+    f: (a: A) => An,
+  ): DcbWorkflowProcess<AR, An, TaskName, Tasks> {
     const mappedProcess = this._dcbProcess.mapOnAction(f);
     return new DcbWorkflowProcess(
       mappedProcess.decide,
       mappedProcess.react,
       mappedProcess.pending,
       mappedProcess.initialState,
+      this.retryPolicy,
     );
   }
 
@@ -696,14 +1467,15 @@ export class DcbWorkflowProcess<AR, A, TaskName extends string = string>
    * @returns A new DcbWorkflowProcess that handles both sets of action results and maintains an intersected WorkflowState
    */
   combine<AR2, A2>(
-    y: DcbWorkflowProcess<AR2, A2, TaskName>,
-  ): DcbWorkflowProcess<AR | AR2, A | A2, TaskName> {
+    y: DcbWorkflowProcess<AR2, A2, TaskName, Tasks>,
+  ): DcbWorkflowProcess<AR | AR2, A | A2, TaskName, Tasks> {
     const combinedProcess = this._dcbProcess.combine(y._dcbProcess);
     return new DcbWorkflowProcess(
       combinedProcess.decide,
       combinedProcess.react,
       combinedProcess.pending,
       combinedProcess.initialState,
+      { ...this.retryPolicy, ...y.retryPolicy },
     );
   }
 
@@ -717,8 +1489,8 @@ export class DcbWorkflowProcess<AR, A, TaskName extends string = string>
    * @deprecated Use combine method instead for DcbWorkflowProcess instances
    */
   combineViaTuples<AR2, A2>(
-    y: DcbWorkflowProcess<AR2, A2, TaskName>,
-  ): DcbWorkflowProcess<AR | AR2, A | A2, TaskName> {
+    y: DcbWorkflowProcess<AR2, A2, TaskName, Tasks>,
+  ): DcbWorkflowProcess<AR | AR2, A | A2, TaskName, Tasks> {
     // For DcbWorkflowProcess with fixed WorkflowState, delegate to combine method
     return this.combine(y);
   }
@@ -737,13 +1509,18 @@ export class DcbWorkflowProcess<AR, A, TaskName extends string = string>
  * @typeParam AR - Action Result type representing results from executed actions within the aggregate boundary
  * @typeParam A - Action type representing actions that can be executed as part of the business process
  * @typeParam TaskName - Union type of valid task names for type safety
+ * @typeParam Tasks - Payload types per task name
  */
-export class AggregateWorkflowProcess<AR, A, TaskName extends string = string>
-  implements IAggregateWorkflowProcess<AR, A, TaskName> {
+export class AggregateWorkflowProcess<
+  AR,
+  A,
+  TaskName extends string = string,
+  Tasks extends TaskPayloads<TaskName> = UntypedTaskPayloads<TaskName>,
+> implements IAggregateWorkflowProcess<AR, A, TaskName, Tasks> {
   private readonly _aggregateProcess: AggregateProcess<
     AR,
-    WorkflowState<TaskName>,
-    WorkflowEvent<TaskName>,
+    WorkflowState<TaskName, Tasks>,
+    WorkflowEvent<TaskName, Tasks>,
     A
   >;
 
@@ -754,20 +1531,22 @@ export class AggregateWorkflowProcess<AR, A, TaskName extends string = string>
    * @param react - Determines ready actions: `(WorkflowState, WorkflowEvent) → Action[]` (subset of pending)
    * @param pending - Returns complete ToDo list: `WorkflowState → Action[]`
    * @param initialState - Optional starting workflow state (defaults to empty task state)
+   * @param retryPolicy - Optional retry policies per task name (defaults to a single attempt per task)
    */
   constructor(
     readonly decide: (
       actionResult: AR,
-      state: WorkflowState<TaskName>,
-    ) => readonly WorkflowEvent<TaskName>[],
+      state: WorkflowState<TaskName, Tasks>,
+    ) => readonly WorkflowEvent<TaskName, Tasks>[],
     readonly react: (
-      state: WorkflowState<TaskName>,
-      event: WorkflowEvent<TaskName>,
+      state: WorkflowState<TaskName, Tasks>,
+      event: WorkflowEvent<TaskName, Tasks>,
     ) => readonly A[],
-    readonly pending: (state: WorkflowState<TaskName>) => readonly A[],
-    readonly initialState: WorkflowState<TaskName> = {
+    readonly pending: (state: WorkflowState<TaskName, Tasks>) => readonly A[],
+    readonly initialState: WorkflowState<TaskName, Tasks> = {
       tasks: {},
-    } as WorkflowState<TaskName>,
+    } as WorkflowState<TaskName, Tasks>,
+    readonly retryPolicy: WorkflowRetryPolicy<TaskName> = {},
   ) {
     this._aggregateProcess = new AggregateProcess(
       decide,
@@ -780,9 +1559,12 @@ export class AggregateWorkflowProcess<AR, A, TaskName extends string = string>
 
   /**
    * Standard state evolution function for workflow processes.
-   * Automatically handles TaskStarted and TaskCompleted events.
+   * Automatically handles TaskStarted, TaskCompleted, TaskFailed, TaskCompensated and TaskTimedOut events.
    */
-  readonly evolve = evolveWorkflowState;
+  readonly evolve: (
+    state: WorkflowState<TaskName, Tasks>,
+    event: WorkflowEvent<TaskName, Tasks>,
+  ) => WorkflowState<TaskName, Tasks> = evolveWorkflowState;
 
   /**
    * Computes the next state from an action result using state-stored computation.
@@ -792,9 +1574,9 @@ export class AggregateWorkflowProcess<AR, A, TaskName extends string = string>
    * @returns New workflow state after processing the action result
    */
   computeNewState(
-    state: WorkflowState<TaskName>,
+    state: WorkflowState<TaskName, Tasks>,
     actionResult: AR,
-  ): WorkflowState<TaskName> {
+  ): WorkflowState<TaskName, Tasks> {
     return this._aggregateProcess.computeNewState(state, actionResult);
   }
 
@@ -806,9 +1588,9 @@ export class AggregateWorkflowProcess<AR, A, TaskName extends string = string>
    * @returns New workflow events to append to the event stream
    */
   computeNewEvents(
-    events: readonly WorkflowEvent<TaskName>[],
+    events: readonly WorkflowEvent<TaskName, Tasks>[],
     actionResult: AR,
-  ): readonly WorkflowEvent<TaskName>[] {
+  ): readonly WorkflowEvent<TaskName, Tasks>[] {
     return this._aggregateProcess.computeNewEvents(events, actionResult);
   }
 
@@ -817,17 +1599,20 @@ export class AggregateWorkflowProcess<AR, A, TaskName extends string = string>
    *
    * @param taskName - The name of the task being started
    * @param metadata - Optional metadata to include with the event
+   * @param deadline - Optional Unix timestamp in milliseconds after which the task times out
    * @returns A TaskStarted event ready for processing
    */
-  readonly createTaskStarted = (
-    taskName: TaskName,
-    metadata?: Record<string, unknown>,
-  ): TaskStarted<TaskName> => {
+  readonly createTaskStarted = <K extends TaskName>(
+    taskName: K,
+    metadata?: Tasks[K]["start"],
+    deadline?: number,
+  ): TaskStarted<TaskName, Tasks> => {
     return {
       type: "TaskStarted",
       taskName,
       timestamp: Date.now(),
       metadata,
+      ...(deadline !== undefined && { deadline }),
     };
   };
 
@@ -839,11 +1624,11 @@ export class AggregateWorkflowProcess<AR, A, TaskName extends string = string>
    * @param metadata - Optional metadata to include with the event
    * @returns A TaskCompleted event ready for processing
    */
-  readonly createTaskCompleted = (
-    taskName: TaskName,
-    result?: unknown,
+  readonly createTaskCompleted = <K extends TaskName>(
+    taskName: K,
+    result?: Tasks[K]["result"],
     metadata?: Record<string, unknown>,
-  ): TaskCompleted<TaskName> => {
+  ): TaskCompleted<TaskName, Tasks> => {
     return {
       type: "TaskCompleted",
       taskName,
@@ -861,7 +1646,7 @@ export class AggregateWorkflowProcess<AR, A, TaskName extends string = string>
    * @returns The current status of the task, or undefined if the task is not found
    */
   readonly getTaskStatus = (
-    state: WorkflowState<TaskName>,
+    state: WorkflowState<TaskName, Tasks>,
     taskName: TaskName,
   ): TaskStatus | undefined => {
     return state.tasks[taskName];
@@ -872,14 +1657,13 @@ export class AggregateWorkflowProcess<AR, A, TaskName extends string = string>
    *
    * @param state - The current workflow state containing task information
    * @param taskName - The name of the task to check
-   * @returns True if the task has been started, false otherwise
+   * @returns True if the task has been started (in any status), false otherwise
    */
   readonly isTaskStarted = (
-    state: WorkflowState<TaskName>,
+    state: WorkflowState<TaskName, Tasks>,
     taskName: TaskName,
   ): boolean => {
-    const status = this.getTaskStatus(state, taskName);
-    return status === "started" || status === "finished";
+    return this.getTaskStatus(state, taskName) !== undefined;
   };
 
   /**
@@ -890,13 +1674,186 @@ export class AggregateWorkflowProcess<AR, A, TaskName extends string = string>
    * @returns True if the task has been completed, false otherwise
    */
   readonly isTaskCompleted = (
-    state: WorkflowState<TaskName>,
+    state: WorkflowState<TaskName, Tasks>,
     taskName: TaskName,
   ): boolean => {
     const status = this.getTaskStatus(state, taskName);
     return status === "finished";
   };
 
+  /**
+   * Creates a TaskFailed event with the specified task name and attempt.
+   *
+   * @param taskName - The name of the task that failed
+   * @param attempt - The failed attempt, starting at 1 (typically `getTaskAttempts(state, taskName) + 1`)
+   * @param error - Optional error data describing the failure
+   * @param metadata - Optional metadata to include with the event
+   * @returns A TaskFailed event ready for processing
+   */
+  readonly createTaskFailed = (
+    taskName: TaskName,
+    attempt: number,
+    error?: unknown,
+    metadata?: Record<string, unknown>,
+  ): TaskFailed<TaskName> => {
+    return {
+      type: "TaskFailed",
+      taskName,
+      attempt,
+      error,
+      timestamp: Date.now(),
+      metadata,
+    };
+  };
+
+  /**
+   * Creates a TaskCompensated event with the specified task name and optional result.
+   *
+   * @param taskName - The name of the task being compensated
+   * @param result - Optional result data from the compensating action
+   * @param metadata - Optional metadata to include with the event
+   * @returns A TaskCompensated event ready for processing
+   */
+  readonly createTaskCompensated = (
+    taskName: TaskName,
+    result?: unknown,
+    metadata?: Record<string, unknown>,
+  ): TaskCompensated<TaskName> => {
+    return {
+      type: "TaskCompensated",
+      taskName,
+      result,
+      timestamp: Date.now(),
+      metadata,
+    };
+  };
+
+  /**
+   * Retrieves the number of failed attempts of a specific task.
+   *
+   * @param state - The current workflow state containing task information
+   * @param taskName - The name of the task to query
+   * @returns The number of failed attempts (0 if the task never failed)
+   */
+  readonly getTaskAttempts = (
+    state: WorkflowState<TaskName, Tasks>,
+    taskName: TaskName,
+  ): number => {
+    return state.attempts?.[taskName] ?? 0;
+  };
+
+  /**
+   * Checks if the last attempt of a specific task failed.
+   *
+   * @param state - The current workflow state containing task information
+   * @param taskName - The name of the task to check
+   * @returns True if the task has failed, false otherwise
+   */
+  readonly isTaskFailed = (
+    state: WorkflowState<TaskName, Tasks>,
+    taskName: TaskName,
+  ): boolean => {
+    return this.getTaskStatus(state, taskName) === "failed";
+  };
+
+  /**
+   * Checks if a specific task has been compensated.
+   *
+   * @param state - The current workflow state containing task information
+   * @param taskName - The name of the task to check
+   * @returns True if the task has been compensated, false otherwise
+   */
+  readonly isTaskCompensated = (
+    state: WorkflowState<TaskName, Tasks>,
+    taskName: TaskName,
+  ): boolean => {
+    return this.getTaskStatus(state, taskName) === "compensated";
+  };
+
+  /**
+   * Checks if a failed task may be attempted again according to its retry policy.
+   *
+   * @param state - The current workflow state containing task information
+   * @param taskName - The name of the task to check
+   * @returns True if the task has failed and has attempts left, false otherwise
+   */
+  readonly shouldRetryTask = (
+    state: WorkflowState<TaskName, Tasks>,
+    taskName: TaskName,
+  ): boolean => {
+    const maxAttempts = this.retryPolicy[taskName]?.maxAttempts ?? 1;
+    return this.isTaskFailed(state, taskName) &&
+      this.getTaskAttempts(state, taskName) < maxAttempts;
+  };
+
+  /**
+   * Creates a TaskTimedOut event with the specified task name and deadline.
+   *
+   * @param taskName - The name of the task that timed out
+   * @param deadline - The deadline that passed
+   * @param metadata - Optional metadata to include with the event
+   * @returns A TaskTimedOut event ready for processing
+   */
+  readonly createTaskTimedOut = (
+    taskName: TaskName,
+    deadline: number,
+    metadata?: Record<string, unknown>,
+  ): TaskTimedOut<TaskName> => {
+    return {
+      type: "TaskTimedOut",
+      taskName,
+      deadline,
+      timestamp: Date.now(),
+      metadata,
+    };
+  };
+
+  /**
+   * Retrieves the deadline of a specific task.
+   *
+   * @param state - The current workflow state containing task information
+   * @param taskName - The name of the task to query
+   * @returns The deadline of the task's last start, or undefined if it has none
+   */
+  readonly getTaskDeadline = (
+    state: WorkflowState<TaskName, Tasks>,
+    taskName: TaskName,
+  ): number | undefined => {
+    return state.deadlines?.[taskName];
+  };
+
+  /**
+   * Checks if a specific task has timed out.
+   *
+   * @param state - The current workflow state containing task information
+   * @param taskName - The name of the task to check
+   * @returns True if the task has timed out, false otherwise
+   */
+  readonly isTaskTimedOut = (
+    state: WorkflowState<TaskName, Tasks>,
+    taskName: TaskName,
+  ): boolean => {
+    return this.getTaskStatus(state, taskName) === "timedOut";
+  };
+
+  /**
+   * Checks if a specific task is still "started" after its deadline.
+   *
+   * @param state - The current workflow state containing task information
+   * @param taskName - The name of the task to check
+   * @param now - Current Unix timestamp in milliseconds (default: `Date.now()`)
+   * @returns True if the task is started and its deadline has passed, false otherwise
+   */
+  readonly isTaskOverdue = (
+    state: WorkflowState<TaskName, Tasks>,
+    taskName: TaskName,
+    now: number = Date.now(),
+  ): boolean => {
+    const deadline = this.getTaskDeadline(state, taskName);
+    return this.getTaskStatus(state, taskName) === "started" &&
+      deadline !== undefined && deadline <= now;
+  };
+
   /**
    * Transforms the action result type using contravariant mapping.
    *
@@ -906,13 +1863,14 @@ export class AggregateWorkflowProcess<AR, A, TaskName extends string = string>
    */
   mapContraOnActionResult<ARn>(
     f: (arn: ARn) => AR,
-  ): AggregateWorkflowProcess<ARn, A, TaskName> {
+  ): AggregateWorkflowProcess<ARn, A, TaskName, Tasks> {
     const mappedProcess = this._aggregateProcess.mapContraOnActionResult(f);
     return new AggregateWorkflowProcess(
       mappedProcess.decide,
       mappedProcess.react,
       mappedProcess.pending,
       mappedProcess.initialState,
+      this.retryPolicy,
     );
   }
 
@@ -923,13 +1881,16 @@ export class AggregateWorkflowProcess<AR, A, TaskName extends string = string>
    * @param f - Mapping function from original to new action type
    * @returns New AggregateWorkflowProcess instance that produces the new action type
    */
-  mapOnAction<An>(f: (a: A) => An): AggregateWorkflowProcess<AR, An, TaskName> {
+  mapOnAction<An>(
+    f: (a: A) => An,
+  ): AggregateWorkflowProcess<AR, An, TaskName, Tasks> {
     const mappedProcess = this._aggregateProcess.mapOnAction(f);
     return new AggregateWorkflowProcess(
       mappedProcess.decide,
       mappedProcess.react,
       mappedProcess.pending,
       mappedProcess.initialState,
+      this.retryPolicy,
     );
   }
 
@@ -942,14 +1903,15 @@ export class AggregateWorkflowProcess<AR, A, TaskName extends string = string>
    * @returns A new AggregateWorkflowProcess that handles both sets of action results and maintains an intersected WorkflowState
    */
   combine<AR2, A2>(
-    y: AggregateWorkflowProcess<AR2, A2, TaskName>,
-  ): AggregateWorkflowProcess<AR | AR2, A | A2, TaskName> {
+    y: AggregateWorkflowProcess<AR2, A2, TaskName, Tasks>,
+  ): AggregateWorkflowProcess<AR | AR2, A | A2, TaskName, Tasks> {
     const combinedProcess = this._aggregateProcess.combine(y._aggregateProcess);
     return new AggregateWorkflowProcess(
       combinedProcess.decide,
       combinedProcess.react,
       combinedProcess.pending,
       combinedProcess.initialState,
+      { ...this.retryPolicy, ...y.retryPolicy },
     );
   }
 
@@ -963,9 +1925,70 @@ export class AggregateWorkflowProcess<AR, A, TaskName extends string = string>
    * @deprecated Use combine method instead for AggregateWorkflowProcess instances
    */
   combineViaTuples<AR2, A2>(
-    y: AggregateWorkflowProcess<AR2, A2, TaskName>,
-  ): AggregateWorkflowProcess<AR | AR2, A | A2, TaskName> {
+    y: AggregateWorkflowProcess<AR2, A2, TaskName, Tasks>,
+  ): AggregateWorkflowProcess<AR | AR2, A | A2, TaskName, Tasks> {
     // For AggregateWorkflowProcess with fixed WorkflowState, delegate to combine method
     return this.combine(y);
   }
 }
+
+/**
+ * Workflow that times out started tasks when their deadline passes.
+ *
+ * @remarks
+ * Reacts to `TaskDeadlineElapsed` action results: a task that is still "started"
+ * with the same deadline is timed out (`TaskTimedOut`), anything else is ignored.
+ * Timed-out tasks are reported by `pending` (and made ready by `react`) as the
+ * escalation actions returned by `escalate`, distinct from the task's own actions,
+ * so a runner can escalate them. A recovery (e.g. `ProcessRunner.recover`)
+ * re-issues them under the idempotency key of their original dispatch, so an
+ * escalation interrupted by a crash is not lost.
+ *
+ * Meant to be combined with the workflow that starts the tasks:
+ * `orderWorkflow.combine(new TaskDeadlineWorkflow(escalate))`. Other action
+ * results reaching it through `combine` are ignored.
+ *
+ * @typeParam A - Escalation action type
+ * @typeParam TaskName - Union type of valid task names for type safety
+ * @typeParam Tasks - Payload types per task name
+ */
+export class TaskDeadlineWorkflow<
+  A,
+  TaskName extends string = string,
+  Tasks extends TaskPayloads<TaskName> = UntypedTaskPayloads<TaskName>,
+> extends AggregateWorkflowProcess<
+  TaskDeadlineElapsed<TaskName>,
+  A,
+  TaskName,
+  Tasks
+> {
+  /**
+   * @param escalate - Escalation actions of a timed-out task: `(TaskName, WorkflowState) → Action[]`
+   */
+  constructor(
+    escalate: (
+      taskName: TaskName,
+      state: WorkflowState<TaskName, Tasks>,
+    ) => readonly A[],
+  ) {
+    super(
+      (elapsed, state) =>
+        elapsed.kind === "TaskDeadlineElapsed" &&
+          state.tasks[elapsed.taskName] === "started" &&
+          state.deadlines?.[elapsed.taskName] === elapsed.deadline
+          ? [{
+            type: "TaskTimedOut",
+            taskName: elapsed.taskName,
+            deadline: elapsed.deadline,
+            timestamp: Date.now(),
+          }]
+          : [],
+      (state, event) =>
+        event.type === "TaskTimedOut" ? escalate(event.taskName, state) : [],
+      (state) =>
+        (Object.keys(state.tasks) as TaskName[])
+          .filter((taskName) => state.tasks[taskName] === "timedOut")
+          .flatMap((taskName) => escalate(taskName, state)),
+    );
+  }
+}
@@ -230,6 +230,11 @@ const orderFulfillmentWorkflow = new AggregateWorkflowProcess<
           }];
         }
         return [];
+      case "TaskFailed":
+      case "TaskCompensated":
+      case "TaskTimedOut":
+        // Failures, compensations and timeouts are not part of this workflow
+        return [];
       default:
         // Exhaustive check: this should never happen if all WorkflowEvent types are handled
         const _exhaustiveCheck: never = event;
@@ -550,8 +555,12 @@ Deno.test("Order Fulfillment Workflow - Automatic Task State Evolution", () => {
     taskStartedEvent,
   );
 
-  // Verify task state evolution (metadata is preserved in events, not state)
+  // Verify task state evolution (TaskStarted metadata is recorded in state)
   assertEquals(stateAfterStart.tasks.processPayment, "started");
+  assertEquals(
+    stateAfterStart.taskMetadata?.processPayment,
+    taskStartedEvent.metadata,
+  );
 
   const taskCompletedEvent: OrderWorkflowEvent = {
     type: "TaskCompleted",
@@ -565,8 +574,12 @@ Deno.test("Order Fulfillment Workflow - Automatic Task State Evolution", () => {
     taskCompletedEvent,
   );
 
-  // Verify task completion (metadata stays in events)
+  // Verify task completion (TaskCompleted metadata stays in events)
   assertEquals(stateAfterCompletion.tasks.processPayment, "finished");
+  assertEquals(
+    stateAfterCompletion.taskMetadata?.processPayment,
+    taskStartedEvent.metadata,
+  );
 });
 
 Deno.test("Order Fulfillment Workflow - Helper Methods Work Correctly", () => {
@@ -698,3 +711,321 @@ Deno.test("Order Fulfillment Workflow - Type-Safe Task Names", () => {
   assertEquals(typeSafeState.tasks.reserveInventory, "finished");
   assertEquals(typeSafeState.tasks.scheduleShipment, undefined);
 });
+
+// Compensation Workflow: retry a failed task, then compensate once retries are exhausted
+
+type BookingTaskName = "createOrder" | "refundReservation";
+
+type BookingResult =
+  | { type: "ReservationMade"; orderId: string }
+  | { type: "OrderCreationFailed"; orderId: string; reason: string }
+  | { type: "OrderCreated"; orderId: string }
+  | { type: "ReservationRefunded"; orderId: string };
+
+type BookingAction =
+  | { type: "CreateOrder"; orderId: string }
+  | { type: "RefundReservation"; orderId: string };
+
+const bookingWorkflow: AggregateWorkflowProcess<
+  BookingResult,
+  BookingAction,
+  BookingTaskName
+> = new AggregateWorkflowProcess<
+  BookingResult,
+  BookingAction,
+  BookingTaskName
+>(
+  (result, state) => {
+    switch (result.type) {
+      case "ReservationMade":
+        if (bookingWorkflow.isTaskStarted(state, "createOrder")) return [];
+        return [
+          bookingWorkflow.createTaskStarted("createOrder", {
+            orderId: result.orderId,
+          }),
+        ];
+      case "OrderCreationFailed": {
+        if (state.tasks.createOrder !== "started") return [];
+        const failed = bookingWorkflow.createTaskFailed(
+          "createOrder",
+          bookingWorkflow.getTaskAttempts(state, "createOrder") + 1,
+          result.reason,
+        );
+        const next = bookingWorkflow.shouldRetryTask(
+            bookingWorkflow.evolve(state, failed),
+            "createOrder",
+          )
+          ? "createOrder"
+          : "refundReservation";
+        return [
+          failed,
+          bookingWorkflow.createTaskStarted(next, { orderId: result.orderId }),
+        ];
+      }
+      case "OrderCreated":
+        if (state.tasks.createOrder !== "started") return [];
+        return [bookingWorkflow.createTaskCompleted("createOrder")];
+      case "ReservationRefunded":
+        if (state.tasks.refundReservation !== "started") return [];
+        return [
+          bookingWorkflow.createTaskCompleted("refundReservation"),
+          bookingWorkflow.createTaskCompensated("createOrder"),
+        ];
+      default:
+        const _exhaustiveCheck: never = result;
+        return [];
+    }
+  },
+  (_state, event) => {
+    if (event.type !== "TaskStarted") return [];
+    const orderId = event.metadata?.orderId as string;
+    switch (event.taskName) {
+      case "createOrder":
+        return [{ type: "CreateOrder", orderId }];
+      case "refundReservation":
+        return [{ type: "RefundReservation", orderId }];
+      default:
+        const _exhaustiveCheck: never = event;
+        return [];
+    }
+  },
+  () => [],
+  undefined,
+  { createOrder: { maxAttempts: 2 } },
+);
+
+Deno.test("Compensation Workflow - Retries a failed task, then compensates it", () => {
+  const events: WorkflowEvent<BookingTaskName>[] = [];
+  const actions: BookingAction[] = [];
+  const feed = (result: BookingResult) => {
+    const newEvents = bookingWorkflow.computeNewEvents(events, result);
+    let state = events.reduce(
+      bookingWorkflow.evolve,
+      bookingWorkflow.initialState,
+    );
+    for (const event of newEvents) {
+      state = bookingWorkflow.evolve(state, event);
+      actions.push(...bookingWorkflow.react(state, event));
+    }
+    events.push(...newEvents);
+    return state;
+  };
+
+  feed({ type: "ReservationMade", orderId: "o1" });
+
+  // First failure: retried (attempt 1 of 2)
+  let state = feed({
+    type: "OrderCreationFailed",
+    orderId: "o1",
+    reason: "kitchen offline",
+  });
+  assertEquals(state.tasks.createOrder, "started");
+  assertEquals(bookingWorkflow.getTaskAttempts(state, "createOrder"), 1);
+
+  // Second failure: retries exhausted, the reservation is refunded
+  state = feed({
+    type: "OrderCreationFailed",
+    orderId: "o1",
+    reason: "kitchen offline",
+  });
+  assertEquals(bookingWorkflow.isTaskFailed(state, "createOrder"), true);
+  assertEquals(bookingWorkflow.shouldRetryTask(state, "createOrder"), false);
+  assertEquals(bookingWorkflow.getTaskAttempts(state, "createOrder"), 2);
+  assertEquals(state.tasks.refundReservation, "started");
+
+  state = feed({ type: "ReservationRefunded", orderId: "o1" });
+  assertEquals(bookingWorkflow.isTaskCompensated(state, "createOrder"), true);
+  assertEquals(
+    bookingWorkflow.isTaskCompleted(state, "refundReservation"),
+    true,
+  );
+  assertEquals(bookingWorkflow.isTaskStarted(state, "createOrder"), true);
+
+  assertEquals(events.map((e) => e.type), [
+    "TaskStarted",
+    "TaskFailed",
+    "TaskStarted",
+    "TaskFailed",
+    "TaskStarted",
+    "TaskCompleted",
+    "TaskCompensated",
+  ]);
+  assertEquals(actions, [
+    { type: "CreateOrder", orderId: "o1" },
+    { type: "CreateOrder", orderId: "o1" },
+    { type: "RefundReservation", orderId: "o1" },
+  ]);
+});
+
+Deno.test("Compensation Workflow - Tasks without a retry policy are attempted once", () => {
+  const failed = bookingWorkflow.evolve(
+    bookingWorkflow.initialState,
+    bookingWorkflow.createTaskFailed("refundReservation", 1, "bank offline"),
+  );
+
+  assertEquals(failed.tasks.refundReservation, "failed");
+  assertEquals(
+    bookingWorkflow.shouldRetryTask(failed, "refundReservation"),
+    false,
+  );
+});
+
+Deno.test("Compensation Workflow - Retry policies survive mapping and combination", () => {
+  const mapped = bookingWorkflow.mapOnAction((a) => a.type);
+  assertEquals(mapped.retryPolicy, { createOrder: { maxAttempts: 2 } });
+
+  const other = new AggregateWorkflowProcess<
+    BookingResult,
+    BookingAction,
+    BookingTaskName
+  >(() => [], () => [], () => [], undefined, {
+    refundReservation: { maxAttempts: 3 },
+  });
+  assertEquals(bookingWorkflow.combine(other).retryPolicy, {
+    createOrder: { maxAttempts: 2 },
+    refundReservation: { maxAttempts: 3 },
+  });
+});
+
+// Shipping Workflow with typed task payloads
+// Every task declares the shape of its start metadata and completion result,
+// so react() reads them without casts and wrong shapes fail to compile
+
+type ShippingTasks = {
+  reserveStock: {
+    start: { sku: string; quantity: number };
+    result: { reservationId: string };
+  };
+  shipParcel: {
+    start: { reservationId: string; address: string };
+    result: { trackingNumber: string };
+  };
+};
+
+type ShippingTaskName = keyof ShippingTasks;
+
+type ShippingResult =
+  | { type: "OrderPaid"; sku: string; quantity: number; address: string }
+  | { type: "StockReserved"; reservationId: string; address: string }
+  | { type: "ParcelShipped"; trackingNumber: string };
+
+type ShippingAction =
+  | { type: "ReserveStock"; sku: string; quantity: number }
+  | { type: "ShipParcel"; reservationId: string; address: string };
+
+const shippingWorkflow: AggregateWorkflowProcess<
+  ShippingResult,
+  ShippingAction,
+  ShippingTaskName,
+  ShippingTasks
+> = new AggregateWorkflowProcess<
+  ShippingResult,
+  ShippingAction,
+  ShippingTaskName,
+  ShippingTasks
+>(
+  (result, state) => {
+    switch (result.type) {
+      case "OrderPaid":
+        return [
+          shippingWorkflow.createTaskStarted("reserveStock", {
+            sku: result.sku,
+            quantity: result.quantity,
+          }),
+        ];
+      case "StockReserved":
+        if (state.tasks.reserveStock !== "started") return [];
+        return [
+          shippingWorkflow.createTaskCompleted("reserveStock", {
+            reservationId: result.reservationId,
+          }),
+          shippingWorkflow.createTaskStarted("shipParcel", {
+            reservationId: result.reservationId,
+            address: result.address,
+          }),
+        ];
+      case "ParcelShipped":
+        if (state.tasks.shipParcel !== "started") return [];
+        return [
+          shippingWorkflow.createTaskCompleted("shipParcel", {
+            trackingNumber: result.trackingNumber,
+          }),
+        ];
+    }
+  },
+  (_state, event) => {
+    if (event.type !== "TaskStarted" || !event.metadata) return [];
+    switch (event.taskName) {
+      case "reserveStock":
+        return [{ type: "ReserveStock", ...event.metadata }];
+      case "shipParcel":
+        return [{ type: "ShipParcel", ...event.metadata }];
+    }
+  },
+  (state) => {
+    const metadata = state.taskMetadata?.shipParcel;
+    return state.tasks.shipParcel === "started" && metadata
+      ? [{ type: "ShipParcel", ...metadata }]
+      : [];
+  },
+);
+
+Deno.test("Typed Task Payloads - react reads the typed start metadata of each task", () => {
+  let state = shippingWorkflow.initialState;
+  const actions: ShippingAction[] = [];
+  const feed = (result: ShippingResult) => {
+    for (const event of shippingWorkflow.decide(result, state)) {
+      state = shippingWorkflow.evolve(state, event);
+      actions.push(...shippingWorkflow.react(state, event));
+    }
+  };
+
+  feed({ type: "OrderPaid", sku: "sku-1", quantity: 2, address: "Main St" });
+  feed({ type: "StockReserved", reservationId: "res-1", address: "Main St" });
+
+  assertEquals(actions, [
+    { type: "ReserveStock", sku: "sku-1", quantity: 2 },
+    { type: "ShipParcel", reservationId: "res-1", address: "Main St" },
+  ]);
+  assertEquals(state.taskMetadata?.shipParcel, {
+    reservationId: "res-1",
+    address: "Main St",
+  });
+  assertEquals(shippingWorkflow.pending(state), [
+    { type: "ShipParcel", reservationId: "res-1", address: "Main St" },
+  ]);
+});
+
+Deno.test("Typed Task Payloads - completion results are typed per task", () => {
+  const completed = shippingWorkflow.decide(
+    { type: "ParcelShipped", trackingNumber: "TRK-1" },
+    shippingWorkflow.evolve(
+      shippingWorkflow.initialState,
+      shippingWorkflow.createTaskStarted("shipParcel", {
+        reservationId: "res-1",
+        address: "Main St",
+      }),
+    ),
+  )[0];
+
+  if (
+    completed.type === "TaskCompleted" && completed.taskName === "shipParcel"
+  ) {
+    const trackingNumber: string | undefined = completed.result?.trackingNumber;
+    assertEquals(trackingNumber, "TRK-1");
+  } else {
+    throw new Error("expected shipParcel to complete");
+  }
+});
+
+Deno.test("Typed Task Payloads - payloads of the wrong shape do not compile", () => {
+  // @ts-expect-error - reserveStock requires a numeric quantity
+  shippingWorkflow.createTaskStarted("reserveStock", { sku: "sku-1" });
+  shippingWorkflow.createTaskStarted("shipParcel", {
+    reservationId: "res-1",
+    // @ts-expect-error - shipParcel metadata has no sku
+    sku: "sku-1",
+  });
+  // @ts-expect-error - reserveStock results carry a reservationId
+  shippingWorkflow.createTaskCompleted("reserveStock", { trackingNumber: "x" });
+});
@@ -0,0 +1,175 @@
+/**
+ * Catch-up projection runner with persisted checkpoints.
+ *
+ * This module provides the storage-agnostic `ProjectionRunner`, which reads the
+ * global event log in order, feeds each event through an event handler (typically
+ * an `EventHandler` backed by a materialized `IViewStateRepository`), and stores a
+ * checkpoint so that processing resumes where it left off after a restart.
+ *
+ * Storage-specific readers and checkpoint stores live in
+ * `denoKvProjectionStore.ts` and `postgresProjectionStore.ts`.
+ */
+
+import type { EventShape } from "./application.ts";
+import type { EventMetadata } from "./infrastructure.ts";
+
+/**
+ * Reads the global event log in storage order.
+ *
+ * Positions are opaque strings: the `eventId` of the last event that was read
+ * (a ULID in Deno KV, the `dcb.events.id` sequence value in PostgreSQL).
+ *
+ * @typeParam E - Event type returned by the reader
+ */
+export interface IEventStreamReader<E extends EventShape> {
+  /**
+   * Reads up to `limit` events strictly after `position`, in log order.
+   *
+   * @param position - Last processed event id, or null to read from the beginning
+   * @param limit - Maximum number of events to return
+   * @returns Events with metadata, ordered by position
+   */
+  readonly read: (
+    position: string | null,
+    limit: number,
+  ) => Promise<readonly (E & EventMetadata)[]>;
+}
+
+/**
+ * Persists the position of named projections.
+ */
+export interface ICheckpointStore {
+  /**
+   * Loads the checkpoint of a projection.
+   *
+   * @param name - Projection name
+   * @returns The last processed event id, or null if the projection never ran
+   */
+  readonly load: (name: string) => Promise<string | null>;
+
+  /**
+   * Stores the checkpoint of a projection.
+   *
+   * @param name - Projection name
+   * @param position - The last processed event id
+   */
+  readonly save: (name: string, position: string) => Promise<void>;
+
+  /**
+   * Removes the checkpoint of a projection, so it replays from the beginning.
+   *
+   * @param name - Projection name
+   */
+  readonly reset: (name: string) => Promise<void>;
+}
+
+/**
+ * Options for {@link ProjectionRunner}.
+ *
+ * @property batchSize - Number of events read from the log per batch (default: 100)
+ * @property eventKinds - Event kinds handled by the projection; other events are skipped but still advance the checkpoint (default: all)
+ */
+export interface ProjectionRunnerOptions<E extends EventShape> {
+  readonly batchSize?: number;
+  readonly eventKinds?: readonly E["kind"][];
+}
+
+/**
+ * Runs a named projection over the global event log.
+ *
+ * @remarks
+ * Each runner owns one checkpoint, identified by its `name`; several runners with
+ * different names progress independently over the same log.
+ *
+ * The checkpoint is saved after every handled event, so after a crash at most the
+ * event that was being handled is delivered again. View state repositories that
+ * record the last applied `eventId` (`DenoKvViewStateRepository`,
+ * `PostgresViewStateRepository`) turn that re-delivery into a no-op.
+ *
+ * Handler errors propagate and leave the checkpoint at the last successfully
+ * handled event.
+ *
+ * @typeParam E - Event type consumed by the projection
+ */
+export class ProjectionRunner<E extends EventShape> {
+  private readonly batchSize: number;
+  private readonly eventKinds: ReadonlySet<string> | null;
+
+  /**
+   * @param name - Projection name, used as the checkpoint key
+   * @param reader - Reader of the global event log
+   * @param checkpoints - Checkpoint store
+   * @param handler - Handler each event is fed through (e.g. `EventHandler`)
+   * @param options - Batch size and event kind filter
+   */
+  constructor(
+    private readonly name: string,
+    private readonly reader: IEventStreamReader<E>,
+    private readonly checkpoints: ICheckpointStore,
+    private readonly handler: {
+      handle: (event: E & EventMetadata) => Promise<unknown>;
+    },
+    options: ProjectionRunnerOptions<E> = {},
+  ) {
+    this.batchSize = options.batchSize ?? 100;
+    if (!Number.isInteger(this.batchSize) || this.batchSize < 1) {
+      throw new RangeError("batchSize must be a positive integer");
+    }
+    this.eventKinds = options.eventKinds ? new Set(options.eventKinds) : null;
+  }
+
+  /**
+   * Processes a single batch of events after the current checkpoint.
+   *
+   * @returns The number of events read from the log (0 when caught up)
+   */
+  async runOnce(): Promise<number> {
+    const position = await this.checkpoints.load(this.name);
+    const events = await this.reader.read(position, this.batchSize);
+
+    let saved = position;
+    for (const event of events) {
+      if (this.eventKinds === null || this.eventKinds.has(event.kind)) {
+        await this.handler.handle(event);
+        await this.checkpoints.save(this.name, event.eventId);
+        saved = event.eventId;
+      }
+    }
+
+    // Skipped events at the end of the batch still advance the checkpoint
+    const last = events.at(-1);
+    if (last !== undefined && last.eventId !== saved) {
+      await this.checkpoints.save(this.name, last.eventId);
+    }
+
+    return events.length;
+  }
+
+  /**
+   * Processes batches until the end of the log is reached.
+   *
+   * @returns The total number of events read from the log
+   */
+  async catchUp(): Promise<number> {
+    let total = 0;
+    let count: number;
+    do {
+      count = await this.runOnce();
+      total += count;
+    } while (count === this.batchSize);
+    return total;
+  }
+
+  /**
+   * Resets the checkpoint and replays the whole log.
+   *
+   * The projection's stored state is not touched: discard it first (or point the
+   * handler at an empty store), otherwise events are applied on top of it.
+   *
+   * @returns The total number of events read from the log
+   */
+  async rebuild(): Promise<number> {
+    await this.checkpoints.reset(this.name);
+    return this.catchUp();
+  }
+}
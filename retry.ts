@@ -0,0 +1,144 @@
+/**
+ * Retry policy for optimistic locking conflicts.
+ *
+ * This module provides the `RetryPolicy` shared by all repositories: how often a
+ * conflicting command is retried, how long to back off between attempts, and which
+ * errors thrown by an attempt are retried as well.
+ */
+
+/**
+ * Options of a `RetryPolicy`.
+ *
+ * @property maxAttempts - Maximum number of attempts, including the first one (default: 10)
+ * @property initialDelayMs - Backoff before the second attempt (default: 5)
+ * @property maxDelayMs - Upper bound of the backoff between attempts (default: 1000)
+ * @property multiplier - Backoff growth factor per attempt (default: 2)
+ * @property jitter - When true, each backoff is drawn uniformly from zero to its exponential value ("full jitter"). Default: true
+ * @property maxElapsedMs - Gives up instead of backing off past this time since the first attempt (default: no limit)
+ * @property retryOn - Errors thrown by an attempt that are retried like conflicts (default: none)
+ */
+export interface RetryPolicyOptions {
+  readonly maxAttempts?: number;
+  readonly initialDelayMs?: number;
+  readonly maxDelayMs?: number;
+  readonly multiplier?: number;
+  readonly jitter?: boolean;
+  readonly maxElapsedMs?: number;
+  readonly retryOn?: (error: unknown) => boolean;
+}
+
+/**
+ * Exponential backoff with jitter between attempts of a conflicting operation.
+ *
+ * @remarks
+ * Immediate retries of commands on a hot stream (a busy restaurant) collide again
+ * and again; backing off by a random, growing delay spreads them out. Repositories
+ * take a policy where they used to take `maxRetries` — a number still works and
+ * is the policy's `maxAttempts`.
+ *
+ * `retryOn` sees every error thrown by an attempt, including domain errors from
+ * the decider: match transient storage errors only.
+ *
+ * @example
+ * ```ts
+ * const retry = new RetryPolicy({
+ *   maxAttempts: 20,
+ *   initialDelayMs: 10,
+ *   maxElapsedMs: 2000,
+ *   retryOn: (error) => error instanceof RepositoryError,
+ * });
+ * const repository = new DenoKvEventRepository(kv, getQueryTuples, retry);
+ * ```
+ */
+export class RetryPolicy {
+  private readonly maxAttempts: number;
+  private readonly initialDelayMs: number;
+  private readonly maxDelayMs: number;
+  private readonly multiplier: number;
+  private readonly jitter: boolean;
+  private readonly maxElapsedMs: number;
+  private readonly retryOn: (error: unknown) => boolean;
+
+  /**
+   * @throws RangeError if `maxAttempts` is below 1 or a delay option is negative
+   */
+  constructor(options: RetryPolicyOptions = {}) {
+    this.maxAttempts = options.maxAttempts ?? 10;
+    this.initialDelayMs = options.initialDelayMs ?? 5;
+    this.maxDelayMs = options.maxDelayMs ?? 1000;
+    this.multiplier = options.multiplier ?? 2;
+    this.jitter = options.jitter ?? true;
+    this.maxElapsedMs = options.maxElapsedMs ?? Infinity;
+    this.retryOn = options.retryOn ?? (() => false);
+
+    if (!Number.isInteger(this.maxAttempts) || this.maxAttempts < 1) {
+      throw new RangeError(
+        `maxAttempts must be a positive integer, got ${this.maxAttempts}`,
+      );
+    }
+    if (
+      this.initialDelayMs < 0 || this.maxDelayMs < 0 || this.multiplier < 1 ||
+      this.maxElapsedMs < 0
+    ) {
+      throw new RangeError(
+        "Delays must not be negative and multiplier must be at least 1",
+      );
+    }
+  }
+
+  /**
+   * The policy of a repository's `maxRetries` argument.
+   */
+  static from(retry: number | RetryPolicy): RetryPolicy {
+    return retry instanceof RetryPolicy
+      ? retry
+      : new RetryPolicy({ maxAttempts: retry });
+  }
+
+  /**
+   * Backoff after the given (1-based) failed attempt.
+   */
+  delay(attempt: number): number {
+    const exponential = Math.min(
+      this.maxDelayMs,
+      this.initialDelayMs * this.multiplier ** (attempt - 1),
+    );
+    return this.jitter ? Math.random() * exponential : exponential;
+  }
+
+  /**
+   * Runs `attempt` until it returns a result, backing off after each conflict.
+   *
+   * @param attempt - One attempt, given its 1-based number; returns null on conflict
+   * @param exhausted - Creates the error thrown when the attempts are used up
+   * @returns The first non-null result
+   * @throws The `exhausted` error, or the last retried error if the final attempt threw
+   */
+  async run<T>(
+    attempt: (attempt: number) => Promise<T | null>,
+    exhausted: (attempts: number) => Error,
+  ): Promise<T> {
+    const start = Date.now();
+    for (let attempts = 1;; attempts++) {
+      let failure: unknown = null;
+      try {
+        const result = await attempt(attempts);
+        if (result !== null) return result;
+      } catch (error) {
+        if (!this.retryOn(error)) throw error;
+        failure = error;
+      }
+
+      const delay = this.delay(attempts);
+      if (
+        attempts >= this.maxAttempts ||
+        Date.now() - start + delay > this.maxElapsedMs
+      ) {
+        throw failure ?? exhausted(attempts);
+      }
+      if (delay > 0) {
+        await new Promise((resolve) => setTimeout(resolve, delay));
+      }
+    }
+  }
+}
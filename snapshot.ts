@@ -0,0 +1,113 @@
+/**
+ * Snapshots for event-sourced repositories in full-replay mode.
+ *
+ * This module provides the storage-agnostic snapshot contracts. A repository
+ * configured with `SnapshotOptions` stores the state folded from the events of a
+ * command's query tuples together with the id of the last folded event, and on the
+ * next command loads that state plus only the events appended after it.
+ *
+ * Storage-specific snapshot stores live in `denoKvSnapshotStore.ts` and
+ * `postgresSnapshotStore.ts`.
+ */
+
+import type { EventShape, QueryTuple } from "./application.ts";
+import type {
+  IEventComputation,
+  IStatefulEventComputation,
+} from "./decider.ts";
+
+/**
+ * State folded from the events of one set of query tuples.
+ *
+ * @property state - The state after the last folded event
+ * @property position - The `eventId` of the last folded event (a ULID in Deno KV,
+ * the `dcb.events.id` sequence value in PostgreSQL)
+ */
+export interface Snapshot {
+  readonly state: unknown;
+  readonly position: string;
+}
+
+/**
+ * Persists snapshots by name and query tuples key.
+ */
+export interface ISnapshotStore {
+  /**
+   * Loads a snapshot.
+   *
+   * @param name - Snapshot name (see `SnapshotOptions`)
+   * @param key - Key of the query tuples (see `snapshotKey`)
+   * @returns The stored snapshot, or null if none was taken yet
+   */
+  readonly load: (name: string, key: string) => Promise<Snapshot | null>;
+
+  /**
+   * Stores a snapshot, replacing the previous one.
+   *
+   * @param name - Snapshot name (see `SnapshotOptions`)
+   * @param key - Key of the query tuples (see `snapshotKey`)
+   * @param snapshot - The state and its position
+   */
+  readonly save: (
+    name: string,
+    key: string,
+    snapshot: Snapshot,
+  ) => Promise<void>;
+}
+
+/**
+ * Snapshot configuration of an event repository.
+ *
+ * @remarks
+ * Snapshots are used in full-replay mode (`idempotent = false`) by `execute`, when
+ * the decider is an `IStatefulEventComputation`. A new snapshot is stored whenever
+ * a command folded at least `frequency` events on top of the previous one.
+ *
+ * The name separates the snapshots of deciders that share query tuples. A stored
+ * state is only valid for the `evolve` that produced it: change the name when
+ * `evolve` or the state shape changes, and the snapshots are rebuilt from the
+ * complete event history.
+ *
+ * @property name - Snapshot name, typically the decider name plus a version
+ * @property store - Snapshot storage
+ * @property frequency - Number of newer events after which a new snapshot is stored
+ */
+export interface SnapshotOptions {
+  readonly name: string;
+  readonly store: ISnapshotStore;
+  readonly frequency: number;
+}
+
+/**
+ * Computes the key of a set of query tuples: the hex SHA-256 digest of their JSON
+ * representation. Tuple and tag order are significant.
+ *
+ * @param queryTuples - The query tuples of a command
+ * @returns A 64 character hex string
+ */
+export async function snapshotKey<Ei extends EventShape>(
+  queryTuples: QueryTuple<Ei>[],
+): Promise<string> {
+  const digest = await crypto.subtle.digest(
+    "SHA-256",
+    new TextEncoder().encode(JSON.stringify(queryTuples)),
+  );
+  return Array.from(
+    new Uint8Array(digest),
+    (byte) => byte.toString(16).padStart(2, "0"),
+  ).join("");
+}
+
+/**
+ * Checks whether an event computation exposes `decide`, `evolve` and `initialState`.
+ */
+export function isStatefulEventComputation<C, Ei, Eo>(
+  computation: IEventComputation<C, Ei, Eo>,
+): computation is IStatefulEventComputation<C, unknown, Ei, Eo> {
+  const candidate = computation as Partial<
+    IStatefulEventComputation<C, unknown, Ei, Eo>
+  >;
+  return typeof candidate.decide === "function" &&
+    typeof candidate.evolve === "function" &&
+    "initialState" in candidate;
+}
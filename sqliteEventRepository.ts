@@ -0,0 +1,659 @@
+/**
+ * Event-sourced repository and loader implementations for DCB pattern using SQLite.
+ *
+ * This module provides the SQLite counterpart of `PostgresEventRepository`: the
+ * same `events` / `event_tags` / `idempotency_keys` model as `dcb_schema.sql`,
+ * with `select_events_by_tags`, `select_last_events_by_tags` and
+ * `conditional_append` implemented as SQL statements run inside a write
+ * transaction. It suits edge services and CLI tools that need a single-file
+ * durable store without a database server or Deno KV's unstable API.
+ *
+ * Any synchronous SQLite driver can be adapted to the `SqliteDatabase`
+ * interface; `node:sqlite`'s `DatabaseSync` and `jsr:@db/sqlite`'s `Database`
+ * satisfy it out of the box.
+ */
+
+import type { IEventComputation } from "./decider.ts";
+import type {
+  CommandShape,
+  EventShape,
+  IEventLoader,
+  IEventRepository,
+  QueryTuple,
+} from "./application.ts";
+import {
+  IdempotencyConflictError,
+  IdempotencyKeyMismatchError,
+  matchesQueryTuple,
+  OptimisticLockingError,
+  optionsMetadataMapper,
+  RepositoryError,
+} from "./infrastructure.ts";
+import type {
+  CommandMetadata,
+  EventMetadata,
+  MetadataMapper,
+  RepositoryOptionsParameter,
+  StoredMetadata,
+} from "./infrastructure.ts";
+import {
+  defaultDeserializer,
+  defaultSerializer,
+  type Deserializer,
+  extractTags,
+  type Serializer,
+} from "./postgresEventRepository.ts";
+import { RetryPolicy } from "./retry.ts";
+
+// ---------------------------------------------------------------------------
+// SqliteDatabase – minimal interface for SQLite driver abstraction
+// ---------------------------------------------------------------------------
+
+/** Value bound to a SQLite statement parameter. */
+export type SqliteValue = string | number | bigint | Uint8Array | null;
+
+/** Prepared SQLite statement. */
+export interface SqliteStatement {
+  /** Runs the statement and returns all rows as objects. */
+  all(...params: SqliteValue[]): unknown[];
+  /** Runs the statement and returns the first row, if any. */
+  get(...params: SqliteValue[]): unknown;
+  /** Runs the statement, ignoring any rows. */
+  run(...params: SqliteValue[]): unknown;
+}
+
+/**
+ * Minimal SQLite database interface for the SQLite event repository.
+ *
+ * @example node:sqlite
+ * ```typescript
+ * import { DatabaseSync } from "node:sqlite";
+ * const db = new DatabaseSync("events.db");
+ * db.exec(SQLITE_DCB_SCHEMA);
+ * ```
+ *
+ * @example jsr:@db/sqlite
+ * ```typescript
+ * import { Database } from "jsr:@db/sqlite";
+ * const db = new Database("events.db");
+ * db.exec(SQLITE_DCB_SCHEMA);
+ * ```
+ */
+export interface SqliteDatabase {
+  /** Executes one or more SQL statements without parameters. */
+  exec(sql: string): unknown;
+  /** Prepares a SQL statement. */
+  prepare(sql: string): SqliteStatement;
+}
+
+// ---------------------------------------------------------------------------
+// Schema and SQL
+// ---------------------------------------------------------------------------
+
+/**
+ * DDL of the SQLite DCB store, the SQLite counterpart of `dcb_schema.sql`.
+ *
+ * SQLite has no schemas, so tables are prefixed with `dcb_`. Tags are kept both
+ * as a JSON array on the event and in `dcb_event_tags`; the stored command
+ * metadata as a JSON object in the nullable `metadata` column. Safe to run on
+ * every start-up. Databases created without the `metadata` column are upgraded
+ * with `ALTER TABLE dcb_events ADD COLUMN metadata TEXT`.
+ */
+export const SQLITE_DCB_SCHEMA = `
+CREATE TABLE IF NOT EXISTS dcb_events (
+    id              INTEGER PRIMARY KEY AUTOINCREMENT,
+    type            TEXT    NOT NULL,
+    data            BLOB,
+    tags            TEXT    NOT NULL,
+    metadata        TEXT,
+    idempotency_key TEXT    NOT NULL,
+    created_at      INTEGER NOT NULL
+);
+
+CREATE TABLE IF NOT EXISTS dcb_idempotency_keys (
+    idempotency_key TEXT    PRIMARY KEY,
+    command_kind    TEXT    NOT NULL,
+    created_at      INTEGER NOT NULL
+);
+
+CREATE TABLE IF NOT EXISTS dcb_event_tags (
+    tag     TEXT    NOT NULL,
+    main_id INTEGER NOT NULL REFERENCES dcb_events(id),
+    PRIMARY KEY (tag, main_id)
+) WITHOUT ROWID;
+
+CREATE INDEX IF NOT EXISTS dcb_events_type_id_idx
+    ON dcb_events (type, id);
+
+CREATE INDEX IF NOT EXISTS dcb_events_idempotency_key_idx
+    ON dcb_events (idempotency_key);
+`;
+
+/**
+ * Ids of events matching the query items (`?1`, a JSON array of
+ * `{ type, tags }`) with an id greater than `?2`, with the index of the
+ * matched query item. Same matching as `dcb.select_events_by_tags`: every tag
+ * of the item must be present and the type must match.
+ */
+const MATCHING_IDS_CTE = `
+WITH query_items AS (
+    SELECT q.key                                    AS ordinality,
+           json_extract(q.value, '$.type')          AS type,
+           json_array_length(q.value, '$.tags')     AS required_tag_count,
+           q.value                                  AS item
+      FROM json_each(?1) AS q
+),
+initial_matches AS (
+    SELECT t.main_id, qi.ordinality, t.tag, qi.required_tag_count, qi.type
+      FROM query_items qi
+      JOIN json_each(qi.item, '$.tags') AS rt
+      JOIN dcb_event_tags t ON t.tag = rt.value
+     WHERE t.main_id > ?2
+),
+qualified_ids AS (
+    SELECT main_id, ordinality, type
+      FROM initial_matches
+     GROUP BY main_id, ordinality
+    HAVING COUNT(DISTINCT tag) = MAX(required_tag_count)
+),
+filtered_ids AS (
+    SELECT e.id, q.ordinality
+      FROM dcb_events e
+      JOIN qualified_ids q ON q.main_id = e.id AND e.type = q.type
+)`;
+
+/** SQLite counterpart of `dcb.select_events_by_tags`. */
+const SELECT_EVENTS_BY_TAGS = `${MATCHING_IDS_CTE}
+SELECT id, data, metadata, idempotency_key, created_at
+  FROM dcb_events
+ WHERE id IN (SELECT id FROM filtered_ids)
+ ORDER BY id ASC`;
+
+/** SQLite counterpart of `dcb.select_last_events_by_tags`. */
+const SELECT_LAST_EVENTS_BY_TAGS = `${MATCHING_IDS_CTE}
+SELECT id, data, metadata, idempotency_key, created_at
+  FROM dcb_events
+ WHERE id IN (SELECT MAX(id) FROM filtered_ids GROUP BY ordinality)
+ ORDER BY id ASC`;
+
+/** Conflict check of `dcb.conditional_append`. */
+const SELECT_CONFLICT = `${MATCHING_IDS_CTE}
+SELECT EXISTS (SELECT 1 FROM filtered_ids) AS conflict`;
+
+/** Row shape returned by the event selects. */
+interface EventRow {
+  readonly id: number | bigint;
+  readonly data: Uint8Array;
+  readonly metadata: string | null;
+  readonly idempotency_key: string;
+  readonly created_at: number | bigint;
+}
+
+/**
+ * Converts `QueryTuple[]` into the JSON query items bound to `?1`.
+ *
+ * @example
+ * ```
+ * mapQueryTuplesToJson([["restaurantId:r1", "RestaurantCreatedEvent"]])
+ * // → '[{"type":"RestaurantCreatedEvent","tags":["restaurantId:r1"]}]'
+ * ```
+ */
+export function mapQueryTuplesToJson<Ei extends EventShape>(
+  queryTuples: QueryTuple<Ei>[],
+): string {
+  return JSON.stringify(
+    queryTuples.map((tuple) => ({
+      type: tuple[tuple.length - 1],
+      tags: tuple.slice(0, -1),
+    })),
+  );
+}
+
+/**
+ * Selects events matching the query tuples, in id order.
+ */
+function selectEvents<Ei extends EventShape>(
+  db: SqliteDatabase,
+  queryTuples: QueryTuple<Ei>[],
+  idempotent: boolean,
+): EventRow[] {
+  return db
+    .prepare(idempotent ? SELECT_LAST_EVENTS_BY_TAGS : SELECT_EVENTS_BY_TAGS)
+    .all(mapQueryTuplesToJson(queryTuples), 0) as EventRow[];
+}
+
+// ---------------------------------------------------------------------------
+// SqliteEventRepository
+// ---------------------------------------------------------------------------
+
+/**
+ * Options of `SqliteEventRepository`.
+ *
+ * @property metadata - Maps command metadata to the metadata stored in `dcb_events.metadata`, and back to `EM` on load (see `MetadataMapper`). Default: `traceMetadataMapper`
+ */
+export interface SqliteEventRepositoryOptions<
+  CM extends CommandMetadata = CommandMetadata,
+  EM extends EventMetadata = EventMetadata,
+> {
+  readonly metadata?: MetadataMapper<CM, EM>;
+}
+
+/**
+ * Generic event-sourced repository implementation using SQLite.
+ *
+ * Mirrors `PostgresEventRepository`:
+ * - Events are loaded with the SQLite counterparts of `dcb.select_events_by_tags`
+ *   (full-replay mode) and `dcb.select_last_events_by_tags` (idempotent mode).
+ * - Optimistic locking uses an integer `after_id` (the max event id at load time).
+ * - Appends run in a `BEGIN IMMEDIATE` transaction that takes the database write
+ *   lock, checks for conflicting events after `after_id`, records the idempotency
+ *   key and inserts events with their tags — the `dcb.conditional_append` steps.
+ *
+ * The schema must be created with {@link SQLITE_DCB_SCHEMA} first.
+ *
+ * The `metadata` mapper picks the command metadata stored in
+ * `dcb_events.metadata` and restores `EM` from it on load (see `MetadataMapper`).
+ *
+ * @typeParam C - Command type (must conform to CommandShape)
+ * @typeParam Ei - Input event type (consumed by decider, must conform to EventShape)
+ * @typeParam Eo - Output event type (produced by decider, must conform to EventShape)
+ * @typeParam CM - Command metadata type (default: `CommandMetadata`)
+ * @typeParam EM - Event metadata type, restored by the `metadata` mapper (default: `EventMetadata`)
+ */
+export class SqliteEventRepository<
+  C extends CommandShape,
+  Ei extends EventShape,
+  Eo extends EventShape,
+  CM extends CommandMetadata = CommandMetadata,
+  EM extends EventMetadata = EventMetadata,
+> implements IEventRepository<C, Ei, Eo, CM, EM> {
+  private readonly retryPolicy: RetryPolicy;
+  private readonly metadata: MetadataMapper<CM, EM>;
+
+  /**
+   * @param db - SQLite database with the {@link SQLITE_DCB_SCHEMA} applied
+   * @param getQueryTuples - Returns array of query tuples to load for this command
+   * @param maxRetries - Maximum optimistic locking attempts, or a `RetryPolicy` with backoff between them (default: 10)
+   * @param idempotent - When true, loads only the latest event per query tuple. When false, loads all matching events. Default: true
+   * @param serializer - Serializer of stored events (default: JSON)
+   * @param deserializer - Deserializer of stored events (default: JSON)
+   * @param options - Metadata mapping (see `SqliteEventRepositoryOptions`); required with custom `CM`/`EM`, for their `metadata` mapper
+   */
+  constructor(
+    private readonly db: SqliteDatabase,
+    private readonly getQueryTuples: (command: C) => QueryTuple<Ei>[],
+    maxRetries: number | RetryPolicy = 10,
+    private readonly idempotent: boolean = true,
+    private readonly serializer: Serializer<Eo> =
+      defaultSerializer as Serializer<Eo>,
+    private readonly deserializer: Deserializer<Ei & Eo> =
+      defaultDeserializer as Deserializer<Ei & Eo>,
+    ...[options]: RepositoryOptionsParameter<
+      SqliteEventRepositoryOptions<CM, EM>,
+      CM,
+      EM
+    >
+  ) {
+    this.retryPolicy = RetryPolicy.from(maxRetries);
+    this.metadata = optionsMetadataMapper(options);
+  }
+
+  /**
+   * Loads events matching the given query tuples.
+   *
+   * Uses the `select_last_events_by_tags` query in idempotent mode or
+   * `select_events_by_tags` in full-replay mode.
+   */
+  load(queryTuples: QueryTuple<Ei>[]): Promise<readonly Ei[]> {
+    try {
+      return Promise.resolve(this.loadEvents(queryTuples).events);
+    } catch (error) {
+      return Promise.reject(error);
+    }
+  }
+
+  /**
+   * Loads events matching the given query tuples together with their event
+   * metadata, restored from `dcb_events` by the metadata mapper.
+   */
+  loadWithMetadata(
+    queryTuples: QueryTuple<Ei>[],
+  ): Promise<readonly (Ei & EM)[]> {
+    try {
+      const rows = selectEvents(this.db, queryTuples, this.idempotent);
+      return Promise.resolve(rows.map((row) => ({
+        ...this.deserializer(row.data),
+        ...this.restoreMetadata(row),
+      })));
+    } catch (error) {
+      return Promise.reject(new RepositoryError("load", error as Error));
+    }
+  }
+
+  /**
+   * Executes a command by loading events, computing new events via the decider,
+   * and persisting them with optimistic locking via the conditional append.
+   *
+   * Implements idempotency circuit-break:
+   * 1. Check if idempotencyKey already exists — if so, return existing events
+   * 2. Load events with query tuples
+   * 3. Compute new events using decider
+   * 4. Persist with idempotencyKey
+   * 5. Retry on conflict (optimistic lock or idempotency race), backing off as
+   *    configured by the retry policy
+   */
+  execute(
+    command: C & CM,
+    decider: IEventComputation<C, Ei, Eo>,
+  ): Promise<readonly (Eo & EM)[]> {
+    return this.executeCommands([command], decider);
+  }
+
+  /**
+   * Executes a batch of commands: load once using first command's tuples,
+   * process each command sequentially with accumulated event propagation,
+   * single conditional append for all events.
+   *
+   * The single `idempotencyKey` from the first command's metadata deduplicates
+   * the entire batch as one logical operation.
+   */
+  executeBatch(
+    commands: readonly (C & CM)[],
+    decider: IEventComputation<C, Ei, Eo>,
+  ): Promise<readonly (Eo & EM)[]> {
+    if (commands.length === 0) return Promise.resolve([]);
+    return this.executeCommands(commands, decider);
+  }
+
+  // -------------------------------------------------------------------------
+  // Private helpers
+  // -------------------------------------------------------------------------
+
+  /**
+   * Shared load-decide-append cycle for `execute` and `executeBatch`.
+   */
+  private executeCommands(
+    commands: readonly (C & CM)[],
+    decider: IEventComputation<C, Ei, Eo>,
+  ): Promise<readonly (Eo & EM)[]> {
+    // Use the idempotencyKey from the first command for the entire batch
+    const { idempotencyKey, kind: commandKind } = commands[0];
+
+    // Errors thrown by an attempt reject the returned promise
+    return this.retryPolicy.run(() => {
+      // Step 1: Idempotency check — circuit-break if key already used
+      const existing = this.loadEventsByIdempotencyKey(idempotencyKey);
+      if (existing !== null) {
+        if (existing.commandKind !== commandKind) {
+          throw new IdempotencyKeyMismatchError(
+            idempotencyKey,
+            commandKind,
+            existing.commandKind,
+          );
+        }
+        return Promise.resolve(existing.events);
+      }
+
+      // Step 2: Load events using first command's tuples
+      const firstQueryTuples = this.getQueryTuples(commands[0]);
+      const { events: initialEvents, afterId } = this.loadEvents(
+        firstQueryTuples,
+      );
+
+      // Collect all query tuples for the conditional append conflict check
+      const allQueryTuples = [...firstQueryTuples];
+      const accumulatedEvents: Eo[] = [];
+
+      // Step 3: Decider errors propagate directly — never wrapped
+      for (let i = 0; i < commands.length; i++) {
+        const command = commands[i];
+        let eventsForCommand: readonly Ei[] = initialEvents;
+
+        if (i > 0) {
+          const queryTuples = this.getQueryTuples(command);
+          allQueryTuples.push(...queryTuples);
+          const matchingAccumulated = accumulatedEvents.filter((event) =>
+            queryTuples.some((tuple) => matchesQueryTuple<Eo, Ei>(event, tuple))
+          );
+          eventsForCommand = [
+            ...initialEvents,
+            ...matchingAccumulated as unknown as Ei[],
+          ];
+        }
+
+        accumulatedEvents.push(
+          ...decider.computeNewEvents(eventsForCommand, command),
+        );
+      }
+
+      if (accumulatedEvents.length === 0) return Promise.resolve([]);
+
+      // Step 4: Persist all events with idempotencyKey
+      try {
+        // null → optimistic locking conflict, retry
+        return Promise.resolve(this.persistEvents(
+          accumulatedEvents,
+          allQueryTuples,
+          afterId,
+          idempotencyKey,
+          commandKind,
+          this.metadata.toStored(commands[0]),
+        ));
+      } catch (error) {
+        if (error instanceof IdempotencyConflictError) {
+          // Race condition: another connection persisted with same key
+          // Retry — next attempt's idempotency check will find existing events
+          return Promise.resolve(null);
+        }
+        throw error;
+      }
+    }, (attempts) =>
+      OptimisticLockingError.forQueryTuples(
+        attempts,
+        commands.flatMap((command) => this.getQueryTuples(command)),
+      ));
+  }
+
+  /**
+   * Loads events and determines the `after_id` for optimistic locking.
+   */
+  private loadEvents(
+    queryTuples: QueryTuple<Ei>[],
+  ): { events: readonly Ei[]; afterId: number | bigint } {
+    try {
+      const rows = selectEvents(this.db, queryTuples, this.idempotent);
+
+      // Determine after_id: max id from loaded events, or the current max id
+      const afterId = rows.length > 0
+        ? rows[rows.length - 1].id
+        : (this.db.prepare(
+          `SELECT COALESCE(MAX(id), 0) AS max_id FROM dcb_events`,
+        ).get() as { max_id: number | bigint }).max_id;
+
+      return {
+        events: rows.map((row) => this.deserializer(row.data)),
+        afterId,
+      };
+    } catch (error) {
+      throw new RepositoryError("load", error as Error);
+    }
+  }
+
+  /**
+   * Loads the events and command kind of an idempotency key, or null if the key is unused.
+   */
+  private loadEventsByIdempotencyKey(
+    idempotencyKey: string,
+  ): {
+    events: readonly (Eo & EM)[];
+    commandKind: string;
+  } | null {
+    try {
+      const key = this.db.prepare(
+        `SELECT command_kind FROM dcb_idempotency_keys WHERE idempotency_key = ?`,
+      ).get(idempotencyKey) as { command_kind: string } | undefined;
+
+      if (key === undefined) return null;
+
+      const rows = this.db.prepare(
+        `SELECT id, data, metadata, idempotency_key, created_at FROM dcb_events WHERE idempotency_key = ? ORDER BY id ASC`,
+      ).all(idempotencyKey) as EventRow[];
+
+      return {
+        events: rows.map((row) => ({
+          ...this.deserializer(row.data) as Eo,
+          ...this.restoreMetadata(row),
+        })),
+        commandKind: key.command_kind,
+      };
+    } catch (error) {
+      throw new RepositoryError("load", error as Error);
+    }
+  }
+
+  /**
+   * Restores the event metadata of an event row with the metadata mapper.
+   */
+  private restoreMetadata(row: EventRow): EM {
+    return this.metadata.fromStored(
+      toEventMetadata(row),
+      row.metadata === null ? {} : JSON.parse(row.metadata),
+    );
+  }
+
+  /**
+   * Persists events with the `dcb.conditional_append` steps in one write
+   * transaction, storing the command's metadata in `dcb_events.metadata`
+   * (NULL when empty). Returns null on conflict.
+   * Throws IdempotencyConflictError on a PK violation on `dcb_idempotency_keys`.
+   */
+  private persistEvents(
+    events: readonly Eo[],
+    queryTuples: QueryTuple<Ei>[],
+    afterId: number | bigint,
+    idempotencyKey: string,
+    commandKind: string,
+    metadata: StoredMetadata,
+  ): readonly (Eo & EM)[] | null {
+    try {
+      // Takes the write lock, serializing appends like LOCK TABLE ... EXCLUSIVE
+      this.db.exec("BEGIN IMMEDIATE");
+      try {
+        const { conflict } = this.db.prepare(SELECT_CONFLICT).get(
+          mapQueryTuplesToJson(queryTuples),
+          afterId,
+        ) as { conflict: number };
+        if (conflict) {
+          this.db.exec("ROLLBACK");
+          return null;
+        }
+
+        const timestamp = Date.now();
+        const stored = Object.keys(metadata).length > 0
+          ? JSON.stringify(metadata)
+          : null;
+        this.db.prepare(
+          `INSERT INTO dcb_idempotency_keys (idempotency_key, command_kind, created_at) VALUES (?, ?, ?)`,
+        ).run(idempotencyKey, commandKind, timestamp);
+
+        const insertEvent = this.db.prepare(
+          `INSERT INTO dcb_events (type, data, tags, metadata, idempotency_key, created_at) VALUES (?, ?, ?, ?, ?, ?) RETURNING id`,
+        );
+        const insertTag = this.db.prepare(
+          `INSERT INTO dcb_event_tags (tag, main_id) VALUES (?, ?)`,
+        );
+
+        const persisted = events.map((event) => {
+          const tags = extractTags(event);
+          const { id } = insertEvent.get(
+            event.kind,
+            this.serializer(event),
+            JSON.stringify(tags),
+            stored,
+            idempotencyKey,
+            timestamp,
+          ) as { id: number | bigint };
+          for (const tag of new Set(tags)) insertTag.run(tag, id);
+          return {
+            ...event,
+            ...this.metadata.fromStored(
+              toEventMetadata({
+                id,
+                idempotency_key: idempotencyKey,
+                created_at: timestamp,
+              }),
+              metadata,
+            ),
+          };
+        });
+
+        this.db.exec("COMMIT");
+        return persisted;
+      } catch (error) {
+        this.db.exec("ROLLBACK");
+        throw error;
+      }
+    } catch (error) {
+      if ((error as Error).message?.includes("dcb_idempotency_keys")) {
+        throw new IdempotencyConflictError(idempotencyKey);
+      }
+      throw new RepositoryError("persist", error as Error);
+    }
+  }
+}
+
+// ---------------------------------------------------------------------------
+// SqliteEventLoader
+// ---------------------------------------------------------------------------
+
+/**
+ * Standalone SQLite event loader implementing `IEventLoader`.
+ *
+ * Provides read-only event loading by query tuples without the
+ * decide-persist cycle of the full repository. Useful for on-demand
+ * projections via `EventSourcedQueryHandler`.
+ *
+ * @typeParam Ei - Event type to load
+ */
+export class SqliteEventLoader<Ei extends EventShape>
+  implements IEventLoader<Ei> {
+  constructor(
+    private readonly db: SqliteDatabase,
+    private readonly deserializer: Deserializer<Ei> =
+      defaultDeserializer as Deserializer<Ei>,
+    private readonly idempotent: boolean = true,
+  ) {}
+
+  /**
+   * Loads events matching the given query tuples.
+   *
+   * Uses the `select_last_events_by_tags` query in idempotent mode or
+   * `select_events_by_tags` in full-replay mode.
+   */
+  load(queryTuples: QueryTuple<Ei>[]): Promise<readonly Ei[]> {
+    try {
+      return Promise.resolve(
+        selectEvents(this.db, queryTuples, this.idempotent).map((row) =>
+          this.deserializer(row.data)
+        ),
+      );
+    } catch (error) {
+      return Promise.reject(new RepositoryError("load", error as Error));
+    }
+  }
+}
+
+/**
+ * Builds `EventMetadata` from an event row. The row id is both the event id
+ * and the versionstamp, as in PostgreSQL.
+ */
+function toEventMetadata(
+  row: Pick<EventRow, "id" | "idempotency_key" | "created_at">,
+): EventMetadata {
+  return {
+    eventId: String(row.id),
+    timestamp: Number(row.created_at),
+    versionstamp: String(row.id),
+    idempotencyKey: row.idempotency_key,
+  };
+}
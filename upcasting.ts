@@ -0,0 +1,114 @@
+/**
+ * Event schema versioning and upcasting.
+ *
+ * This module provides the storage-agnostic `UpcasterRegistry`. Events are stored
+ * in a versioned envelope — the event with a `schemaVersion` field — and upcasters
+ * registered per event `kind` and version migrate older stored events, step by
+ * step, to the current shape when they are loaded. Stored data is never rewritten.
+ *
+ * `DenoKvEventRepository` and `DenoKvEventLoader` take the registry directly;
+ * PostgreSQL and SQLite repositories take `versionedSerializer` and
+ * `upcastingDeserializer` (see `postgresEventRepository.ts`).
+ */
+
+import type { EventShape } from "./application.ts";
+
+/**
+ * A stored event: the event plus the schema version it was written with.
+ * Events stored without a `schemaVersion` are version 1.
+ *
+ * @typeParam E - Event type
+ */
+export type VersionedEvent<E> = E & { readonly schemaVersion: number };
+
+/**
+ * Migrates a stored event of one schema version to the next version.
+ *
+ * Receives the stored event without its `schemaVersion` and returns the event in
+ * the next version's shape, keeping its `kind`.
+ */
+export type Upcaster = (
+  event: Readonly<Record<string, unknown>>,
+) => Record<string, unknown>;
+
+/**
+ * Registry of upcasters keyed by event `kind` and schema version.
+ *
+ * @remarks
+ * The upcasters of a kind form a chain: the one registered from version 1 migrates
+ * to version 2, the one from version 2 to version 3, and so on. The current
+ * version of a kind is one past its last upcaster (1 without upcasters); new
+ * events are stamped with it when stored.
+ *
+ * @example
+ * ```ts
+ * const upcasters = new UpcasterRegistry()
+ *   .register("RestaurantMenuChangedEvent", 1, ({ restaurantMenu, ...event }) => ({
+ *     ...event,
+ *     menu: restaurantMenu,
+ *   }));
+ * ```
+ */
+export class UpcasterRegistry {
+  private readonly upcasters = new Map<string, Upcaster[]>();
+
+  /**
+   * Registers the upcaster migrating events of `kind` from `fromVersion` to
+   * `fromVersion + 1`. Upcasters of a kind are registered in version order.
+   *
+   * @returns This registry, for chaining
+   * @throws RangeError if `fromVersion` is not the current version of `kind`
+   */
+  register(kind: string, fromVersion: number, upcaster: Upcaster): this {
+    const chain = this.upcasters.get(kind) ?? [];
+    if (fromVersion !== chain.length + 1) {
+      throw new RangeError(
+        `Upcaster for ${kind} must migrate from version ${
+          chain.length + 1
+        }, got ${fromVersion}`,
+      );
+    }
+    this.upcasters.set(kind, [...chain, upcaster]);
+    return this;
+  }
+
+  /**
+   * The schema version new events of `kind` are stored with.
+   */
+  currentVersion(kind: string): number {
+    return (this.upcasters.get(kind)?.length ?? 0) + 1;
+  }
+
+  /**
+   * Wraps an event in its versioned envelope for storage.
+   */
+  stamp<E extends EventShape>(event: E): VersionedEvent<E> {
+    return { ...event, schemaVersion: this.currentVersion(event.kind) };
+  }
+
+  /**
+   * Unwraps a stored event, applying the upcasters from its schema version to
+   * the current version.
+   *
+   * @param stored - The event as stored, with or without `schemaVersion`
+   * @returns The event in the current shape, without `schemaVersion`
+   * @throws RangeError if the event was stored with a newer version than registered
+   */
+  upcast<E extends EventShape>(stored: unknown): E {
+    const { schemaVersion = 1, ...event } = stored as Partial<
+      VersionedEvent<EventShape>
+    >;
+    const chain = this.upcasters.get(event.kind as string) ?? [];
+    if (schemaVersion > chain.length + 1) {
+      throw new RangeError(
+        `${event.kind} version ${schemaVersion} is newer than the registered version ${
+          chain.length + 1
+        }`,
+      );
+    }
+    return chain.slice(schemaVersion - 1).reduce<Record<string, unknown>>(
+      (current, upcaster) => upcaster(current),
+      event,
+    ) as unknown as E;
+  }
+}